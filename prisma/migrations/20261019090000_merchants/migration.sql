@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE `orders` MODIFY `order_status` ENUM('created', 'confirmed', 'preparing', 'ready', 'delivering', 'completed', 'cancelled') NOT NULL DEFAULT 'created';
+
+-- AlterTable
+ALTER TABLE `order_status_logs` MODIFY `new_status` ENUM('created', 'confirmed', 'preparing', 'ready', 'delivering', 'completed', 'cancelled') NOT NULL;
+
+-- CreateTable
+CREATE TABLE `merchants` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `restaurant_id` INTEGER NOT NULL,
+    `username` VARCHAR(50) NOT NULL,
+    `password` VARCHAR(255) NOT NULL,
+    `contact_name` VARCHAR(50) NULL,
+    `phone` VARCHAR(20) NULL,
+    `status` BOOLEAN NOT NULL DEFAULT true,
+    `last_login_at` DATETIME(0) NULL,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `updated_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `deleted_at` DATETIME(0) NULL,
+
+    UNIQUE INDEX `uk_username`(`username`),
+    INDEX `idx_restaurant_id`(`restaurant_id`),
+    INDEX `idx_status`(`status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `merchants` ADD CONSTRAINT `merchants_restaurants_FK` FOREIGN KEY (`restaurant_id`) REFERENCES `restaurants`(`id`) ON DELETE NO ACTION ON UPDATE NO ACTION;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE `riders` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `name` VARCHAR(50) NOT NULL,
+    `phone` VARCHAR(20) NOT NULL,
+    `password` VARCHAR(255) NOT NULL,
+    `avatar` VARCHAR(255) NULL,
+    `status` BOOLEAN NOT NULL DEFAULT true,
+    `last_login_at` DATETIME(0) NULL,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `updated_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `deleted_at` DATETIME(0) NULL,
+
+    UNIQUE INDEX `uk_phone`(`phone`),
+    INDEX `idx_status`(`status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `delivery_info` ADD CONSTRAINT `delivery_info_orders_FK` FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON DELETE NO ACTION ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE `delivery_info` ADD CONSTRAINT `delivery_info_riders_FK` FOREIGN KEY (`delivery_user_id`) REFERENCES `riders`(`id`) ON DELETE NO ACTION ON UPDATE NO ACTION;
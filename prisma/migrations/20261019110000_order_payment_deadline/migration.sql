@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE `restaurants` ADD COLUMN `payment_timeout_minutes` INTEGER NULL;
+
+-- AlterTable
+ALTER TABLE `orders` ADD COLUMN `payment_deadline` DATETIME(0) NULL;
+
+-- CreateIndex
+CREATE INDEX `idx_status_payment_deadline` ON `orders`(`order_status`, `payment_deadline`);
+
+-- 为存量待支付订单补充支付截止时间
+UPDATE `orders`
+SET `payment_deadline` = DATE_ADD(`created_at`, INTERVAL 15 MINUTE)
+WHERE `order_status` = 'created' AND `payment_deadline` IS NULL;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE `idempotency_keys` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `user_id` INTEGER NOT NULL,
+    `scope` VARCHAR(100) NOT NULL,
+    `idempotency_key` VARCHAR(64) NOT NULL,
+    `request_hash` CHAR(64) NOT NULL,
+    `status` ENUM('processing', 'completed') NOT NULL DEFAULT 'processing',
+    `response_code` INTEGER NULL,
+    `response_body` JSON NULL,
+    `expires_at` DATETIME(0) NOT NULL,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `updated_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    UNIQUE INDEX `uk_user_scope_key`(`user_id`, `scope`, `idempotency_key`),
+    INDEX `idx_expires_at`(`expires_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
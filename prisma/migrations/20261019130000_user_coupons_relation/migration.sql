@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX `idx_order_id` ON `user_coupons`(`order_id`);
+
+-- AddForeignKey
+ALTER TABLE `user_coupons` ADD CONSTRAINT `user_coupons_coupons_FK` FOREIGN KEY (`coupon_id`) REFERENCES `coupons`(`id`) ON DELETE NO ACTION ON UPDATE NO ACTION;
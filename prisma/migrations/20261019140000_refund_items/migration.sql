@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE `refund_items` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `refund_record_id` INTEGER NOT NULL,
+    `order_item_id` INTEGER NOT NULL,
+    `quantity` INTEGER NOT NULL,
+    `refund_amount` DECIMAL(10, 2) NOT NULL,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    INDEX `idx_refund_record_id`(`refund_record_id`),
+    INDEX `idx_order_item_id`(`order_item_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `idx_payment_record_id` ON `refund_records`(`payment_record_id`);
+
+-- AddForeignKey
+ALTER TABLE `refund_items` ADD CONSTRAINT `refund_items_refund_records_FK` FOREIGN KEY (`refund_record_id`) REFERENCES `refund_records`(`id`) ON DELETE NO ACTION ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE `refund_items` ADD CONSTRAINT `refund_items_order_items_FK` FOREIGN KEY (`order_item_id`) REFERENCES `order_items`(`id`) ON DELETE NO ACTION ON UPDATE NO ACTION;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE `order_status_logs` MODIFY `operator_type` ENUM('user', 'merchant', 'delivery', 'system', 'admin') NULL DEFAULT 'system';
+
+-- AlterTable
+ALTER TABLE `refund_records` MODIFY `processor_type` ENUM('user', 'merchant', 'system', 'admin') NULL DEFAULT 'system';
+
+-- CreateTable
+CREATE TABLE `admins` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `username` VARCHAR(50) NOT NULL,
+    `password` VARCHAR(255) NOT NULL,
+    `name` VARCHAR(50) NULL,
+    `status` BOOLEAN NOT NULL DEFAULT true,
+    `last_login_at` DATETIME(0) NULL,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `updated_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `deleted_at` DATETIME(0) NULL,
+
+    UNIQUE INDEX `uk_username`(`username`),
+    INDEX `idx_status`(`status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `idx_status_created_at` ON `refund_records`(`refund_status`, `created_at`);
+
+-- AddForeignKey
+ALTER TABLE `refund_records` ADD CONSTRAINT `refund_records_orders_FK` FOREIGN KEY (`order_id`) REFERENCES `orders`(`id`) ON DELETE NO ACTION ON UPDATE NO ACTION;
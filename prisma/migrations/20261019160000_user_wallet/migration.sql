@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE `user_balance` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `user_id` INTEGER NOT NULL,
+    `balance` DECIMAL(12, 2) NOT NULL DEFAULT 0.00,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `updated_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    UNIQUE INDEX `uk_user_id`(`user_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `balance_transactions` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `user_id` INTEGER NOT NULL,
+    `type` ENUM('recharge', 'consume', 'refund', 'withdrawal') NOT NULL,
+    `amount` DECIMAL(12, 2) NOT NULL,
+    `balance_before` DECIMAL(12, 2) NOT NULL,
+    `balance_after` DECIMAL(12, 2) NOT NULL,
+    `description` VARCHAR(255) NULL,
+    `related_id` INTEGER NULL,
+    `related_type` VARCHAR(50) NULL,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    INDEX `idx_user_id_created_at`(`user_id`, `created_at`),
+    INDEX `idx_related`(`related_type`, `related_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `user_balance` ADD CONSTRAINT `user_balance_users_FK` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE NO ACTION ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE `balance_transactions` ADD CONSTRAINT `balance_transactions_users_FK` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE NO ACTION ON UPDATE NO ACTION;
@@ -0,0 +1,58 @@
+-- AlterTable
+ALTER TABLE `user_balance` ADD COLUMN `frozen_balance` DECIMAL(12, 2) NOT NULL DEFAULT 0.00,
+    ADD COLUMN `total_recharge` DECIMAL(12, 2) NOT NULL DEFAULT 0.00,
+    ADD COLUMN `total_consume` DECIMAL(12, 2) NOT NULL DEFAULT 0.00;
+
+-- AlterTable
+ALTER TABLE `balance_transactions` MODIFY `type` ENUM('recharge', 'consume', 'refund', 'withdrawal', 'freeze', 'unfreeze', 'admin_credit', 'admin_debit') NOT NULL;
+
+-- CreateTable
+CREATE TABLE `balance_holds` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `user_id` INTEGER NOT NULL,
+    `order_id` INTEGER NOT NULL,
+    `amount` DECIMAL(12, 2) NOT NULL,
+    `status` ENUM('held', 'captured', 'released') NOT NULL DEFAULT 'held',
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `updated_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    UNIQUE INDEX `uk_order_id`(`order_id`),
+    INDEX `idx_user_id`(`user_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `recharge_orders` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `recharge_number` VARCHAR(32) NOT NULL,
+    `user_id` INTEGER NOT NULL,
+    `amount` DECIMAL(12, 2) NOT NULL,
+    `payment_method` ENUM('wechat', 'alipay', 'balance') NOT NULL,
+    `transaction_id` VARCHAR(100) NOT NULL,
+    `status` ENUM('pending', 'processing', 'success', 'failed') NOT NULL DEFAULT 'pending',
+    `failure_reason` VARCHAR(255) NULL,
+    `paid_at` DATETIME(0) NULL,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `updated_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    UNIQUE INDEX `uk_recharge_number`(`recharge_number`),
+    UNIQUE INDEX `uk_transaction_id`(`transaction_id`),
+    INDEX `idx_user_id_created_at`(`user_id`, `created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `wallet_adjustments` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `user_id` INTEGER NOT NULL,
+    `admin_id` INTEGER NOT NULL,
+    `direction` ENUM('credit', 'debit') NOT NULL,
+    `amount` DECIMAL(12, 2) NOT NULL,
+    `reason` VARCHAR(255) NOT NULL,
+    `balance_transaction_id` INTEGER NULL,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    INDEX `idx_user_id`(`user_id`),
+    INDEX `idx_admin_id`(`admin_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE `reconciliations` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `payment_method` ENUM('wechat', 'alipay', 'balance') NOT NULL,
+    `bill_date` DATE NOT NULL,
+    `file_name` VARCHAR(255) NOT NULL,
+    `source` ENUM('upload', 'job') NOT NULL DEFAULT 'upload',
+    `status` ENUM('balanced', 'unresolved', 'resolved') NOT NULL,
+    `remote_count` INTEGER NOT NULL DEFAULT 0,
+    `local_count` INTEGER NOT NULL DEFAULT 0,
+    `matched_count` INTEGER NOT NULL DEFAULT 0,
+    `missing_local_count` INTEGER NOT NULL DEFAULT 0,
+    `missing_remote_count` INTEGER NOT NULL DEFAULT 0,
+    `amount_mismatch_count` INTEGER NOT NULL DEFAULT 0,
+    `created_by` INTEGER NULL,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `updated_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    INDEX `idx_payment_method_bill_date`(`payment_method`, `bill_date`),
+    INDEX `idx_status`(`status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `reconciliation_items` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `reconciliation_id` INTEGER NOT NULL,
+    `item_type` ENUM('payment', 'recharge', 'refund') NOT NULL,
+    `result` ENUM('matched', 'missing_local', 'missing_remote', 'amount_mismatch') NOT NULL,
+    `transaction_id` VARCHAR(100) NOT NULL,
+    `provider_transaction_id` VARCHAR(100) NULL,
+    `local_record_id` INTEGER NULL,
+    `local_amount` DECIMAL(12, 2) NULL,
+    `remote_amount` DECIMAL(12, 2) NULL,
+    `remark` VARCHAR(255) NULL,
+    `handle_status` ENUM('no_action', 'pending', 'resolved') NOT NULL,
+    `resolved_by` INTEGER NULL,
+    `resolved_at` DATETIME(0) NULL,
+    `resolve_remark` VARCHAR(255) NULL,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `updated_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    INDEX `idx_reconciliation_id_result`(`reconciliation_id`, `result`),
+    INDEX `idx_transaction_id`(`transaction_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `reconciliation_items` ADD CONSTRAINT `reconciliation_items_reconciliations_FK` FOREIGN KEY (`reconciliation_id`) REFERENCES `reconciliations`(`id`) ON DELETE NO ACTION ON UPDATE NO ACTION;
@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE `dish_spec_groups` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `dish_id` INTEGER NOT NULL,
+    `name` VARCHAR(50) NOT NULL,
+    `select_type` ENUM('single', 'multi') NOT NULL DEFAULT 'single',
+    `required` BOOLEAN NOT NULL DEFAULT false,
+    `min_select` INTEGER NOT NULL DEFAULT 0,
+    `max_select` INTEGER NOT NULL DEFAULT 1,
+    `sort_order` INTEGER NOT NULL DEFAULT 0,
+    `status` BOOLEAN NOT NULL DEFAULT true,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `updated_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    INDEX `idx_dish_id`(`dish_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `dish_spec_options` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `group_id` INTEGER NOT NULL,
+    `name` VARCHAR(50) NOT NULL,
+    `price` DECIMAL(8, 2) NOT NULL DEFAULT 0.00,
+    `is_default` BOOLEAN NOT NULL DEFAULT false,
+    `sort_order` INTEGER NOT NULL DEFAULT 0,
+    `status` BOOLEAN NOT NULL DEFAULT true,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `updated_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    INDEX `idx_group_id`(`group_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable
+ALTER TABLE `order_items` ADD COLUMN `specs` JSON NULL,
+    ADD COLUMN `spec_text` VARCHAR(255) NULL;
+
+-- AlterTable
+ALTER TABLE `cart_items` ADD COLUMN `spec_key` VARCHAR(255) NOT NULL DEFAULT '',
+    ADD COLUMN `spec_option_ids` JSON NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `uk_user_dish_spec` ON `cart_items`(`user_id`, `dish_id`, `spec_key`);
+
+-- DropIndex
+DROP INDEX `uk_user_dish` ON `cart_items`;
+
+-- AddForeignKey
+ALTER TABLE `dish_spec_groups` ADD CONSTRAINT `dish_spec_groups_dishes_FK` FOREIGN KEY (`dish_id`) REFERENCES `dishes`(`id`) ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE `dish_spec_options` ADD CONSTRAINT `dish_spec_options_groups_FK` FOREIGN KEY (`group_id`) REFERENCES `dish_spec_groups`(`id`) ON DELETE CASCADE ON UPDATE NO ACTION;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE `dishes` ADD COLUMN `daily_stock` INTEGER NULL,
+    ADD COLUMN `remaining_stock` INTEGER NULL,
+    ADD COLUMN `stock_reset_at` DATETIME(0) NULL;
@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE `restaurants` ADD COLUMN `paused_until` DATETIME(0) NULL;
+
+-- CreateTable
+CREATE TABLE `restaurant_business_hours` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `restaurant_id` INTEGER NOT NULL,
+    `day_of_week` TINYINT NOT NULL,
+    `open_time` VARCHAR(5) NOT NULL,
+    `close_time` VARCHAR(5) NOT NULL,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `updated_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    INDEX `idx_restaurant_day`(`restaurant_id`, `day_of_week`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `restaurant_holidays` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `restaurant_id` INTEGER NOT NULL,
+    `date` DATE NOT NULL,
+    `is_closed` BOOLEAN NOT NULL DEFAULT true,
+    `open_time` VARCHAR(5) NULL,
+    `close_time` VARCHAR(5) NULL,
+    `remark` VARCHAR(100) NULL,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `updated_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    UNIQUE INDEX `uk_restaurant_date`(`restaurant_id`, `date`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `restaurant_business_hours` ADD CONSTRAINT `restaurant_business_hours_restaurants_FK` FOREIGN KEY (`restaurant_id`) REFERENCES `restaurants`(`id`) ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE `restaurant_holidays` ADD CONSTRAINT `restaurant_holidays_restaurants_FK` FOREIGN KEY (`restaurant_id`) REFERENCES `restaurants`(`id`) ON DELETE CASCADE ON UPDATE NO ACTION;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE `user_addresses` ADD COLUMN `latitude` DOUBLE NULL,
+    ADD COLUMN `longitude` DOUBLE NULL;
+
+-- AlterTable
+ALTER TABLE `restaurants` ADD COLUMN `latitude` DOUBLE NULL,
+    ADD COLUMN `longitude` DOUBLE NULL,
+    ADD COLUMN `delivery_radius` INTEGER NULL,
+    ADD COLUMN `delivery_polygon` JSON NULL;
+
+-- AlterTable
+ALTER TABLE `orders` ADD COLUMN `delivery_distance` DECIMAL(8, 2) NULL;
+
+-- CreateTable
+CREATE TABLE `restaurant_delivery_fee_rules` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `restaurant_id` INTEGER NOT NULL,
+    `max_distance` INTEGER NOT NULL,
+    `fee` DECIMAL(5, 2) NOT NULL DEFAULT 0.00,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `updated_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    UNIQUE INDEX `uk_restaurant_distance`(`restaurant_id`, `max_distance`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `restaurant_delivery_fee_rules` ADD CONSTRAINT `restaurant_delivery_fee_rules_restaurants_FK` FOREIGN KEY (`restaurant_id`) REFERENCES `restaurants`(`id`) ON DELETE CASCADE ON UPDATE NO ACTION;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE `sms_codes` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `phone` VARCHAR(20) NOT NULL,
+    `purpose` ENUM('register', 'login', 'reset') NOT NULL,
+    `code_hash` VARCHAR(64) NOT NULL,
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `expires_at` DATETIME(0) NOT NULL,
+    `used_at` DATETIME(0) NULL,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    INDEX `idx_phone_purpose_created`(`phone`, `purpose`, `created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE `user_sessions` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `user_id` INTEGER NOT NULL,
+    `refresh_jti` VARCHAR(36) NOT NULL,
+    `user_agent` VARCHAR(255) NULL,
+    `ip` VARCHAR(45) NULL,
+    `expires_at` DATETIME(0) NOT NULL,
+    `last_active_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `revoked_at` DATETIME(0) NULL,
+    `revoke_reason` ENUM('logout', 'refresh_reuse', 'password_reset') NULL,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `updated_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    UNIQUE INDEX `uk_refresh_jti`(`refresh_jti`),
+    INDEX `idx_user_revoked`(`user_id`, `revoked_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `user_sessions` ADD CONSTRAINT `user_sessions_users_FK` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE NO ACTION;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE `user_sessions` MODIFY `revoke_reason` ENUM('logout', 'refresh_reuse', 'password_reset', 'password_change', 'user_revoked') NULL;
+
+-- CreateTable
+CREATE TABLE `user_security_events` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `user_id` INTEGER NOT NULL,
+    `event_type` ENUM('register', 'login', 'login_failed', 'logout', 'password_change', 'password_reset', 'session_revoked', 'other_sessions_revoked', 'refresh_reuse') NOT NULL,
+    `session_id` INTEGER NULL,
+    `ip` VARCHAR(45) NULL,
+    `user_agent` VARCHAR(255) NULL,
+    `detail` VARCHAR(255) NULL,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    INDEX `idx_user_created`(`user_id`, `created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `user_security_events` ADD CONSTRAINT `user_security_events_users_FK` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE NO ACTION;
@@ -0,0 +1,89 @@
+-- CreateTable
+CREATE TABLE `roles` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `code` VARCHAR(50) NOT NULL,
+    `name` VARCHAR(50) NOT NULL,
+    `principal_type` ENUM('user', 'merchant', 'rider', 'admin') NOT NULL,
+    `description` VARCHAR(255) NULL,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `updated_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    UNIQUE INDEX `uk_code`(`code`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `permissions` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `code` VARCHAR(100) NOT NULL,
+    `name` VARCHAR(100) NOT NULL,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    UNIQUE INDEX `uk_code`(`code`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `role_permissions` (
+    `role_id` INTEGER NOT NULL,
+    `permission_id` INTEGER NOT NULL,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    INDEX `idx_permission_id`(`permission_id`),
+    PRIMARY KEY (`role_id`, `permission_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `principal_roles` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `principal_type` ENUM('user', 'merchant', 'rider', 'admin') NOT NULL,
+    `principal_id` INTEGER NOT NULL,
+    `role_id` INTEGER NOT NULL,
+    `created_at` DATETIME(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    INDEX `idx_role_id`(`role_id`),
+    UNIQUE INDEX `uk_principal_role`(`principal_type`, `principal_id`, `role_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `role_permissions` ADD CONSTRAINT `role_permissions_roles_FK` FOREIGN KEY (`role_id`) REFERENCES `roles`(`id`) ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE `role_permissions` ADD CONSTRAINT `role_permissions_permissions_FK` FOREIGN KEY (`permission_id`) REFERENCES `permissions`(`id`) ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE `principal_roles` ADD CONSTRAINT `principal_roles_roles_FK` FOREIGN KEY (`role_id`) REFERENCES `roles`(`id`) ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- SeedData: 内置角色，未分配角色的账号使用同类型的默认角色（user、merchant、rider、admin）
+INSERT INTO `roles` (`code`, `name`, `principal_type`, `description`) VALUES
+    ('user', '普通用户', 'user', '用户默认角色'),
+    ('merchant', '商家店长', 'merchant', '商家默认角色，可处理本店全部业务'),
+    ('merchant_staff', '商家店员', 'merchant', '只能处理订单和菜品库存'),
+    ('rider', '骑手', 'rider', '骑手默认角色'),
+    ('admin', '超级管理员', 'admin', '管理员默认角色，拥有全部平台管理权限'),
+    ('admin_support', '客服', 'admin', '只能审核退款'),
+    ('admin_finance', '财务', 'admin', '只能调整余额和处理对账');
+
+-- SeedData: 内置权限
+INSERT INTO `permissions` (`code`, `name`) VALUES
+    ('order:place', '下单'),
+    ('merchant:order:manage', '处理本店订单'),
+    ('merchant:refund:review', '审核本店退款'),
+    ('merchant:dish:manage', '管理菜品库存'),
+    ('merchant:store:manage', '管理营业时间和配送设置'),
+    ('rider:delivery:manage', '接单配送'),
+    ('admin:refund:review', '审核退款'),
+    ('admin:wallet:adjust', '调整用户余额'),
+    ('admin:reconciliation:manage', '支付对账');
+
+-- SeedData: 角色权限
+INSERT INTO `role_permissions` (`role_id`, `permission_id`)
+SELECT r.`id`, p.`id` FROM `roles` r JOIN `permissions` p ON
+    (r.`code` = 'user' AND p.`code` = 'order:place')
+    OR (r.`code` = 'merchant' AND p.`code` LIKE 'merchant:%')
+    OR (r.`code` = 'merchant_staff' AND p.`code` IN ('merchant:order:manage', 'merchant:dish:manage'))
+    OR (r.`code` = 'rider' AND p.`code` = 'rider:delivery:manage')
+    OR (r.`code` = 'admin' AND p.`code` LIKE 'admin:%')
+    OR (r.`code` = 'admin_support' AND p.`code` = 'admin:refund:review')
+    OR (r.`code` = 'admin_finance' AND p.`code` IN ('admin:wallet:adjust', 'admin:reconciliation:manage'));
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `refund_records` ADD COLUMN `order_sync_pending` BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX `idx_order_sync_pending` ON `refund_records`(`order_sync_pending`);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `payment_records` ADD COLUMN `provider_transaction_id` VARCHAR(100) NULL;
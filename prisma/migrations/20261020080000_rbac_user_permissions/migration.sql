@@ -0,0 +1,9 @@
+-- SeedData: 用户购物车和钱包权限
+INSERT INTO `permissions` (`code`, `name`) VALUES
+    ('cart:manage', '使用购物车'),
+    ('wallet:manage', '使用钱包');
+
+-- SeedData: 角色权限
+INSERT INTO `role_permissions` (`role_id`, `permission_id`)
+SELECT r.`id`, p.`id` FROM `roles` r JOIN `permissions` p ON
+    r.`code` = 'user' AND p.`code` IN ('cart:manage', 'wallet:manage');
@@ -8,7 +8,14 @@ import { authMiddleware } from "./middleware/auth";
 import userRoutes from "./modules/user/routes/user.routes";
 import restaurantRoutes from "./modules/restaurant/routes/restaurant.routes";
 import orderRoutes from "./modules/order/routes/order.routes";
-// import paymentRoutes from './modules/payment/routes/payment.routes';
+import merchantRoutes from "./modules/merchant/routes/merchant.routes";
+import riderRoutes from "./modules/rider/routes/rider.routes";
+import couponRoutes from "./modules/coupon/routes/coupon.routes";
+import adminRoutes from "./modules/admin/routes/admin.routes";
+import paymentNotifyRoutes from "./modules/payment/routes/notify.routes";
+import paymentRoutes from "./modules/payment/routes/payment.routes";
+import walletRoutes from "./modules/wallet/routes/wallet.routes";
+import cartRoutes from "./modules/cart/routes/cart.routes";
 
 // 导入中间件
 import { errorHandler, notFoundHandler } from "./middleware/errorHandler";
@@ -33,6 +40,9 @@ app.use(
 // 限流中间件
 app.use(generalLimiter);
 
+// 支付结果通知需要用原始请求体验签，在通用解析中间件之前挂载
+app.use("/api/v1/payments/notify", paymentNotifyRoutes);
+
 // 解析中间件
 app.use(express.json({ limit: "10mb" }));
 app.use(express.urlencoded({ extended: true, limit: "10mb" }));
@@ -132,7 +142,13 @@ app.use((req: Request, res: Response, next: NextFunction) => {
 app.use("/api/v1/users", userRoutes);
 app.use("/api/v1/restaurants", restaurantRoutes);
 app.use("/api/v1/orders", authMiddleware, orderRoutes);
-// app.use('/api/v1/payments', authMiddleware, paymentRoutes);
+app.use("/api/v1/merchant", merchantRoutes);
+app.use("/api/v1/rider", riderRoutes);
+app.use("/api/v1/coupons", authMiddleware, couponRoutes);
+app.use("/api/v1/admin", adminRoutes);
+app.use("/api/v1/payments", authMiddleware, paymentRoutes);
+app.use("/api/v1/wallet", authMiddleware, walletRoutes);
+app.use("/api/v1/cart", authMiddleware, cartRoutes);
 
 // 404处理
 app.use(notFoundHandler);
@@ -33,13 +33,34 @@ interface AppConfig {
   alipayAppId: string;
   alipayPrivateKey: string;
   alipayPublicKey: string;
+  paymentMockMethods: string[];
+  paymentMockOutcome: 'success' | 'fail' | 'pending';
+  paymentMockAlipayPrivateKey: string;
+  orderPaymentTimeoutMinutes: number;
+  orderTimeoutScanIntervalMs: number;
+  idempotencyKeyTtlHours: number;
+  orderQuoteTtlSeconds: number;
+  refundAutoApproveHours: number;
+  refundAutoApproveScanIntervalMs: number;
+  refundSyncScanIntervalMs: number;
+  refundSyncMinAgeSeconds: number;
+  dishStockResetHour: number;
+  dishStockResetScanIntervalMs: number;
+  reconciliationStatementDir: string;
+  reconciliationScanIntervalMs: number;
   smtpHost: string;
   smtpPort: number;
   smtpUser: string;
   smtpPass: string;
+  smsProvider: string;
   smsAccessKey: string;
   smsAccessSecret: string;
   smsSignName: string;
+  smsOutboxFile: string;
+  smsCodeTtlSeconds: number;
+  smsCodeMaxAttempts: number;
+  passwordResetTokenTtlSeconds: number;
+  rbacGrantsCacheTtlSeconds: number;
   logLevel: string;
   logFile: string;
   errorLogFile:string;
@@ -84,6 +105,27 @@ const config: AppConfig = {
   alipayPrivateKey: process.env.ALIPAY_PRIVATE_KEY || '',
   alipayPublicKey: process.env.ALIPAY_PUBLIC_KEY || '',
 
+  // 模拟支付网关配置
+  paymentMockMethods: (process.env.PAYMENT_MOCK_METHODS || '').split(',').map((method) => method.trim()).filter(Boolean), // 使用模拟网关的支付方式，默认不使用，生产环境不可用
+  paymentMockOutcome: (process.env.PAYMENT_MOCK_OUTCOME || 'success') as 'success' | 'fail' | 'pending', // 模拟网关的固定处理结果
+  paymentMockAlipayPrivateKey: process.env.PAYMENT_MOCK_ALIPAY_PRIVATE_KEY || '', // 本地模拟支付宝通知的签名私钥，需与 ALIPAY_PUBLIC_KEY 成对
+
+  // 订单配置
+  orderPaymentTimeoutMinutes: parseInt(process.env.ORDER_PAYMENT_TIMEOUT_MINUTES || '15', 10), // 餐厅未单独配置时的支付超时时间
+  orderTimeoutScanIntervalMs: parseInt(process.env.ORDER_TIMEOUT_SCAN_INTERVAL_MS || '60000', 10), // 1分钟
+  idempotencyKeyTtlHours: parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24', 10), // 幂等键保留时间
+  orderQuoteTtlSeconds: parseInt(process.env.ORDER_QUOTE_TTL_SECONDS || '300', 10), // 5分钟
+  refundAutoApproveHours: parseInt(process.env.REFUND_AUTO_APPROVE_HOURS || '24', 10), // 退款申请超时自动同意时间
+  refundAutoApproveScanIntervalMs: parseInt(process.env.REFUND_AUTO_APPROVE_SCAN_INTERVAL_MS || '300000', 10), // 5分钟
+  refundSyncScanIntervalMs: parseInt(process.env.REFUND_SYNC_SCAN_INTERVAL_MS || '60000', 10), // 1分钟
+  refundSyncMinAgeSeconds: parseInt(process.env.REFUND_SYNC_MIN_AGE_SECONDS || '60', 10), // 同意后超过该时间仍未完成的退款才查询渠道结果
+  dishStockResetHour: parseInt(process.env.DISH_STOCK_RESET_HOUR || '0', 10), // 每日库存重置时刻（0-23点）
+  dishStockResetScanIntervalMs: parseInt(process.env.DISH_STOCK_RESET_SCAN_INTERVAL_MS || '60000', 10), // 1分钟
+
+  // 对账配置
+  reconciliationStatementDir: process.env.RECONCILIATION_STATEMENT_DIR || '', // 对账单下载目录，为空时不自动对账
+  reconciliationScanIntervalMs: parseInt(process.env.RECONCILIATION_SCAN_INTERVAL_MS || '3600000', 10), // 1小时
+
   // 邮件配置
   smtpHost: process.env.SMTP_HOST || '',
   smtpPort: parseInt(process.env.SMTP_PORT || '587', 10),
@@ -91,9 +133,15 @@ const config: AppConfig = {
   smtpPass: process.env.SMTP_PASS || '',
 
   // 短信配置
+  smsProvider: process.env.SMS_PROVIDER || 'console', // 短信服务商，console 为本地替身，生产环境不可用
   smsAccessKey: process.env.SMS_ACCESS_KEY || '',
   smsAccessSecret: process.env.SMS_ACCESS_SECRET || '',
   smsSignName: process.env.SMS_SIGN_NAME || '',
+  smsOutboxFile: process.env.SMS_OUTBOX_FILE || '', // 本地短信替身的发件箱文件，为空时只输出到日志
+  smsCodeTtlSeconds: parseInt(process.env.SMS_CODE_TTL_SECONDS || '300', 10), // 5分钟
+  smsCodeMaxAttempts: parseInt(process.env.SMS_CODE_MAX_ATTEMPTS || '5', 10), // 验证码最多校验次数
+  passwordResetTokenTtlSeconds: parseInt(process.env.PASSWORD_RESET_TOKEN_TTL_SECONDS || '600', 10), // 重置密码令牌有效期，10分钟
+  rbacGrantsCacheTtlSeconds: parseInt(process.env.RBAC_GRANTS_CACHE_TTL_SECONDS || '60', 10), // 账号角色权限缓存时间，1分钟
 
   // 日志配置
   logLevel: process.env.LOG_LEVEL || 'info',
@@ -3,6 +3,9 @@ import config from './config/index.js';
 import app from './app';
 import { testConnection } from './database/prisma';
 import logger from './utils/logger';
+import { assertSmsProviderConfigured } from './utils/sms';
+import { assertPaymentMockDisabled } from './modules/payment/gateways';
+import { startJobs, stopJobs } from './jobs';
 
 // 加载环境变量
 dotenv.config();
@@ -13,6 +16,12 @@ const PORT: number = config.port;
 // 开发环境下启动服务器
 const startServer = async (): Promise<void> => {
   try {
+    // 校验短信服务商配置
+    assertSmsProviderConfigured();
+
+    // 校验模拟支付网关配置
+    assertPaymentMockDisabled();
+
     // 测试数据库连接
     await testConnection();
 
@@ -24,11 +33,16 @@ const startServer = async (): Promise<void> => {
       logger.info(`Server started successfully on port ${PORT}`);
     });
 
+    // 启动定时任务
+    startJobs();
+
     // 优雅关闭处理
     const gracefulShutdown = (signal: string): void => {
       logger.info(`${signal} received, shutting down gracefully`);
       console.log(`\n${signal} received, shutting down gracefully`);
 
+      stopJobs();
+
       server.close(() => {
         logger.info('HTTP server closed');
         console.log('HTTP server closed');
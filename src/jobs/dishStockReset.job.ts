@@ -0,0 +1,16 @@
+import config from '../config';
+import restaurantService from '../modules/restaurant/services/restaurant.service';
+import { ScheduledJob } from './scheduler';
+
+/**
+ * 限量菜品每日库存重置任务
+ */
+const dishStockResetJob: ScheduledJob = {
+  name: 'dish-stock-reset',
+  intervalMs: config.dishStockResetScanIntervalMs,
+  run: async () => {
+    await restaurantService.resetDailyStock();
+  }
+};
+
+export default dishStockResetJob;
@@ -0,0 +1,19 @@
+import logger from '../utils/logger';
+import { cleanExpiredIdempotencyKeys } from '../middleware/idempotency';
+import { ScheduledJob } from './scheduler';
+
+/**
+ * 过期幂等键清理任务
+ */
+const idempotencyCleanupJob: ScheduledJob = {
+  name: 'idempotency-key-cleanup',
+  intervalMs: 60 * 60 * 1000, // 1小时
+  run: async () => {
+    const count = await cleanExpiredIdempotencyKeys();
+    if (count > 0) {
+      logger.info('Expired idempotency keys cleaned', { count });
+    }
+  }
+};
+
+export default idempotencyCleanupJob;
@@ -0,0 +1,29 @@
+import jobScheduler from './scheduler';
+import orderTimeoutJob from './orderTimeout.job';
+import idempotencyCleanupJob from './idempotencyCleanup.job';
+import refundAutoApproveJob from './refundAutoApprove.job';
+import refundSyncJob from './refundSync.job';
+import reconciliationJob from './reconciliation.job';
+import dishStockResetJob from './dishStockReset.job';
+
+// 注册定时任务
+jobScheduler.register(orderTimeoutJob);
+jobScheduler.register(idempotencyCleanupJob);
+jobScheduler.register(refundAutoApproveJob);
+jobScheduler.register(refundSyncJob);
+jobScheduler.register(reconciliationJob);
+jobScheduler.register(dishStockResetJob);
+
+/**
+ * 启动所有定时任务
+ */
+export const startJobs = (): void => {
+  jobScheduler.start();
+};
+
+/**
+ * 停止所有定时任务
+ */
+export const stopJobs = (): void => {
+  jobScheduler.stop();
+};
@@ -0,0 +1,16 @@
+import config from '../config';
+import orderService from '../modules/order/services/order.service';
+import { ScheduledJob } from './scheduler';
+
+/**
+ * 超时未支付订单自动取消任务
+ */
+const orderTimeoutJob: ScheduledJob = {
+  name: 'order-payment-timeout',
+  intervalMs: config.orderTimeoutScanIntervalMs,
+  run: async () => {
+    await orderService.cancelExpiredOrders();
+  }
+};
+
+export default orderTimeoutJob;
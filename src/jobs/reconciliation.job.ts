@@ -0,0 +1,17 @@
+import config from '../config';
+import reconciliationService from '../modules/payment/services/reconciliation.service';
+import { ScheduledJob } from './scheduler';
+
+/**
+ * 对账单自动导入任务，未配置对账单目录时不执行
+ */
+const reconciliationJob: ScheduledJob = {
+  name: 'reconciliation',
+  intervalMs: config.reconciliationScanIntervalMs,
+  run: async () => {
+    if (!config.reconciliationStatementDir) return;
+    await reconciliationService.importDailyStatements(config.reconciliationStatementDir);
+  }
+};
+
+export default reconciliationJob;
@@ -0,0 +1,16 @@
+import config from '../config';
+import orderService from '../modules/order/services/order.service';
+import { ScheduledJob } from './scheduler';
+
+/**
+ * 超时未审核退款申请自动同意任务
+ */
+const refundAutoApproveJob: ScheduledJob = {
+  name: 'refund-auto-approve',
+  intervalMs: config.refundAutoApproveScanIntervalMs,
+  run: async () => {
+    await orderService.autoApproveRefunds();
+  }
+};
+
+export default refundAutoApproveJob;
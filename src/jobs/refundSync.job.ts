@@ -0,0 +1,18 @@
+import config from '../config';
+import orderService from '../modules/order/services/order.service';
+import { ScheduledJob } from './scheduler';
+
+/**
+ * 退款结果同步任务
+ * 查询处理中退款的渠道结果，并重试同步已完成退款但订单状态未更新的订单
+ */
+const refundSyncJob: ScheduledJob = {
+  name: 'refund-sync',
+  intervalMs: config.refundSyncScanIntervalMs,
+  run: async () => {
+    await orderService.syncProcessingRefunds();
+    await orderService.syncRefundedOrders();
+  }
+};
+
+export default refundSyncJob;
@@ -0,0 +1,78 @@
+import logger from '../utils/logger';
+
+/**
+ * 定时任务定义
+ */
+export interface ScheduledJob {
+  /** 任务名称 */
+  name: string;
+  /** 执行间隔（毫秒） */
+  intervalMs: number;
+  /** 任务执行函数 */
+  run: () => Promise<void>;
+}
+
+/**
+ * 定时任务调度器
+ * 同一任务上一轮未执行完时跳过本轮，避免在单个实例内重叠执行；
+ * 多实例之间的并发安全由任务自身保证（如订单状态乐观锁）
+ */
+class JobScheduler {
+  private jobs: ScheduledJob[] = [];
+  private timers: NodeJS.Timeout[] = [];
+  private running = new Set<string>();
+
+  /**
+   * 注册定时任务
+   * @param job - 任务定义
+   */
+  register(job: ScheduledJob): void {
+    this.jobs.push(job);
+  }
+
+  /**
+   * 启动所有已注册的任务
+   */
+  start(): void {
+    this.jobs.forEach((job) => {
+      const timer = setInterval(() => this.execute(job), job.intervalMs);
+      this.timers.push(timer);
+      logger.info(`Scheduled job started: ${job.name}`, { intervalMs: job.intervalMs });
+    });
+  }
+
+  /**
+   * 停止所有任务
+   */
+  stop(): void {
+    this.timers.forEach((timer) => clearInterval(timer));
+    this.timers = [];
+    logger.info('Scheduled jobs stopped');
+  }
+
+  /**
+   * 执行单个任务
+   * @param job - 任务定义
+   */
+  private async execute(job: ScheduledJob): Promise<void> {
+    if (this.running.has(job.name)) {
+      return;
+    }
+
+    this.running.add(job.name);
+    try {
+      await job.run();
+    } catch (error: any) {
+      logger.error(`Scheduled job failed: ${job.name}`, {
+        error: error.message,
+        stack: error.stack
+      });
+    } finally {
+      this.running.delete(job.name);
+    }
+  }
+}
+
+// 导出单例实例
+const jobScheduler = new JobScheduler();
+export default jobScheduler;
@@ -1,7 +1,8 @@
 import { Request, Response, NextFunction } from "express";
-import { ApiResponse, JwtPayload, HttpCode } from "../types";
+import { ApiResponse, JwtPayload, JwtType, HttpCode } from "../types";
 import logger, { securityLogger } from "../utils/logger";
 import { verifyAccessToken } from "../utils/jwt";
+import sessionService from "../modules/user/services/session.service";
 
 // 扩展Request接口以包含用户信息
 declare global {
@@ -13,14 +14,15 @@ declare global {
 }
 
 /**
- * JWT认证中间件
- * 验证请求头中的Authorization令牌
+ * 创建JWT认证中间件
+ * 验证请求头中的Authorization令牌，并校验令牌类型
+ * @param tokenType - 允许访问的令牌类型
  */
-const authMiddleware = (
+const createAuthMiddleware = (tokenType: JwtType) => async (
   req: Request,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   try {
     const authHeader = req.headers.authorization;
 
@@ -82,6 +84,42 @@ const authMiddleware = (
         timestamp: new Date().toISOString(),
       };
       res.status(401).json(response);
+    } else if (decoded.jwtPayload.type !== tokenType) {
+      // 用户令牌与商家令牌不能混用
+      securityLogger.warn("jwt令牌类型不匹配", {
+        url: req.url,
+        method: req.method,
+        ip: req.ip,
+        expected: tokenType,
+        actual: decoded.jwtPayload.type,
+      });
+
+      const response: ApiResponse = {
+        status: "error",
+        message: "访问令牌无效",
+        code: HttpCode.INVALID_TOKEN,
+        timestamp: new Date().toISOString(),
+      };
+      res.status(401).json(response);
+    } else if (
+      tokenType === JwtType.normal &&
+      !(await sessionService.findActiveSession(decoded.jwtPayload))
+    ) {
+      // 用户会话已登出、被吊销或已过期，会话内的访问令牌同时失效
+      securityLogger.warn("jwt令牌所属会话已失效", {
+        userId: decoded.jwtPayload.userId,
+        url: req.url,
+        method: req.method,
+        ip: req.ip,
+      });
+
+      const response: ApiResponse = {
+        status: "error",
+        message: "访问令牌已失效，请重新登录",
+        code: HttpCode.INVALID_TOKEN,
+        timestamp: new Date().toISOString(),
+      };
+      res.status(401).json(response);
     } else {
       req.user = decoded.jwtPayload;
       securityLogger.info("JWT authentication successful", {
@@ -110,15 +148,38 @@ const authMiddleware = (
   }
 };
 
+/**
+ * 用户JWT认证中间件
+ */
+const authMiddleware = createAuthMiddleware(JwtType.normal);
+
+/**
+ * 商家JWT认证中间件
+ * 认证通过后 req.user.userId 为商家账号ID，req.user.restaurantId 为所属餐厅ID
+ */
+const merchantAuthMiddleware = createAuthMiddleware(JwtType.merchant);
+
+/**
+ * 骑手JWT认证中间件
+ * 认证通过后 req.user.userId 为骑手ID
+ */
+const riderAuthMiddleware = createAuthMiddleware(JwtType.rider);
+
+/**
+ * 平台管理员JWT认证中间件
+ * 认证通过后 req.user.userId 为管理员ID
+ */
+const adminAuthMiddleware = createAuthMiddleware(JwtType.admin);
+
 /**
  * 可选认证中间件
  * 用户可以选择是否提供令牌
  */
-const optionalAuth = (
+const optionalAuth = async (
   req: Request,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   try {
     const authHeader = req.headers.authorization;
 
@@ -126,7 +187,11 @@ const optionalAuth = (
       const token = authHeader.substring(7);
 
       const decoded = verifyAccessToken(token);
-      if (decoded.jwtPayload) {
+      if (
+        decoded.jwtPayload &&
+        decoded.jwtPayload.type === JwtType.normal &&
+        (await sessionService.findActiveSession(decoded.jwtPayload))
+      ) {
         req.user = decoded.jwtPayload;
       } else {
         securityLogger.warn("Optional auth token invalid:");
@@ -145,4 +210,10 @@ const optionalAuth = (
   }
 };
 
-export { authMiddleware, optionalAuth };
+export {
+  authMiddleware,
+  merchantAuthMiddleware,
+  riderAuthMiddleware,
+  adminAuthMiddleware,
+  optionalAuth,
+};
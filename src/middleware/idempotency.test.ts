@@ -0,0 +1,270 @@
+import crypto from "crypto";
+import { NextFunction, Request, Response } from "express";
+import { Prisma } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { idempotency } from "./idempotency";
+import { HttpCode } from "../types";
+
+const idempotencyKeys = vi.hoisted(() => ({
+  create: vi.fn(),
+  findUnique: vi.fn(),
+  deleteMany: vi.fn(),
+  updateMany: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn(),
+}));
+
+vi.mock("../database/prisma", () => ({
+  prisma: { idempotencyKeys },
+}));
+vi.mock("../utils/logger", () => ({
+  default: { error: vi.fn() },
+  businessLogger: { info: vi.fn(), warn: vi.fn() },
+}));
+
+const KEY = "order-20261019-0001";
+const SCOPE = "POST /api/v1/orders/";
+// 请求体按键名排序后计算摘要，字段顺序不影响幂等判断
+const BODY = { quoteToken: "quote", paymentMethod: "wechat" };
+const REQUEST_HASH = crypto
+  .createHash("sha256")
+  .update('{"paymentMethod":"wechat","quoteToken":"quote"}')
+  .digest("hex");
+
+/**
+ * 构造携带幂等键的请求
+ * @param key - 幂等键，为空时表示未携带
+ * @returns 请求对象
+ */
+const buildRequest = (key: string | null = KEY): Request =>
+  ({
+    get: (name: string) =>
+      name === "Idempotency-Key" ? key ?? undefined : undefined,
+    user: { userId: 1 },
+    method: "POST",
+    baseUrl: "/api/v1/orders",
+    path: "/",
+    body: BODY,
+  }) as unknown as Request;
+
+/**
+ * 构造响应对象，记录最终发送给客户端的状态码和响应体
+ * @returns 响应对象
+ */
+const buildResponse = () => {
+  const res = {
+    statusCode: 200,
+    sent: undefined as { statusCode: number; body: any } | undefined,
+    status: vi.fn(),
+    json: vi.fn(),
+    set: vi.fn(),
+    on: vi.fn(),
+  };
+  res.status.mockImplementation((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json.mockImplementation((body: any) => {
+    res.sent = { statusCode: res.statusCode, body };
+    return res;
+  });
+  return res;
+};
+
+/**
+ * 构造幂等键已存在的唯一索引冲突错误
+ * @returns Prisma错误
+ */
+const duplicateKeyError = () =>
+  new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+    code: "P2002",
+    clientVersion: Prisma.prismaVersion.client,
+  });
+
+/**
+ * 构造已存在的幂等记录
+ * @param overrides - 覆盖的字段
+ * @returns 幂等记录
+ */
+const buildRecord = (overrides: Record<string, unknown> = {}) => ({
+  id: 5,
+  userId: 1,
+  scope: SCOPE,
+  idempotencyKey: KEY,
+  requestHash: REQUEST_HASH,
+  status: "completed",
+  responseCode: 201,
+  responseBody: { status: "success", data: { orderId: 100 } },
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe("idempotency", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    idempotencyKeys.create.mockResolvedValue({});
+    idempotencyKeys.update.mockResolvedValue({});
+    idempotencyKeys.delete.mockResolvedValue({});
+    idempotencyKeys.deleteMany.mockResolvedValue({ count: 1 });
+  });
+
+  it("未携带幂等键时直接执行", async () => {
+    const next = vi.fn();
+
+    await idempotency(
+      buildRequest(null),
+      buildResponse() as unknown as Response,
+      next
+    );
+
+    expect(next).toHaveBeenCalled();
+    expect(idempotencyKeys.create).not.toHaveBeenCalled();
+  });
+
+  it("首次请求抢占幂等键执行，成功响应保存后再发送给客户端", async () => {
+    const res = buildResponse();
+    const next: NextFunction = vi.fn(() => {
+      res.status(201).json({ status: "success", data: { orderId: 100 } });
+    });
+    let saved!: () => void;
+    idempotencyKeys.update.mockReturnValue(
+      new Promise((resolve) => {
+        saved = () => resolve({});
+      })
+    );
+
+    await idempotency(buildRequest(), res as unknown as Response, next);
+
+    expect(idempotencyKeys.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 1,
+        scope: SCOPE,
+        idempotencyKey: KEY,
+        requestHash: REQUEST_HASH,
+      }),
+    });
+    expect(idempotencyKeys.update).toHaveBeenCalledWith({
+      where: {
+        userId_scope_idempotencyKey: { userId: 1, scope: SCOPE, idempotencyKey: KEY },
+      },
+      data: expect.objectContaining({
+        status: "completed",
+        responseCode: 201,
+        responseBody: { status: "success", data: { orderId: 100 } },
+      }),
+    });
+    expect(res.sent).toBeUndefined();
+
+    saved();
+    await vi.waitFor(() => expect(res.sent?.statusCode).toBe(201));
+  });
+
+  it("执行失败时删除幂等键，客户端可以重试", async () => {
+    const res = buildResponse();
+    const next: NextFunction = vi.fn(() => {
+      res.status(400).json({ status: "error" });
+    });
+
+    await idempotency(buildRequest(), res as unknown as Response, next);
+
+    await vi.waitFor(() => expect(res.sent?.statusCode).toBe(400));
+    expect(idempotencyKeys.delete).toHaveBeenCalled();
+    expect(idempotencyKeys.update).not.toHaveBeenCalled();
+  });
+
+  it("相同请求重复提交时返回首次的响应", async () => {
+    idempotencyKeys.create.mockRejectedValue(duplicateKeyError());
+    idempotencyKeys.findUnique.mockResolvedValue(buildRecord());
+    const res = buildResponse();
+    const next = vi.fn();
+
+    await idempotency(buildRequest(), res as unknown as Response, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.set).toHaveBeenCalledWith("Idempotent-Replayed", "true");
+    expect(res.sent).toEqual({
+      statusCode: 201,
+      body: { status: "success", data: { orderId: 100 } },
+    });
+  });
+
+  it("同一幂等键用于不同请求时拒绝", async () => {
+    idempotencyKeys.create.mockRejectedValue(duplicateKeyError());
+    idempotencyKeys.findUnique.mockResolvedValue(
+      buildRecord({ requestHash: "other" })
+    );
+    const res = buildResponse();
+    const next = vi.fn();
+
+    await idempotency(buildRequest(), res as unknown as Response, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.sent).toEqual({
+      statusCode: 409,
+      body: expect.objectContaining({ code: HttpCode.IDEMPOTENCY_KEY_CONFLICT }),
+    });
+  });
+
+  it("相同请求正在处理中时拒绝并发执行", async () => {
+    idempotencyKeys.create.mockRejectedValue(duplicateKeyError());
+    idempotencyKeys.findUnique.mockResolvedValue(
+      buildRecord({ status: "processing", responseCode: null, responseBody: null })
+    );
+    const res = buildResponse();
+    const next = vi.fn();
+
+    await idempotency(buildRequest(), res as unknown as Response, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.sent).toEqual({
+      statusCode: 409,
+      body: expect.objectContaining({
+        code: HttpCode.IDEMPOTENCY_REQUEST_IN_PROGRESS,
+      }),
+    });
+    expect(idempotencyKeys.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it("处理中的记录长时间未续期时接管并重新执行", async () => {
+    const staleAt = new Date(Date.now() - 2 * 60 * 1000);
+    idempotencyKeys.create
+      .mockRejectedValueOnce(duplicateKeyError())
+      .mockResolvedValueOnce({});
+    idempotencyKeys.findUnique.mockResolvedValue(
+      buildRecord({ status: "processing", updatedAt: staleAt })
+    );
+    const next = vi.fn();
+
+    await idempotency(
+      buildRequest(),
+      buildResponse() as unknown as Response,
+      next
+    );
+
+    expect(idempotencyKeys.deleteMany).toHaveBeenCalledWith({
+      where: { id: 5, updatedAt: staleAt },
+    });
+    expect(idempotencyKeys.create).toHaveBeenCalledTimes(2);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it("已过期的记录删除后重新执行", async () => {
+    idempotencyKeys.create
+      .mockRejectedValueOnce(duplicateKeyError())
+      .mockResolvedValueOnce({});
+    idempotencyKeys.findUnique.mockResolvedValue(
+      buildRecord({ expiresAt: new Date(Date.now() - 1000) })
+    );
+    const next = vi.fn();
+
+    await idempotency(
+      buildRequest(),
+      buildResponse() as unknown as Response,
+      next
+    );
+
+    expect(idempotencyKeys.deleteMany).toHaveBeenCalled();
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+});
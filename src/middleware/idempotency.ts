@@ -0,0 +1,240 @@
+import { Request, Response, NextFunction } from "express";
+import crypto from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../database/prisma";
+import { ApiResponse, HttpCode } from "../types";
+import config from "../config/index.js";
+import logger, { businessLogger } from "../utils/logger";
+
+// 幂等键请求头
+const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+// 幂等键最大长度
+const MAX_KEY_LENGTH = 64;
+
+// 处理中的记录超过该时间没有续期，视为执行请求的进程已中断，允许重新执行
+const PROCESSING_LOCK_MS = 60 * 1000;
+
+// 请求执行期间续期处理中记录的间隔，保证耗时较长的请求在完成前一直持有幂等键
+const PROCESSING_HEARTBEAT_MS = 20 * 1000;
+
+/**
+ * 按键名排序序列化请求体，保证字段顺序不同的相同请求得到相同的摘要
+ * @param value - 请求体
+ * @returns 序列化结果
+ */
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+};
+
+/**
+ * 发送幂等校验失败响应
+ * @param res - 响应对象
+ * @param message - 错误消息
+ * @param code - 错误代码
+ */
+const sendIdempotencyError = (
+  res: Response,
+  message: string,
+  code: HttpCode
+): void => {
+  const response: ApiResponse = {
+    status: "error",
+    message,
+    code,
+    timestamp: new Date().toISOString(),
+  };
+  res.status(409).json(response);
+};
+
+/**
+ * 幂等请求中间件
+ * 请求头携带 Idempotency-Key 时：
+ * - 首次请求正常执行，执行期间持有幂等键，成功响应保存后再返回给客户端；
+ * - 相同幂等键、相同请求体的重复请求直接返回首次的响应；
+ * - 相同幂等键、不同请求体的请求会被拒绝；
+ * - 执行失败的请求不保存，客户端可以使用同一幂等键重试。
+ * 未携带请求头时不做处理，需放在认证中间件之后
+ */
+const idempotency = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const idempotencyKey = req.get(IDEMPOTENCY_HEADER);
+  if (!idempotencyKey || !req.user) {
+    next();
+    return;
+  }
+
+  if (idempotencyKey.length > MAX_KEY_LENGTH) {
+    const response: ApiResponse = {
+      status: "error",
+      message: `幂等键长度不能超过${MAX_KEY_LENGTH}个字符`,
+      code: HttpCode.VALIDATION_ERROR,
+      timestamp: new Date().toISOString(),
+    };
+    res.status(400).json(response);
+    return;
+  }
+
+  const userId = req.user.userId;
+  const scope = `${req.method} ${req.baseUrl}${req.path}`;
+  const requestHash = crypto
+    .createHash("sha256")
+    .update(stableStringify(req.body ?? {}))
+    .digest("hex");
+  const uniqueWhere = {
+    userId_scope_idempotencyKey: { userId, scope, idempotencyKey },
+  };
+
+  // 步骤1: 抢占幂等键，唯一索引保证多实例下只有一个请求能执行
+  try {
+    await prisma.idempotencyKeys.create({
+      data: {
+        userId,
+        scope,
+        idempotencyKey,
+        requestHash,
+        expiresAt: new Date(
+          Date.now() + config.idempotencyKeyTtlHours * 60 * 60 * 1000
+        ),
+      },
+    });
+  } catch (error: any) {
+    if (
+      !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+      error.code !== "P2002"
+    ) {
+      throw error;
+    }
+
+    // 步骤2: 幂等键已存在，按记录状态处理
+    const record = await prisma.idempotencyKeys.findUnique({
+      where: uniqueWhere,
+    });
+    const now = Date.now();
+
+    // 记录已过期或处理中断时删除后重新抢占
+    if (!record) {
+      return idempotency(req, res, next);
+    }
+    if (
+      record.expiresAt.getTime() <= now ||
+      (record.status === "processing" &&
+        record.updatedAt.getTime() + PROCESSING_LOCK_MS <= now)
+    ) {
+      // 带上更新时间作为条件，避免多个请求同时删除后重复执行
+      await prisma.idempotencyKeys.deleteMany({
+        where: { id: record.id, updatedAt: record.updatedAt },
+      });
+      return idempotency(req, res, next);
+    }
+
+    if (record.requestHash !== requestHash) {
+      businessLogger.warn("幂等键被不同的请求重复使用", {
+        userId,
+        scope,
+        idempotencyKey,
+      });
+      sendIdempotencyError(
+        res,
+        "该幂等键已被用于不同的请求",
+        HttpCode.IDEMPOTENCY_KEY_CONFLICT
+      );
+      return;
+    }
+
+    if (record.status === "processing") {
+      sendIdempotencyError(
+        res,
+        "相同请求正在处理中，请稍后再试",
+        HttpCode.IDEMPOTENCY_REQUEST_IN_PROGRESS
+      );
+      return;
+    }
+
+    businessLogger.info("幂等请求重放", { userId, scope, idempotencyKey });
+    res.set("Idempotent-Replayed", "true");
+    res.status(record.responseCode ?? 200).json(record.responseBody);
+    return;
+  }
+
+  // 步骤3: 请求执行期间定时续期，直到请求处理完成才释放幂等键
+  const heartbeat = setInterval(() => {
+    prisma.idempotencyKeys
+      .updateMany({
+        where: { userId, scope, idempotencyKey, status: "processing" },
+        data: { updatedAt: new Date() },
+      })
+      .catch((error: any) => {
+        logger.error("幂等键续期失败", {
+          error: error.message,
+          userId,
+          scope,
+          idempotencyKey,
+        });
+      });
+  }, PROCESSING_HEARTBEAT_MS);
+  heartbeat.unref();
+  res.on("finish", () => clearInterval(heartbeat));
+
+  // 步骤4: 拦截响应，成功时保存响应结果，失败时释放幂等键，保存完成后再发送响应
+  const originalJson = res.json.bind(res);
+  res.json = (body: any) => {
+    clearInterval(heartbeat);
+    const statusCode = res.statusCode;
+
+    const saveResult =
+      statusCode >= 200 && statusCode < 300
+        ? prisma.idempotencyKeys.update({
+            where: uniqueWhere,
+            data: {
+              status: "completed",
+              responseCode: statusCode,
+              responseBody: body,
+              updatedAt: new Date(),
+            },
+          })
+        : prisma.idempotencyKeys.delete({ where: uniqueWhere });
+
+    saveResult
+      .catch((error: any) => {
+        logger.error("保存幂等请求结果失败", {
+          error: error.message,
+          userId,
+          scope,
+          idempotencyKey,
+        });
+      })
+      .finally(() => {
+        originalJson(body);
+      });
+
+    return res;
+  };
+
+  next();
+};
+
+/**
+ * 清理已过期的幂等键
+ * @returns 清理数量
+ */
+const cleanExpiredIdempotencyKeys = async (): Promise<number> => {
+  const result = await prisma.idempotencyKeys.deleteMany({
+    where: { expiresAt: { lte: new Date() } },
+  });
+  return result.count;
+};
+
+export { idempotency, cleanExpiredIdempotencyKeys };
@@ -1,3 +1,4 @@
+import { Request } from 'express';
 import rateLimit, { RateLimitRequestHandler, MemoryStore } from 'express-rate-limit';
 import { ApiResponse,HttpCode } from '../types';
 import config from '../config/index.js';
@@ -22,6 +23,7 @@ const createRateLimiter = (options: {
   code?: HttpCode;
   prefix?: string;
   skipSuccessfulRequests?: boolean;
+  keyGenerator?: (req: Request) => string;
 }): RateLimitRequestHandler => {
   const rateLimitOptions: any = {
     windowMs: options.windowMs,
@@ -34,6 +36,10 @@ const createRateLimiter = (options: {
     store: new MemoryStore()
   };
 
+  if (options.keyGenerator) {
+    rateLimitOptions.keyGenerator = options.keyGenerator;
+  }
+
   return rateLimit(rateLimitOptions);
 };
 
@@ -82,13 +88,15 @@ const passwordResetLimiter: RateLimitRequestHandler = createRateLimiter({
 
 /**
  * 短信验证码限流中间件
+ * 按手机号限流，未携带手机号时按IP限流
  */
 const smsLimiter: RateLimitRequestHandler = createRateLimiter({
   windowMs: 60 * 1000, // 1分钟
   max: 1, // 最多1条
   message: '短信发送过于频繁，请1分钟后再试',
   code: HttpCode.RATE_LIMIT_EXCEEDED,
-  prefix: 'sms_limit:'
+  prefix: 'sms_limit:',
+  keyGenerator: (req) => req.body?.phone ? `phone:${req.body.phone}` : `ip:${req.ip}`
 });
 
 /**
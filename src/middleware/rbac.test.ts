@@ -0,0 +1,129 @@
+import { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { requirePermission, requireRole } from "./rbac";
+import rbacService from "../modules/rbac/services/rbac.service";
+import { Permission, PrincipalType, Role } from "../modules/rbac/models/rbac";
+import { HttpCode, JwtType } from "../types";
+
+vi.mock("../utils/logger", () => ({
+  securityLogger: { warn: vi.fn() },
+}));
+vi.mock("../modules/rbac/services/rbac.service", () => ({
+  default: { getCachedGrants: vi.fn() },
+}));
+
+/**
+ * 构造携带令牌载荷的请求，令牌中的角色和权限故意与服务端不一致
+ * @param type - 令牌类型
+ * @returns 请求对象
+ */
+const buildRequest = (type: JwtType = JwtType.normal): Request =>
+  ({
+    user: {
+      userId: 1,
+      iat: 0,
+      type,
+      roles: [Role.ADMIN],
+      permissions: Object.values(Permission),
+    },
+    url: "/",
+    method: "GET",
+    ip: "127.0.0.1",
+  }) as unknown as Request;
+
+/**
+ * 构造响应对象
+ * @returns 响应对象
+ */
+const buildResponse = () => {
+  const res = { status: vi.fn(), json: vi.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+};
+
+describe("requireRole", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(rbacService.getCachedGrants).mockResolvedValue({
+      roles: [Role.USER],
+      permissions: [Permission.ORDER_PLACE],
+    });
+  });
+
+  it("按服务端读取的角色放行", async () => {
+    const next = vi.fn();
+    const res = buildResponse();
+
+    await requireRole(Role.MERCHANT, Role.USER)(
+      buildRequest(),
+      res as unknown as Response,
+      next
+    );
+
+    expect(rbacService.getCachedGrants).toHaveBeenCalledWith(PrincipalType.USER, 1);
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("令牌中的角色不参与授权", async () => {
+    const next = vi.fn();
+    const res = buildResponse();
+
+    await requireRole(Role.ADMIN)(buildRequest(), res as unknown as Response, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ code: HttpCode.FORBIDDEN })
+    );
+  });
+});
+
+describe("requirePermission", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(rbacService.getCachedGrants).mockResolvedValue({
+      roles: [Role.USER],
+      permissions: [Permission.ORDER_PLACE, Permission.CART_MANAGE],
+    });
+  });
+
+  it("拥有全部权限时放行", async () => {
+    const next = vi.fn();
+
+    await requirePermission(Permission.CART_MANAGE, Permission.ORDER_PLACE)(
+      buildRequest(),
+      buildResponse() as unknown as Response,
+      next
+    );
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("缺少任一权限时拒绝访问", async () => {
+    const next = vi.fn();
+    const res = buildResponse();
+
+    await requirePermission(Permission.CART_MANAGE, Permission.WALLET_MANAGE)(
+      buildRequest(),
+      res as unknown as Response,
+      next
+    );
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it("未认证时返回401", async () => {
+    const next = vi.fn();
+    const res = buildResponse();
+
+    await requirePermission(Permission.CART_MANAGE)(
+      {} as Request,
+      res as unknown as Response,
+      next
+    );
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(rbacService.getCachedGrants).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,102 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { ApiResponse, HttpCode, JwtType } from "../types";
+import { securityLogger } from "../utils/logger";
+import { Permission, PrincipalType, Role } from "../modules/rbac/models/rbac";
+import rbacService from "../modules/rbac/services/rbac.service";
+
+// 访问令牌类型对应的账号类型
+const PRINCIPAL_TYPES: Partial<Record<JwtType, PrincipalType>> = {
+  [JwtType.normal]: PrincipalType.USER,
+  [JwtType.merchant]: PrincipalType.MERCHANT,
+  [JwtType.rider]: PrincipalType.RIDER,
+  [JwtType.admin]: PrincipalType.ADMIN,
+};
+
+/**
+ * 拒绝访问并返回错误响应
+ * @param res - 响应对象
+ * @param status - HTTP状态码
+ * @param message - 错误信息
+ * @param code - 业务错误码
+ */
+const deny = (
+  res: Response,
+  status: number,
+  message: string,
+  code: HttpCode
+): void => {
+  const response: ApiResponse = {
+    status: "error",
+    message,
+    code,
+    timestamp: new Date().toISOString(),
+  };
+  res.status(status).json(response);
+};
+
+/**
+ * 创建授权中间件
+ * 必须放在认证中间件之后，按账号读取当前的角色和权限（短时缓存）判断是否放行
+ * 不依赖令牌中的角色和权限，角色调整无需重新登录，未携带权限的旧令牌也能正常授权
+ * @param check - 授权判断，参数为账号当前的角色和权限
+ * @param required - 所需角色或权限（用于日志）
+ */
+const createAuthorizeMiddleware = (
+  check: (roles: string[], permissions: string[]) => boolean,
+  required: string[]
+): RequestHandler => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (!req.user) {
+    deny(res, 401, "缺少访问令牌", HttpCode.MISSING_TOKEN);
+    return;
+  }
+
+  const principalType = PRINCIPAL_TYPES[req.user.type];
+  const grants = principalType
+    ? await rbacService.getCachedGrants(principalType, req.user.userId)
+    : { roles: [], permissions: [] };
+
+  if (!check(grants.roles, grants.permissions)) {
+    securityLogger.warn("权限不足，拒绝访问", {
+      userId: req.user.userId,
+      type: req.user.type,
+      roles: grants.roles,
+      required,
+      url: req.url,
+      method: req.method,
+      ip: req.ip,
+    });
+    deny(res, 403, "权限不足", HttpCode.FORBIDDEN);
+    return;
+  }
+
+  next();
+};
+
+/**
+ * 角色校验中间件
+ * 拥有任一指定角色即可访问
+ * @param roles - 允许访问的角色
+ */
+const requireRole = (...roles: Role[]): RequestHandler =>
+  createAuthorizeMiddleware(
+    (grantedRoles) => roles.some((role) => grantedRoles.includes(role)),
+    roles
+  );
+
+/**
+ * 权限校验中间件
+ * 必须拥有全部指定权限才能访问
+ * @param permissions - 所需权限
+ */
+const requirePermission = (...permissions: Permission[]): RequestHandler =>
+  createAuthorizeMiddleware(
+    (_, grantedPermissions) =>
+      permissions.every((permission) => grantedPermissions.includes(permission)),
+    permissions
+  );
+
+export { requireRole, requirePermission };
@@ -0,0 +1,42 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { HttpCode } from '../types';
+import { errorResponse } from '../utils/response';
+
+// 对账单文件大小上限
+const STATEMENT_MAX_SIZE = 10 * 1024 * 1024; // 10MB
+
+// 对账单文件保存在内存中，解析后即丢弃
+const statementMulter = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: STATEMENT_MAX_SIZE, files: 1 },
+  fileFilter: (req, file, callback) => {
+    if (!/\.(csv|txt)$/i.test(file.originalname)) {
+      callback(new multer.MulterError('LIMIT_UNEXPECTED_FILE', file.fieldname));
+      return;
+    }
+    callback(null, true);
+  }
+}).single('file');
+
+/**
+ * 对账单上传中间件（表单字段 file，仅支持 csv/txt）
+ */
+export const statementUpload = (req: Request, res: Response, next: NextFunction): void => {
+  statementMulter(req, res, (error: unknown) => {
+    if (!error) {
+      next();
+      return;
+    }
+
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      errorResponse(res, '对账单文件不能超过10MB', 400, HttpCode.FILE_TOO_LARGE);
+      return;
+    }
+    if (error instanceof multer.MulterError) {
+      errorResponse(res, '请上传csv格式的对账单文件', 400, HttpCode.INVALID_FILE_TYPE);
+      return;
+    }
+    next(error);
+  });
+};
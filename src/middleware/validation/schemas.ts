@@ -15,10 +15,9 @@ export const userValidation = {
       .matches(/^1[3-9]\d{9}$/)
       .withMessage("请输入有效的手机号码"),
     body("authCode")
-      .optional()
       .trim()
-      .isLength({ min: 4, max: 4 })
-      .withMessage("验证码长度必须是4个字符"),
+      .matches(/^\d{6}$/)
+      .withMessage("验证码必须是6位数字"),
   ],
 
   login: [
@@ -33,6 +32,23 @@ export const userValidation = {
       .withMessage("请输入手机号码")
       .matches(/^1[3-9]\d{9}$/)
       .withMessage("请输入有效的手机号码"),
+    body("authCode")
+      .optional()
+      .trim()
+      .matches(/^\d{6}$/)
+      .withMessage("验证码必须是6位数字"),
+  ],
+
+  // 发送短信验证码
+  sendSmsCode: [
+    body("phone")
+      .notEmpty()
+      .withMessage("请输入手机号码")
+      .matches(/^1[3-9]\d{9}$/)
+      .withMessage("请输入有效的手机号码"),
+    body("purpose")
+      .isIn(["register", "login", "reset"])
+      .withMessage("验证码用途必须是register、login或reset"),
   ],
 
   updateProfile: [
@@ -55,15 +71,46 @@ export const userValidation = {
       .withMessage("新密码长度必须在6-20个字符之间")
       .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
       .withMessage("新密码必须包含大小写字母和数字"),
+    body("revokeOtherSessions")
+      .optional()
+      .isBoolean({ strict: true })
+      .withMessage("revokeOtherSessions必须是布尔值"),
   ],
 
-  resetPassword: [
-    body("email").isEmail().withMessage("请输入有效的邮箱地址"),
+  // 退出指定登录设备
+  revokeSession: [
+    param("id").isInt({ min: 1 }).withMessage("设备会话ID必须是大于0的整数"),
+  ],
+
+  // 获取账号安全记录
+  getSecurityEvents: [
+    query("page")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("页码必须是大于0的整数"),
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("每页数量必须是1-100之间的整数"),
+  ],
+
+  // 重置密码第一步：校验验证码获取重置令牌
+  verifyResetCode: [
+    body("phone")
+      .notEmpty()
+      .withMessage("请输入手机号码")
+      .matches(/^1[3-9]\d{9}$/)
+      .withMessage("请输入有效的手机号码"),
     body("code")
       .isLength({ min: 6, max: 6 })
       .withMessage("验证码必须是6位数字")
       .matches(/^\d{6}$/)
       .withMessage("验证码必须是6位数字"),
+  ],
+
+  // 重置密码第二步：使用重置令牌设置新密码
+  resetPassword: [
+    body("resetToken").notEmpty().withMessage("请提供重置令牌"),
     body("newPassword")
       .isLength({ min: 6, max: 20 })
       .withMessage("新密码长度必须在6-20个字符之间")
@@ -91,6 +138,22 @@ export const userValidation = {
       .trim()
       .isLength({ min: 5, max: 100 })
       .withMessage("详细地址长度必须在5-100个字符之间"),
+    body("latitude")
+      .optional()
+      .isFloat({ min: -90, max: 90 })
+      .withMessage("纬度必须在-90到90之间")
+      .toFloat(),
+    body("longitude")
+      .optional()
+      .isFloat({ min: -180, max: 180 })
+      .withMessage("经度必须在-180到180之间")
+      .toFloat(),
+    body().custom((_value, { req }) => {
+      if ((req.body.latitude === undefined) !== (req.body.longitude === undefined)) {
+        throw new Error("经纬度必须同时提供");
+      }
+      return true;
+    }),
     body("isDefault")
       .optional()
       .isBoolean()
@@ -115,6 +178,22 @@ export const userValidation = {
       .trim()
       .isLength({ min: 5, max: 100 })
       .withMessage("详细地址长度必须在5-100个字符之间"),
+    body("latitude")
+      .optional()
+      .isFloat({ min: -90, max: 90 })
+      .withMessage("纬度必须在-90到90之间")
+      .toFloat(),
+    body("longitude")
+      .optional()
+      .isFloat({ min: -180, max: 180 })
+      .withMessage("经度必须在-180到180之间")
+      .toFloat(),
+    body().custom((_value, { req }) => {
+      if ((req.body.latitude === undefined) !== (req.body.longitude === undefined)) {
+        throw new Error("经纬度必须同时提供");
+      }
+      return true;
+    }),
     body("isDefault")
       .optional()
       .isBoolean()
@@ -122,60 +201,90 @@ export const userValidation = {
   ],
 };
 
+// 未携带报价令牌时才需要校验的下单字段
+const withoutQuoteToken = (_value: any, { req }: any): boolean =>
+  !req.body.quoteToken;
+
 // 订单验证规则
 export const orderValidation = {
   createOrder: [
+    // 报价令牌验证，携带报价令牌时餐厅、地址、菜品和金额以报价为准
+    body("quoteToken")
+      .optional()
+      .isJWT()
+      .withMessage("报价令牌格式错误"),
+
     // 餐厅ID验证
     body("restaurantId")
+      .if(withoutQuoteToken)
       .notEmpty()
       .isInt({ min: 1 })
       .withMessage("餐厅ID必须是大于0的整数"),
 
     // 收货地址ID验证
     body("addressId")
+      .if(withoutQuoteToken)
       .notEmpty()
       .isInt({ min: 1 })
       .withMessage("地址ID必须是大于0的整数"),
 
     // 订单商品列表验证
     body("items")
+      .if(withoutQuoteToken)
       .notEmpty()
       .isArray({ min: 1 })
       .withMessage("订单商品不能为空"),
 
     // 商品项验证 - 基础字段
     body("items.*.id")
+      .if(withoutQuoteToken)
       .notEmpty()
       .isInt({ min: 1 })
       .withMessage("菜品ID必须是大于0的整数"),
     body("items.*.name")
+      .if(withoutQuoteToken)
           .trim()
       .notEmpty()
       .trim()
       .isLength({ min: 1, max: 100 })
       .withMessage("菜品名称长度必须在1-100个字符之间"),
     body("items.*.price")
+      .if(withoutQuoteToken)
       .notEmpty()
       .isFloat({ min: 0, max: 9999 })
       .withMessage("价格必须在0-9999之间"),
     body("items.*.restaurantId")
+      .if(withoutQuoteToken)
       .notEmpty()
       .isInt({ min: 1 })
       .withMessage("商品餐厅ID必须是大于0的整数"),
     body("items.*.restaurantName")
+      .if(withoutQuoteToken)
           .trim()
       .notEmpty()
       .trim()
       .isLength({ min: 1, max: 100 })
       .withMessage("餐厅名称长度必须在1-100个字符之间"),
     body("items.*.categoryId")
+      .if(withoutQuoteToken)
       .notEmpty()
       .isInt({ min: 1 })
       .withMessage("分类ID必须是大于0的整数"),
     body("items.*.quantity")
+      .if(withoutQuoteToken)
       .notEmpty()
       .isInt({ min: 1, max: 99 })
       .withMessage("数量必须是1-99之间的整数"),
+    body("items.*.specOptionIds")
+      .if(withoutQuoteToken)
+      .optional()
+      .isArray({ max: 20 })
+      .withMessage("规格选项必须是数组"),
+    body("items.*.specOptionIds.*")
+      .if(withoutQuoteToken)
+      .isInt({ min: 1 })
+      .toInt()
+      .withMessage("规格选项ID必须是大于0的整数"),
 
     // 支付方式验证
     body("paymentMethod")
@@ -199,27 +308,72 @@ export const orderValidation = {
 
     // 金额验证
     body("subtotal")
+      .if(withoutQuoteToken)
       .notEmpty()
       .isFloat({ min: 0 })
       .withMessage("小计金额必须大于等于0"),
     body("deliveryFee")
+      .if(withoutQuoteToken)
       .notEmpty()
       .isFloat({ min: 0 })
       .withMessage("配送费必须大于等于0"),
     body("total")
+      .if(withoutQuoteToken)
       .notEmpty()
       .isFloat({ min: 0 })
       .withMessage("总金额必须大于等于0"),
 
+    // 用户优惠券ID验证
+    body("userCouponId")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("优惠券ID必须是大于0的整数"),
+
     // 金额逻辑验证 - 自定义验证器
-    body().custom((_value, { req }) => {
-      const { subtotal, deliveryFee, total } = req.body;
+    // 使用优惠券时总金额会小于小计加配送费，具体优惠金额由服务层校验
+    body().if(withoutQuoteToken).custom((_value, { req }) => {
+      const { subtotal, deliveryFee, total, userCouponId } = req.body;
       const calculatedTotal = subtotal + deliveryFee;
-      if (Math.abs(total - calculatedTotal) > 0.01) {
+      if (userCouponId ? total - calculatedTotal > 0.01 : Math.abs(total - calculatedTotal) > 0.01) {
         throw new Error("总金额计算错误");
       }
       return true;
-    }).withMessage("总金额必须等于小计金额加配送费"),
+    }).withMessage("总金额必须等于小计金额加配送费减优惠金额"),
+  ],
+
+  quoteOrder: [
+    body("restaurantId")
+      .notEmpty()
+      .isInt({ min: 1 })
+      .withMessage("餐厅ID必须是大于0的整数"),
+    body("addressId")
+      .notEmpty()
+      .isInt({ min: 1 })
+      .withMessage("地址ID必须是大于0的整数"),
+    body("items")
+      .notEmpty()
+      .isArray({ min: 1 })
+      .withMessage("订单商品不能为空"),
+    body("items.*.id")
+      .notEmpty()
+      .isInt({ min: 1 })
+      .withMessage("菜品ID必须是大于0的整数"),
+    body("items.*.quantity")
+      .notEmpty()
+      .isInt({ min: 1, max: 99 })
+      .withMessage("数量必须是1-99之间的整数"),
+    body("items.*.specOptionIds")
+      .optional()
+      .isArray({ max: 20 })
+      .withMessage("规格选项必须是数组"),
+    body("items.*.specOptionIds.*")
+      .isInt({ min: 1 })
+      .toInt()
+      .withMessage("规格选项ID必须是大于0的整数"),
+    body("userCouponId")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("优惠券ID必须是大于0的整数"),
   ],
 
   getOrders: [
@@ -238,6 +392,7 @@ export const orderValidation = {
         "paid",
         "confirmed",
         "preparing",
+        "ready",
         "delivering",
         "completed",
         "cancelled",
@@ -257,21 +412,6 @@ export const orderValidation = {
       .isLength({ max: 200 })
       .withMessage("取消原因长度不能超过200个字符"),
   ],
-    changeStatus: [
-    // 取消订单使用body参数，符合我们的路由设计
-    body("orderId")
-      .notEmpty()
-      .isInt({ min: 1 })
-      .withMessage("订单ID必须是大于0的整数"),
-    body("status")
-      .optional()
-      .isIn([
-        "preparing",
-        "delivering",
-        "completed"
-      ])
-      .withMessage("订单状态无效"),
-  ],
 
   // 订单支付验证 - 用于处理订单支付请求
   payOrder: [
@@ -295,6 +435,30 @@ export const orderValidation = {
       .notEmpty()
       .isLength({ min: 1, max: 500 })
       .withMessage("退款原因长度必须在5-500个字符之间"),
+    // 退款菜品 - 可选，按菜品部分退款，不能与退款金额同时传入
+    body("items")
+      .optional()
+      .isArray({ min: 1 })
+      .withMessage("退款菜品必须是非空数组")
+      .custom((items, { req }) => {
+        if (req.body.amount !== undefined) {
+          throw new Error("退款菜品和退款金额不能同时指定");
+        }
+        return true;
+      }),
+    // 订单项ID - 退款菜品中必填
+    body("items.*.orderItemId")
+      .isInt({ min: 1 })
+      .withMessage("订单项ID必须是大于0的整数"),
+    // 退款数量 - 退款菜品中必填
+    body("items.*.quantity")
+      .isInt({ min: 1 })
+      .withMessage("退款数量必须是大于0的整数"),
+    // 退款金额 - 可选，按金额部分退款，不传则退还全部剩余金额
+    body("amount")
+      .optional()
+      .isFloat({ min: 0.01 })
+      .withMessage("退款金额必须大于0"),
   ],
 
   // 获取订单列表验证 - 支持分页和状态筛选
@@ -317,6 +481,7 @@ export const orderValidation = {
         "paid",       // 已支付
         "confirmed",  // 已确认
         "preparing",  // 制作中
+        "ready",      // 待取餐
         "delivering", // 配送中
         "completed",  // 已完成
         "cancelled",  // 已取消
@@ -461,6 +626,33 @@ export const paymentValidation = {
     body("amount").isFloat({ min: 0.01 }).withMessage("支付金额必须大于0"),
   ],
 
+  getPayments: [
+    query("page")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("页码必须是大于0的整数"),
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("每页数量必须是1-100之间的整数"),
+    query("startDate")
+      .optional()
+      .isISO8601()
+      .withMessage("开始日期格式不正确"),
+    query("endDate")
+      .optional()
+      .isISO8601()
+      .withMessage("结束日期格式不正确"),
+    query("paymentMethod")
+      .optional()
+      .isIn(["wechat", "alipay", "balance"])
+      .withMessage("支付方式必须是wechat、alipay或balance"),
+    query("status")
+      .optional()
+      .isIn(["pending", "processing", "success", "failed"])
+      .withMessage("支付状态必须是pending、processing、success或failed"),
+  ],
+
   getPaymentStatus: [
     param("id").isInt({ min: 1 }).withMessage("支付ID必须是大于0的整数"),
   ],
@@ -479,6 +671,113 @@ export const paymentValidation = {
   ],
 };
 
+// 钱包验证规则
+export const walletValidation = {
+  getTransactions: [
+    query("page")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("页码必须是大于0的整数"),
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("每页数量必须是1-100之间的整数"),
+    query("type")
+      .optional()
+      .isIn([
+        "recharge",
+        "consume",
+        "refund",
+        "withdrawal",
+        "freeze",
+        "unfreeze",
+        "admin_credit",
+        "admin_debit",
+      ])
+      .withMessage("流水类型不正确"),
+  ],
+
+  createRecharge: [
+    body("amount")
+      .isFloat({ min: 0.01, max: 50000 })
+      .withMessage("充值金额必须在0.01-50000之间"),
+    body("paymentMethod")
+      .isIn(["wechat", "alipay"])
+      .withMessage("充值支付方式必须是wechat或alipay"),
+  ],
+
+  getRecharge: [
+    param("id").isInt({ min: 1 }).withMessage("充值订单ID必须是大于0的整数"),
+  ],
+};
+
+// 购物车验证规则
+export const cartValidation = {
+  getCart: [
+    query("restaurantId")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("餐厅ID必须是大于0的整数"),
+  ],
+
+  addItem: [
+    body("dishId").isInt({ min: 1 }).withMessage("菜品ID必须是大于0的整数"),
+    body("quantity")
+      .isInt({ min: 1, max: 99 })
+      .withMessage("数量必须是1-99之间的整数"),
+    body("specOptionIds")
+      .optional()
+      .isArray({ max: 20 })
+      .withMessage("规格选项必须是数组"),
+    body("specOptionIds.*")
+      .isInt({ min: 1 })
+      .toInt()
+      .withMessage("规格选项ID必须是大于0的整数"),
+  ],
+
+  updateItem: [
+    param("id").isInt({ min: 1 }).withMessage("购物车项ID必须是大于0的整数"),
+    body("quantity")
+      .isInt({ min: 1, max: 99 })
+      .withMessage("数量必须是1-99之间的整数"),
+  ],
+
+  removeItem: [
+    param("id").isInt({ min: 1 }).withMessage("购物车项ID必须是大于0的整数"),
+  ],
+
+  clearRestaurant: [
+    param("restaurantId")
+      .isInt({ min: 1 })
+      .withMessage("餐厅ID必须是大于0的整数"),
+  ],
+
+  checkout: [
+    body("restaurantId")
+      .isInt({ min: 1 })
+      .withMessage("餐厅ID必须是大于0的整数"),
+    body("addressId").isInt({ min: 1 }).withMessage("地址ID必须是大于0的整数"),
+    body("paymentMethod")
+      .trim()
+      .notEmpty()
+      .isIn(["wechat", "alipay", "balance", "apple"])
+      .withMessage("支付方式必须是wechat、alipay、balance或apple"),
+    body("deliveryTime")
+      .notEmpty()
+      .isLength({ min: 1, max: 50 })
+      .withMessage("送达时间长度必须在1-50个字符之间"),
+    body("note")
+      .optional()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage("备注长度不能超过500个字符"),
+    body("userCouponId")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("优惠券ID必须是大于0的整数"),
+  ],
+};
+
 // 餐厅验证规则
 export const restaurantValidation = {
   // 获取餐厅列表（支持搜索功能）
@@ -555,3 +854,394 @@ export const restaurantValidation = {
   ],
 
   };
+
+// 商家验证规则
+export const merchantValidation = {
+  // 商家登录
+  login: [
+    body("username")
+      .trim()
+      .notEmpty()
+      .isLength({ max: 50 })
+      .withMessage("请输入商家用户名"),
+    body("password")
+      .notEmpty()
+      .isLength({ min: 6, max: 20 })
+      .withMessage("密码长度必须在6-20个字符之间"),
+  ],
+
+  // 获取餐厅订单列表
+  getOrders: [
+    query("page")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("页码必须是大于0的整数"),
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("每页数量必须是1-100之间的整数"),
+    query("status")
+      .optional()
+      .isIn([
+        "confirmed",  // 待接单
+        "preparing",  // 制作中
+        "ready",      // 待取餐
+        "delivering", // 配送中
+        "completed",  // 已完成
+        "cancelled",  // 已取消
+      ])
+      .withMessage("订单状态无效"),
+  ],
+
+  // 接单、出餐
+  orderAction: [
+    body("orderId")
+      .notEmpty()
+      .isInt({ min: 1 })
+      .withMessage("订单ID必须是大于0的整数"),
+  ],
+
+  // 拒单 - 必须填写原因，会展示给用户
+  rejectOrder: [
+    body("orderId")
+      .notEmpty()
+      .isInt({ min: 1 })
+      .withMessage("订单ID必须是大于0的整数"),
+    body("reason")
+      .trim()
+      .notEmpty()
+      .isLength({ max: 200 })
+      .withMessage("拒单原因长度必须在1-200个字符之间"),
+  ],
+
+  // 设置菜品每日库存 - dailyStock 为 null 时取消限量
+  updateDishStock: [
+    body("dishId")
+      .notEmpty()
+      .isInt({ min: 1 })
+      .withMessage("菜品ID必须是大于0的整数"),
+    body("dailyStock")
+      .optional({ values: "null" })
+      .isInt({ min: 0, max: 99999 })
+      .withMessage("每日库存必须是0-99999之间的整数"),
+  ],
+
+  // 设置每周营业时间 - 结束时间不晚于开始时间表示营业到次日
+  updateBusinessHours: [
+    body("businessHours")
+      .isArray({ max: 50 })
+      .withMessage("营业时间必须是数组，最多50个时段"),
+    body("businessHours.*.dayOfWeek")
+      .isInt({ min: 0, max: 6 })
+      .withMessage("星期必须是0-6之间的整数（0为周日）")
+      .toInt(),
+    body("businessHours.*.openTime")
+      .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+      .withMessage("营业开始时间格式必须为HH:mm"),
+    body("businessHours.*.closeTime")
+      .matches(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/)
+      .withMessage("营业结束时间格式必须为HH:mm"),
+  ],
+
+  // 设置节假日营业安排
+  upsertHoliday: [
+    body("date")
+      .isISO8601({ strict: true })
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage("日期格式必须为YYYY-MM-DD"),
+    body("isClosed")
+      .isBoolean()
+      .withMessage("是否休息必须是布尔值")
+      .toBoolean(),
+    body("openTime")
+      .optional()
+      .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+      .withMessage("营业开始时间格式必须为HH:mm"),
+    body("closeTime")
+      .optional()
+      .matches(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/)
+      .withMessage("营业结束时间格式必须为HH:mm"),
+    body("remark")
+      .optional()
+      .trim()
+      .isLength({ max: 100 })
+      .withMessage("备注不能超过100个字符"),
+  ],
+
+  // 删除节假日营业安排
+  deleteHoliday: [
+    param("id")
+      .isInt({ min: 1 })
+      .withMessage("节假日安排ID必须是大于0的整数"),
+  ],
+
+  // 暂停接单 - minutes 为0时恢复接单
+  pauseOrders: [
+    body("minutes")
+      .isInt({ min: 0, max: 1440 })
+      .withMessage("暂停时长必须是0-1440之间的整数（分钟）"),
+  ],
+
+  // 设置配送范围和阶梯配送费 - 设置多边形时以多边形判断配送范围
+  updateDeliverySettings: [
+    body("latitude")
+      .isFloat({ min: -90, max: 90 })
+      .withMessage("纬度必须在-90到90之间")
+      .toFloat(),
+    body("longitude")
+      .isFloat({ min: -180, max: 180 })
+      .withMessage("经度必须在-180到180之间")
+      .toFloat(),
+    body("deliveryRadius")
+      .optional({ values: "null" })
+      .isInt({ min: 100, max: 50000 })
+      .withMessage("配送半径必须是100-50000之间的整数（米）")
+      .toInt(),
+    body("deliveryPolygon")
+      .optional({ values: "null" })
+      .isArray({ min: 3, max: 100 })
+      .withMessage("配送范围多边形必须是3-100个顶点的数组"),
+    body("deliveryPolygon.*.latitude")
+      .isFloat({ min: -90, max: 90 })
+      .withMessage("多边形顶点纬度必须在-90到90之间")
+      .toFloat(),
+    body("deliveryPolygon.*.longitude")
+      .isFloat({ min: -180, max: 180 })
+      .withMessage("多边形顶点经度必须在-180到180之间")
+      .toFloat(),
+    body("feeRules")
+      .optional()
+      .isArray({ max: 20 })
+      .withMessage("阶梯配送费必须是数组，最多20档"),
+    body("feeRules.*.maxDistance")
+      .isInt({ min: 1, max: 50000 })
+      .withMessage("阶梯配送费距离必须是1-50000之间的整数（米）")
+      .toInt(),
+    body("feeRules.*.fee")
+      .isFloat({ min: 0, max: 999.99 })
+      .withMessage("阶梯配送费必须在0-999.99之间")
+      .toFloat(),
+  ],
+};
+
+// 退款审核验证规则（商家端、管理端共用）
+export const refundAuditValidation = {
+  // 获取退款申请列表
+  getRefunds: [
+    query("page")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("页码必须是大于0的整数"),
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("每页数量必须是1-100之间的整数"),
+    query("status")
+      .optional()
+      .isIn(["pending", "approved", "rejected", "completed", "failed"])
+      .withMessage("退款状态无效"),
+  ],
+
+  // 同意退款 - 备注可选
+  approveRefund: [
+    body("refundId")
+      .notEmpty()
+      .isInt({ min: 1 })
+      .withMessage("退款记录ID必须是大于0的整数"),
+    body("remark")
+      .optional()
+      .trim()
+      .isLength({ max: 200 })
+      .withMessage("处理备注不能超过200个字符"),
+  ],
+
+  // 拒绝退款 - 必须填写原因，会展示给用户
+  rejectRefund: [
+    body("refundId")
+      .notEmpty()
+      .isInt({ min: 1 })
+      .withMessage("退款记录ID必须是大于0的整数"),
+    body("remark")
+      .trim()
+      .notEmpty()
+      .isLength({ max: 200 })
+      .withMessage("拒绝原因长度必须在1-200个字符之间"),
+  ],
+};
+
+// 平台管理员验证规则
+export const adminValidation = {
+  // 管理员登录
+  login: [
+    body("username")
+      .trim()
+      .notEmpty()
+      .isLength({ max: 50 })
+      .withMessage("请输入管理员用户名"),
+    body("password")
+      .notEmpty()
+      .isLength({ min: 6, max: 20 })
+      .withMessage("密码长度必须在6-20个字符之间"),
+  ],
+
+  // 手动调账
+  adjustWallet: [
+    body("userId").isInt({ min: 1 }).withMessage("用户ID必须是大于0的整数"),
+    body("direction")
+      .isIn(["credit", "debit"])
+      .withMessage("调账方向必须是credit或debit"),
+    body("amount")
+      .isFloat({ min: 0.01, max: 50000 })
+      .withMessage("调账金额必须在0.01-50000之间"),
+    body("reason")
+      .trim()
+      .isLength({ min: 1, max: 255 })
+      .withMessage("调账原因长度必须在1-255个字符之间"),
+  ],
+};
+
+// 对账验证规则
+export const reconciliationValidation = {
+  // 导入对账单
+  importStatement: [
+    body("paymentMethod")
+      .isIn(["wechat", "alipay"])
+      .withMessage("支付方式必须是wechat或alipay"),
+    body("billDate")
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .isISO8601({ strict: true })
+      .withMessage("账单日期格式必须是YYYY-MM-DD"),
+  ],
+
+  // 获取对账记录列表
+  getReconciliations: [
+    query("page")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("页码必须是大于0的整数"),
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("每页数量必须是1-100之间的整数"),
+    query("paymentMethod")
+      .optional()
+      .isIn(["wechat", "alipay"])
+      .withMessage("支付方式必须是wechat或alipay"),
+    query("startDate")
+      .optional()
+      .isISO8601()
+      .withMessage("开始日期格式不正确"),
+    query("endDate")
+      .optional()
+      .isISO8601()
+      .withMessage("结束日期格式不正确"),
+  ],
+
+  // 获取对账明细
+  getItems: [
+    param("id").isInt({ min: 1 }).withMessage("对账记录ID必须是大于0的整数"),
+    query("page")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("页码必须是大于0的整数"),
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("每页数量必须是1-100之间的整数"),
+    query("result")
+      .optional()
+      .isIn(["matched", "missing_local", "missing_remote", "amount_mismatch"])
+      .withMessage("对账结果无效"),
+    query("handleStatus")
+      .optional()
+      .isIn(["no_action", "pending", "resolved"])
+      .withMessage("处理状态无效"),
+  ],
+
+  // 处理对账差异
+  resolveItem: [
+    param("id").isInt({ min: 1 }).withMessage("对账明细ID必须是大于0的整数"),
+    body("remark")
+      .trim()
+      .isLength({ min: 1, max: 255 })
+      .withMessage("处理说明长度必须在1-255个字符之间"),
+  ],
+};
+
+// 骑手验证规则
+export const riderValidation = {
+  // 骑手登录
+  login: [
+    body("phone")
+      .notEmpty()
+      .withMessage("请输入手机号码")
+      .matches(/^1[3-9]\d{9}$/)
+      .withMessage("请输入有效的手机号码"),
+    body("password")
+      .notEmpty()
+      .isLength({ min: 6, max: 20 })
+      .withMessage("密码长度必须在6-20个字符之间"),
+  ],
+
+  // 获取配送单列表
+  getDeliveries: [
+    query("page")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("页码必须是大于0的整数"),
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("每页数量必须是1-100之间的整数"),
+    query("status")
+      .optional()
+      .isIn(["assigned", "picked_up", "delivering", "delivered"])
+      .withMessage("配送状态无效"),
+  ],
+
+  // 领取、取餐、开始配送、送达
+  deliveryAction: [
+    body("orderId")
+      .notEmpty()
+      .isInt({ min: 1 })
+      .withMessage("订单ID必须是大于0的整数"),
+  ],
+};
+
+export const couponValidation = {
+  // 获取可领取优惠券列表
+  getCoupons: [
+    query("page")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("页码必须是大于0的整数"),
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("每页数量必须是1-100之间的整数"),
+  ],
+
+  // 领取优惠券
+  claimCoupon: [
+    body("couponId")
+      .notEmpty()
+      .isInt({ min: 1 })
+      .withMessage("优惠券ID必须是大于0的整数"),
+  ],
+
+  // 获取我的优惠券列表
+  getMyCoupons: [
+    query("page")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("页码必须是大于0的整数"),
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("每页数量必须是1-100之间的整数"),
+    query("status")
+      .optional()
+      .isIn(["unused", "used", "expired"])
+      .withMessage("优惠券状态无效"),
+  ],
+};
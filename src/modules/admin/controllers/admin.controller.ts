@@ -0,0 +1,266 @@
+import { Request, Response } from 'express';
+import adminService from '../services/admin.service';
+import { successResponse, errorResponse } from '../../../utils/response';
+import logger, { businessLogger } from '../../../utils/logger';
+import { HttpCode } from '../../../types/index';
+import { PaymentMethod, RefundStatus } from '../../order/models/order';
+import { WalletAdjustmentDirection } from '../../wallet/models/wallet';
+import {
+  ReconciliationHandleStatus,
+  ReconciliationResult
+} from '../../payment/models/reconciliation';
+
+class AdminController {
+  /**
+   * 管理员登录
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async login(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await adminService.login(req.body);
+
+      businessLogger.info('管理员登录成功', {
+        adminId: result.adminId,
+        ip: req.ip
+      });
+
+      successResponse(res, '登录成功', result);
+    } catch (error: any) {
+      logger.error('管理员登录失败', {
+        error: error.message,
+        stack: error.stack,
+        username: req.body.username,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 获取退款申请列表
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async getRefunds(req: Request, res: Response): Promise<void> {
+    try {
+      const { page, limit, status } = req.query;
+
+      const result = await adminService.getRefundList({
+        page: Number(page) || 1,
+        limit: Number(limit) || 10,
+        ...(status && { status: status as RefundStatus })
+      });
+
+      successResponse(res, '获取退款申请列表成功', result);
+    } catch (error: any) {
+      logger.error('管理员获取退款申请列表失败', {
+        error: error.message,
+        stack: error.stack,
+        adminId: req.user?.userId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 同意退款申请
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async approveRefund(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await adminService.approveRefund(req.body, req.user!.userId);
+
+      successResponse(res, '退款审核通过', result);
+    } catch (error: any) {
+      logger.error('管理员同意退款失败', {
+        error: error.message,
+        stack: error.stack,
+        adminId: req.user?.userId,
+        refundId: req.body.refundId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 拒绝退款申请
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async rejectRefund(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await adminService.rejectRefund(req.body, req.user!.userId);
+
+      successResponse(res, '已拒绝退款申请', result);
+    } catch (error: any) {
+      logger.error('管理员拒绝退款失败', {
+        error: error.message,
+        stack: error.stack,
+        adminId: req.user?.userId,
+        refundId: req.body.refundId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 手动调整用户钱包余额
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async adjustWallet(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await adminService.adjustWallet({
+        userId: Number(req.body.userId),
+        direction: req.body.direction as WalletAdjustmentDirection,
+        amount: Number(req.body.amount),
+        reason: req.body.reason
+      }, req.user!.userId);
+
+      successResponse(res, '调账成功', result);
+    } catch (error: any) {
+      logger.error('管理员调账失败', {
+        error: error.message,
+        stack: error.stack,
+        adminId: req.user?.userId,
+        userId: req.body.userId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 上传对账单
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async importStatement(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.file) {
+        errorResponse(res, '请上传对账单文件', 400, HttpCode.VALIDATION_ERROR);
+        return;
+      }
+
+      const result = await adminService.importStatement({
+        paymentMethod: req.body.paymentMethod as PaymentMethod,
+        billDate: req.body.billDate,
+        fileName: req.file.originalname,
+        content: req.file.buffer
+      }, req.user!.userId);
+
+      successResponse(res, '对账单导入成功', result);
+    } catch (error: any) {
+      logger.error('导入对账单失败', {
+        error: error.message,
+        stack: error.stack,
+        adminId: req.user?.userId,
+        paymentMethod: req.body.paymentMethod,
+        billDate: req.body.billDate,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 获取对账记录列表
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async getReconciliations(req: Request, res: Response): Promise<void> {
+    try {
+      const { page, limit, paymentMethod, startDate, endDate } = req.query;
+
+      const result = await adminService.getReconciliationList({
+        page: Number(page) || 1,
+        limit: Number(limit) || 10,
+        ...(paymentMethod && { paymentMethod: paymentMethod as 'wechat' | 'alipay' }),
+        ...(startDate && { startDate: startDate as string }),
+        ...(endDate && { endDate: endDate as string })
+      });
+
+      successResponse(res, '获取对账记录列表成功', result);
+    } catch (error: any) {
+      logger.error('获取对账记录列表失败', {
+        error: error.message,
+        stack: error.stack,
+        adminId: req.user?.userId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 获取对账明细列表
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async getReconciliationItems(req: Request, res: Response): Promise<void> {
+    try {
+      const { page, limit, result: itemResult, handleStatus } = req.query;
+
+      const result = await adminService.getReconciliationItems(Number(req.params.id), {
+        page: Number(page) || 1,
+        limit: Number(limit) || 10,
+        ...(itemResult && { result: itemResult as ReconciliationResult }),
+        ...(handleStatus && { handleStatus: handleStatus as ReconciliationHandleStatus })
+      });
+
+      successResponse(res, '获取对账明细成功', result);
+    } catch (error: any) {
+      logger.error('获取对账明细失败', {
+        error: error.message,
+        stack: error.stack,
+        adminId: req.user?.userId,
+        reconciliationId: req.params.id,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 处理对账差异
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async resolveReconciliationItem(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await adminService.resolveReconciliationItem({
+        itemId: Number(req.params.id),
+        remark: req.body.remark
+      }, req.user!.userId);
+
+      successResponse(res, '对账差异已处理', result);
+    } catch (error: any) {
+      logger.error('处理对账差异失败', {
+        error: error.message,
+        stack: error.stack,
+        adminId: req.user?.userId,
+        itemId: req.params.id,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+}
+
+// 导出单例实例
+const adminController = new AdminController();
+export default adminController;
@@ -0,0 +1,35 @@
+import { prisma } from "../../../database/prisma";
+import { Admin } from "./admin";
+
+class AdminModel {
+  /**
+   * 根据用户名查询管理员账号（包含密码）
+   * @param username - 登录用户名
+   * @returns 管理员账号信息
+   */
+  async findByUsername(username: string): Promise<Admin | null> {
+    const admin = await prisma.admins.findFirst({
+      where: {
+        username,
+        deletedAt: null,
+      },
+    });
+
+    return admin;
+  }
+
+  /**
+   * 更新最后登录时间
+   * @param id - 管理员ID
+   */
+  async updateLastLogin(id: number): Promise<void> {
+    await prisma.admins.update({
+      where: { id },
+      data: { lastLoginAt: new Date() },
+    });
+  }
+}
+
+// 导出单例实例
+const adminModel = new AdminModel();
+export default adminModel;
@@ -0,0 +1,45 @@
+/**
+ * 平台管理员账号接口定义（对应数据库 admins 表）
+ */
+export interface Admin {
+  /** 管理员唯一标识ID */
+  id: number;
+  /** 登录用户名 */
+  username: string;
+  /** 登录密码（已加密），仅登录校验时查询 */
+  password?: string;
+  /** 管理员姓名，可选 */
+  name: string | null;
+  /** 账号状态：true-启用，false-禁用 */
+  status: boolean;
+  /** 最后登录时间，可选 */
+  lastLoginAt: Date | null;
+  /** 创建时间 */
+  createdAt: Date;
+  /** 更新时间 */
+  updatedAt: Date;
+}
+
+/**
+ * 管理员登录请求参数接口
+ */
+export interface AdminLoginInput {
+  /** 登录用户名 */
+  username: string;
+  /** 登录密码 */
+  password: string;
+}
+
+/**
+ * 管理员登录结果接口
+ */
+export interface AdminLoginResult {
+  /** 管理员ID */
+  adminId: number;
+  /** 管理员访问令牌 */
+  accessToken: string;
+  /** 令牌过期时间 */
+  expiresIn: string | number;
+  /** 管理员账号信息（不含密码） */
+  admin: Admin;
+}
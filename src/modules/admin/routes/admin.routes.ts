@@ -0,0 +1,91 @@
+import { Router } from 'express';
+import adminController from '../controllers/admin.controller';
+import { adminAuthMiddleware } from '../../../middleware/auth';
+import { requirePermission } from '../../../middleware/rbac';
+import { Permission } from '../../rbac/models/rbac';
+import { validate } from '../../../middleware/validation';
+import { adminValidation, reconciliationValidation, refundAuditValidation } from '../../../middleware/validation/schemas';
+import { loginLimiter } from '../../../middleware/rateLimiter';
+import { statementUpload } from '../../../middleware/upload';
+
+// 创建路由器
+const router: Router = Router();
+
+/**
+ * 平台管理路由模块
+ * 包含管理员登录、退款审核、钱包调账、支付对账等管理端接口
+ */
+
+// 1. 管理员登录
+router.post('/login',
+  loginLimiter,
+  validate(adminValidation.login),
+  adminController.login
+);
+
+// 2. 获取退款申请列表（支持分页和状态筛选）
+router.get('/refunds',
+  adminAuthMiddleware,
+  requirePermission(Permission.ADMIN_REFUND_REVIEW),
+  validate(refundAuditValidation.getRefunds),
+  adminController.getRefunds
+);
+
+// 3. 同意退款申请（同意后立即执行退款）
+router.post('/refunds/approve',
+  adminAuthMiddleware,
+  requirePermission(Permission.ADMIN_REFUND_REVIEW),
+  validate(refundAuditValidation.approveRefund),
+  adminController.approveRefund
+);
+
+// 4. 拒绝退款申请
+router.post('/refunds/reject',
+  adminAuthMiddleware,
+  requirePermission(Permission.ADMIN_REFUND_REVIEW),
+  validate(refundAuditValidation.rejectRefund),
+  adminController.rejectRefund
+);
+
+// 5. 手动调整用户钱包余额（调账原因必填，用于审计）
+router.post('/wallets/adjust',
+  adminAuthMiddleware,
+  requirePermission(Permission.ADMIN_WALLET_ADJUST),
+  validate(adminValidation.adjustWallet),
+  adminController.adjustWallet
+);
+
+// 6. 上传支付渠道对账单（multipart/form-data，字段 file、paymentMethod、billDate）
+router.post('/reconciliations',
+  adminAuthMiddleware,
+  requirePermission(Permission.ADMIN_RECONCILIATION_MANAGE),
+  statementUpload,
+  validate(reconciliationValidation.importStatement),
+  adminController.importStatement
+);
+
+// 7. 获取对账记录列表（支持分页、支付方式和账单日期筛选）
+router.get('/reconciliations',
+  adminAuthMiddleware,
+  requirePermission(Permission.ADMIN_RECONCILIATION_MANAGE),
+  validate(reconciliationValidation.getReconciliations),
+  adminController.getReconciliations
+);
+
+// 8. 获取对账明细（支持按对账结果和处理状态筛选）
+router.get('/reconciliations/:id/items',
+  adminAuthMiddleware,
+  requirePermission(Permission.ADMIN_RECONCILIATION_MANAGE),
+  validate(reconciliationValidation.getItems),
+  adminController.getReconciliationItems
+);
+
+// 9. 处理对账差异
+router.post('/reconciliations/items/:id/resolve',
+  adminAuthMiddleware,
+  requirePermission(Permission.ADMIN_RECONCILIATION_MANAGE),
+  validate(reconciliationValidation.resolveItem),
+  adminController.resolveReconciliationItem
+);
+
+export default router;
@@ -0,0 +1,201 @@
+import bcrypt from "bcryptjs";
+import logger, { businessLogger, securityLogger } from "../../../utils/logger";
+import config from "../../../config";
+import { HttpCode, PaginatedResponse } from "../../../types/index";
+import { generateAdminToken } from "../../../utils/jwt";
+import { AdminLoginInput, AdminLoginResult } from "../models/admin";
+import {
+  GetRefundListRequest,
+  ProcessRefundRequest,
+  ProcessRefundResponse,
+  ProcessorType,
+  RefundRecord,
+} from "../../order/models/order";
+import {
+  AdjustWalletRequest,
+  AdjustWalletResponse,
+} from "../../wallet/models/wallet";
+import {
+  GetReconciliationItemsRequest,
+  ImportStatementRequest,
+  Reconciliation,
+  ReconciliationItem,
+  ReconciliationSource,
+  ResolveReconciliationItemRequest,
+} from "../../payment/models/reconciliation";
+import { ReconciliationQueryParams } from "../../../types/payment";
+import adminModel from "../models/admin.model";
+import userModel from "../../user/models/user.model";
+import orderService from "../../order/services/order.service";
+import walletService from "../../wallet/services/wallet.service";
+import reconciliationService from "../../payment/services/reconciliation.service";
+import { PrincipalType } from "../../rbac/models/rbac";
+import rbacService from "../../rbac/services/rbac.service";
+
+class AdminService {
+  /**
+   * 管理员登录
+   * @param loginData - 登录数据
+   * @returns 登录结果
+   */
+  async login(loginData: AdminLoginInput): Promise<AdminLoginResult> {
+    businessLogger.info("开始执行管理员登录", { username: loginData.username });
+
+    // 步骤1: 查询管理员账号（包含密码）
+    const admin = await adminModel.findByUsername(loginData.username);
+    if (!admin || !admin.password) {
+      throw { message: "用户名或密码错误", code: HttpCode.AUTH_FAILED };
+    }
+
+    if (!admin.status) {
+      securityLogger.warn("管理员账号已被禁用", { adminId: admin.id });
+      throw { message: "管理员账号已被禁用", code: HttpCode.FORBIDDEN };
+    }
+
+    // 步骤2: 校验密码
+    const isPasswordValid = await bcrypt.compare(
+      loginData.password,
+      admin.password
+    );
+    if (!isPasswordValid) {
+      securityLogger.warn("管理员登录密码错误", { adminId: admin.id });
+      throw { message: "用户名或密码错误", code: HttpCode.AUTH_FAILED };
+    }
+
+    // 步骤3: 读取角色权限，生成管理员令牌并记录登录时间
+    const grants = await rbacService.getGrants(PrincipalType.ADMIN, admin.id);
+    const accessToken = generateAdminToken(admin.id, grants);
+    await adminModel.updateLastLogin(admin.id);
+
+    logger.info(`Admin logged in: ${admin.id}`, { adminId: admin.id });
+
+    const { password, ...adminInfo } = admin;
+
+    return {
+      adminId: admin.id,
+      accessToken,
+      expiresIn: config.jwt.expiresIn,
+      admin: adminInfo,
+    };
+  }
+
+  /**
+   * 获取全平台退款申请列表
+   * @param params - 查询参数
+   * @returns 分页退款申请列表
+   */
+  async getRefundList(
+    params: GetRefundListRequest
+  ): Promise<PaginatedResponse<RefundRecord>> {
+    return orderService.getRefundList(params);
+  }
+
+  /**
+   * 平台同意退款申请
+   * @param request - 审核请求
+   * @param adminId - 管理员ID
+   * @returns 审核结果
+   */
+  async approveRefund(
+    request: ProcessRefundRequest,
+    adminId: number
+  ): Promise<ProcessRefundResponse> {
+    return orderService.approveRefund(request, {
+      processorType: ProcessorType.ADMIN,
+      processorId: adminId,
+    });
+  }
+
+  /**
+   * 平台拒绝退款申请
+   * @param request - 审核请求
+   * @param adminId - 管理员ID
+   * @returns 审核结果
+   */
+  async rejectRefund(
+    request: ProcessRefundRequest,
+    adminId: number
+  ): Promise<ProcessRefundResponse> {
+    return orderService.rejectRefund(request, {
+      processorType: ProcessorType.ADMIN,
+      processorId: adminId,
+    });
+  }
+
+  /**
+   * 手动调整用户钱包余额
+   * 调账原因写入调账记录和余额流水，便于审计
+   * @param request - 调账请求
+   * @param adminId - 管理员ID
+   * @returns 调账结果
+   */
+  async adjustWallet(
+    request: AdjustWalletRequest,
+    adminId: number
+  ): Promise<AdjustWalletResponse> {
+    const user = await userModel.findById(request.userId);
+    if (!user) {
+      throw { message: "用户不存在", code: HttpCode.NOT_FOUND };
+    }
+
+    return walletService.adjustBalance(request, adminId);
+  }
+
+  /**
+   * 上传支付渠道对账单并生成对账结果
+   * @param request - 导入请求
+   * @param adminId - 管理员ID
+   * @returns 对账记录
+   */
+  async importStatement(
+    request: ImportStatementRequest,
+    adminId: number
+  ): Promise<Reconciliation> {
+    return reconciliationService.importStatement(
+      request,
+      ReconciliationSource.UPLOAD,
+      adminId
+    );
+  }
+
+  /**
+   * 获取对账记录列表
+   * @param params - 查询参数
+   * @returns 分页对账记录列表
+   */
+  async getReconciliationList(
+    params: ReconciliationQueryParams & { page?: number; limit?: number }
+  ): Promise<PaginatedResponse<Reconciliation>> {
+    return reconciliationService.getReconciliationList(params);
+  }
+
+  /**
+   * 获取对账明细列表
+   * @param reconciliationId - 对账记录ID
+   * @param params - 查询参数
+   * @returns 分页对账明细列表
+   */
+  async getReconciliationItems(
+    reconciliationId: number,
+    params: GetReconciliationItemsRequest
+  ): Promise<PaginatedResponse<ReconciliationItem>> {
+    return reconciliationService.getReconciliationItems(reconciliationId, params);
+  }
+
+  /**
+   * 处理对账差异
+   * @param request - 处理请求
+   * @param adminId - 管理员ID
+   * @returns 对账明细
+   */
+  async resolveReconciliationItem(
+    request: ResolveReconciliationItemRequest,
+    adminId: number
+  ): Promise<ReconciliationItem> {
+    return reconciliationService.resolveItem(request, adminId);
+  }
+}
+
+// 导出单例实例
+const adminService = new AdminService();
+export default adminService;
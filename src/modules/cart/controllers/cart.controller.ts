@@ -0,0 +1,171 @@
+import { Request, Response } from 'express';
+import cartService from '../services/cart.service';
+import { successResponse, errorResponse } from '../../../utils/response';
+import logger from '../../../utils/logger';
+import { HttpCode } from '../../../types/index';
+import { PaymentMethod } from '../../order/models/order';
+
+class CartController {
+  /**
+   * 获取购物车
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async getCart(req: Request, res: Response): Promise<void> {
+    try {
+      const { restaurantId } = req.query;
+
+      const result = await cartService.getCart(
+        req.user!.userId,
+        restaurantId ? Number(restaurantId) : undefined
+      );
+
+      successResponse(res, '获取购物车成功', result);
+    } catch (error: any) {
+      logger.error('获取购物车失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 加入购物车
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async addItem(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await cartService.addItem({
+        dishId: Number(req.body.dishId),
+        quantity: Number(req.body.quantity),
+        ...(req.body.specOptionIds && { specOptionIds: req.body.specOptionIds })
+      }, req.user!.userId);
+
+      successResponse(res, '加入购物车成功', result);
+    } catch (error: any) {
+      logger.error('加入购物车失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        dishId: req.body.dishId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 修改购物车项数量
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async updateItem(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await cartService.updateItem({
+        itemId: Number(req.params.id),
+        quantity: Number(req.body.quantity)
+      }, req.user!.userId);
+
+      successResponse(res, '修改购物车成功', result);
+    } catch (error: any) {
+      logger.error('修改购物车失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        itemId: req.params.id,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 删除购物车项
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async removeItem(req: Request, res: Response): Promise<void> {
+    try {
+      await cartService.removeItem(Number(req.params.id), req.user!.userId);
+
+      successResponse(res, '删除购物车项成功');
+    } catch (error: any) {
+      logger.error('删除购物车项失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        itemId: req.params.id,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 清空指定餐厅的购物车
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async clearRestaurant(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await cartService.clearRestaurant(
+        Number(req.params.restaurantId),
+        req.user!.userId
+      );
+
+      successResponse(res, '清空购物车成功', result);
+    } catch (error: any) {
+      logger.error('清空购物车失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        restaurantId: req.params.restaurantId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 购物车结算
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async checkout(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await cartService.checkout({
+        restaurantId: Number(req.body.restaurantId),
+        addressId: Number(req.body.addressId),
+        paymentMethod: req.body.paymentMethod as PaymentMethod,
+        deliveryTime: req.body.deliveryTime,
+        ...(req.body.note && { note: req.body.note }),
+        ...(req.body.userCouponId && { userCouponId: Number(req.body.userCouponId) })
+      }, req.user!.userId);
+
+      successResponse(res, '下单成功', result);
+    } catch (error: any) {
+      logger.error('购物车结算失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        restaurantId: req.body.restaurantId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+}
+
+// 导出单例实例
+const cartController = new CartController();
+export default cartController;
@@ -0,0 +1,166 @@
+import { prisma } from "../../../database/prisma";
+import Decimal from "decimal.js";
+import { CartItem, CartItemWithDish } from "./cart";
+
+class CartModel {
+  /**
+   * 查询用户购物车（含菜品当前信息）
+   * @param userId - 用户ID
+   * @param restaurantId - 餐厅ID，可选，不传时查询全部餐厅
+   * @returns 购物车项列表
+   */
+  async findByUserId(
+    userId: number,
+    restaurantId?: number
+  ): Promise<CartItemWithDish[]> {
+    const items = await prisma.cartItems.findMany({
+      where: {
+        userId,
+        ...(restaurantId && { restaurantId }),
+      },
+      include: {
+        dishes: {
+          select: {
+            name: true,
+            image: true,
+            price: true,
+            status: true,
+            remainingStock: true,
+            deletedAt: true,
+          },
+        },
+      },
+      orderBy: [{ restaurantId: "asc" }, { id: "asc" }],
+    });
+
+    return items.map(({ dishes, ...item }) => ({
+      ...this.toCartItem(item),
+      dish: { ...dishes, price: new Decimal(dishes.price) },
+    }));
+  }
+
+  /**
+   * 查询用户购物车中的指定菜品规格
+   * @param userId - 用户ID
+   * @param dishId - 菜品ID
+   * @param specKey - 规格键
+   * @returns 购物车项
+   */
+  async findByDish(
+    userId: number,
+    dishId: number,
+    specKey: string
+  ): Promise<CartItem | null> {
+    const item = await prisma.cartItems.findUnique({
+      where: { userId_dishId_specKey: { userId, dishId, specKey } },
+    });
+    return item ? this.toCartItem(item) : null;
+  }
+
+  /**
+   * 根据ID查询用户的购物车项
+   * @param id - 购物车项ID
+   * @param userId - 用户ID
+   * @returns 购物车项
+   */
+  async findById(id: number, userId: number): Promise<CartItem | null> {
+    const item = await prisma.cartItems.findFirst({ where: { id, userId } });
+    return item ? this.toCartItem(item) : null;
+  }
+
+  /**
+   * 加入购物车，相同菜品规格已存在时累加数量并刷新价格
+   * @param data - 购物车项数据
+   * @returns 购物车项
+   */
+  async addItem(data: {
+    userId: number;
+    restaurantId: number;
+    dishId: number;
+    quantity: number;
+    specKey: string;
+    specOptionIds: number[];
+    price: Decimal;
+  }): Promise<CartItem> {
+    const item = await prisma.cartItems.upsert({
+      where: {
+        userId_dishId_specKey: {
+          userId: data.userId,
+          dishId: data.dishId,
+          specKey: data.specKey,
+        },
+      },
+      create: data,
+      update: {
+        quantity: { increment: data.quantity },
+        price: data.price,
+        updatedAt: new Date(),
+      },
+    });
+    return this.toCartItem(item);
+  }
+
+  /**
+   * 修改购物车项数量并刷新价格
+   * @param id - 购物车项ID
+   * @param userId - 用户ID
+   * @param quantity - 数量
+   * @param price - 菜品当前价格
+   * @returns 是否修改成功
+   */
+  async updateItem(
+    id: number,
+    userId: number,
+    quantity: number,
+    price: Decimal
+  ): Promise<boolean> {
+    const result = await prisma.cartItems.updateMany({
+      where: { id, userId },
+      data: { quantity, price, updatedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * 删除购物车项
+   * @param ids - 购物车项ID列表
+   * @param userId - 用户ID
+   * @returns 删除数量
+   */
+  async removeItems(ids: number[], userId: number): Promise<number> {
+    const result = await prisma.cartItems.deleteMany({
+      where: { id: { in: ids }, userId },
+    });
+    return result.count;
+  }
+
+  /**
+   * 清空用户在指定餐厅的购物车
+   * @param userId - 用户ID
+   * @param restaurantId - 餐厅ID
+   * @returns 删除数量
+   */
+  async clearRestaurant(userId: number, restaurantId: number): Promise<number> {
+    const result = await prisma.cartItems.deleteMany({
+      where: { userId, restaurantId },
+    });
+    return result.count;
+  }
+
+  /**
+   * 转换购物车项数据，处理Decimal和JSON类型
+   * @param item - 数据库购物车项
+   * @returns 购物车项实体
+   */
+  private toCartItem(item: any): CartItem {
+    return {
+      ...item,
+      specOptionIds: (item.specOptionIds as number[] | null) ?? [],
+      price: new Decimal(item.price),
+    };
+  }
+}
+
+// 导出单例实例
+const cartModel = new CartModel();
+export default cartModel;
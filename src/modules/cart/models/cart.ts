@@ -0,0 +1,156 @@
+// 购物车相关类型定义
+import { Decimal } from 'decimal.js';
+import { PaymentMethod } from '../../order/models/order';
+import { SelectedDishSpec } from '../../restaurant/models/restaurant';
+
+// 单个菜品的最大购买数量（与下单校验一致）
+export const CART_ITEM_MAX_QUANTITY = 99;
+
+/**
+ * 购物车项接口（对应数据库 cart_items 表）
+ */
+export interface CartItem {
+  /** 购物车项ID */
+  id: number;
+  /** 用户ID */
+  userId: number;
+  /** 餐厅ID */
+  restaurantId: number;
+  /** 菜品ID */
+  dishId: number;
+  /** 数量 */
+  quantity: number;
+  /** 规格键（排序后的选项ID），同一菜品不同规格为不同的购物车项 */
+  specKey: string;
+  /** 选择的规格选项ID */
+  specOptionIds: number[];
+  /** 加入购物车时的单价（含规格加价） */
+  price: Decimal;
+  /** 创建时间 */
+  createdAt: Date;
+  /** 更新时间 */
+  updatedAt: Date;
+}
+
+/**
+ * 购物车项及菜品当前信息
+ */
+export interface CartItemWithDish extends CartItem {
+  /** 菜品当前信息 */
+  dish: {
+    /** 菜品名称 */
+    name: string;
+    /** 菜品图片 */
+    image: string | null;
+    /** 当前价格 */
+    price: Decimal;
+    /** 是否上架 */
+    status: boolean;
+    /** 今日剩余库存，为空表示不限量 */
+    remainingStock: number | null;
+    /** 删除时间 */
+    deletedAt: Date | null;
+  };
+}
+
+/**
+ * 购物车项展示数据（按菜品当前价格计算）
+ */
+export interface CartItemView {
+  /** 购物车项ID */
+  id: number;
+  /** 菜品ID */
+  dishId: number;
+  /** 菜品名称 */
+  dishName: string;
+  /** 菜品图片 */
+  dishImage: string | null;
+  /** 已选规格 */
+  specs: SelectedDishSpec[];
+  /** 规格描述 */
+  specText: string | null;
+  /** 当前单价（含规格加价） */
+  price: Decimal;
+  /** 加入购物车时的单价 */
+  addedPrice: Decimal;
+  /** 数量 */
+  quantity: number;
+  /** 小计（按当前价格） */
+  subtotal: Decimal;
+  /** 是否可购买（菜品下架、删除、规格失效或餐厅停业时为 false） */
+  available: boolean;
+  /** 价格是否在加入购物车后发生变化 */
+  priceChanged: boolean;
+  /** 是否已售罄（限量菜品剩余库存不足购物车数量） */
+  soldOut: boolean;
+}
+
+/**
+ * 单个餐厅的购物车
+ */
+export interface RestaurantCart {
+  /** 餐厅ID */
+  restaurantId: number;
+  /** 餐厅名称，餐厅已停业时为空 */
+  restaurantName: string | null;
+  /** 餐厅是否营业 */
+  restaurantAvailable: boolean;
+  /** 购物车项 */
+  items: CartItemView[];
+  /** 可购买菜品的商品小计 */
+  subtotal: Decimal;
+  /** 可购买菜品的总数量 */
+  totalQuantity: number;
+  /** 是否有不可购买或价格变化的菜品 */
+  hasChanges: boolean;
+}
+
+/**
+ * 获取购物车响应数据接口
+ */
+export interface GetCartResponse {
+  /** 按餐厅分组的购物车 */
+  restaurants: RestaurantCart[];
+  /** 购物车菜品总数量 */
+  totalQuantity: number;
+}
+
+/**
+ * 加入购物车请求参数接口
+ */
+export interface AddCartItemRequest {
+  /** 菜品ID */
+  dishId: number;
+  /** 数量 */
+  quantity: number;
+  /** 选择的规格选项ID，可选 */
+  specOptionIds?: number[];
+}
+
+/**
+ * 修改购物车项请求参数接口
+ */
+export interface UpdateCartItemRequest {
+  /** 购物车项ID */
+  itemId: number;
+  /** 数量 */
+  quantity: number;
+}
+
+/**
+ * 购物车结算请求参数接口
+ */
+export interface CheckoutCartRequest {
+  /** 结算的餐厅ID */
+  restaurantId: number;
+  /** 收货地址ID */
+  addressId: number;
+  /** 支付方式 */
+  paymentMethod: PaymentMethod;
+  /** 期望送达时间 */
+  deliveryTime: string;
+  /** 订单备注，可选 */
+  note?: string;
+  /** 使用的用户优惠券ID，可选 */
+  userCouponId?: number;
+}
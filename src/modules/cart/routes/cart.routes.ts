@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import cartController from '../controllers/cart.controller';
+import { validate } from '../../../middleware/validation';
+import { cartValidation } from '../../../middleware/validation/schemas';
+import { orderLimiter } from '../../../middleware/rateLimiter';
+import { idempotency } from '../../../middleware/idempotency';
+import { requirePermission } from '../../../middleware/rbac';
+import { Permission } from '../../rbac/models/rbac';
+
+// 创建路由器
+const router: Router = Router();
+
+/**
+ * 购物车路由模块
+ * 包含购物车查询、加购、修改、删除、清空和结算等接口
+ */
+
+// 1. 获取购物车（按菜品当前价格计价，标记已下架和价格变化的菜品）
+router.get('/',
+  requirePermission(Permission.CART_MANAGE),
+  validate(cartValidation.getCart),
+  cartController.getCart
+);
+
+// 2. 加入购物车（菜品已存在时累加数量）
+router.post('/items',
+  requirePermission(Permission.CART_MANAGE),
+  validate(cartValidation.addItem),
+  cartController.addItem
+);
+
+// 3. 修改购物车项数量（同时刷新为菜品当前价格）
+router.put('/items/:id',
+  requirePermission(Permission.CART_MANAGE),
+  validate(cartValidation.updateItem),
+  cartController.updateItem
+);
+
+// 4. 删除购物车项
+router.delete('/items/:id',
+  requirePermission(Permission.CART_MANAGE),
+  validate(cartValidation.removeItem),
+  cartController.removeItem
+);
+
+// 5. 清空指定餐厅的购物车
+router.delete('/restaurants/:restaurantId',
+  requirePermission(Permission.CART_MANAGE),
+  validate(cartValidation.clearRestaurant),
+  cartController.clearRestaurant
+);
+
+// 6. 购物车结算（按购物车生成订单，支持 Idempotency-Key 幂等）
+router.post('/checkout',
+  requirePermission(Permission.CART_MANAGE, Permission.ORDER_PLACE),
+  idempotency,
+  orderLimiter,
+  validate(cartValidation.checkout),
+  cartController.checkout
+);
+
+export default router;
@@ -0,0 +1,305 @@
+import Decimal from "decimal.js";
+import { businessLogger } from "../../../utils/logger";
+import { HttpCode } from "../../../types/index";
+import { PlaceOrderResponse } from "../../order/models/order";
+import restaurantModel from "../../restaurant/models/restaurant.model";
+import restaurantService from "../../restaurant/services/restaurant.service";
+import orderService from "../../order/services/order.service";
+import {
+  AddCartItemRequest,
+  CART_ITEM_MAX_QUANTITY,
+  CartItem,
+  CartItemView,
+  CartItemWithDish,
+  CheckoutCartRequest,
+  GetCartResponse,
+  RestaurantCart,
+  UpdateCartItemRequest,
+} from "../models/cart";
+import cartModel from "../models/cart.model";
+
+class CartService {
+  /**
+   * 获取购物车
+   * 按菜品当前价格重新计价，标记不可购买和价格变化的菜品
+   * @param userId - 用户ID
+   * @param restaurantId - 餐厅ID，可选
+   * @returns 按餐厅分组的购物车
+   */
+  async getCart(userId: number, restaurantId?: number): Promise<GetCartResponse> {
+    const items = await cartModel.findByUserId(userId, restaurantId);
+
+    // 按餐厅分组
+    const groups = new Map<number, CartItemWithDish[]>();
+    for (const item of items) {
+      const group = groups.get(item.restaurantId) ?? [];
+      group.push(item);
+      groups.set(item.restaurantId, group);
+    }
+
+    const restaurants: RestaurantCart[] = [];
+    for (const [groupRestaurantId, groupItems] of groups) {
+      restaurants.push(await this.buildRestaurantCart(groupRestaurantId, groupItems));
+    }
+
+    return {
+      restaurants,
+      totalQuantity: restaurants.reduce((sum, cart) => sum + cart.totalQuantity, 0),
+    };
+  }
+
+  /**
+   * 加入购物车，相同菜品规格已在购物车中时累加数量
+   * @param request - 加入购物车请求
+   * @param userId - 用户ID
+   * @returns 购物车项
+   */
+  async addItem(request: AddCartItemRequest, userId: number): Promise<CartItem> {
+    // 步骤1: 校验菜品和餐厅是否可售
+    const dish = await restaurantModel.findDishById(request.dishId);
+    if (!dish) {
+      throw { message: "菜品不存在或已下架", code: HttpCode.NOT_FOUND };
+    }
+    const restaurant = await restaurantModel.findById(dish.restaurantId);
+    if (!restaurant) {
+      throw { message: "餐厅不存在或已停业", code: HttpCode.VALIDATION_ERROR };
+    }
+
+    // 步骤2: 校验规格选择
+    const specSelection = await restaurantService.resolveDishSpecs(
+      dish,
+      request.specOptionIds
+    );
+
+    // 步骤3: 校验累加后的数量
+    const existing = await cartModel.findByDish(
+      userId,
+      request.dishId,
+      specSelection.specKey
+    );
+    if ((existing?.quantity ?? 0) + request.quantity > CART_ITEM_MAX_QUANTITY) {
+      throw {
+        message: `菜品 "${dish.name}" 最多购买${CART_ITEM_MAX_QUANTITY}份`,
+        code: HttpCode.VALIDATION_ERROR,
+      };
+    }
+
+    // 步骤4: 加入购物车，记录当前单价（含规格加价）
+    const item = await cartModel.addItem({
+      userId,
+      restaurantId: dish.restaurantId,
+      dishId: dish.id,
+      quantity: request.quantity,
+      specKey: specSelection.specKey,
+      specOptionIds: specSelection.specs.map((spec) => spec.optionId),
+      price: new Decimal(dish.price).plus(specSelection.specPrice),
+    });
+
+    businessLogger.info("菜品加入购物车", {
+      userId,
+      dishId: dish.id,
+      quantity: item.quantity,
+    });
+
+    return item;
+  }
+
+  /**
+   * 修改购物车项数量，同时按菜品当前价格刷新价格（确认价格变化）
+   * @param request - 修改请求
+   * @param userId - 用户ID
+   * @returns 购物车项
+   */
+  async updateItem(
+    request: UpdateCartItemRequest,
+    userId: number
+  ): Promise<CartItem> {
+    const item = await cartModel.findById(request.itemId, userId);
+    if (!item) {
+      throw { message: "购物车项不存在", code: HttpCode.NOT_FOUND };
+    }
+
+    const dish = await restaurantModel.findDishById(item.dishId);
+    if (!dish) {
+      throw { message: "菜品不存在或已下架", code: HttpCode.VALIDATION_ERROR };
+    }
+
+    const specSelection = await restaurantService.resolveDishSpecs(
+      dish,
+      item.specOptionIds
+    );
+    const price = new Decimal(dish.price).plus(specSelection.specPrice);
+    await cartModel.updateItem(item.id, userId, request.quantity, price);
+
+    return { ...item, quantity: request.quantity, price, updatedAt: new Date() };
+  }
+
+  /**
+   * 删除购物车项
+   * @param itemId - 购物车项ID
+   * @param userId - 用户ID
+   */
+  async removeItem(itemId: number, userId: number): Promise<void> {
+    const count = await cartModel.removeItems([itemId], userId);
+    if (count === 0) {
+      throw { message: "购物车项不存在", code: HttpCode.NOT_FOUND };
+    }
+  }
+
+  /**
+   * 清空指定餐厅的购物车
+   * @param restaurantId - 餐厅ID
+   * @param userId - 用户ID
+   * @returns 删除的购物车项数量
+   */
+  async clearRestaurant(
+    restaurantId: number,
+    userId: number
+  ): Promise<{ removedCount: number }> {
+    const removedCount = await cartModel.clearRestaurant(userId, restaurantId);
+    return { removedCount };
+  }
+
+  /**
+   * 购物车结算
+   * 按购物车中指定餐厅的菜品生成服务端报价并下单，下单成功后移除已结算的购物车项
+   * @param request - 结算请求
+   * @param userId - 用户ID
+   * @returns 下单结果
+   */
+  async checkout(
+    request: CheckoutCartRequest,
+    userId: number
+  ): Promise<PlaceOrderResponse> {
+    businessLogger.info("开始购物车结算", {
+      userId,
+      restaurantId: request.restaurantId,
+    });
+
+    // 步骤1: 读取购物车并重新计价
+    const items = await cartModel.findByUserId(userId, request.restaurantId);
+    if (items.length === 0) {
+      throw { message: "购物车为空", code: HttpCode.VALIDATION_ERROR };
+    }
+    const cart = await this.buildRestaurantCart(request.restaurantId, items);
+
+    // 步骤2: 存在不可购买的菜品时需要用户先调整购物车
+    if (!cart.restaurantAvailable) {
+      throw { message: "餐厅不存在或已停业", code: HttpCode.CART_ITEMS_UNAVAILABLE };
+    }
+    const unavailable = cart.items.filter((item) => !item.available);
+    if (unavailable.length > 0) {
+      throw {
+        message: `以下菜品已下架或规格已失效，请调整购物车：${unavailable
+          .map((item) => item.dishName)
+          .join("、")}`,
+        code: HttpCode.CART_ITEMS_UNAVAILABLE,
+      };
+    }
+
+    // 步骤3: 按当前价格生成报价并下单
+    const quote = await orderService.quoteOrder(
+      {
+        restaurantId: request.restaurantId,
+        addressId: request.addressId,
+        items: cart.items.map((item) => ({
+          id: item.dishId,
+          quantity: item.quantity,
+          ...(item.specs.length > 0 && {
+            specOptionIds: item.specs.map((spec) => spec.optionId),
+          }),
+        })),
+        ...(request.userCouponId && { userCouponId: request.userCouponId }),
+      },
+      userId
+    );
+    const result = await orderService.createOrder(
+      {
+        quoteToken: quote.quoteToken,
+        paymentMethod: request.paymentMethod,
+        deliveryTime: request.deliveryTime,
+        ...(request.note && { note: request.note }),
+      },
+      userId
+    );
+
+    // 步骤4: 移除已结算的购物车项
+    await cartModel.removeItems(
+      cart.items.map((item) => item.id),
+      userId
+    );
+
+    businessLogger.info("购物车结算成功", {
+      userId,
+      restaurantId: request.restaurantId,
+      orderId: result.orderId,
+    });
+
+    return result;
+  }
+
+  /**
+   * 构建单个餐厅的购物车（按当前价格计价）
+   * @param restaurantId - 餐厅ID
+   * @param items - 该餐厅的购物车项
+   * @returns 餐厅购物车
+   */
+  private async buildRestaurantCart(
+    restaurantId: number,
+    items: CartItemWithDish[]
+  ): Promise<RestaurantCart> {
+    const restaurant = await restaurantModel.findById(restaurantId);
+
+    const views: CartItemView[] = await Promise.all(
+      items.map(async (item) => {
+        // 规格组或选项调整后原有规格选择可能失效
+        const specSelection = await restaurantService
+          .resolveDishSpecs(
+            { id: item.dishId, name: item.dish.name },
+            item.specOptionIds
+          )
+          .catch(() => null);
+        const price = item.dish.price.plus(specSelection?.specPrice ?? 0);
+        return {
+          id: item.id,
+          dishId: item.dishId,
+          dishName: item.dish.name,
+          dishImage: item.dish.image,
+          specs: specSelection?.specs ?? [],
+          specText: specSelection?.specText ?? null,
+          price,
+          addedPrice: item.price,
+          quantity: item.quantity,
+          subtotal: price.times(item.quantity),
+          available:
+            !!restaurant &&
+            !!specSelection &&
+            item.dish.status &&
+            item.dish.deletedAt === null,
+          priceChanged: !price.equals(item.price),
+          soldOut:
+            item.dish.remainingStock !== null &&
+            item.dish.remainingStock < item.quantity,
+        };
+      })
+    );
+    const availableItems = views.filter((item) => item.available);
+
+    return {
+      restaurantId,
+      restaurantName: restaurant ? restaurant.name : null,
+      restaurantAvailable: !!restaurant,
+      items: views,
+      subtotal: availableItems.reduce(
+        (sum, item) => sum.plus(item.subtotal),
+        new Decimal(0)
+      ),
+      totalQuantity: availableItems.reduce((sum, item) => sum + item.quantity, 0),
+      hasChanges: views.some((item) => !item.available || item.priceChanged),
+    };
+  }
+}
+
+// 导出单例实例
+const cartService = new CartService();
+export default cartService;
@@ -0,0 +1,90 @@
+import { Request, Response } from 'express';
+import couponService from '../services/coupon.service';
+import { successResponse, errorResponse } from '../../../utils/response';
+import logger from '../../../utils/logger';
+import { HttpCode } from '../../../types/index';
+import { UserCouponStatus } from '../models/coupon';
+
+class CouponController {
+  /**
+   * 获取可领取的优惠券列表
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async getClaimableCoupons(req: Request, res: Response): Promise<void> {
+    try {
+      const { page, limit } = req.query;
+
+      const result = await couponService.getClaimableCoupons(req.user!.userId, {
+        page: Number(page) || 1,
+        limit: Number(limit) || 10
+      });
+
+      successResponse(res, '获取可领取优惠券成功', result);
+    } catch (error: any) {
+      logger.error('获取可领取优惠券失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 领取优惠券
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async claimCoupon(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await couponService.claimCoupon(req.body, req.user!.userId);
+
+      successResponse(res, '领取优惠券成功', result);
+    } catch (error: any) {
+      logger.error('领取优惠券失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        couponId: req.body.couponId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 获取我的优惠券列表
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async getMyCoupons(req: Request, res: Response): Promise<void> {
+    try {
+      const { page, limit, status } = req.query;
+
+      const result = await couponService.getMyCoupons(req.user!.userId, {
+        page: Number(page) || 1,
+        limit: Number(limit) || 10,
+        ...(status && { status: status as UserCouponStatus })
+      });
+
+      successResponse(res, '获取我的优惠券成功', result);
+    } catch (error: any) {
+      logger.error('获取我的优惠券失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+}
+
+// 导出单例实例
+const couponController = new CouponController();
+export default couponController;
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import couponModel from "./coupon.model";
+import { UserCouponStatus } from "./coupon";
+import { HttpCode } from "../../../types/index";
+
+const tx = vi.hoisted(() => ({
+  $queryRaw: vi.fn(),
+  coupons: {
+    updateMany: vi.fn(),
+    findUniqueOrThrow: vi.fn(),
+  },
+  userCoupons: {
+    findFirst: vi.fn(),
+    create: vi.fn(),
+  },
+}));
+
+vi.mock("../../../database/prisma", () => ({
+  prisma: {
+    $transaction: (callback: (client: typeof tx) => Promise<unknown>) =>
+      callback(tx),
+    coupons: { fields: { totalCount: "total_count" } },
+  },
+}));
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+const VALID_UNTIL = new Date("2026-11-19T12:00:00Z");
+
+describe("couponModel.claim", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tx.userCoupons.findFirst.mockResolvedValue(null);
+    tx.coupons.updateMany.mockResolvedValue({ count: 1 });
+    tx.coupons.findUniqueOrThrow.mockResolvedValue({ validUntil: VALID_UNTIL });
+    tx.userCoupons.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 9, orderId: null, usedAt: null, ...data })
+    );
+  });
+
+  it("先锁定优惠券再判断是否已领取", async () => {
+    const userCoupon = await couponModel.claim(3, 1, NOW);
+
+    expect(tx.$queryRaw).toHaveBeenCalledTimes(1);
+    expect(tx.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+      tx.userCoupons.findFirst.mock.invocationCallOrder[0]!
+    );
+    expect(userCoupon).toEqual({
+      id: 9,
+      userId: 1,
+      couponId: 3,
+      orderId: null,
+      status: UserCouponStatus.UNUSED,
+      receivedAt: NOW,
+      usedAt: null,
+      expiredAt: VALID_UNTIL,
+    });
+  });
+
+  it("已领取过时拒绝重复领取，不占用领取数量", async () => {
+    tx.userCoupons.findFirst.mockResolvedValue({ id: 8 });
+
+    await expect(couponModel.claim(3, 1, NOW)).rejects.toEqual({
+      message: "您已领取过该优惠券",
+      code: HttpCode.DUPLICATE_ENTRY,
+    });
+    expect(tx.coupons.updateMany).not.toHaveBeenCalled();
+    expect(tx.userCoupons.create).not.toHaveBeenCalled();
+  });
+
+  it("优惠券已领完时拒绝领取", async () => {
+    tx.coupons.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(couponModel.claim(3, 1, NOW)).rejects.toEqual({
+      message: "优惠券已领完或不可领取",
+      code: HttpCode.VALIDATION_ERROR,
+    });
+    expect(tx.userCoupons.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,247 @@
+import { prisma } from "../../../database/prisma";
+import Decimal from "decimal.js";
+import {
+  Coupon,
+  CouponType,
+  CouponStatus,
+  UserCoupon,
+  UserCouponStatus,
+} from "./coupon";
+import { HttpCode } from "../../../types/index";
+
+class CouponModel {
+  /**
+   * 获取当前可领取的优惠券列表（带分页）
+   * @param now - 当前时间
+   * @param options - 分页选项
+   * @returns 优惠券列表和总数
+   */
+  async getClaimableCouponsWithPagination(
+    now: Date,
+    options: { page?: number; limit?: number }
+  ): Promise<{ coupons: Coupon[]; total: number }> {
+    const page = options.page || 1;
+    const limit = options.limit || 10;
+    const skip = (page - 1) * limit;
+
+    const where = {
+      status: CouponStatus.ACTIVE,
+      deletedAt: null,
+      validUntil: { gt: now },
+      usedCount: { lt: prisma.coupons.fields.totalCount },
+    };
+
+    const [coupons, total] = await Promise.all([
+      prisma.coupons.findMany({
+        where: where,
+        orderBy: { validUntil: "asc" },
+        skip: skip,
+        take: limit,
+      }),
+      prisma.coupons.count({ where: where }),
+    ]);
+
+    return {
+      coupons: coupons.map((coupon) => this.toCoupon(coupon)),
+      total,
+    };
+  }
+
+  /**
+   * 查询用户已领取的优惠券ID
+   * @param userId - 用户ID
+   * @param couponIds - 优惠券ID列表
+   * @returns 已领取的优惠券ID列表
+   */
+  async findClaimedCouponIds(
+    userId: number,
+    couponIds: number[]
+  ): Promise<number[]> {
+    const userCoupons = await prisma.userCoupons.findMany({
+      where: {
+        userId,
+        couponId: { in: couponIds },
+      },
+      select: { couponId: true },
+    });
+
+    return userCoupons.map((userCoupon) => userCoupon.couponId);
+  }
+
+  /**
+   * 领取优惠券（事务操作）
+   * 锁定优惠券保证同一用户并发领取时不会重复领取，通过条件更新已领取数量保证不会超发
+   * @param couponId - 优惠券ID
+   * @param userId - 用户ID
+   * @param now - 当前时间
+   * @returns 用户优惠券
+   */
+  async claim(
+    couponId: number,
+    userId: number,
+    now: Date
+  ): Promise<UserCoupon> {
+    return prisma.$transaction(async (tx) => {
+      // 锁定优惠券，同一优惠券的领取串行执行，保证限领判断准确
+      await tx.$queryRaw`SELECT id FROM coupons WHERE id = ${couponId} FOR UPDATE`;
+
+      // 每个用户每种优惠券限领一张
+      const claimed = await tx.userCoupons.findFirst({
+        where: { userId, couponId },
+        select: { id: true },
+      });
+      if (claimed) {
+        throw { message: "您已领取过该优惠券", code: HttpCode.DUPLICATE_ENTRY };
+      }
+
+      const updateResult = await tx.coupons.updateMany({
+        where: {
+          id: couponId,
+          status: CouponStatus.ACTIVE,
+          deletedAt: null,
+          validUntil: { gt: now },
+          usedCount: { lt: prisma.coupons.fields.totalCount },
+        },
+        data: { usedCount: { increment: 1 } },
+      });
+      if (updateResult.count === 0) {
+        throw { message: "优惠券已领完或不可领取", code: HttpCode.VALIDATION_ERROR };
+      }
+
+      const coupon = await tx.coupons.findUniqueOrThrow({
+        where: { id: couponId },
+        select: { validUntil: true },
+      });
+
+      const userCoupon = await tx.userCoupons.create({
+        data: {
+          userId,
+          couponId,
+          status: UserCouponStatus.UNUSED,
+          receivedAt: now,
+          expiredAt: coupon.validUntil,
+        },
+      });
+
+      return this.toUserCoupon(userCoupon);
+    });
+  }
+
+  /**
+   * 查询用户的优惠券（包含优惠券信息）
+   * @param userCouponId - 用户优惠券ID
+   * @param userId - 用户ID
+   * @returns 用户优惠券
+   */
+  async findUserCouponWithCoupon(
+    userCouponId: number,
+    userId: number
+  ): Promise<UserCoupon | null> {
+    const userCoupon = await prisma.userCoupons.findFirst({
+      where: { id: userCouponId, userId },
+      include: { coupons: true },
+    });
+
+    if (!userCoupon) return null;
+
+    return {
+      ...this.toUserCoupon(userCoupon),
+      coupon: this.toCoupon(userCoupon.coupons),
+    };
+  }
+
+  /**
+   * 将用户已过期但未使用的优惠券标记为已过期
+   * @param userId - 用户ID
+   * @param now - 当前时间
+   */
+  async expireUserCoupons(userId: number, now: Date): Promise<void> {
+    await prisma.userCoupons.updateMany({
+      where: {
+        userId,
+        status: UserCouponStatus.UNUSED,
+        expiredAt: { lte: now },
+      },
+      data: { status: UserCouponStatus.EXPIRED },
+    });
+  }
+
+  /**
+   * 获取用户的优惠券列表（带分页和状态筛选）
+   * @param userId - 用户ID
+   * @param options - 查询选项
+   * @returns 用户优惠券列表和总数
+   */
+  async getUserCouponsWithPagination(
+    userId: number,
+    options: { page?: number; limit?: number; status?: UserCouponStatus }
+  ): Promise<{ userCoupons: UserCoupon[]; total: number }> {
+    const page = options.page || 1;
+    const limit = options.limit || 10;
+    const skip = (page - 1) * limit;
+
+    const where: any = { userId };
+    if (options.status) {
+      where.status = options.status;
+    }
+
+    const [userCoupons, total] = await Promise.all([
+      prisma.userCoupons.findMany({
+        where: where,
+        orderBy: { receivedAt: "desc" },
+        skip: skip,
+        take: limit,
+        include: { coupons: true },
+      }),
+      prisma.userCoupons.count({ where: where }),
+    ]);
+
+    return {
+      userCoupons: userCoupons.map((userCoupon) => ({
+        ...this.toUserCoupon(userCoupon),
+        coupon: this.toCoupon(userCoupon.coupons),
+      })),
+      total,
+    };
+  }
+
+  /**
+   * 转换优惠券数据，处理Decimal和枚举类型
+   * @param coupon - 数据库优惠券记录
+   * @returns 优惠券实体
+   */
+  private toCoupon(coupon: any): Coupon {
+    const { deletedAt, ...rest } = coupon;
+    return {
+      ...rest,
+      couponType: coupon.couponType as CouponType,
+      status: coupon.status as CouponStatus,
+      discountValue: new Decimal(coupon.discountValue),
+      minAmount: coupon.minAmount === null ? null : new Decimal(coupon.minAmount),
+      maxDiscount:
+        coupon.maxDiscount === null ? null : new Decimal(coupon.maxDiscount),
+    };
+  }
+
+  /**
+   * 转换用户优惠券数据
+   * @param userCoupon - 数据库用户优惠券记录
+   * @returns 用户优惠券实体
+   */
+  private toUserCoupon(userCoupon: any): UserCoupon {
+    return {
+      id: userCoupon.id,
+      userId: userCoupon.userId,
+      couponId: userCoupon.couponId,
+      orderId: userCoupon.orderId,
+      status: userCoupon.status as UserCouponStatus,
+      receivedAt: userCoupon.receivedAt,
+      usedAt: userCoupon.usedAt,
+      expiredAt: userCoupon.expiredAt,
+    };
+  }
+}
+
+// 导出单例实例
+const couponModel = new CouponModel();
+export default couponModel;
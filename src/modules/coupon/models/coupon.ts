@@ -0,0 +1,148 @@
+// 优惠券相关类型定义
+import { Decimal } from 'decimal.js';
+
+/**
+ * 优惠券类型枚举（对应数据库 coupons_coupon_type）
+ */
+export enum CouponType {
+  DISCOUNT = 'discount',       // 折扣券
+  FULL_REDUCE = 'full_reduce'  // 满减券
+}
+
+/**
+ * 优惠券状态枚举（对应数据库 coupons_status）
+ */
+export enum CouponStatus {
+  ACTIVE = 'active',     // 可用
+  INACTIVE = 'inactive', // 已停用
+  EXPIRED = 'expired'    // 已过期
+}
+
+/**
+ * 用户优惠券状态枚举（对应数据库 user_coupons_status）
+ */
+export enum UserCouponStatus {
+  UNUSED = 'unused', // 未使用
+  USED = 'used',     // 已使用
+  EXPIRED = 'expired' // 已过期
+}
+
+/**
+ * 优惠券实体接口（对应数据库 coupons 表）
+ */
+export interface Coupon {
+  /** 优惠券唯一标识ID */
+  id: number;
+  /** 优惠券名称 */
+  couponName: string;
+  /** 优惠券类型 */
+  couponType: CouponType;
+  /** 优惠值 - 折扣券为折扣率（如0.85表示85折），满减券为减免金额 */
+  discountValue: Decimal;
+  /** 使用门槛金额（商品小计），可选 */
+  minAmount: Decimal | null;
+  /** 折扣券最大优惠金额，可选 */
+  maxDiscount: Decimal | null;
+  /** 发放总量 */
+  totalCount: number;
+  /** 已领取数量 */
+  usedCount: number;
+  /** 生效时间 */
+  validFrom: Date;
+  /** 失效时间 */
+  validUntil: Date;
+  /** 优惠券状态 */
+  status: CouponStatus;
+  /** 创建时间 */
+  createdAt: Date;
+  /** 更新时间 */
+  updatedAt: Date;
+}
+
+/**
+ * 可领取的优惠券（包含领取状态）
+ */
+export interface ClaimableCoupon extends Coupon {
+  /** 剩余可领取数量 */
+  remainingCount: number;
+  /** 当前用户是否已领取 */
+  claimed: boolean;
+}
+
+/**
+ * 用户优惠券实体接口（对应数据库 user_coupons 表）
+ */
+export interface UserCoupon {
+  /** 用户优惠券唯一标识ID */
+  id: number;
+  /** 用户ID */
+  userId: number;
+  /** 优惠券ID */
+  couponId: number;
+  /** 使用该优惠券的订单ID，未使用时为空 */
+  orderId: number | null;
+  /** 用户优惠券状态 */
+  status: UserCouponStatus;
+  /** 领取时间 */
+  receivedAt: Date;
+  /** 使用时间，可选 */
+  usedAt: Date | null;
+  /** 过期时间 */
+  expiredAt: Date;
+  /** 优惠券信息，可选 */
+  coupon?: Coupon;
+}
+
+/**
+ * 可领取优惠券列表请求参数接口
+ */
+export interface GetCouponListRequest {
+  /** 页码，可选 */
+  page?: number;
+  /** 每页数量，可选 */
+  limit?: number;
+}
+
+/**
+ * 我的优惠券列表请求参数接口
+ */
+export interface GetMyCouponListRequest {
+  /** 页码，可选 */
+  page?: number;
+  /** 每页数量，可选 */
+  limit?: number;
+  /** 用户优惠券状态，可选 */
+  status?: UserCouponStatus;
+}
+
+/**
+ * 领取优惠券请求参数接口
+ */
+export interface ClaimCouponRequest {
+  /** 优惠券ID */
+  couponId: number;
+}
+
+/**
+ * 领取优惠券响应数据接口
+ */
+export interface ClaimCouponResponse {
+  /** 用户优惠券ID */
+  userCouponId: number;
+  /** 优惠券ID */
+  couponId: number;
+  /** 过期时间 */
+  expiredAt: Date;
+}
+
+/**
+ * 下单时优惠券计算结果接口
+ */
+export interface CouponDiscountResult {
+  /** 用户优惠券ID */
+  userCouponId: number;
+  /** 优惠券ID */
+  couponId: number;
+  /** 优惠金额 */
+  discountAmount: Decimal;
+}
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import couponController from '../controllers/coupon.controller';
+import { validate } from '../../../middleware/validation';
+import { couponValidation } from '../../../middleware/validation/schemas';
+
+// 创建路由器
+const router: Router = Router();
+
+/**
+ * 优惠券路由模块
+ * 包含可领取优惠券查询、领取优惠券、我的优惠券等接口
+ */
+
+// 1. 获取可领取的优惠券列表
+router.get('/',
+  validate(couponValidation.getCoupons),
+  couponController.getClaimableCoupons
+);
+
+// 2. 领取优惠券
+router.post('/claim',
+  validate(couponValidation.claimCoupon),
+  couponController.claimCoupon
+);
+
+// 3. 获取我的优惠券列表（支持状态筛选）
+router.get('/mine',
+  validate(couponValidation.getMyCoupons),
+  couponController.getMyCoupons
+);
+
+export default router;
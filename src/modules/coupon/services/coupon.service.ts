@@ -0,0 +1,210 @@
+import Decimal from "decimal.js";
+import { businessLogger } from "../../../utils/logger";
+import { HttpCode, PaginatedResponse } from "../../../types/index";
+import {
+  ClaimableCoupon,
+  ClaimCouponRequest,
+  ClaimCouponResponse,
+  CouponDiscountResult,
+  CouponStatus,
+  CouponType,
+  GetCouponListRequest,
+  GetMyCouponListRequest,
+  UserCoupon,
+  UserCouponStatus,
+} from "../models/coupon";
+import couponModel from "../models/coupon.model";
+
+class CouponService {
+  /**
+   * 获取可领取的优惠券列表
+   * @param userId - 用户ID
+   * @param params - 查询参数
+   * @returns 分页优惠券列表
+   */
+  async getClaimableCoupons(
+    userId: number,
+    params: GetCouponListRequest
+  ): Promise<PaginatedResponse<ClaimableCoupon>> {
+    const page = Number(params.page) || 1;
+    const limit = Number(params.limit) || 10;
+
+    // 步骤1: 查询当前可领取的优惠券
+    const { coupons, total } =
+      await couponModel.getClaimableCouponsWithPagination(new Date(), {
+        page,
+        limit,
+      });
+
+    // 步骤2: 标记当前用户已领取的优惠券
+    const claimedIds = await couponModel.findClaimedCouponIds(
+      userId,
+      coupons.map((coupon) => coupon.id)
+    );
+
+    const data = coupons.map((coupon) => ({
+      ...coupon,
+      remainingCount: coupon.totalCount - coupon.usedCount,
+      claimed: claimedIds.includes(coupon.id),
+    }));
+
+    return this.toPaginatedResponse(data, total, page, limit);
+  }
+
+  /**
+   * 领取优惠券
+   * @param request - 领取请求
+   * @param userId - 用户ID
+   * @returns 领取结果
+   */
+  async claimCoupon(
+    request: ClaimCouponRequest,
+    userId: number
+  ): Promise<ClaimCouponResponse> {
+    businessLogger.info("用户开始领取优惠券", {
+      couponId: request.couponId,
+      userId,
+    });
+
+    const userCoupon = await couponModel.claim(
+      request.couponId,
+      userId,
+      new Date()
+    );
+
+    businessLogger.info("用户领取优惠券成功", {
+      couponId: request.couponId,
+      userCouponId: userCoupon.id,
+      userId,
+    });
+
+    return {
+      userCouponId: userCoupon.id,
+      couponId: userCoupon.couponId,
+      expiredAt: userCoupon.expiredAt,
+    };
+  }
+
+  /**
+   * 获取我的优惠券列表
+   * @param userId - 用户ID
+   * @param params - 查询参数
+   * @returns 分页用户优惠券列表
+   */
+  async getMyCoupons(
+    userId: number,
+    params: GetMyCouponListRequest
+  ): Promise<PaginatedResponse<UserCoupon>> {
+    const page = Number(params.page) || 1;
+    const limit = Number(params.limit) || 10;
+
+    // 步骤1: 先将已过期的未使用优惠券标记为过期，保证状态筛选准确
+    await couponModel.expireUserCoupons(userId, new Date());
+
+    // 步骤2: 查询用户优惠券
+    const { userCoupons, total } =
+      await couponModel.getUserCouponsWithPagination(userId, {
+        ...params,
+        page,
+        limit,
+      });
+
+    return this.toPaginatedResponse(userCoupons, total, page, limit);
+  }
+
+  /**
+   * 校验用户优惠券并计算优惠金额（下单时调用）
+   * 只对商品小计生效，优惠金额不超过商品小计
+   * @param userCouponId - 用户优惠券ID
+   * @param userId - 用户ID
+   * @param subtotal - 商品小计金额
+   * @returns 优惠计算结果
+   */
+  async calculateDiscount(
+    userCouponId: number,
+    userId: number,
+    subtotal: Decimal
+  ): Promise<CouponDiscountResult> {
+    // 步骤1: 校验优惠券归属和状态
+    const userCoupon = await couponModel.findUserCouponWithCoupon(
+      userCouponId,
+      userId
+    );
+    if (!userCoupon || !userCoupon.coupon) {
+      throw { message: "优惠券不存在", code: HttpCode.VALIDATION_ERROR };
+    }
+    if (userCoupon.status !== UserCouponStatus.UNUSED) {
+      throw { message: "优惠券已使用或已过期", code: HttpCode.VALIDATION_ERROR };
+    }
+
+    const coupon = userCoupon.coupon;
+    const now = new Date();
+    if (
+      coupon.status !== CouponStatus.ACTIVE ||
+      userCoupon.expiredAt <= now ||
+      coupon.validFrom > now
+    ) {
+      throw { message: "优惠券不在有效期内", code: HttpCode.VALIDATION_ERROR };
+    }
+
+    // 步骤2: 校验使用门槛
+    if (coupon.minAmount && subtotal.lessThan(coupon.minAmount)) {
+      throw {
+        message: `订单满 ${coupon.minAmount.toNumber()} 元才可使用该优惠券`,
+        code: HttpCode.VALIDATION_ERROR,
+      };
+    }
+
+    // 步骤3: 按优惠券类型计算优惠金额
+    let discountAmount: Decimal;
+    if (coupon.couponType === CouponType.DISCOUNT) {
+      discountAmount = subtotal
+        .times(new Decimal(1).minus(coupon.discountValue))
+        .toDecimalPlaces(2, Decimal.ROUND_DOWN);
+      if (coupon.maxDiscount && discountAmount.greaterThan(coupon.maxDiscount)) {
+        discountAmount = coupon.maxDiscount;
+      }
+    } else {
+      discountAmount = coupon.discountValue;
+    }
+
+    return {
+      userCouponId,
+      couponId: coupon.id,
+      discountAmount: Decimal.min(discountAmount, subtotal),
+    };
+  }
+
+  /**
+   * 构建标准分页响应
+   * @param data - 数据列表
+   * @param total - 总数
+   * @param page - 页码
+   * @param limit - 每页数量
+   * @returns 分页响应
+   */
+  private toPaginatedResponse<T>(
+    data: T[],
+    total: number,
+    page: number,
+    limit: number
+  ): PaginatedResponse<T> {
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+}
+
+// 导出单例实例
+const couponService = new CouponService();
+export default couponService;
@@ -0,0 +1,457 @@
+import { Request, Response } from 'express';
+import merchantService from '../services/merchant.service';
+import { successResponse, errorResponse } from '../../../utils/response';
+import logger, { businessLogger } from '../../../utils/logger';
+import { HttpCode } from '../../../types/index';
+import { OrderStatus, RefundStatus } from '../../order/models/order';
+
+class MerchantController {
+  /**
+   * 商家登录
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async login(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await merchantService.login(req.body);
+
+      businessLogger.info('商家登录成功', {
+        merchantId: result.merchantId,
+        restaurantId: result.restaurantId,
+        ip: req.ip
+      });
+
+      successResponse(res, '登录成功', result);
+    } catch (error: any) {
+      logger.error('商家登录失败', {
+        error: error.message,
+        stack: error.stack,
+        username: req.body.username,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 获取餐厅订单列表
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async getOrders(req: Request, res: Response): Promise<void> {
+    try {
+      const { page, limit, status } = req.query;
+
+      const result = await merchantService.getOrderList(req.user!.restaurantId!, {
+        page: Number(page) || 1,
+        limit: Number(limit) || 10,
+        ...(status && { status: status as OrderStatus })
+      });
+
+      successResponse(res, '获取订单列表成功', result);
+    } catch (error: any) {
+      logger.error('商家获取订单列表失败', {
+        error: error.message,
+        stack: error.stack,
+        merchantId: req.user?.userId,
+        restaurantId: req.user?.restaurantId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 商家接单
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async acceptOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await merchantService.acceptOrder(
+        req.body,
+        req.user!.userId,
+        req.user!.restaurantId!
+      );
+
+      successResponse(res, '接单成功', result);
+    } catch (error: any) {
+      logger.error('商家接单失败', {
+        error: error.message,
+        stack: error.stack,
+        merchantId: req.user?.userId,
+        orderId: req.body.orderId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 商家拒单
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async rejectOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await merchantService.rejectOrder(
+        req.body,
+        req.user!.userId,
+        req.user!.restaurantId!
+      );
+
+      successResponse(res, '拒单成功', result);
+    } catch (error: any) {
+      logger.error('商家拒单失败', {
+        error: error.message,
+        stack: error.stack,
+        merchantId: req.user?.userId,
+        orderId: req.body.orderId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 商家出餐
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async readyOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await merchantService.readyOrder(
+        req.body,
+        req.user!.userId,
+        req.user!.restaurantId!
+      );
+
+      successResponse(res, '出餐成功', result);
+    } catch (error: any) {
+      logger.error('商家出餐失败', {
+        error: error.message,
+        stack: error.stack,
+        merchantId: req.user?.userId,
+        orderId: req.body.orderId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 获取本餐厅退款申请列表
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async getRefunds(req: Request, res: Response): Promise<void> {
+    try {
+      const { page, limit, status } = req.query;
+
+      const result = await merchantService.getRefundList(req.user!.restaurantId!, {
+        page: Number(page) || 1,
+        limit: Number(limit) || 10,
+        ...(status && { status: status as RefundStatus })
+      });
+
+      successResponse(res, '获取退款申请列表成功', result);
+    } catch (error: any) {
+      logger.error('商家获取退款申请列表失败', {
+        error: error.message,
+        stack: error.stack,
+        merchantId: req.user?.userId,
+        restaurantId: req.user?.restaurantId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 商家同意退款申请
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async approveRefund(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await merchantService.approveRefund(
+        req.body,
+        req.user!.userId,
+        req.user!.restaurantId!
+      );
+
+      successResponse(res, '退款审核通过', result);
+    } catch (error: any) {
+      logger.error('商家同意退款失败', {
+        error: error.message,
+        stack: error.stack,
+        merchantId: req.user?.userId,
+        refundId: req.body.refundId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 商家拒绝退款申请
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async rejectRefund(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await merchantService.rejectRefund(
+        req.body,
+        req.user!.userId,
+        req.user!.restaurantId!
+      );
+
+      successResponse(res, '已拒绝退款申请', result);
+    } catch (error: any) {
+      logger.error('商家拒绝退款失败', {
+        error: error.message,
+        stack: error.stack,
+        merchantId: req.user?.userId,
+        refundId: req.body.refundId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 设置菜品每日库存
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async updateDishStock(req: Request, res: Response): Promise<void> {
+    try {
+      const { dishId, dailyStock } = req.body;
+
+      const result = await merchantService.updateDishStock(req.user!.restaurantId!, {
+        dishId: Number(dishId),
+        dailyStock: dailyStock === undefined || dailyStock === null ? null : Number(dailyStock)
+      });
+
+      successResponse(res, '设置菜品库存成功', result);
+    } catch (error: any) {
+      logger.error('商家设置菜品库存失败', {
+        error: error.message,
+        stack: error.stack,
+        merchantId: req.user?.userId,
+        dishId: req.body.dishId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 获取营业安排
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async getBusinessSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await merchantService.getBusinessSchedule(req.user!.restaurantId!);
+
+      successResponse(res, '获取营业安排成功', result);
+    } catch (error: any) {
+      logger.error('商家获取营业安排失败', {
+        error: error.message,
+        stack: error.stack,
+        merchantId: req.user?.userId,
+        restaurantId: req.user?.restaurantId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 设置每周营业时间
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async updateBusinessHours(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await merchantService.updateBusinessHours(req.user!.restaurantId!, {
+        businessHours: req.body.businessHours.map((hour: any) => ({
+          dayOfWeek: Number(hour.dayOfWeek),
+          openTime: hour.openTime,
+          closeTime: hour.closeTime
+        }))
+      });
+
+      successResponse(res, '设置营业时间成功', result);
+    } catch (error: any) {
+      logger.error('商家设置营业时间失败', {
+        error: error.message,
+        stack: error.stack,
+        merchantId: req.user?.userId,
+        restaurantId: req.user?.restaurantId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 设置节假日营业安排
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async upsertHoliday(req: Request, res: Response): Promise<void> {
+    try {
+      const { date, isClosed, openTime, closeTime, remark } = req.body;
+
+      const result = await merchantService.upsertHoliday(req.user!.restaurantId!, {
+        date,
+        isClosed,
+        ...(openTime && { openTime }),
+        ...(closeTime && { closeTime }),
+        ...(remark && { remark })
+      });
+
+      successResponse(res, '设置节假日安排成功', result);
+    } catch (error: any) {
+      logger.error('商家设置节假日安排失败', {
+        error: error.message,
+        stack: error.stack,
+        merchantId: req.user?.userId,
+        restaurantId: req.user?.restaurantId,
+        date: req.body.date,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 删除节假日营业安排
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async deleteHoliday(req: Request, res: Response): Promise<void> {
+    try {
+      await merchantService.deleteHoliday(req.user!.restaurantId!, Number(req.params.id));
+
+      successResponse(res, '删除节假日安排成功');
+    } catch (error: any) {
+      logger.error('商家删除节假日安排失败', {
+        error: error.message,
+        stack: error.stack,
+        merchantId: req.user?.userId,
+        restaurantId: req.user?.restaurantId,
+        holidayId: req.params.id,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 暂停或恢复接单
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async pauseOrders(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await merchantService.pauseOrders(req.user!.restaurantId!, {
+        minutes: Number(req.body.minutes)
+      });
+
+      successResponse(res, '设置暂停接单成功', result);
+    } catch (error: any) {
+      logger.error('商家设置暂停接单失败', {
+        error: error.message,
+        stack: error.stack,
+        merchantId: req.user?.userId,
+        restaurantId: req.user?.restaurantId,
+        minutes: req.body.minutes,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 获取配送设置
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async getDeliverySettings(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await merchantService.getDeliverySettings(req.user!.restaurantId!);
+
+      successResponse(res, '获取配送设置成功', result);
+    } catch (error: any) {
+      logger.error('商家获取配送设置失败', {
+        error: error.message,
+        stack: error.stack,
+        merchantId: req.user?.userId,
+        restaurantId: req.user?.restaurantId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 设置餐厅位置、配送范围和阶梯配送费
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async updateDeliverySettings(req: Request, res: Response): Promise<void> {
+    try {
+      const { latitude, longitude, deliveryRadius, deliveryPolygon, feeRules } = req.body;
+
+      const result = await merchantService.updateDeliverySettings(req.user!.restaurantId!, {
+        latitude: Number(latitude),
+        longitude: Number(longitude),
+        deliveryRadius: deliveryRadius === undefined || deliveryRadius === null ? null : Number(deliveryRadius),
+        deliveryPolygon: deliveryPolygon
+          ? deliveryPolygon.map((point: any) => ({
+            latitude: Number(point.latitude),
+            longitude: Number(point.longitude)
+          }))
+          : null,
+        feeRules: (feeRules ?? []).map((rule: any) => ({
+          maxDistance: Number(rule.maxDistance),
+          fee: Number(rule.fee)
+        }))
+      });
+
+      successResponse(res, '设置配送范围成功', result);
+    } catch (error: any) {
+      logger.error('商家设置配送范围失败', {
+        error: error.message,
+        stack: error.stack,
+        merchantId: req.user?.userId,
+        restaurantId: req.user?.restaurantId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+}
+
+// 导出单例实例
+const merchantController = new MerchantController();
+export default merchantController;
@@ -0,0 +1,62 @@
+import { prisma } from "../../../database/prisma";
+import { Merchant } from "./merchant";
+
+class MerchantModel {
+  /**
+   * 根据ID查询商家账号
+   * @param id - 商家账号ID
+   * @returns 商家账号信息（不含密码）
+   */
+  async findById(id: number): Promise<Merchant | null> {
+    const merchant = await prisma.merchants.findFirst({
+      where: {
+        id,
+        deletedAt: null,
+      },
+      select: {
+        id: true,
+        restaurantId: true,
+        username: true,
+        contactName: true,
+        phone: true,
+        status: true,
+        lastLoginAt: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    return merchant;
+  }
+
+  /**
+   * 根据用户名查询商家账号（包含密码）
+   * @param username - 登录用户名
+   * @returns 商家账号信息
+   */
+  async findByUsername(username: string): Promise<Merchant | null> {
+    const merchant = await prisma.merchants.findFirst({
+      where: {
+        username,
+        deletedAt: null,
+      },
+    });
+
+    return merchant;
+  }
+
+  /**
+   * 更新最后登录时间
+   * @param id - 商家账号ID
+   */
+  async updateLastLogin(id: number): Promise<void> {
+    await prisma.merchants.update({
+      where: { id },
+      data: { lastLoginAt: new Date() },
+    });
+  }
+}
+
+// 导出单例实例
+const merchantModel = new MerchantModel();
+export default merchantModel;
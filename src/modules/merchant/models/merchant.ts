@@ -0,0 +1,75 @@
+import { OrderStatus, OrderPaymentStatus } from "../../order/models/order";
+
+/**
+ * 商家账号接口定义（对应数据库 merchants 表）
+ */
+export interface Merchant {
+  /** 商家账号唯一标识ID */
+  id: number;
+  /** 所属餐厅ID */
+  restaurantId: number;
+  /** 登录用户名 */
+  username: string;
+  /** 登录密码（已加密），仅登录校验时查询 */
+  password?: string;
+  /** 联系人姓名，可选 */
+  contactName: string | null;
+  /** 联系电话，可选 */
+  phone: string | null;
+  /** 账号状态：true-启用，false-禁用 */
+  status: boolean;
+  /** 最后登录时间，可选 */
+  lastLoginAt: Date | null;
+  /** 创建时间 */
+  createdAt: Date;
+  /** 更新时间 */
+  updatedAt: Date;
+}
+
+/**
+ * 商家登录请求参数接口
+ */
+export interface MerchantLoginInput {
+  /** 登录用户名 */
+  username: string;
+  /** 登录密码 */
+  password: string;
+}
+
+/**
+ * 商家登录结果接口
+ */
+export interface MerchantLoginResult {
+  /** 商家账号ID */
+  merchantId: number;
+  /** 所属餐厅ID */
+  restaurantId: number;
+  /** 商家访问令牌 */
+  accessToken: string;
+  /** 令牌过期时间 */
+  expiresIn: string | number;
+  /** 商家账号信息（不含密码） */
+  merchant: Merchant;
+}
+
+/**
+ * 商家订单操作请求参数接口（接单、拒单、出餐）
+ */
+export interface MerchantOrderActionRequest {
+  /** 订单ID */
+  orderId: number;
+  /** 操作原因，拒单时必填 */
+  reason?: string;
+}
+
+/**
+ * 商家订单操作响应数据接口
+ */
+export interface MerchantOrderActionResponse {
+  /** 订单ID */
+  orderId: number;
+  /** 操作后的订单状态 */
+  orderStatus: OrderStatus;
+  /** 操作后的支付状态 */
+  paymentStatus: OrderPaymentStatus;
+}
@@ -0,0 +1,143 @@
+import { Router } from 'express';
+import merchantController from '../controllers/merchant.controller';
+import { merchantAuthMiddleware } from '../../../middleware/auth';
+import { requirePermission } from '../../../middleware/rbac';
+import { Permission } from '../../rbac/models/rbac';
+import { validate } from '../../../middleware/validation';
+import { merchantValidation, refundAuditValidation } from '../../../middleware/validation/schemas';
+import { loginLimiter } from '../../../middleware/rateLimiter';
+
+// 创建路由器
+const router: Router = Router();
+
+/**
+ * 商家路由模块
+ * 包含商家登录、商家订单处理、退款审核、菜品库存、营业时间、配送设置等商家端接口
+ */
+
+// 1. 商家登录
+router.post('/login',
+  loginLimiter,
+  validate(merchantValidation.login),
+  merchantController.login
+);
+
+// 2. 获取餐厅订单列表（支持分页和状态筛选）
+router.get('/orders',
+  merchantAuthMiddleware,
+  requirePermission(Permission.MERCHANT_ORDER_MANAGE),
+  validate(merchantValidation.getOrders),
+  merchantController.getOrders
+);
+
+// 3. 商家接单
+router.post('/orders/accept',
+  merchantAuthMiddleware,
+  requirePermission(Permission.MERCHANT_ORDER_MANAGE),
+  validate(merchantValidation.orderAction),
+  merchantController.acceptOrder
+);
+
+// 4. 商家拒单（自动全额退款）
+router.post('/orders/reject',
+  merchantAuthMiddleware,
+  requirePermission(Permission.MERCHANT_ORDER_MANAGE),
+  validate(merchantValidation.rejectOrder),
+  merchantController.rejectOrder
+);
+
+// 5. 商家出餐
+router.post('/orders/ready',
+  merchantAuthMiddleware,
+  requirePermission(Permission.MERCHANT_ORDER_MANAGE),
+  validate(merchantValidation.orderAction),
+  merchantController.readyOrder
+);
+
+// 6. 获取本餐厅退款申请列表（支持分页和状态筛选）
+router.get('/refunds',
+  merchantAuthMiddleware,
+  requirePermission(Permission.MERCHANT_REFUND_REVIEW),
+  validate(refundAuditValidation.getRefunds),
+  merchantController.getRefunds
+);
+
+// 7. 同意退款申请（同意后立即执行退款）
+router.post('/refunds/approve',
+  merchantAuthMiddleware,
+  requirePermission(Permission.MERCHANT_REFUND_REVIEW),
+  validate(refundAuditValidation.approveRefund),
+  merchantController.approveRefund
+);
+
+// 8. 拒绝退款申请
+router.post('/refunds/reject',
+  merchantAuthMiddleware,
+  requirePermission(Permission.MERCHANT_REFUND_REVIEW),
+  validate(refundAuditValidation.rejectRefund),
+  merchantController.rejectRefund
+);
+
+// 9. 设置菜品每日库存（不传或传 null 时取消限量）
+router.post('/dishes/stock',
+  merchantAuthMiddleware,
+  requirePermission(Permission.MERCHANT_DISH_MANAGE),
+  validate(merchantValidation.updateDishStock),
+  merchantController.updateDishStock
+);
+
+// 10. 获取营业安排（每周营业时间、近期节假日安排、暂停接单状态）
+router.get('/business-hours',
+  merchantAuthMiddleware,
+  requirePermission(Permission.MERCHANT_STORE_MANAGE),
+  merchantController.getBusinessSchedule
+);
+
+// 11. 设置每周营业时间（整体替换，为空表示全天营业）
+router.put('/business-hours',
+  merchantAuthMiddleware,
+  requirePermission(Permission.MERCHANT_STORE_MANAGE),
+  validate(merchantValidation.updateBusinessHours),
+  merchantController.updateBusinessHours
+);
+
+// 12. 设置节假日营业安排（全天休息或特殊营业时间，覆盖当天的每周营业时间）
+router.post('/holidays',
+  merchantAuthMiddleware,
+  requirePermission(Permission.MERCHANT_STORE_MANAGE),
+  validate(merchantValidation.upsertHoliday),
+  merchantController.upsertHoliday
+);
+
+// 13. 删除节假日营业安排
+router.delete('/holidays/:id',
+  merchantAuthMiddleware,
+  requirePermission(Permission.MERCHANT_STORE_MANAGE),
+  validate(merchantValidation.deleteHoliday),
+  merchantController.deleteHoliday
+);
+
+// 14. 暂停接单指定分钟数（为0时恢复接单）
+router.post('/pause',
+  merchantAuthMiddleware,
+  requirePermission(Permission.MERCHANT_STORE_MANAGE),
+  validate(merchantValidation.pauseOrders),
+  merchantController.pauseOrders
+);
+
+// 15. 获取配送设置（餐厅位置、配送范围、阶梯配送费）
+router.get('/delivery-settings',
+  merchantAuthMiddleware,
+  requirePermission(Permission.MERCHANT_STORE_MANAGE),
+  merchantController.getDeliverySettings
+);
+
+// 16. 设置餐厅位置、配送范围和阶梯配送费（配送费规则整体替换）
+router.put('/delivery-settings',
+  merchantAuthMiddleware,
+  requirePermission(Permission.MERCHANT_STORE_MANAGE),
+  validate(merchantValidation.updateDeliverySettings),
+  merchantController.updateDeliverySettings
+);
+
+export default router;
@@ -0,0 +1,474 @@
+import bcrypt from "bcryptjs";
+import logger, { businessLogger, securityLogger } from "../../../utils/logger";
+import config from "../../../config";
+import { HttpCode, PaginatedResponse } from "../../../types/index";
+import { generateMerchantToken } from "../../../utils/jwt";
+import {
+  MerchantLoginInput,
+  MerchantLoginResult,
+  MerchantOrderActionRequest,
+  MerchantOrderActionResponse,
+} from "../models/merchant";
+import {
+  Order,
+  OrderAction,
+  OperatorType,
+  ProcessorType,
+  GetOrderListRequest,
+  GetRefundListRequest,
+  ProcessRefundRequest,
+  ProcessRefundResponse,
+  RefundRecord,
+} from "../../order/models/order";
+import merchantModel from "../models/merchant.model";
+import orderModel from "../../order/models/order.model";
+import orderStateMachine from "../../order/services/order.state";
+import { PrincipalType } from "../../rbac/models/rbac";
+import rbacService from "../../rbac/services/rbac.service";
+import { assertOrderRestaurant } from "../../rbac/services/policy";
+import orderService from "../../order/services/order.service";
+import riderService from "../../rider/services/rider.service";
+import restaurantService from "../../restaurant/services/restaurant.service";
+import {
+  UpdateDishStockInput,
+  UpdateDishStockResult,
+  BusinessScheduleResult,
+  UpdateBusinessHoursInput,
+  UpsertHolidayInput,
+  RestaurantHoliday,
+  PauseOrdersInput,
+  DeliverySettings,
+  UpdateDeliverySettingsInput,
+} from "../../restaurant/models/restaurant";
+
+class MerchantService {
+  /**
+   * 商家登录
+   * @param loginData - 登录数据
+   * @returns 登录结果
+   */
+  async login(loginData: MerchantLoginInput): Promise<MerchantLoginResult> {
+    businessLogger.info("开始执行商家登录", { username: loginData.username });
+
+    // 步骤1: 查询商家账号（包含密码）
+    const merchant = await merchantModel.findByUsername(loginData.username);
+    if (!merchant || !merchant.password) {
+      throw { message: "用户名或密码错误", code: HttpCode.AUTH_FAILED };
+    }
+
+    if (!merchant.status) {
+      securityLogger.warn("商家账号已被禁用", { merchantId: merchant.id });
+      throw { message: "商家账号已被禁用", code: HttpCode.FORBIDDEN };
+    }
+
+    // 步骤2: 校验密码
+    const isPasswordValid = await bcrypt.compare(
+      loginData.password,
+      merchant.password
+    );
+    if (!isPasswordValid) {
+      securityLogger.warn("商家登录密码错误", { merchantId: merchant.id });
+      throw { message: "用户名或密码错误", code: HttpCode.AUTH_FAILED };
+    }
+
+    // 步骤3: 读取角色权限，生成商家令牌并记录登录时间
+    const grants = await rbacService.getGrants(PrincipalType.MERCHANT, merchant.id);
+    const accessToken = generateMerchantToken(
+      merchant.id,
+      merchant.restaurantId,
+      grants
+    );
+    await merchantModel.updateLastLogin(merchant.id);
+
+    logger.info(`Merchant logged in: ${merchant.id}`, {
+      merchantId: merchant.id,
+      restaurantId: merchant.restaurantId,
+    });
+
+    const { password, ...merchantInfo } = merchant;
+
+    return {
+      merchantId: merchant.id,
+      restaurantId: merchant.restaurantId,
+      accessToken,
+      expiresIn: config.jwt.expiresIn,
+      merchant: merchantInfo,
+    };
+  }
+
+  /**
+   * 获取餐厅订单列表
+   * @param restaurantId - 餐厅ID
+   * @param params - 查询参数
+   * @returns 分页订单列表
+   */
+  async getOrderList(
+    restaurantId: number,
+    params: GetOrderListRequest
+  ): Promise<PaginatedResponse<Order>> {
+    businessLogger.info("商家开始获取订单列表", { restaurantId, params });
+
+    // 步骤1: 解析分页参数
+    const page = Number(params.page) || 1;
+    const limit = Number(params.limit) || 10;
+
+    // 步骤2: 查询餐厅订单列表和总数
+    const { orders, total } =
+      await orderModel.getRestaurantOrderListWithPagination(restaurantId, {
+        ...params,
+        page,
+        limit,
+      });
+
+    // 步骤3: 返回标准分页响应格式
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: orders,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * 商家接单
+   * @param request - 操作请求
+   * @param merchantId - 商家账号ID
+   * @param restaurantId - 餐厅ID
+   * @returns 操作结果
+   */
+  async acceptOrder(
+    request: MerchantOrderActionRequest,
+    merchantId: number,
+    restaurantId: number
+  ): Promise<MerchantOrderActionResponse> {
+    businessLogger.info("商家开始接单", {
+      orderId: request.orderId,
+      merchantId,
+      restaurantId,
+    });
+
+    // 步骤1: 校验订单归属
+    const order = await this.findRestaurantOrder(request.orderId, restaurantId);
+
+    // 步骤2: 通过状态机校验是否允许接单
+    const transition = orderStateMachine.transition(
+      order,
+      OrderAction.ACCEPT,
+      OperatorType.MERCHANT
+    );
+
+    // 步骤3: 分配骑手，与接单在同一事务中创建配送单
+    const riderId = await riderService.selectRider(request.orderId);
+    await orderModel.updateStatusWithDeliveryAssign(
+      request.orderId,
+      transition,
+      riderId,
+      merchantId
+    );
+
+    businessLogger.info("商家接单成功", {
+      orderId: request.orderId,
+      merchantId,
+      riderId,
+    });
+
+    return {
+      orderId: request.orderId,
+      orderStatus: transition.toStatus,
+      paymentStatus: transition.toPaymentStatus,
+    };
+  }
+
+  /**
+   * 商家出餐
+   * @param request - 操作请求
+   * @param merchantId - 商家账号ID
+   * @param restaurantId - 餐厅ID
+   * @returns 操作结果
+   */
+  async readyOrder(
+    request: MerchantOrderActionRequest,
+    merchantId: number,
+    restaurantId: number
+  ): Promise<MerchantOrderActionResponse> {
+    return this.changeOrderStatus(
+      request,
+      OrderAction.READY,
+      merchantId,
+      restaurantId
+    );
+  }
+
+  /**
+   * 商家拒单，订单取消并原路全额退款
+   * @param request - 操作请求
+   * @param merchantId - 商家账号ID
+   * @param restaurantId - 餐厅ID
+   * @returns 操作结果
+   */
+  async rejectOrder(
+    request: MerchantOrderActionRequest,
+    merchantId: number,
+    restaurantId: number
+  ): Promise<MerchantOrderActionResponse> {
+    businessLogger.info("商家开始拒单", {
+      orderId: request.orderId,
+      merchantId,
+      restaurantId,
+    });
+
+    // 步骤1: 校验订单归属
+    const order = await this.findRestaurantOrder(request.orderId, restaurantId);
+
+    // 步骤2: 通过状态机校验是否允许拒单
+    const remark = `商家拒单: ${request.reason}`;
+    const transition = orderStateMachine.transition(
+      order,
+      OrderAction.REJECT,
+      OperatorType.MERCHANT,
+      remark
+    );
+
+    // 步骤3: 执行退款并更新订单状态
+    await orderService.executeFullRefund(
+      request.orderId,
+      order,
+      transition,
+      remark,
+      ProcessorType.MERCHANT,
+      merchantId
+    );
+
+    businessLogger.info("商家拒单成功", {
+      orderId: request.orderId,
+      merchantId,
+    });
+
+    return {
+      orderId: request.orderId,
+      orderStatus: transition.toStatus,
+      paymentStatus: transition.toPaymentStatus,
+    };
+  }
+
+  /**
+   * 获取本餐厅订单的退款申请列表
+   * @param restaurantId - 餐厅ID
+   * @param params - 查询参数
+   * @returns 分页退款申请列表
+   */
+  async getRefundList(
+    restaurantId: number,
+    params: GetRefundListRequest
+  ): Promise<PaginatedResponse<RefundRecord>> {
+    return orderService.getRefundList(params, restaurantId);
+  }
+
+  /**
+   * 商家同意退款申请
+   * @param request - 审核请求
+   * @param merchantId - 商家账号ID
+   * @param restaurantId - 餐厅ID
+   * @returns 审核结果
+   */
+  async approveRefund(
+    request: ProcessRefundRequest,
+    merchantId: number,
+    restaurantId: number
+  ): Promise<ProcessRefundResponse> {
+    return orderService.approveRefund(request, {
+      processorType: ProcessorType.MERCHANT,
+      processorId: merchantId,
+      restaurantId,
+    });
+  }
+
+  /**
+   * 商家拒绝退款申请
+   * @param request - 审核请求
+   * @param merchantId - 商家账号ID
+   * @param restaurantId - 餐厅ID
+   * @returns 审核结果
+   */
+  async rejectRefund(
+    request: ProcessRefundRequest,
+    merchantId: number,
+    restaurantId: number
+  ): Promise<ProcessRefundResponse> {
+    return orderService.rejectRefund(request, {
+      processorType: ProcessorType.MERCHANT,
+      processorId: merchantId,
+      restaurantId,
+    });
+  }
+
+  /**
+   * 设置本餐厅菜品的每日库存
+   * @param restaurantId - 餐厅ID
+   * @param request - 设置请求
+   * @returns 设置结果
+   */
+  async updateDishStock(
+    restaurantId: number,
+    request: UpdateDishStockInput
+  ): Promise<UpdateDishStockResult> {
+    return restaurantService.updateDishStock(restaurantId, request);
+  }
+
+  /**
+   * 获取本餐厅营业安排
+   * @param restaurantId - 餐厅ID
+   * @returns 营业安排
+   */
+  async getBusinessSchedule(
+    restaurantId: number
+  ): Promise<BusinessScheduleResult> {
+    return restaurantService.getBusinessSchedule(restaurantId);
+  }
+
+  /**
+   * 设置本餐厅每周营业时间
+   * @param restaurantId - 餐厅ID
+   * @param request - 每周营业时间
+   * @returns 营业安排
+   */
+  async updateBusinessHours(
+    restaurantId: number,
+    request: UpdateBusinessHoursInput
+  ): Promise<BusinessScheduleResult> {
+    return restaurantService.updateBusinessHours(restaurantId, request);
+  }
+
+  /**
+   * 设置本餐厅节假日营业安排
+   * @param restaurantId - 餐厅ID
+   * @param request - 节假日安排
+   * @returns 节假日安排
+   */
+  async upsertHoliday(
+    restaurantId: number,
+    request: UpsertHolidayInput
+  ): Promise<RestaurantHoliday> {
+    return restaurantService.upsertHoliday(restaurantId, request);
+  }
+
+  /**
+   * 删除本餐厅节假日营业安排
+   * @param restaurantId - 餐厅ID
+   * @param holidayId - 节假日安排ID
+   */
+  async deleteHoliday(restaurantId: number, holidayId: number): Promise<void> {
+    return restaurantService.deleteHoliday(restaurantId, holidayId);
+  }
+
+  /**
+   * 本餐厅暂停或恢复接单
+   * @param restaurantId - 餐厅ID
+   * @param request - 暂停请求
+   * @returns 营业安排
+   */
+  async pauseOrders(
+    restaurantId: number,
+    request: PauseOrdersInput
+  ): Promise<BusinessScheduleResult> {
+    return restaurantService.pauseOrders(restaurantId, request);
+  }
+
+  /**
+   * 获取本餐厅配送设置
+   * @param restaurantId - 餐厅ID
+   * @returns 配送设置
+   */
+  async getDeliverySettings(restaurantId: number): Promise<DeliverySettings> {
+    return restaurantService.getDeliverySettings(restaurantId);
+  }
+
+  /**
+   * 设置本餐厅位置、配送范围和阶梯配送费
+   * @param restaurantId - 餐厅ID
+   * @param request - 配送设置
+   * @returns 配送设置
+   */
+  async updateDeliverySettings(
+    restaurantId: number,
+    request: UpdateDeliverySettingsInput
+  ): Promise<DeliverySettings> {
+    return restaurantService.updateDeliverySettings(restaurantId, request);
+  }
+
+  /**
+   * 执行不涉及资金的商家订单状态变更
+   * @param request - 操作请求
+   * @param action - 状态机动作
+   * @param merchantId - 商家账号ID
+   * @param restaurantId - 餐厅ID
+   * @returns 操作结果
+   */
+  private async changeOrderStatus(
+    request: MerchantOrderActionRequest,
+    action: OrderAction,
+    merchantId: number,
+    restaurantId: number
+  ): Promise<MerchantOrderActionResponse> {
+    businessLogger.info("商家开始修改订单状态", {
+      orderId: request.orderId,
+      action,
+      merchantId,
+      restaurantId,
+    });
+
+    // 步骤1: 校验订单归属
+    const order = await this.findRestaurantOrder(request.orderId, restaurantId);
+
+    // 步骤2: 通过状态机校验并更新订单状态
+    const transition = orderStateMachine.transition(
+      order,
+      action,
+      OperatorType.MERCHANT,
+      request.reason
+    );
+    await orderModel.updateStatus(request.orderId, transition, merchantId);
+
+    businessLogger.info("商家修改订单状态成功", {
+      orderId: request.orderId,
+      action,
+      merchantId,
+      orderStatus: transition.toStatus,
+    });
+
+    return {
+      orderId: request.orderId,
+      orderStatus: transition.toStatus,
+      paymentStatus: transition.toPaymentStatus,
+    };
+  }
+
+  /**
+   * 查询属于当前餐厅的订单
+   * @param orderId - 订单ID
+   * @param restaurantId - 餐厅ID
+   * @returns 订单信息
+   */
+  private async findRestaurantOrder(
+    orderId: number,
+    restaurantId: number
+  ): Promise<Order> {
+    const order = await orderModel.findById(orderId);
+    if (!order) {
+      throw { message: "订单不存在", code: HttpCode.NOT_FOUND };
+    }
+    assertOrderRestaurant(order, restaurantId);
+    return order;
+  }
+}
+
+// 导出单例实例
+const merchantService = new MerchantService();
+export default merchantService;
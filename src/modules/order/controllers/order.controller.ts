@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import orderService from '../services/order.service';
+import paymentService from '../../payment/services/payment.service';
 import { successResponse, errorResponse } from '../../../utils/response';
 import logger, { businessLogger, securityLogger } from '../../../utils/logger';
 import { HttpCode } from '../../..//types/index';
@@ -43,6 +44,29 @@ class OrderController {
     }
   }
 
+  /**
+   * 订单报价
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async quoteOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await orderService.quoteOrder(req.body, req.user!.userId);
+
+      successResponse(res, '获取订单报价成功', result);
+    } catch (error: any) {
+      logger.error('获取订单报价失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        restaurantId: req.body.restaurantId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
   /**
    * 订单支付
    * @param req - 请求对象
@@ -57,7 +81,7 @@ class OrderController {
         ip: req.ip
       });
 
-      const result = await orderService.payOrder(req.body.orderId, req.user!.userId);
+      const result = await paymentService.createPayment({ orderId: req.body.orderId }, req.user!.userId);
 
       businessLogger.info('订单支付成功', {
         userId: req.user?.userId,
@@ -139,33 +163,6 @@ class OrderController {
     }
   }
 
-    /**
-   * 修改订单状态,模拟商家发货和骑手送到
-   * @param req - 请求对象
-   * @param res - 响应对象
-   */
-  async changeStatus(req: Request, res: Response): Promise<void> {
-    try {
-      const { orderId, status } = req.body;
-
-      // 将字符串转换为 OrderStatus 枚举
-      const orderStatus = status as OrderStatus;
-
-      const result = await orderService.changeStatus(orderId, orderStatus, req.user!.userId);
-      successResponse(res, '修改订单状态成功', result);
-    } catch (error: any) {
-      logger.error('修改订单状态失败', {
-        error: error.message,
-        stack: error.stack,
-        userId: req.user?.userId,
-        orderId: req.query.orderId,
-        ip: req.ip,
-        code: error.code || HttpCode.INTERNAL_ERROR
-      });
-      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
-    }
-  }
-
   /**
    * 确认收货
    * @param req - 请求对象
@@ -254,6 +251,34 @@ class OrderController {
     }
   }
 
+  /**
+   * 获取订单当前可执行的状态流转动作
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async getOrderTransitions(req: Request, res: Response): Promise<void> {
+    try {
+      const orderId = Number(req.params.id);
+      if (!Number.isInteger(orderId) || orderId <= 0) {
+        throw { message: '订单ID无效', code: HttpCode.VALIDATION_ERROR };
+      }
+
+      const result = await orderService.getOrderTransitions(orderId, req.user!.userId);
+
+      successResponse(res, '获取订单可用操作成功', result);
+    } catch (error: any) {
+      logger.error('获取订单可用操作失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        orderId: req.params.id,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
   /**
    * 获取用户订单统计信息
    * @param req - 请求对象
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import Decimal from "decimal.js";
+import orderModel from "./order.model";
+import { ProcessorType, RefundRecord, RefundStatus, RefundType } from "./order";
+import { HttpCode } from "../../../types/index";
+
+const tx = vi.hoisted(() => ({
+  $queryRaw: vi.fn(),
+  refundRecords: {
+    count: vi.fn(),
+    aggregate: vi.fn(),
+    create: vi.fn(),
+  },
+}));
+
+vi.mock("../../../database/prisma", () => ({
+  prisma: {
+    $transaction: (callback: (client: typeof tx) => Promise<unknown>) =>
+      callback(tx),
+  },
+}));
+
+/**
+ * 构造退款申请，默认为对支付记录的部分退款
+ * @param refundAmount - 退款金额
+ * @returns 退款记录
+ */
+const buildRefund = (refundAmount: number): RefundRecord => ({
+  id: 0,
+  orderId: 1,
+  userId: 1,
+  paymentRecordId: 10,
+  refundAmount: new Decimal(refundAmount),
+  refundReason: "菜品缺货",
+  refundType: RefundType.PARTIAL,
+  refundStatus: RefundStatus.PENDING,
+  processorType: ProcessorType.USER,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe("orderModel.createRefundRecord", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tx.refundRecords.count.mockResolvedValue(0);
+    tx.refundRecords.aggregate.mockResolvedValue({
+      _sum: { refundAmount: new Decimal(20) },
+    });
+    tx.refundRecords.create.mockResolvedValue({ id: 100 });
+  });
+
+  it("有处理中的退款申请时拒绝新的申请", async () => {
+    tx.refundRecords.count.mockResolvedValue(1);
+
+    await expect(
+      orderModel.createRefundRecord(buildRefund(5), new Decimal(50))
+    ).rejects.toEqual({
+      message: "订单有处理中的退款申请，请等待处理完成",
+      code: HttpCode.VALIDATION_ERROR,
+    });
+    expect(tx.refundRecords.create).not.toHaveBeenCalled();
+  });
+
+  it("退款金额超过支付金额减去已退款金额时拒绝申请", async () => {
+    await expect(
+      orderModel.createRefundRecord(buildRefund(30.01), new Decimal(50))
+    ).rejects.toEqual({
+      message: "退款金额超过剩余可退金额 30 元",
+      code: HttpCode.VALIDATION_ERROR,
+    });
+    expect(tx.refundRecords.aggregate).toHaveBeenCalledWith({
+      where: {
+        paymentRecordId: 10,
+        refundStatus: {
+          in: [
+            RefundStatus.PENDING,
+            RefundStatus.APPROVED,
+            RefundStatus.COMPLETED,
+          ],
+        },
+      },
+      _sum: { refundAmount: true },
+    });
+    expect(tx.refundRecords.create).not.toHaveBeenCalled();
+  });
+
+  it("退款金额等于剩余可退金额时创建退款记录", async () => {
+    const refundId = await orderModel.createRefundRecord(
+      buildRefund(30),
+      new Decimal(50)
+    );
+
+    expect(refundId).toBe(100);
+    expect(tx.refundRecords.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        paymentRecordId: 10,
+        refundAmount: new Decimal(30),
+        refundStatus: RefundStatus.PENDING,
+      }),
+    });
+  });
+
+  it("没有退款记录时可退金额为支付金额", async () => {
+    tx.refundRecords.aggregate.mockResolvedValue({
+      _sum: { refundAmount: null },
+    });
+
+    await expect(
+      orderModel.createRefundRecord(buildRefund(50), new Decimal(50))
+    ).resolves.toBe(100);
+    await expect(
+      orderModel.createRefundRecord(buildRefund(50.01), new Decimal(50))
+    ).rejects.toEqual(
+      expect.objectContaining({ message: "退款金额超过剩余可退金额 50 元" })
+    );
+  });
+});
@@ -1,10 +1,13 @@
 import { prisma } from "../../../database/prisma";
+import Decimal from "decimal.js";
 import {
+  Prisma,
   payment_records_payment_method,
   payment_records_payment_status,
 } from "@prisma/client";
 import {
   Order,
+  OrderItem,
   PaymentStatus,
   PaymentMethod,
   OrderStatus,
@@ -12,16 +15,36 @@ import {
   RefundRecord,
   OrderPaymentStatus,
   RefundStatus,
+  RefundType,
+  ProcessorType,
+  OrderTransitionResult,
+  DeliveryStatus,
+  DeliveryStatusChange,
+  CLAIMABLE_DELIVERY_ORDER_STATUSES,
+  OrderDetail,
 } from "./order";
+import { UserCouponStatus } from "../../coupon/models/coupon";
+import { SelectedDishSpec } from "../../restaurant/models/restaurant";
+import { WalletEntry } from "../../wallet/models/wallet";
+import walletModel from "../../wallet/models/wallet.model";
+import restaurantModel from "../../restaurant/models/restaurant.model";
 import { HttpCode } from "../../../types/index";
 
+// 占用可退金额的退款状态（已拒绝、失败的退款不计入）
+const ACTIVE_REFUND_STATUSES = [
+  RefundStatus.PENDING,
+  RefundStatus.APPROVED,
+  RefundStatus.COMPLETED,
+];
+
 class OrderModel {
   /**
    * 创建订单（事务操作）
    * @param orderData - 订单数据
+   * @param userCouponId - 使用的用户优惠券ID，可选，与订单在同一事务中核销
    * @returns 创建的订单信息
    */
-  async create(orderData: Order): Promise<number> {
+  async create(orderData: Order, userCouponId?: number): Promise<number> {
     // 显式构建数据对象，避免 exactOptionalPropertyTypes 错误
     const createData: any = {
       orderNumber: orderData.orderNumber,
@@ -38,7 +61,11 @@ class OrderModel {
       estimatedDeliveryTime: orderData.estimatedDeliveryTime,
       subtotal: orderData.subtotal,
       deliveryFee: orderData.deliveryFee,
+      deliveryDistance: orderData.deliveryDistance ?? null,
+      discountAmount: orderData.discountAmount,
       totalAmount: orderData.totalAmount,
+      couponId: orderData.couponId,
+      paymentDeadline: orderData.paymentDeadline,
       orderItems: {
         create: orderData.orderItems,
       },
@@ -58,15 +85,51 @@ class OrderModel {
       createData.orderNote = orderData.orderNote;
     }
 
-    const resultOrder = await prisma.orders.create({
-      data: createData,
-      include: {
-        orderItems: true,
-        orderStatusLogs: true,
-      },
-    });
+    return prisma.$transaction(async (tx) => {
+      //扣减限量菜品库存，库存不足时整个下单事务回滚
+      await restaurantModel.reserveDishStock(tx, orderData.orderItems);
+
+      const resultOrder = await tx.orders.create({
+        data: createData,
+        include: {
+          orderItems: true,
+          orderStatusLogs: true,
+        },
+      });
+
+      //核销优惠券，条件更新保证同一张优惠券不会被并发使用
+      if (userCouponId) {
+        const now = new Date();
+        const updateResult = await tx.userCoupons.updateMany({
+          where: {
+            id: userCouponId,
+            userId: orderData.userId,
+            status: UserCouponStatus.UNUSED,
+            expiredAt: { gt: now },
+          },
+          data: {
+            status: UserCouponStatus.USED,
+            orderId: resultOrder.id,
+            usedAt: now,
+          },
+        });
+        if (updateResult.count === 0) {
+          throw { message: "优惠券已使用或已过期", code: HttpCode.VALIDATION_ERROR };
+        }
+      }
 
-    return resultOrder.id;
+      //余额支付的订单冻结订单金额，余额不足时不能下单
+      if (orderData.paymentMethod === PaymentMethod.BALANCE) {
+        await walletModel.createHold(tx, {
+          userId: orderData.userId,
+          orderId: resultOrder.id,
+          orderNumber: orderData.orderNumber,
+          amount: new Decimal(orderData.totalAmount),
+        });
+      }
+
+      return resultOrder.id;
+    });
   }
 
   /**
@@ -93,6 +156,7 @@ class OrderModel {
       orderStatus: order.orderStatus as OrderStatus,
       paymentStatus: order.paymentStatus as OrderPaymentStatus,
       paymentMethod: order.paymentMethod as PaymentMethod,
+      orderItems: order.orderItems.map((item) => this.toOrderItem(item)),
     };
   }
 
@@ -148,258 +212,728 @@ class OrderModel {
     return await (prisma as any).orders.count({ where });
   }
 
+  /**
+   * 按状态机流转结果更新订单（需在事务中调用）
+   * 通过前置状态做乐观锁，防止并发请求重复流转
+   * @param tx - 事务客户端
+   * @param orderId - 订单ID
+   * @param transition - 状态流转结果
+   * @param operatorId - 操作者ID
+   */
+  private async applyTransition(
+    tx: Prisma.TransactionClient,
+    orderId: number,
+    transition: OrderTransitionResult,
+    operatorId?: number
+  ): Promise<void> {
+    const updateResult = await tx.orders.updateMany({
+      where: {
+        id: orderId,
+        orderStatus: transition.fromStatus,
+        paymentStatus: transition.fromPaymentStatus,
+      },
+      data: {
+        orderStatus: transition.toStatus,
+        paymentStatus: transition.toPaymentStatus,
+        ...transition.timestamps,
+      },
+    });
+
+    if (updateResult.count === 0) {
+      throw { message: "订单状态已变更，请刷新后重试", code: HttpCode.VALIDATION_ERROR };
+    }
+
+    // 订单取消（含退款）时退还使用的优惠券和菜品库存，并释放未支付订单冻结的余额
+    if (transition.toStatus === OrderStatus.CANCELLED) {
+      await tx.userCoupons.updateMany({
+        where: { orderId, status: UserCouponStatus.USED },
+        data: { status: UserCouponStatus.UNUSED, orderId: null, usedAt: null },
+      });
+      await walletModel.releaseHold(tx, orderId);
+
+      const order = await tx.orders.findUniqueOrThrow({
+        where: { id: orderId },
+        select: {
+          createdAt: true,
+          orderItems: { select: { dishId: true, quantity: true } },
+        },
+      });
+      await restaurantModel.restoreDishStock(
+        tx,
+        order.orderItems,
+        order.createdAt
+      );
+    }
+
+    // 创建状态变更日志
+    await tx.orderStatusLogs.create({
+      data: {
+        orderId,
+        newStatus: transition.toStatus,
+        operatorId: operatorId || null,
+        operatorType: transition.operatorType,
+        remark: transition.remark,
+      },
+    });
+  }
+
   /**
    * 更新订单状态,支付调用事务
    * @param orderId - 订单ID
-   * @param status - 新状态
+   * @param payId - 支付记录ID
+   * @param transition - 状态流转结果
+   * @param payStatus - 支付记录状态
    * @param operatorId - 操作者ID
-   * @param remark - 备注
+   * @param walletEntry - 余额支付时的扣款请求，优先扣除下单时冻结的金额，余额不足时整个事务回滚
+   * @param paid - 渠道确认的第三方交易流水号和支付完成时间，可选
    */
   async updateStatusWithPay(
     orderId: number,
     payId: number,
-    orderStatus: OrderStatus,
-    orderpaymentStatus: OrderPaymentStatus,
+    transition: OrderTransitionResult,
     payStatus: PaymentStatus,
     operatorId?: number,
-    remark?: string
+    walletEntry?: WalletEntry,
+    paid?: { providerTransactionId?: string | undefined; paidAt?: Date | undefined }
   ): Promise<void> {
     await prisma.$transaction(async (tx) => {
-      // 更新订单状态
-      await tx.orders.update({
-        where: { id: orderId },
-        data: {
-          orderStatus: orderStatus,
-          paymentStatus: orderpaymentStatus,
-          paidAt: payStatus === PaymentStatus.SUCCESS ? new Date() : null,
-        },
-      });
+      await this.applyTransition(tx, orderId, transition, operatorId);
 
       //更新支付状态
       await tx.paymentRecords.update({
         where: { id: payId },
-        data: { paymentStatus: payStatus, paymentTime: new Date() },
-      });
-
-      // 创建状态变更日志
-      await tx.orderStatusLogs.create({
         data: {
-          orderId,
-          newStatus: orderStatus,
-          operatorId: operatorId || null,
-          operatorType: operatorId ? "user" : "system",
-          remark: remark || `状态变更为: ${orderStatus}`,
+          paymentStatus: payStatus,
+          paymentTime: paid?.paidAt ?? new Date(),
+          ...(paid?.providerTransactionId && {
+            providerTransactionId: paid.providerTransactionId,
+          }),
         },
       });
+
+      if (walletEntry) {
+        await walletModel.consumeForOrder(tx, orderId, walletEntry);
+      }
     });
   }
 
   /**
    * 更新订单状态
    * @param orderId - 订单ID
-   * @param status - 新状态
+   * @param transition - 状态流转结果
    * @param operatorId - 操作者ID
-   * @param remark - 备注
    */
   async updateStatus(
     orderId: number,
-    status: OrderStatus,
-    operatorId?: number,
-    remark?: string
+    transition: OrderTransitionResult,
+    operatorId?: number
+  ): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      await this.applyTransition(tx, orderId, transition, operatorId);
+    });
+  }
+
+  /**
+   * 退款完成后同步订单状态，并清除退款记录的待同步标记
+   * 退款记录已先行落库，这里失败不会影响已退出的资金，可以安全重试
+   * @param orderId - 订单ID
+   * @param refundId - 退款记录ID
+   * @param transition - 状态流转结果，订单无需流转时不传（如订单已取消）
+   * @param operatorId - 操作者ID
+   */
+  async settleRefundedOrder(
+    orderId: number,
+    refundId: number,
+    transition?: OrderTransitionResult,
+    operatorId?: number
   ): Promise<void> {
     await prisma.$transaction(async (tx) => {
-      const updateData: any = {
-        orderStatus: status,
-      };
-
-      switch (status) {
-        case OrderStatus.PREPARING:
-          break;
-
-        //如果切换为配送状态,则更新商家完成时间
-        case OrderStatus.DELIVERING:
-          updateData.completedAt = new Date();
-          break;
-
-        //如果切换为已完成,则更新实际配送时间
-        case OrderStatus.COMPLETED:
-          updateData.actualDeliveryTime = new Date();
-          break;
-
-        //如果是取消的话,则更新取消时间
-        case OrderStatus.CANCELLED:
-          updateData.cancelledAt = new Date();
-          break;
-        default:
-          throw { message: "不支持的状态修改", code: HttpCode.FORBIDDEN };
+      if (transition) {
+        await this.applyTransition(tx, orderId, transition, operatorId);
       }
 
-      // 更新订单状态
+      await tx.refundRecords.update({
+        where: { id: refundId },
+        data: { orderSyncPending: false },
+      });
+    });
+  }
+
+  /**
+   * 查询已超过支付截止时间仍未支付的订单
+   * @param now - 当前时间
+   * @param limit - 单次查询数量
+   * @returns 订单列表
+   */
+  async findExpiredUnpaidOrders(now: Date, limit: number): Promise<Order[]> {
+    const orders = await prisma.orders.findMany({
+      where: {
+        orderStatus: OrderStatus.CREATED,
+        paymentStatus: {
+          in: [OrderPaymentStatus.PENDING, OrderPaymentStatus.FAILED],
+        },
+        paymentDeadline: { lte: now },
+      },
+      orderBy: { paymentDeadline: "asc" },
+      take: limit,
+      include: {
+        orderItems: true,
+      },
+    });
+
+    // 显式转换枚举类型
+    return orders.map((order) => ({
+      ...order,
+      orderStatus: order.orderStatus as OrderStatus,
+      paymentStatus: order.paymentStatus as OrderPaymentStatus,
+      paymentMethod: order.paymentMethod as PaymentMethod,
+      orderItems: order.orderItems.map((item) => this.toOrderItem(item)),
+    }));
+  }
+
+  /**
+   * 支付超时取消订单（事务操作）
+   * 订单状态更新基于乐观锁，多实例同时处理同一订单时只有一个会成功
+   * @param orderId - 订单ID
+   * @param transition - 状态流转结果
+   */
+  async updateStatusWithPaymentTimeout(
+    orderId: number,
+    transition: OrderTransitionResult
+  ): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      await this.applyTransition(tx, orderId, transition);
+
+      //记录取消原因
       await tx.orders.update({
         where: { id: orderId },
-        data: updateData,
+        data: { cancelReason: transition.remark },
       });
 
-      // 创建状态变更日志
-      await tx.orderStatusLogs.create({
-        data: {
+      //关闭未完成的支付记录
+      await tx.paymentRecords.updateMany({
+        where: {
           orderId,
-          newStatus: status,
-          operatorId: operatorId || null,
-          operatorType: operatorId ? "user" : "system",
-          remark: remark || `状态变更为: ${status}`,
+          paymentStatus: {
+            in: [PaymentStatus.PENDING, PaymentStatus.PROCESSING],
+          },
         },
+        data: { paymentStatus: PaymentStatus.FAILED, failureReason: "支付超时" },
       });
     });
   }
 
   /**
-   * 更新订单状态,与退款有关
+   * 更新订单状态并创建配送单（商家接单时调用）
    * @param orderId - 订单ID
-   * @param status - 新状态
+   * @param transition - 状态流转结果
+   * @param deliveryUserId - 分配的骑手ID，暂无可用骑手时为null，等待骑手抢单
    * @param operatorId - 操作者ID
-   * @param remark - 备注
    */
-  async updateStatusWithRefund(
+  async updateStatusWithDeliveryAssign(
     orderId: number,
-    refundId: number,
-    orderStatus: OrderStatus,
-    orderPaymentStatus: OrderPaymentStatus,
-    refundStatus: RefundStatus,
-    operatorId?: number,
-    remark?: string
+    transition: OrderTransitionResult,
+    deliveryUserId: number | null,
+    operatorId?: number
   ): Promise<void> {
     await prisma.$transaction(async (tx) => {
-      // 更新订单状态
-      await tx.orders.update({
-        where: { id: orderId },
-        data: { orderStatus: orderStatus, paymentStatus: orderPaymentStatus },
-      });
+      await this.applyTransition(tx, orderId, transition, operatorId);
 
-      //更新支付状态
-      await tx.refundRecords.update({
-        where: { id: refundId },
-        data: { refundStatus: refundStatus },
+      //创建配送单，配送距离取下单时计算的距离
+      const order = await tx.orders.findUniqueOrThrow({
+        where: { id: orderId },
+        select: { deliveryDistance: true },
       });
-
-      // 创建状态变更日志
-      await tx.orderStatusLogs.create({
+      await tx.deliveryInfo.create({
         data: {
           orderId,
-          newStatus: orderStatus,
-          operatorId: operatorId || null,
-          operatorType: operatorId ? "user" : "system",
-          remark: remark || `状态变更为: ${orderStatus}`,
+          deliveryUserId,
+          deliveryDistance: order.deliveryDistance,
+          deliveryStatus: DeliveryStatus.ASSIGNED,
+          assignedAt: deliveryUserId ? new Date() : null,
         },
       });
     });
   }
 
   /**
-   * 创建支付记录
-   * @param paymentData - 支付记录数据
-   * @returns 支付记录
+   * 骑手领取未分配的配送单
+   * 条件更新同时校验订单状态，订单已取消、退款或已完成时不能领取
+   * @param orderId - 订单ID
+   * @param riderId - 骑手ID
    */
-  async createPaymentRecord(paymentRecord: PaymentRecord): Promise<number> {
-    const result = await prisma.paymentRecords.create({
+  async claimDelivery(orderId: number, riderId: number): Promise<void> {
+    const updateResult = await prisma.deliveryInfo.updateMany({
+      where: {
+        orderId,
+        deliveryUserId: null,
+        deliveryStatus: DeliveryStatus.ASSIGNED,
+        orders: {
+          orderStatus: { in: CLAIMABLE_DELIVERY_ORDER_STATUSES },
+          paymentStatus: OrderPaymentStatus.SUCCESS,
+        },
+      },
       data: {
-        orderId: paymentRecord.orderId,
-        userId: paymentRecord.userId,
-        paymentMethod: paymentRecord.paymentMethod,
-        paymentAmount: paymentRecord.paymentAmount,
-        transactionId: paymentRecord.transactionId,
+        deliveryUserId: riderId,
+        assignedAt: new Date(),
       },
     });
-    return result.id;
+
+    if (updateResult.count === 0) {
+      throw { message: "该配送单已被领取或不存在", code: HttpCode.VALIDATION_ERROR };
+    }
+  }
+
+  /**
+   * 更新配送状态，可同时推进订单状态（事务操作）
+   * 通过配送单前置状态和骑手做乐观锁
+   * @param orderId - 订单ID
+   * @param riderId - 骑手ID
+   * @param change - 配送状态变更数据
+   * @param transition - 订单状态流转结果，不推进订单状态时不传
+   */
+  async updateDeliveryStatus(
+    orderId: number,
+    riderId: number,
+    change: DeliveryStatusChange,
+    transition?: OrderTransitionResult
+  ): Promise<void> {
+    const { fromStatus, toStatus, ...timestamps } = change;
+
+    await prisma.$transaction(async (tx) => {
+      const updateResult = await tx.deliveryInfo.updateMany({
+        where: {
+          orderId,
+          deliveryUserId: riderId,
+          deliveryStatus: fromStatus,
+        },
+        data: {
+          deliveryStatus: toStatus,
+          ...timestamps,
+        },
+      });
+
+      if (updateResult.count === 0) {
+        throw { message: "配送状态已变更，请刷新后重试", code: HttpCode.VALIDATION_ERROR };
+      }
+
+      if (transition) {
+        await this.applyTransition(tx, orderId, transition, riderId);
+      }
+    });
   }
 
   /**
-   * 根据订单ID和支付状态查询支付记录
+   * 更新订单状态为已完成并结束配送单（用户确认收货时调用）
    * @param orderId - 订单ID
-   * @param paymentStatus - 支付状态
-   * @returns 支付记录
+   * @param transition - 状态流转结果
+   * @param operatorId - 操作者ID
    */
-  async findPaymentRecord(
+  async updateStatusWithDeliveryComplete(
     orderId: number,
-    paymentStatus: PaymentStatus
-  ): Promise<PaymentRecord | null> {
-    const result = await prisma.paymentRecords.findFirst({
+    transition: OrderTransitionResult,
+    operatorId?: number
+  ): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      await this.applyTransition(tx, orderId, transition, operatorId);
+
+      //骑手尚未点击送达时，以用户确认收货时间为准
+      await tx.deliveryInfo.updateMany({
+        where: {
+          orderId,
+          deliveryStatus: { not: DeliveryStatus.DELIVERED },
+        },
+        data: {
+          deliveryStatus: DeliveryStatus.DELIVERED,
+          deliveredAt: transition.timestamps.actualDeliveryTime ?? new Date(),
+        },
+      });
+    });
+  }
+
+  /**
+   * 创建退款记录（事务操作）
+   * 锁定支付记录后重新校验剩余可退金额，避免并发退款超额
+   * @param refundData - 退款记录数据
+   * @param paymentAmount - 支付金额
+   * @returns 退款记录
+   */
+  async createRefundRecord(
+    refundData: RefundRecord,
+    paymentAmount: Decimal
+  ): Promise<number> {
+    return prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM payment_records WHERE id = ${refundData.paymentRecordId} FOR UPDATE`;
+
+      // 同一笔支付同时只允许一笔处理中的退款，保证审核通过时剩余金额判断准确
+      const processing = await tx.refundRecords.count({
+        where: {
+          paymentRecordId: refundData.paymentRecordId,
+          refundStatus: { in: [RefundStatus.PENDING, RefundStatus.APPROVED] },
+        },
+      });
+      if (processing > 0) {
+        throw {
+          message: "订单有处理中的退款申请，请等待处理完成",
+          code: HttpCode.VALIDATION_ERROR,
+        };
+      }
+
+      const refunded = await tx.refundRecords.aggregate({
+        where: {
+          paymentRecordId: refundData.paymentRecordId,
+          refundStatus: { in: ACTIVE_REFUND_STATUSES },
+        },
+        _sum: { refundAmount: true },
+      });
+      const remaining = new Decimal(paymentAmount).minus(
+        refunded._sum.refundAmount ?? 0
+      );
+      if (new Decimal(refundData.refundAmount).greaterThan(remaining)) {
+        throw {
+          message: `退款金额超过剩余可退金额 ${remaining.toNumber()} 元`,
+          code: HttpCode.VALIDATION_ERROR,
+        };
+      }
+
+      const refundRecord = await tx.refundRecords.create({
+        data: {
+          orderId: refundData.orderId,
+          userId: refundData.userId,
+          paymentRecordId: refundData.paymentRecordId,
+          refundAmount: refundData.refundAmount,
+          refundReason: refundData.refundReason,
+          refundType: refundData.refundType,
+          refundStatus: refundData.refundStatus,
+          processorId: refundData.processorId ?? null,
+          processorType: refundData.processorType,
+          refundItems: {
+            create: (refundData.refundItems ?? []).map((item) => ({
+              orderItemId: item.orderItemId,
+              quantity: item.quantity,
+              refundAmount: item.refundAmount,
+            })),
+          },
+        },
+      });
+
+      return refundRecord.id;
+    });
+  }
+
+  /**
+   * 查询支付记录已退款（含处理中）的金额
+   * @param paymentRecordId - 支付记录ID
+   * @returns 已退款金额
+   */
+  async getRefundedAmount(paymentRecordId: number): Promise<Decimal> {
+    const refunded = await prisma.refundRecords.aggregate({
       where: {
-        orderId: orderId,
-        paymentStatus: paymentStatus,
+        paymentRecordId,
+        refundStatus: { in: ACTIVE_REFUND_STATUSES },
       },
+      _sum: { refundAmount: true },
     });
-    // 显式转换枚举类型
-    if (!result) return null;
 
-    return {
-      ...result,
-      paymentStatus: result.paymentStatus as PaymentStatus,
-      paymentMethod: result.paymentMethod as PaymentMethod,
-    };
+    return new Decimal(refunded._sum.refundAmount ?? 0);
   }
 
   /**
-   * 创建退款记录
-   * @param refundData - 退款记录数据
+   * 查询订单各订单项已退款（含处理中）的数量
+   * @param orderId - 订单ID
+   * @returns 订单项ID到已退数量的映射
+   */
+  async getRefundedItemQuantities(orderId: number): Promise<Map<number, number>> {
+    const groups = await prisma.refundItems.groupBy({
+      by: ["orderItemId"],
+      where: {
+        refundRecords: {
+          orderId,
+          refundStatus: { in: ACTIVE_REFUND_STATUSES },
+        },
+      },
+      _sum: { quantity: true },
+    });
+
+    return new Map(
+      groups.map((group) => [group.orderItemId, group._sum.quantity ?? 0])
+    );
+  }
+
+  /**
+   * 根据ID查询退款记录（包含退款菜品明细）
+   * @param refundId - 退款记录ID
    * @returns 退款记录
    */
-  async createRefundRecord(refundData: RefundRecord): Promise<number> {
-    const refundRecord = await prisma.refundRecords.create({
+  async findRefundRecordById(refundId: number): Promise<RefundRecord | null> {
+    const refundRecord = await prisma.refundRecords.findUnique({
+      where: { id: refundId },
+      include: { refundItems: true },
+    });
+
+    return refundRecord ? this.toRefundRecord(refundRecord) : null;
+  }
+
+  /**
+   * 查询订单的退款记录（包含退款菜品明细）
+   * @param orderId - 订单ID
+   * @returns 退款记录列表，按申请时间倒序
+   */
+  async findRefundRecordsByOrderId(orderId: number): Promise<RefundRecord[]> {
+    const refundRecords = await prisma.refundRecords.findMany({
+      where: { orderId },
+      include: { refundItems: true },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return refundRecords.map((refundRecord) =>
+      this.toRefundRecord(refundRecord)
+    );
+  }
+
+  /**
+   * 查询申请时间早于指定时间仍待审核的退款记录
+   * @param before - 申请时间上限
+   * @param limit - 单次查询数量
+   * @returns 退款记录列表
+   */
+  async findPendingRefundsBefore(
+    before: Date,
+    limit: number
+  ): Promise<RefundRecord[]> {
+    const refundRecords = await prisma.refundRecords.findMany({
+      where: {
+        refundStatus: RefundStatus.PENDING,
+        createdAt: { lte: before },
+      },
+      orderBy: { createdAt: "asc" },
+      take: limit,
+    });
+
+    return refundRecords.map((refundRecord) =>
+      this.toRefundRecord(refundRecord)
+    );
+  }
+
+  /**
+   * 查询审核时间早于指定时间仍处于已同意状态（等待退款结果）的退款记录
+   * @param before - 审核时间上限
+   * @param limit - 单次查询数量
+   * @returns 退款记录列表
+   */
+  async findApprovedRefundsBefore(
+    before: Date,
+    limit: number
+  ): Promise<RefundRecord[]> {
+    const refundRecords = await prisma.refundRecords.findMany({
+      where: {
+        refundStatus: RefundStatus.APPROVED,
+        processedAt: { lte: before },
+      },
+      orderBy: { processedAt: "asc" },
+      take: limit,
+    });
+
+    return refundRecords.map((refundRecord) =>
+      this.toRefundRecord(refundRecord)
+    );
+  }
+
+  /**
+   * 记录订单已无法支付时到账的支付，并创建已同意的全额退款记录（事务操作）
+   * 支付记录条件更新为成功，并发的重复通知已处理时不再创建退款
+   * @param paymentId - 支付记录ID
+   * @param paid - 第三方交易流水号和支付完成时间
+   * @param refundData - 退款记录
+   * @returns 退款记录ID，支付记录已是成功状态时返回null
+   */
+  async createRefundForUnpayablePayment(
+    paymentId: number,
+    paid: { providerTransactionId?: string | undefined; paidAt: Date },
+    refundData: RefundRecord
+  ): Promise<number | null> {
+    return prisma.$transaction(async (tx) => {
+      const updateResult = await tx.paymentRecords.updateMany({
+        where: { id: paymentId, paymentStatus: { not: PaymentStatus.SUCCESS } },
+        data: {
+          paymentStatus: PaymentStatus.SUCCESS,
+          paymentTime: paid.paidAt,
+          failureReason: null,
+          ...(paid.providerTransactionId && {
+            providerTransactionId: paid.providerTransactionId,
+          }),
+        },
+      });
+      if (updateResult.count === 0) {
+        return null;
+      }
+
+      const refundRecord = await tx.refundRecords.create({
+        data: {
+          orderId: refundData.orderId,
+          userId: refundData.userId,
+          paymentRecordId: paymentId,
+          refundAmount: refundData.refundAmount,
+          refundReason: refundData.refundReason,
+          refundType: refundData.refundType,
+          refundStatus: refundData.refundStatus,
+          processorType: refundData.processorType,
+          processedAt: new Date(),
+        },
+      });
+
+      return refundRecord.id;
+    });
+  }
+
+  /**
+   * 审核待处理的退款记录（乐观锁：仅待审核状态可以处理）
+   * @param refundId - 退款记录ID
+   * @param data - 审核结果
+   */
+  async processRefundRecord(
+    refundId: number,
+    data: {
+      refundStatus: RefundStatus;
+      processorType: ProcessorType;
+      processorId?: number;
+      processRemark?: string;
+    }
+  ): Promise<void> {
+    const updateResult = await prisma.refundRecords.updateMany({
+      where: { id: refundId, refundStatus: RefundStatus.PENDING },
       data: {
-        orderId: refundData.orderId,
-        userId: refundData.userId,
-        paymentRecordId: refundData.paymentRecordId,
-        refundAmount: refundData.refundAmount,
-        refundReason: refundData.refundReason,
-        refundType: refundData.refundType,
-        refundStatus: refundData.refundStatus,
-        processorType: refundData.processorType,
+        refundStatus: data.refundStatus,
+        processorType: data.processorType,
+        processorId: data.processorId ?? null,
+        processRemark: data.processRemark ?? null,
+        processedAt: new Date(),
       },
     });
 
-    return refundRecord.id;
+    if (updateResult.count === 0) {
+      throw { message: "退款申请已被处理，请刷新后重试", code: HttpCode.VALIDATION_ERROR };
+    }
   }
 
   /**
-   * 修改退款记录,只做普通更新,不涉及联动其他数据
-   * @param refundData - 退款记录数据
-   * @returns 退款记录
+   * 获取退款申请列表（带分页和状态筛选）
+   * @param options - 查询选项，传入餐厅ID时只查询该餐厅订单的退款
+   * @returns 退款记录列表和总数
+   */
+  async getRefundListWithPagination(options: {
+    restaurantId?: number;
+    page?: number;
+    limit?: number;
+    status?: RefundStatus;
+  }): Promise<{ refunds: RefundRecord[]; total: number }> {
+    const page = options.page || 1;
+    const limit = options.limit || 10;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.RefundRecordsWhereInput = {};
+    if (options.restaurantId) {
+      where.orders = { restaurantId: options.restaurantId };
+    }
+    if (options.status) {
+      where.refundStatus = options.status;
+    }
+
+    const [refunds, total] = await Promise.all([
+      prisma.refundRecords.findMany({
+        where: where,
+        include: { refundItems: true },
+        orderBy: { createdAt: "desc" },
+        skip: skip,
+        take: limit,
+      }),
+      prisma.refundRecords.count({ where: where }),
+    ]);
+
+    return {
+      refunds: refunds.map((refundRecord) => this.toRefundRecord(refundRecord)),
+      total,
+    };
+  }
+
+  /**
+   * 修改处理中（待审核、已同意）的退款记录状态，不涉及订单状态
+   * 条件更新，已完成或已失败的退款记录不会被覆盖
+   * @param refundId - 退款记录ID
+   * @param refundStatus - 退款记录状态
+   * @returns 是否更新成功
    */
   async updateRefundRecordStatus(
     refundId: number,
     refundStatus: RefundStatus
-  ): Promise<number> {
-    const refundRecord = await prisma.refundRecords.update({
-      data: {
-        refundStatus: refundStatus,
-      },
+  ): Promise<boolean> {
+    const updateResult = await prisma.refundRecords.updateMany({
       where: {
         id: refundId,
+        refundStatus: { in: [RefundStatus.PENDING, RefundStatus.APPROVED] },
       },
+      data: { refundStatus },
     });
+    return updateResult.count > 0;
+  }
+
+  /**
+   * 记录退款完成（资金已退出），不涉及订单状态
+   * 条件更新保证同一退款记录只会完成一次，余额退款的入账与退款记录在同一事务中，不会重复入账
+   * @param refundId - 退款记录ID
+   * @param data - 第三方退款流水号、余额退回请求、订单状态是否待同步
+   */
+  async completeRefundRecord(
+    refundId: number,
+    data: {
+      refundTransactionId?: string;
+      walletEntry?: WalletEntry;
+      orderSyncPending: boolean;
+    }
+  ): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      const updateResult = await tx.refundRecords.updateMany({
+        where: {
+          id: refundId,
+          refundStatus: { in: [RefundStatus.PENDING, RefundStatus.APPROVED] },
+        },
+        data: {
+          refundStatus: RefundStatus.COMPLETED,
+          completedAt: new Date(),
+          orderSyncPending: data.orderSyncPending,
+          ...(data.refundTransactionId && {
+            refundTransactionId: data.refundTransactionId,
+          }),
+        },
+      });
+      if (updateResult.count === 0) {
+        throw { message: "退款记录已处理", code: HttpCode.VALIDATION_ERROR };
+      }
 
-    return refundRecord.id;
+      if (data.walletEntry) {
+        await walletModel.applyEntry(tx, data.walletEntry);
+      }
+    });
   }
 
   /**
-   * 修改支付记录,只做普通更新,不涉及联动其他数据
-   * @param refundData - 退款记录数据
-   * @returns 退款记录
+   * 查询已完成但订单状态待同步的退款记录
+   * @param limit - 单次查询数量
+   * @returns 退款记录列表
    */
-  async updatePayRecordStatus(
-    paymentId: number,
-    paymentStatus: PaymentStatus
-  ): Promise<number> {
-    const refundRecord = await prisma.paymentRecords.update({
-      data: {
-        paymentStatus: paymentStatus,
-      },
+  async findRefundsPendingOrderSync(limit: number): Promise<RefundRecord[]> {
+    const refundRecords = await prisma.refundRecords.findMany({
       where: {
-        id: paymentId,
+        refundStatus: RefundStatus.COMPLETED,
+        orderSyncPending: true,
       },
+      orderBy: { completedAt: "asc" },
+      take: limit,
     });
-    return refundRecord.id;
+
+    return refundRecords.map((refundRecord) =>
+      this.toRefundRecord(refundRecord)
+    );
   }
 
   /**
@@ -443,6 +977,51 @@ class OrderModel {
     return { orders, total };
   }
 
+  /**
+   * 获取餐厅订单列表（商家端，带分页和筛选）
+   * @param restaurantId - 餐厅ID
+   * @param options - 查询选项
+   * @returns 订单列表和总数
+   */
+  async getRestaurantOrderListWithPagination(
+    restaurantId: number,
+    options: {
+      page?: number;
+      limit?: number;
+      status?: OrderStatus;
+    }
+  ): Promise<{ orders: any[]; total: number }> {
+    const page = options.page || 1;
+    const limit = options.limit || 10;
+    const skip = (page - 1) * limit;
+
+    // 未支付过的订单商家无需处理，不展示
+    const where: any = {
+      restaurantId: restaurantId,
+      paidAt: { not: null },
+    };
+    if (options.status) {
+      where.orderStatus = options.status;
+    }
+
+    const [orders, total] = await Promise.all([
+      prisma.orders.findMany({
+        where: where,
+        orderBy: {
+          createdAt: "desc",
+        },
+        skip: skip,
+        take: limit,
+        include: {
+          orderItems: true,
+        },
+      }),
+      prisma.orders.count({ where: where }),
+    ]);
+
+    return { orders, total };
+  }
+
   /**
    * 获取订单详情（包含关联数据）
    * @param orderId - 订单ID
@@ -452,7 +1031,7 @@ class OrderModel {
   async getOrderDetailWithRelations(
     orderId: number,
     userId: number
-  ): Promise<any> {
+  ): Promise<OrderDetail | null> {
     const order = await prisma.orders.findFirst({
       where: {
         id: orderId,
@@ -464,7 +1043,25 @@ class OrderModel {
       },
     });
 
-    return order;
+    if (!order) return null;
+
+    const { orderReviews: review, ...rest } = order;
+    return {
+      ...rest,
+      orderStatus: order.orderStatus as OrderStatus,
+      paymentStatus: order.paymentStatus as OrderPaymentStatus,
+      paymentMethod: order.paymentMethod as PaymentMethod,
+      orderItems: order.orderItems.map((item) => this.toOrderItem(item)),
+      orderReviews: review && {
+        id: review.id,
+        rating: review.rating,
+        content: review.content,
+        images: review.images as string[] | null,
+        replyContent: review.replyContent,
+        replyTime: review.replyTime,
+        createdAt: review.createdAt,
+      },
+    };
   }
 
   /**
@@ -533,6 +1130,7 @@ class OrderModel {
     created: number;
     confirmed: number;
     preparing: number;
+    ready: number;
     delivering: number;
     completed: number;
     cancelled: number;
@@ -553,6 +1151,7 @@ class OrderModel {
       createdCount,
       confirmedCount,
       preparingCount,
+      readyCount,
       deliveringCount,
       completedCount,
       cancelledCount,
@@ -566,6 +1165,9 @@ class OrderModel {
       prisma.orders.count({
         where: { ...baseWhere, orderStatus: OrderStatus.PREPARING },
       }),
+      prisma.orders.count({
+        where: { ...baseWhere, orderStatus: OrderStatus.READY },
+      }),
       prisma.orders.count({
         where: { ...baseWhere, orderStatus: OrderStatus.DELIVERING },
       }),
@@ -581,6 +1183,7 @@ class OrderModel {
       created: createdCount,
       confirmed: confirmedCount,
       preparing: preparingCount,
+      ready: readyCount,
       delivering: deliveringCount,
       completed: completedCount,
       cancelled: cancelledCount,
@@ -696,9 +1299,52 @@ class OrderModel {
       where: {
         orderId: orderId,
       },
+      include: {
+        riders: {
+          select: {
+            id: true,
+            name: true,
+            phone: true,
+            avatar: true,
+          },
+        },
+      },
     });
   }
 
+  /**
+   * 转换订单项数据，处理规格快照的JSON类型
+   * @param orderItem - 数据库订单项
+   * @returns 订单项实体
+   */
+  private toOrderItem(orderItem: any): OrderItem {
+    return {
+      ...orderItem,
+      specs: orderItem.specs as SelectedDishSpec[] | null,
+    };
+  }
+
+  /**
+   * 转换退款记录数据，处理Decimal和枚举类型
+   * @param refundRecord - 数据库退款记录
+   * @returns 退款记录实体
+   */
+  private toRefundRecord(refundRecord: any): RefundRecord {
+    return {
+      ...refundRecord,
+      refundAmount: new Decimal(refundRecord.refundAmount),
+      refundType: refundRecord.refundType as RefundType,
+      refundStatus: refundRecord.refundStatus as RefundStatus,
+      processorType: refundRecord.processorType as ProcessorType,
+      ...(refundRecord.refundItems && {
+        refundItems: refundRecord.refundItems.map((item: any) => ({
+          ...item,
+          refundAmount: new Decimal(item.refundAmount),
+        })),
+      }),
+    };
+  }
+
   /**
    * 转换支付方式枚举到Prisma枚举
    * @param method - 支付方式
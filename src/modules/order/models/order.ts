@@ -1,5 +1,7 @@
 // 订单相关类型定义
 import { Decimal } from 'decimal.js';
+import { Restaurant, SelectedDishSpec } from '../../restaurant/models/restaurant';
+import { Address } from '../../user/models/user';
 
 /**
  * 订单状态枚举（对应数据库 orders_order_status）
@@ -8,6 +10,7 @@ export enum OrderStatus {
   CREATED = 'created',       // 已创建
   CONFIRMED = 'confirmed',   // 已确认
   PREPARING = 'preparing',   // 制作中
+  READY = 'ready',           // 待取餐
   DELIVERING = 'delivering', // 配送中
   COMPLETED = 'completed',   // 已完成
   CANCELLED = 'cancelled'    // 已取消
@@ -77,6 +80,8 @@ export interface Order {
   subtotal: Decimal;
   /** 配送费 */
   deliveryFee: Decimal;
+  /** 配送距离（公里），餐厅或地址未定位时为空 */
+  deliveryDistance?: Decimal | null;
   /** 优惠金额 */
   discountAmount?: Decimal;
   /** 订单总金额 */
@@ -103,6 +108,8 @@ export interface Order {
   cancelledAt?: Date | null;
   /** 取消原因，可选 */
   cancelReason?: string | null;
+  /** 支付截止时间，超过后订单将被系统自动取消，可选 */
+  paymentDeadline?: Date | null;
 
   //订单菜品详细信息项
   orderItems: OrderItem[];
@@ -122,8 +129,12 @@ export interface OrderItem {
   dishName: string;
   /** 菜品图片URL（冗余存储），可选 */
   dishImage?: string | null;
-  /** 下单时菜品单价 */
+  /** 下单时菜品单价（含规格加价） */
   dishPrice: Decimal;
+  /** 已选规格快照，可选 */
+  specs?: SelectedDishSpec[] | null;
+  /** 规格描述（如"大杯/微糖"），可选 */
+  specText?: string | null;
   /** 菜品数量 */
   quantity: number;
   /** 小计金额 */
@@ -142,8 +153,10 @@ export interface OrderDishItem {
   id: number;
   /** 菜品名称 */
   name: string;
-  /** 菜品单价 */
+  /** 菜品单价（含规格加价） */
   price: number;
+  /** 选择的规格选项ID，可选 */
+  specOptionIds?: number[];
   /** 菜品图片URL */
   image: string;
   /** 菜品描述 */
@@ -160,27 +173,32 @@ export interface OrderDishItem {
 
 /**
  * 下单接口请求参数接口
- * 对应前端提交订单时的完整数据结构
+ * 推荐先调用报价接口获取报价令牌，携带 quoteToken 下单时以服务端报价为准，
+ * 餐厅、地址、菜品和金额字段可不传；未携带报价令牌时需要传入完整数据并逐项校验
  */
 export interface PlaceOrderRequest {
-  /** 餐厅ID */
-  restaurantId: number;
-  /** 收货地址ID */
-  addressId: number;
-  /** 购买的菜品列表 */
-  items: OrderDishItem[];
+  /** 报价令牌，可选 */
+  quoteToken?: string;
+  /** 餐厅ID，未携带报价令牌时必填 */
+  restaurantId?: number;
+  /** 收货地址ID，未携带报价令牌时必填 */
+  addressId?: number;
+  /** 购买的菜品列表，未携带报价令牌时必填 */
+  items?: OrderDishItem[];
   /** 支付方式 */
   paymentMethod: PaymentMethod;
   /** 期望送达时间 */
   deliveryTime: string;
   /** 订单备注，可选 */
   note?: string;
-  /** 商品小计金额 */
-  subtotal: number;
-  /** 配送费 */
-  deliveryFee: number;
-  /** 订单总金额 */
-  total: number;
+  /** 商品小计金额，未携带报价令牌时必填 */
+  subtotal?: number;
+  /** 配送费，未携带报价令牌时必填 */
+  deliveryFee?: number;
+  /** 订单总金额（已扣除优惠金额），未携带报价令牌时必填 */
+  total?: number;
+  /** 使用的用户优惠券ID，可选 */
+  userCouponId?: number;
 }
 
 /**
@@ -195,6 +213,131 @@ export interface PlaceOrderResponse {
   paymentMethod: PaymentMethod;
 }
 
+// ==================== 订单报价相关接口 ====================
+
+/**
+ * 报价菜品项
+ */
+export interface QuoteDishItem {
+  /** 菜品ID */
+  id: number;
+  /** 购买数量 */
+  quantity: number;
+  /** 选择的规格选项ID，可选 */
+  specOptionIds?: number[];
+}
+
+/**
+ * 订单报价请求参数接口
+ */
+export interface QuoteOrderRequest {
+  /** 餐厅ID */
+  restaurantId: number;
+  /** 收货地址ID */
+  addressId: number;
+  /** 购买的菜品列表 */
+  items: QuoteDishItem[];
+  /** 使用的用户优惠券ID，可选 */
+  userCouponId?: number;
+}
+
+/**
+ * 订单报价计算结果（服务端内部使用）
+ */
+export interface OrderQuote {
+  /** 餐厅信息 */
+  restaurant: Restaurant;
+  /** 收货地址信息 */
+  address: Address;
+  /** 订单项（按数据库价格计算） */
+  items: OrderItem[];
+  /** 使用的用户优惠券ID，可选 */
+  userCouponId?: number;
+  /** 使用的优惠券ID */
+  couponId: number | null;
+  /** 商品小计金额 */
+  subtotal: Decimal;
+  /** 配送费（按配送距离计算） */
+  deliveryFee: Decimal;
+  /** 配送距离（公里），餐厅或地址未定位时为空 */
+  deliveryDistance: number | null;
+  /** 优惠金额 */
+  discountAmount: Decimal;
+  /** 订单总金额 */
+  total: Decimal;
+}
+
+/**
+ * 报价明细行
+ */
+export interface QuoteLineItem {
+  /** 菜品ID */
+  dishId: number;
+  /** 菜品名称 */
+  dishName: string;
+  /** 菜品图片URL */
+  dishImage: string | null;
+  /** 菜品单价（含规格加价） */
+  dishPrice: number;
+  /** 已选规格 */
+  specs: SelectedDishSpec[];
+  /** 规格描述 */
+  specText: string | null;
+  /** 购买数量 */
+  quantity: number;
+  /** 小计金额 */
+  subtotal: number;
+}
+
+/**
+ * 订单报价响应数据接口
+ */
+export interface QuoteOrderResponse {
+  /** 餐厅ID */
+  restaurantId: number;
+  /** 收货地址ID */
+  addressId: number;
+  /** 报价明细 */
+  items: QuoteLineItem[];
+  /** 商品小计金额 */
+  subtotal: number;
+  /** 配送费 */
+  deliveryFee: number;
+  /** 配送距离（公里），餐厅或地址未定位时为空 */
+  deliveryDistance: number | null;
+  /** 优惠金额 */
+  discountAmount: number;
+  /** 订单总金额 */
+  total: number;
+  /** 报价令牌，下单时携带 */
+  quoteToken: string;
+  /** 报价过期时间 */
+  expiresAt: Date;
+}
+
+/**
+ * 报价令牌载荷
+ * 金额使用字符串保存，避免浮点误差
+ */
+export interface QuoteTokenPayload {
+  /** 用户ID */
+  userId: number;
+  /** 餐厅ID */
+  restaurantId: number;
+  /** 收货地址ID */
+  addressId: number;
+  /** 使用的用户优惠券ID，可选 */
+  userCouponId?: number;
+  /** 报价菜品及单价 */
+  items: { id: number; quantity: number; price: string; specOptionIds?: number[] }[];
+  /** 配送费 */
+  deliveryFee: string;
+  /** 优惠金额 */
+  discountAmount: string;
+  /** 订单总金额 */
+  total: string;
+}
+
 /**
  * 下单数据验证错误接口
  */
@@ -340,7 +483,110 @@ export enum OperatorType {
   USER = 'user',         // 用户
   MERCHANT = 'merchant', // 商户
   DELIVERY = 'delivery', // 配送员
-  SYSTEM = 'system'      // 系统
+  SYSTEM = 'system',     // 系统
+  ADMIN = 'admin'        // 平台管理员
+}
+
+// ==================== 订单状态机相关接口 ====================
+
+/**
+ * 订单动作枚举（状态机中的每一条边）
+ */
+export enum OrderAction {
+  PAY = 'pay',           // 支付
+  CANCEL = 'cancel',     // 取消
+  EXPIRE = 'expire',     // 支付超时取消
+  ACCEPT = 'accept',     // 商家接单
+  REJECT = 'reject',     // 商家拒单
+  READY = 'ready',       // 商家出餐
+  DISPATCH = 'dispatch', // 骑手取餐
+  CONFIRM = 'confirm',   // 确认收货
+  REFUND = 'refund'      // 退款
+}
+
+/**
+ * 状态流转时需要写入的时间戳字段
+ */
+export type OrderTimestampField =
+  | 'paidAt'
+  | 'completedAt'
+  | 'actualDeliveryTime'
+  | 'cancelledAt';
+
+/**
+ * 状态流转定义接口（状态机中的一条边）
+ */
+export interface OrderTransition {
+  /** 动作 */
+  action: OrderAction;
+  /** 允许的前置订单状态 */
+  fromStatus: OrderStatus[];
+  /** 允许的前置支付状态 */
+  fromPaymentStatus: OrderPaymentStatus[];
+  /** 目标订单状态 */
+  toStatus: OrderStatus;
+  /** 目标支付状态，不填则保持不变 */
+  toPaymentStatus?: OrderPaymentStatus;
+  /** 允许触发该动作的操作者类型 */
+  actors: OperatorType[];
+  /** 额外的守卫条件，返回错误信息表示不允许，at 为动作发生时间 */
+  guard?: (order: Order, at: Date) => string | null;
+  /** 流转时需要写入动作发生时间的字段 */
+  timestamps: OrderTimestampField[];
+  /** 状态不满足时的提示 */
+  deniedMessage: string;
+  /** 默认的状态日志备注 */
+  remark: string;
+}
+
+/**
+ * 状态流转结果接口（交给 model 层落库）
+ */
+export interface OrderTransitionResult {
+  /** 动作 */
+  action: OrderAction;
+  /** 流转前订单状态，用于并发校验 */
+  fromStatus: OrderStatus;
+  /** 流转前支付状态，用于并发校验 */
+  fromPaymentStatus: OrderPaymentStatus;
+  /** 目标订单状态 */
+  toStatus: OrderStatus;
+  /** 目标支付状态 */
+  toPaymentStatus: OrderPaymentStatus;
+  /** 需要写入的时间戳 */
+  timestamps: Partial<Record<OrderTimestampField, Date>>;
+  /** 操作者类型 */
+  operatorType: OperatorType;
+  /** 状态日志备注 */
+  remark: string;
+}
+
+/**
+ * 订单可用动作接口
+ */
+export interface OrderAvailableAction {
+  /** 动作 */
+  action: OrderAction;
+  /** 目标订单状态 */
+  toStatus: OrderStatus;
+  /** 目标支付状态 */
+  toPaymentStatus: OrderPaymentStatus;
+  /** 允许触发该动作的操作者类型 */
+  actors: OperatorType[];
+}
+
+/**
+ * 获取订单可用动作响应数据接口
+ */
+export interface GetOrderTransitionsResponse {
+  /** 订单ID */
+  orderId: number;
+  /** 当前订单状态 */
+  orderStatus: OrderStatus;
+  /** 当前支付状态 */
+  paymentStatus: OrderPaymentStatus;
+  /** 当前可用的动作 */
+  actions: OrderAvailableAction[];
 }
 
 /**
@@ -387,6 +633,8 @@ export interface PaymentRecord {
   paymentTime?: Date | null;
   /** 支付失败原因，可选 */
   failureReason?: string | null;
+  /** 第三方交易流水号，渠道确认支付成功后写入，可选 */
+  providerTransactionId?: string | null;
   /** 创建时间 */
   createdAt?: Date;
   /** 更新时间 */
@@ -418,7 +666,8 @@ export enum RefundStatus {
 export enum ProcessorType {
   USER = 'user',         // 用户
   MERCHANT = 'merchant', // 商户
-  SYSTEM = 'system'      // 系统
+  SYSTEM = 'system',     // 系统
+  ADMIN = 'admin'        // 平台管理员
 }
 
 /**
@@ -453,10 +702,30 @@ export interface RefundRecord {
   processedAt?: Date;
   /** 完成时间，可选 */
   completedAt?: Date;
+  /** 订单状态是否待同步（退款已完成但订单尚未流转为已退款），可选 */
+  orderSyncPending?: boolean;
   /** 创建时间 */
   createdAt: Date;
   /** 更新时间 */
   updatedAt: Date;
+  /** 按菜品退款明细，可选 */
+  refundItems?: RefundItem[];
+}
+
+/**
+ * 退款菜品明细接口（对应数据库 refund_items 表）
+ */
+export interface RefundItem {
+  /** 退款明细唯一标识ID */
+  id?: number;
+  /** 退款记录ID */
+  refundRecordId?: number;
+  /** 订单项ID */
+  orderItemId: number;
+  /** 退款数量 */
+  quantity: number;
+  /** 退款金额 */
+  refundAmount: Decimal;
 }
 
 /**
@@ -469,6 +738,11 @@ export enum DeliveryStatus {
   DELIVERED = 'delivered'   // 已送达
 }
 
+/**
+ * 配送单可被骑手领取的订单状态（商家已接单、尚未开始配送，且订单已支付成功、没有退款）
+ */
+export const CLAIMABLE_DELIVERY_ORDER_STATUSES = [OrderStatus.PREPARING, OrderStatus.READY];
+
 /**
  * 配送信息实体接口（对应数据库 delivery_info 表）
  */
@@ -497,6 +771,22 @@ export interface DeliveryInfo {
   updatedAt: Date;
 }
 
+/**
+ * 配送状态变更数据接口
+ */
+export interface DeliveryStatusChange {
+  /** 变更前配送状态（用于乐观锁） */
+  fromStatus: DeliveryStatus;
+  /** 变更后配送状态 */
+  toStatus: DeliveryStatus;
+  /** 取餐时间，可选 */
+  pickedUpAt?: Date;
+  /** 送达时间，可选 */
+  deliveredAt?: Date;
+  /** 配送时长（分钟），可选 */
+  deliveryDuration?: number;
+}
+
 // ==================== 支付相关接口 ====================
 
 /**
@@ -527,6 +817,20 @@ export interface RefundOrderRequest {
   orderId: number;
   /** 退款原因 */
   reason: string;
+  /** 按菜品退款的明细，可选 */
+  items?: RefundItemRequest[];
+  /** 按金额退款的金额，可选；与 items 都不传时退还全部剩余金额 */
+  amount?: number;
+}
+
+/**
+ * 按菜品退款的请求明细
+ */
+export interface RefundItemRequest {
+  /** 订单项ID */
+  orderItemId: number;
+  /** 退款数量 */
+  quantity: number;
 }
 
 /**
@@ -543,6 +847,60 @@ export interface RefundOrderResponse {
   refundStatus: RefundStatus;
   /** 退款类型 */
   refundType: RefundType;
+  /** 本次退款后剩余可退金额 */
+  remainingAmount: Decimal;
+  /** 按菜品退款明细，可选 */
+  items?: RefundItem[];
+}
+
+/**
+ * 退款审核处理人信息接口
+ */
+export interface RefundProcessor {
+  /** 处理人类型 */
+  processorType: ProcessorType;
+  /** 处理人ID，系统自动处理时为空 */
+  processorId?: number;
+  /** 限定处理的餐厅ID，商家审核时传入 */
+  restaurantId?: number;
+}
+
+/**
+ * 审核退款申请请求参数接口（同意、拒绝）
+ */
+export interface ProcessRefundRequest {
+  /** 退款记录ID */
+  refundId: number;
+  /** 处理备注，拒绝时必填 */
+  remark?: string;
+}
+
+/**
+ * 审核退款申请响应数据接口
+ */
+export interface ProcessRefundResponse {
+  /** 退款记录ID */
+  refundId: number;
+  /** 订单ID */
+  orderId: number;
+  /** 处理后的退款状态 */
+  refundStatus: RefundStatus;
+  /** 处理后的订单状态 */
+  orderStatus: OrderStatus;
+  /** 处理后的订单支付状态 */
+  paymentStatus: OrderPaymentStatus;
+}
+
+/**
+ * 获取退款申请列表请求参数接口
+ */
+export interface GetRefundListRequest {
+  /** 页码，可选 */
+  page?: number;
+  /** 每页数量，可选 */
+  limit?: number;
+  /** 退款状态筛选，可选 */
+  status?: RefundStatus;
 }
 
 // ==================== 确认收货相关接口 ====================
@@ -589,12 +947,42 @@ export interface GetOrderListResponse {
   totalPages: number;
 }
 
+/**
+ * 订单详情中的评价信息
+ */
+export interface OrderDetailReview {
+  /** 评价ID */
+  id: number;
+  /** 评分（1-5分） */
+  rating: number;
+  /** 评价内容 */
+  content: string | null;
+  /** 评价图片URL列表 */
+  images: string[] | null;
+  /** 商家回复内容 */
+  replyContent: string | null;
+  /** 商家回复时间 */
+  replyTime: Date | null;
+  /** 评价时间 */
+  createdAt: Date;
+}
+
+/**
+ * 订单详情接口（包含订单项和评价）
+ */
+export interface OrderDetail extends Order {
+  /** 订单评价，未评价时为空 */
+  orderReviews: OrderDetailReview | null;
+}
+
 /**
  * 订单详情响应数据接口
  */
 export interface GetOrderDetailResponse {
   /** 订单详细信息 */
-  order: OrderWithDetails;
+  order: OrderDetail;
+  /** 退款申请及处理进度 */
+  refunds: RefundRecord[];
 }
 
 // ==================== 订单统计相关接口 ====================
@@ -629,6 +1017,8 @@ export interface GetOrderStatusCountResponse {
   confirmed: number;
   /** 制作中订单数 */
   preparing: number;
+  /** 待取餐订单数 */
+  ready: number;
   /** 配送中订单数 */
   delivering: number;
   /** 已完成订单数 */
@@ -3,6 +3,9 @@ import orderController from '../controllers/order.controller';
 import { validate } from '../../../middleware/validation';
 import { orderValidation } from '../../../middleware/validation/schemas';
 import { orderLimiter } from '../../../middleware/rateLimiter';
+import { idempotency } from '../../../middleware/idempotency';
+import { requirePermission } from '../../../middleware/rbac';
+import { Permission } from '../../rbac/models/rbac';
 
 // 创建路由器
 const router: Router = Router();
@@ -12,22 +15,26 @@ const router: Router = Router();
  * 包含下单、订单支付、订单查询、订单管理等所有订单相关接口
  */
 
-// 1. 下订单
+// 1. 下订单（支持 Idempotency-Key 幂等，重放请求不计入限流）
 router.post('/create',
+  requirePermission(Permission.ORDER_PLACE),
+  idempotency,
   orderLimiter,
   validate(orderValidation.createOrder),
   orderController.createOrder
 );
 
-// 2. 订单支付
+// 2. 订单支付（支持 Idempotency-Key 幂等）
 router.post('/pay',
+  idempotency,
   orderLimiter,
   validate(orderValidation.payOrder),
   orderController.payOrder
 );
 
-// 3. 订单退款
+// 3. 订单退款（支持 Idempotency-Key 幂等）
 router.post('/refund',
+  idempotency,
   validate(orderValidation.refundOrder),
   orderController.refundOrder
 );
@@ -38,12 +45,6 @@ router.post('/cancel',
   orderController.cancelOrder
 );
 
-// 4. 改变订单状态(模拟商家接单和骑手配送和商品送达)
-router.post('/changeStatus',
-  validate(orderValidation.changeStatus),
-  orderController.changeStatus
-);
-
 // 5. 确认收货
 router.post('/confirm',
   orderController.confirmOrder
@@ -92,4 +93,16 @@ router.get('/delivery',
   orderController.getDeliveryInfo
 );
 
+// 15. 获取订单当前可执行的状态流转动作
+router.get('/:id/transitions',
+  orderController.getOrderTransitions
+);
+
+// 16. 订单报价（返回服务端计算的金额明细和报价令牌，下单时携带报价令牌）
+router.post('/quote',
+  requirePermission(Permission.ORDER_PLACE),
+  validate(orderValidation.quoteOrder),
+  orderController.quoteOrder
+);
+
 export default router;
\ No newline at end of file
@@ -3,9 +3,10 @@ import Decimal from "decimal.js";
 import {
   PlaceOrderRequest,
   PlaceOrderResponse,
-  PayOrderResponse,
   RefundOrderRequest,
   RefundOrderResponse,
+  RefundItem,
+  RefundItemRequest,
   ConfirmOrderResponse,
   GetOrderListRequest,
   GetOrderDetailResponse,
@@ -29,13 +30,61 @@ import {
   RefundRecord,
   RefundStatus,
   ProcessorType,
+  OrderAction,
+  OperatorType,
+  GetOrderTransitionsResponse,
+  OrderTransitionResult,
+  PaymentRecord,
+  RefundProcessor,
+  ProcessRefundRequest,
+  ProcessRefundResponse,
+  GetRefundListRequest,
+  QuoteOrderRequest,
+  QuoteOrderResponse,
+  QuoteTokenPayload,
+  OrderQuote,
 } from "../../../modules/order/models/order";
 import { PaginatedResponse } from "../../../types/index";
 import orderModel from "../models/order.model";
+import paymentModel from "../../payment/models/payment.model";
+import orderStateMachine from "./order.state";
 import restaurantModel from "../../..//modules/restaurant/models/restaurant.model";
+import restaurantService from "../../restaurant/services/restaurant.service";
+import businessHoursCalculator from "../../restaurant/services/restaurant.hours";
+import { Restaurant } from "../../restaurant/models/restaurant";
 import addressModel from "../../..//modules/user/models/address.model";
+import couponService from "../../coupon/services/coupon.service";
+import {
+  AccessMode,
+  assertOrderOwner,
+  assertRefundProcessor,
+} from "../../rbac/services/policy";
 import { HttpCode } from "../../..//types/index";
-import { log } from "console";
+import config from "../../../config";
+import { generateQuoteToken, verifyQuoteToken } from "../../../utils/jwt";
+import paymentGatewayRegistry, {
+  GatewayRefundStatus,
+} from "../../payment/gateways";
+import {
+  WalletEntry,
+  WalletRelatedType,
+  WalletTransactionType,
+} from "../../wallet/models/wallet";
+
+// 退款审核处理人类型对应的订单操作者类型
+const REFUND_PROCESSOR_OPERATORS: Record<ProcessorType, OperatorType> = {
+  [ProcessorType.USER]: OperatorType.USER,
+  [ProcessorType.MERCHANT]: OperatorType.MERCHANT,
+  [ProcessorType.SYSTEM]: OperatorType.SYSTEM,
+  [ProcessorType.ADMIN]: OperatorType.ADMIN,
+};
+
+/**
+ * 生成商户退款单号，发起退款和查询退款结果使用同一单号
+ * @param refundId - 退款记录ID
+ * @returns 商户退款单号
+ */
+const buildOutRefundNo = (refundId: number): string => `REFUND${refundId}`;
 
 class OrderService {
   /**
@@ -51,46 +100,110 @@ class OrderService {
   }
 
   /**
-   * 创建订单
-   * @param placeOrder - 用户创建订单数据
+   * 订单报价
+   * 按数据库中的菜品价格、餐厅配送费和优惠券计算权威金额，并签发短期有效的报价令牌
+   * @param request - 报价请求
    * @param userId - 用户ID
-   * @returns 创建结果
+   * @returns 报价明细和报价令牌
    */
-  async createOrder(
-    placeOrder: PlaceOrderRequest,
+  async quoteOrder(
+    request: QuoteOrderRequest,
     userId: number
-  ): Promise<PlaceOrderResponse> {
-    businessLogger.info("servicee始执行创建订单");
-    dbLogger.debug("创建订单service传入参数", { placeOrder, userId });
+  ): Promise<QuoteOrderResponse> {
+    businessLogger.info("开始计算订单报价", {
+      userId,
+      restaurantId: request.restaurantId,
+    });
+
+    // 步骤1: 计算报价
+    const quote = await this.calculateQuote(request, userId);
+
+    // 步骤2: 签发报价令牌，金额以字符串保存避免精度问题
+    const payload: QuoteTokenPayload = {
+      userId,
+      restaurantId: request.restaurantId,
+      addressId: request.addressId,
+      ...(request.userCouponId && { userCouponId: request.userCouponId }),
+      items: quote.items.map((item) => ({
+        id: item.dishId,
+        quantity: item.quantity,
+        price: item.dishPrice.toFixed(2),
+        ...(item.specs && {
+          specOptionIds: item.specs.map((spec) => spec.optionId),
+        }),
+      })),
+      deliveryFee: quote.deliveryFee.toFixed(2),
+      discountAmount: quote.discountAmount.toFixed(2),
+      total: quote.total.toFixed(2),
+    };
+    const quoteToken = generateQuoteToken(payload, config.orderQuoteTtlSeconds);
 
+    businessLogger.info("订单报价成功", {
+      userId,
+      restaurantId: request.restaurantId,
+      total: quote.total.toNumber(),
+    });
+
+    // 步骤3: 返回报价明细
+    return {
+      restaurantId: request.restaurantId,
+      addressId: request.addressId,
+      items: quote.items.map((item) => ({
+        dishId: item.dishId,
+        dishName: item.dishName,
+        dishImage: item.dishImage ?? null,
+        dishPrice: item.dishPrice.toNumber(),
+        specs: item.specs ?? [],
+        specText: item.specText ?? null,
+        quantity: item.quantity,
+        subtotal: item.subtotal.toNumber(),
+      })),
+      subtotal: quote.subtotal.toNumber(),
+      deliveryFee: quote.deliveryFee.toNumber(),
+      deliveryDistance: quote.deliveryDistance,
+      discountAmount: quote.discountAmount.toNumber(),
+      total: quote.total.toNumber(),
+      quoteToken,
+      expiresAt: new Date(Date.now() + config.orderQuoteTtlSeconds * 1000),
+    };
+  }
+
+  /**
+   * 计算订单报价（所有金额以数据库为准）
+   * @param request - 报价请求
+   * @param userId - 用户ID
+   * @returns 报价计算结果
+   */
+  private async calculateQuote(
+    request: QuoteOrderRequest,
+    userId: number
+  ): Promise<OrderQuote> {
     // 步骤1: 校验餐厅信息
     // 1.1 查询餐厅是否存在且营业状态正常
     const restaurantResult = await restaurantModel.findById(
-      placeOrder.restaurantId
+      request.restaurantId
     );
     if (!restaurantResult) {
       throw { message: "传入餐厅id不存在", code: HttpCode.VALIDATION_ERROR };
     }
 
-    // 1.2 校验配送费是否与餐厅设置一致
-    const expectedDeliveryFee = new Decimal(restaurantResult.deliveryFee);
-    const receivedDeliveryFee = new Decimal(placeOrder.deliveryFee);
-    if (!receivedDeliveryFee.equals(expectedDeliveryFee)) {
-      businessLogger.warn("配送费不匹配", {
-        expected: expectedDeliveryFee.toNumber(),
-        received: placeOrder.deliveryFee,
-        restaurantId: placeOrder.restaurantId,
-      });
+    // 1.2 校验餐厅是否在营业时间内且未暂停接单
+    const openStatus = businessHoursCalculator.getOpenStatus(
+      await restaurantService.getSchedule(restaurantResult.id)
+    );
+    if (!openStatus.isOpen) {
       throw {
-        message: `配送费不匹配，应为 ${expectedDeliveryFee.toNumber()} 元`,
-        code: HttpCode.VALIDATION_ERROR,
+        message: openStatus.nextOpenAt
+          ? `餐厅当前不在营业时间，下次营业时间：${openStatus.nextOpenAt.toLocaleString("zh-CN", { hour12: false })}`
+          : "餐厅当前不在营业时间",
+        code: HttpCode.RESTAURANT_CLOSED,
       };
     }
 
     // 步骤2: 校验收货地址信息
     // 2.1 验证收货地址是否存在且属于当前用户
     const addressResult = await addressModel.findByIdAndUserId(
-      placeOrder.addressId,
+      request.addressId,
       userId
     );
     if (!addressResult) {
@@ -102,19 +215,20 @@ class OrderService {
 
     // 步骤3: 校验菜品信息并构建订单项
     const validatedDishes: OrderItem[] = [];
+    const remainingStocks = new Map<number, { name: string; remaining: number }>();
     let calculatedSubtotal = new Decimal(0);
 
-    for (const item of placeOrder.items) {
+    for (const item of request.items) {
       // 3.1 查询菜品是否存在且属于指定餐厅
       const dish = await restaurantModel.findDishByIdAndRestaurant(
         item.id,
-        placeOrder.restaurantId
+        request.restaurantId
       );
 
       if (!dish) {
         businessLogger.warn("菜品不存在或不可用", {
           dishId: item.id,
-          restaurantId: placeOrder.restaurantId,
+          restaurantId: request.restaurantId,
         });
         throw {
           message: `菜品ID ${item.id} 不存在或不可用`,
@@ -122,51 +236,225 @@ class OrderService {
         };
       }
 
-      // 3.2 校验菜品价格是否与数据库一致
-      const dishPrice = dish.price;
-      const itemPrice = new Decimal(item.price);
-      if (!itemPrice.equals(dishPrice)) {
-        businessLogger.warn("菜品价格不匹配", {
-          dishId: item.id,
-          dishName: item.name,
-          expected: dishPrice.toNumber(),
-          received: item.price,
-        });
-        throw {
-          message: `菜品 "${
-            item.name
-          }" 价格不匹配，应为 ${dishPrice.toNumber()} 元`,
-          code: HttpCode.VALIDATION_ERROR,
-        };
-      }
-
-      // 3.3 校验购买数量是否合法
+      // 3.2 校验购买数量是否合法
       if (item.quantity <= 0) {
         throw {
-          message: `菜品 "${item.name}" 的购买数量必须大于0`,
+          message: `菜品 "${dish.name}" 的购买数量必须大于0`,
           code: HttpCode.VALIDATION_ERROR,
         };
       }
 
-      // 3.4 构建订单项数据（用于存储到 order_items 表）
+      // 3.3 校验规格选择，单价包含规格加价
+      const specSelection = await restaurantService.resolveDishSpecs(
+        dish,
+        item.specOptionIds
+      );
+
+      // 3.4 构建订单项数据（用于存储到 order_items 表，规格快照随订单项保存）
+      const dishPrice = new Decimal(dish.price).plus(specSelection.specPrice);
       const itemSubtotal = dishPrice.times(item.quantity);
-      const orderItem: OrderItem = {
-        dishId: item.id,
-        dishName: item.name,
-        dishImage: item.image,
+      validatedDishes.push({
+        dishId: dish.id,
+        dishName: dish.name,
+        dishImage: dish.image,
         dishPrice: dishPrice,
+        ...(specSelection.specs.length > 0 && {
+          specs: specSelection.specs,
+          specText: specSelection.specText,
+        }),
         quantity: item.quantity,
         subtotal: itemSubtotal,
         createdAt: new Date(),
+      });
+      calculatedSubtotal = calculatedSubtotal.plus(itemSubtotal);
+
+      // 3.5 记录限量菜品今日剩余库存，同一菜品不同规格共用库存
+      if (dish.remainingStock !== null) {
+        const stock = remainingStocks.get(dish.id) ?? {
+          name: dish.name,
+          remaining: dish.remainingStock,
+        };
+        stock.remaining -= item.quantity;
+        remainingStocks.set(dish.id, stock);
+      }
+    }
+
+    // 3.6 校验限量菜品库存是否充足（下单时在事务中再次扣减校验）
+    const soldOutNames = [...remainingStocks.values()]
+      .filter((stock) => stock.remaining < 0)
+      .map((stock) => stock.name);
+    if (soldOutNames.length > 0) {
+      throw {
+        message: `以下菜品已售罄或库存不足：${soldOutNames.join("、")}`,
+        code: HttpCode.DISH_SOLD_OUT,
       };
+    }
 
-      validatedDishes.push(orderItem);
-      calculatedSubtotal = calculatedSubtotal.plus(itemSubtotal);
+    // 步骤4: 校验优惠券并计算优惠金额
+    let discountAmount = new Decimal(0);
+    let couponId: number | null = null;
+    if (request.userCouponId) {
+      const couponResult = await couponService.calculateDiscount(
+        request.userCouponId,
+        userId,
+        calculatedSubtotal
+      );
+      discountAmount = couponResult.discountAmount;
+      couponId = couponResult.couponId;
+    }
+
+    // 步骤5: 校验配送范围，按配送距离计算配送费和订单总金额
+    const delivery = await restaurantService.calculateDelivery(
+      restaurantResult,
+      addressResult
+    );
+    const deliveryFee = delivery.deliveryFee;
+
+    return {
+      restaurant: restaurantResult,
+      address: addressResult,
+      items: validatedDishes,
+      ...(request.userCouponId && { userCouponId: request.userCouponId }),
+      couponId,
+      subtotal: calculatedSubtotal,
+      deliveryFee,
+      deliveryDistance: delivery.distance,
+      discountAmount,
+      total: calculatedSubtotal.plus(deliveryFee).minus(discountAmount),
+    };
+  }
+
+  /**
+   * 校验报价令牌并重新计算报价
+   * 菜品价格、配送费或优惠发生变化时报价失效，需要用户重新获取报价
+   * @param quoteToken - 报价令牌
+   * @param userId - 用户ID
+   * @returns 报价计算结果
+   */
+  private async resolveQuoteToken(
+    quoteToken: string,
+    userId: number
+  ): Promise<OrderQuote> {
+    // 步骤1: 校验报价令牌
+    const { payload, isExpired } = verifyQuoteToken(quoteToken);
+    if (!payload) {
+      throw {
+        message: isExpired ? "报价已过期，请重新获取报价" : "报价令牌无效",
+        code: isExpired ? HttpCode.QUOTE_EXPIRED : HttpCode.VALIDATION_ERROR,
+      };
+    }
+    if (payload.userId !== userId) {
+      throw { message: "报价令牌无效", code: HttpCode.VALIDATION_ERROR };
+    }
+
+    // 步骤2: 按当前数据重新计算报价
+    const quote = await this.calculateQuote(
+      {
+        restaurantId: payload.restaurantId,
+        addressId: payload.addressId,
+        items: payload.items.map((item) => ({
+          id: item.id,
+          quantity: item.quantity,
+          ...(item.specOptionIds && { specOptionIds: item.specOptionIds }),
+        })),
+        ...(payload.userCouponId && { userCouponId: payload.userCouponId }),
+      },
+      userId
+    );
+
+    // 步骤3: 与报价时的金额比对
+    const priceChanged = quote.items.some(
+      (item, index) =>
+        !item.dishPrice.equals(new Decimal(payload.items[index]!.price))
+    );
+    if (
+      priceChanged ||
+      !quote.deliveryFee.equals(new Decimal(payload.deliveryFee)) ||
+      !quote.discountAmount.equals(new Decimal(payload.discountAmount)) ||
+      !quote.total.equals(new Decimal(payload.total))
+    ) {
+      businessLogger.warn("报价后订单金额发生变化", {
+        userId,
+        restaurantId: payload.restaurantId,
+        quotedTotal: payload.total,
+        currentTotal: quote.total.toNumber(),
+      });
+      throw {
+        message: "菜品价格或优惠已变化，报价已过期，请重新获取报价",
+        code: HttpCode.QUOTE_EXPIRED,
+      };
+    }
+
+    return quote;
+  }
+
+  /**
+   * 校验客户端提交的订单金额（未携带报价令牌的下单方式）
+   * @param placeOrder - 用户创建订单数据
+   * @param userId - 用户ID
+   * @returns 报价计算结果
+   */
+  private async resolveClientQuote(
+    placeOrder: PlaceOrderRequest,
+    userId: number
+  ): Promise<OrderQuote> {
+    const { restaurantId, addressId, items } = placeOrder;
+    if (!restaurantId || !addressId || !items || items.length === 0) {
+      throw { message: "缺少订单信息", code: HttpCode.VALIDATION_ERROR };
     }
 
-    // 步骤4: 校验订单金额
-    // 4.1 校验商品小计金额
-    const calculatedSubtotalNumber = calculatedSubtotal.toNumber();
+    // 步骤1: 按数据库数据计算报价
+    const quote = await this.calculateQuote(
+      {
+        restaurantId,
+        addressId,
+        items: items.map((item) => ({
+          id: item.id,
+          quantity: item.quantity,
+          ...(item.specOptionIds && { specOptionIds: item.specOptionIds }),
+        })),
+        ...(placeOrder.userCouponId && {
+          userCouponId: placeOrder.userCouponId,
+        }),
+      },
+      userId
+    );
+
+    // 步骤2: 校验配送费是否与按配送距离计算的结果一致
+    const receivedDeliveryFee = new Decimal(placeOrder.deliveryFee ?? 0);
+    if (!receivedDeliveryFee.equals(quote.deliveryFee)) {
+      businessLogger.warn("配送费不匹配", {
+        expected: quote.deliveryFee.toNumber(),
+        received: placeOrder.deliveryFee,
+        restaurantId,
+      });
+      throw {
+        message: `配送费不匹配，应为 ${quote.deliveryFee.toNumber()} 元`,
+        code: HttpCode.VALIDATION_ERROR,
+      };
+    }
+
+    // 步骤3: 校验菜品价格是否与数据库一致
+    items.forEach((item, index) => {
+      const dishPrice = quote.items[index]!.dishPrice;
+      if (!new Decimal(item.price).equals(dishPrice)) {
+        businessLogger.warn("菜品价格不匹配", {
+          dishId: item.id,
+          dishName: item.name,
+          expected: dishPrice.toNumber(),
+          received: item.price,
+        });
+        throw {
+          message: `菜品 "${
+            item.name
+          }" 价格不匹配，应为 ${dishPrice.toNumber()} 元`,
+          code: HttpCode.VALIDATION_ERROR,
+        };
+      }
+    });
+
+    // 步骤4: 校验商品小计金额
+    const calculatedSubtotalNumber = quote.subtotal.toNumber();
     if (placeOrder.subtotal !== calculatedSubtotalNumber) {
       businessLogger.warn("商品小计金额不正确", {
         expected: calculatedSubtotalNumber,
@@ -178,91 +466,104 @@ class OrderService {
       };
     }
 
-    // 4.2 校验订单总金额
-    const calculatedTotal = calculatedSubtotal.plus(placeOrder.deliveryFee);
-    if (placeOrder.total !== calculatedTotal.toNumber()) {
+    // 步骤5: 校验订单总金额
+    if (placeOrder.total !== quote.total.toNumber()) {
       businessLogger.warn("订单总金额不正确", {
-        expected: calculatedTotal.toNumber(),
+        expected: quote.total.toNumber(),
         received: placeOrder.total,
         subtotal: calculatedSubtotalNumber,
         deliveryFee: placeOrder.deliveryFee,
+        discountAmount: quote.discountAmount.toNumber(),
       });
       throw {
-        message: `订单总金额不正确，应为 ${calculatedTotal.toNumber()} 元`,
+        message: `订单总金额不正确，应为 ${quote.total.toNumber()} 元`,
         code: HttpCode.VALIDATION_ERROR,
       };
     }
 
+    return quote;
+  }
+
+  /**
+   * 创建订单
+   * @param placeOrder - 用户创建订单数据
+   * @param userId - 用户ID
+   * @returns 创建结果
+   */
+  async createOrder(
+    placeOrder: PlaceOrderRequest,
+    userId: number
+  ): Promise<PlaceOrderResponse> {
+    businessLogger.info("servicee始执行创建订单");
+    dbLogger.debug("创建订单service传入参数", { placeOrder, userId });
+
+    // 步骤1-4: 计算订单金额，携带报价令牌时以服务端报价为准
+    const quote = placeOrder.quoteToken
+      ? await this.resolveQuoteToken(placeOrder.quoteToken, userId)
+      : await this.resolveClientQuote(placeOrder, userId);
+    const restaurantResult = quote.restaurant;
+    const addressResult = quote.address;
+
     businessLogger.info("订单数据校验通过", {
       userId,
-      restaurantId: placeOrder.restaurantId,
-      itemsCount: validatedDishes.length,
-      total: placeOrder.total,
+      restaurantId: restaurantResult.id,
+      itemsCount: quote.items.length,
+      total: quote.total.toNumber(),
     });
 
-    // 步骤5: 计算预计送达时间
-    let deliveryTime;
-    if (placeOrder.deliveryTime === "立即送达") {
-      const now = new Date();
-      // 餐厅配送时间（分钟）转换为毫秒并加到当前时间
-      deliveryTime = new Date(
-        now.getTime() + restaurantResult.deliveryTime * 60 * 1000
-      );
-    } else {
-      const today = new Date();
-      const [hours, minutes] = placeOrder.deliveryTime.split(":");
-      if (
-        !hours ||
-        !minutes ||
-        isNaN(parseInt(hours)) ||
-        isNaN(parseInt(minutes))
-      ) {
-        throw {
-          message: `订单送达时间格式错误: ${placeOrder.deliveryTime}`,
-          code: HttpCode.VALIDATION_ERROR,
-        };
-      }
-      deliveryTime = new Date(
-        today.getFullYear(),
-        today.getMonth(),
-        today.getDate(),
-        parseInt(hours),
-        parseInt(minutes)
-      );
-    }
+    // 步骤5: 计算预计送达时间，校验期望送达时间在营业时段内可达
+    const deliveryTime = await this.resolveDeliveryTime(
+      placeOrder.deliveryTime,
+      restaurantResult
+    );
 
     // 步骤6: 构建订单数据并调用模型创建订单
     const orderData: Order = {
       //生成订单号
       orderNumber: this.generateOrderNumber(),
       userId,
-      restaurantId: placeOrder.restaurantId,
+      restaurantId: restaurantResult.id,
       restaurantName: restaurantResult.name,
-      addressId: placeOrder.addressId,
+      addressId: addressResult.id,
       contactName: addressResult.contactName,
       contactPhone: addressResult.contactPhone,
       deliveryAddress: `${addressResult.province} ${addressResult.city} ${addressResult.district} ${addressResult.detailAddress}`,
       orderStatus: OrderStatus.CREATED,
       paymentStatus: OrderPaymentStatus.PENDING,
       paymentMethod: placeOrder.paymentMethod,
-      subtotal: calculatedSubtotal,
-      deliveryFee: new Decimal(placeOrder.deliveryFee),
-      totalAmount: calculatedSubtotal.plus(placeOrder.deliveryFee),
+      subtotal: quote.subtotal,
+      deliveryFee: quote.deliveryFee,
+      deliveryDistance:
+        quote.deliveryDistance === null
+          ? null
+          : new Decimal(quote.deliveryDistance),
+      discountAmount: quote.discountAmount,
+      totalAmount: quote.total,
+      couponId: quote.couponId,
       orderNote: placeOrder.note ?? null,
-      //TODO 优惠卷暂时不做
       estimatedDeliveryTime: deliveryTime,
-      orderItems: validatedDishes,
+      //支付截止时间，餐厅未单独配置时使用全局配置
+      paymentDeadline: new Date(
+        Date.now() +
+          (restaurantResult.paymentTimeoutMinutes ??
+            config.orderPaymentTimeoutMinutes) *
+            60000
+      ),
+      orderItems: quote.items,
     };
 
-    // 步骤7: 创建订单记录（包含事务控制）
-    const orderResultId = await orderModel.create(orderData);
+    // 步骤7: 创建订单记录并核销优惠券（包含事务控制）
+    const orderResultId = await orderModel.create(
+      orderData,
+      quote.userCouponId
+    );
 
     businessLogger.info("订单创建成功", {
       userId,
       orderId: orderResultId,
       orderNumber: orderData.orderNumber,
-      restaurantId: placeOrder.restaurantId,
-      totalAmount: placeOrder.total,
+      restaurantId: restaurantResult.id,
+      totalAmount: quote.total.toNumber(),
     });
 
     // 步骤8: 返回创建结果
@@ -274,385 +575,984 @@ class OrderService {
   }
 
   /**
-   * 支付订单
-   * @param payOrder - 支付订单数据
+   * 计算预计送达时间
+   * 指定时间需不早于当前时间加餐厅配送时长，且餐厅在当前营业时段结束前能开始配送；
+   * 早于当前时间的时刻视为次日，仅在跨零点的营业时段内有效
+   * @param requested - 期望送达时间，"立即送达" 或 HH:mm
+   * @param restaurant - 餐厅信息
+   * @returns 预计送达时间
+   */
+  private async resolveDeliveryTime(
+    requested: string,
+    restaurant: Restaurant
+  ): Promise<Date> {
+    const now = new Date();
+    // 餐厅配送时间（分钟）转换为毫秒
+    const deliveryDuration = restaurant.deliveryTime * 60 * 1000;
+    const earliest = new Date(now.getTime() + deliveryDuration);
+
+    if (requested === "立即送达") {
+      return earliest;
+    }
+
+    const [hours, minutes] = requested.split(":");
+    if (
+      !hours ||
+      !minutes ||
+      isNaN(parseInt(hours)) ||
+      isNaN(parseInt(minutes))
+    ) {
+      throw {
+        message: `订单送达时间格式错误: ${requested}`,
+        code: HttpCode.VALIDATION_ERROR,
+      };
+    }
+
+    const period = businessHoursCalculator.findPeriod(
+      await restaurantService.getSchedule(restaurant.id, now),
+      now
+    );
+    let deliveryTime = new Date(
+      now.getFullYear(),
+      now.getMonth(),
+      now.getDate(),
+      parseInt(hours),
+      parseInt(minutes)
+    );
+    const nextDay = new Date(deliveryTime.getTime() + 24 * 60 * 60 * 1000);
+    if (
+      deliveryTime < now &&
+      period &&
+      nextDay.getTime() - deliveryDuration < period.end.getTime() &&
+      nextDay.getTime() - now.getTime() < 12 * 60 * 60 * 1000
+    ) {
+      deliveryTime = nextDay;
+    }
+
+    const formatTime = (time: Date): string =>
+      time.toLocaleTimeString("zh-CN", { hour12: false, hour: "2-digit", minute: "2-digit" });
+
+    if (deliveryTime < earliest) {
+      throw {
+        message: `期望送达时间 ${requested} 无法送达，最早可送达时间为 ${formatTime(earliest)}`,
+        code: HttpCode.DELIVERY_TIME_UNAVAILABLE,
+      };
+    }
+    if (period && deliveryTime.getTime() - deliveryDuration >= period.end.getTime()) {
+      throw {
+        message: `期望送达时间 ${requested} 超出餐厅营业时间，最晚可送达时间为 ${formatTime(
+          new Date(period.end.getTime() + deliveryDuration)
+        )}`,
+        code: HttpCode.DELIVERY_TIME_UNAVAILABLE,
+      };
+    }
+
+    return deliveryTime;
+  }
+
+  /**
+   * 订单退款
+   * @param refundOrder - 退款订单数据
    * @param userId - 用户ID
-   * @returns 支付结果
+   * @returns 退款结果
    */
-  async payOrder(orderId: number, userId: number): Promise<PayOrderResponse> {
-    businessLogger.info("开始执行订单支付", {
-      orderId,
+  async refundOrder(
+    refundOrder: RefundOrderRequest,
+    userId: number
+  ): Promise<RefundOrderResponse> {
+    businessLogger.info("开始执行订单退款", {
+      orderId: refundOrder.orderId,
       userId,
     });
 
     // 步骤1: 校验订单信息
     // 1.1 查询订单是否存在且属于当前用户
-    const order = await orderModel.findById(orderId);
+    const order = await orderModel.findById(refundOrder.orderId);
     if (!order) {
       throw { message: "订单不存在", code: HttpCode.NOT_FOUND };
     }
-    if (order.userId !== userId) {
-      throw { message: "无权操作该订单", code: HttpCode.FORBIDDEN };
+    assertOrderOwner(order, userId);
+
+    // 1.2 通过状态机校验订单状态是否允许退款
+    // 部分退款不改变订单状态，退完全部金额时才应用该流转
+    const transition = orderStateMachine.transition(
+      order,
+      OrderAction.REFUND,
+      OperatorType.USER,
+      refundOrder.reason
+    );
+
+    // 1.3 商家已开始制作的订单需要商家或平台审核后才能退款
+    const requireApproval = order.orderStatus !== OrderStatus.CONFIRMED;
+
+    return this.executeRefund(
+      refundOrder.orderId,
+      order,
+      transition,
+      refundOrder,
+      ProcessorType.USER,
+      userId,
+      requireApproval
+    );
+  }
+
+  /**
+   * 执行整单退款（商家拒单等场景），退还支付记录的全部剩余金额
+   * 调用前需已通过状态机得到对应的状态流转结果
+   * @param orderId - 订单ID
+   * @param order - 订单
+   * @param transition - 状态流转结果
+   * @param reason - 退款原因
+   * @param processorType - 处理人类型
+   * @param operatorId - 操作者ID
+   * @returns 退款结果
+   */
+  async executeFullRefund(
+    orderId: number,
+    order: Order,
+    transition: OrderTransitionResult,
+    reason: string,
+    processorType: ProcessorType,
+    operatorId: number
+  ): Promise<RefundOrderResponse> {
+    return this.executeRefund(
+      orderId,
+      order,
+      transition,
+      { orderId, reason },
+      processorType,
+      operatorId
+    );
+  }
+
+  /**
+   * 执行退款，支持按菜品、按金额和退还全部剩余金额
+   * 每次退款都校验支付记录的剩余可退金额，退完全部金额时订单才流转为已退款
+   * @param orderId - 订单ID
+   * @param order - 订单
+   * @param transition - 全额退款时的状态流转结果
+   * @param request - 退款请求
+   * @param processorType - 处理人类型
+   * @param operatorId - 操作者ID
+   * @param requireApproval - 是否需要审核，需要时只创建待审核的退款申请
+   * @returns 退款结果
+   */
+  private async executeRefund(
+    orderId: number,
+    order: Order,
+    transition: OrderTransitionResult,
+    request: RefundOrderRequest,
+    processorType: ProcessorType,
+    operatorId: number,
+    requireApproval: boolean = false
+  ): Promise<RefundOrderResponse> {
+    // 步骤2: 查询支付记录并计算剩余可退金额
+    const paymentRecords = await paymentModel.findSuccessPaymentRecords(orderId);
+    if (paymentRecords.length === 0) {
+      throw { message: "未找到有效的支付记录", code: HttpCode.NOT_FOUND };
     }
 
-    // 1.2 校验订单状态是否允许支付
-    if (order.orderStatus !== OrderStatus.CREATED) {
-      throw { message: "订单状态不允许支付", code: HttpCode.VALIDATION_ERROR };
+    const refundablePayment = await this.findRefundablePayment(paymentRecords);
+    if (!refundablePayment) {
+      throw { message: "订单已全额退款", code: HttpCode.VALIDATION_ERROR };
     }
-    if (order.paymentStatus !== OrderPaymentStatus.PENDING) {
-      throw {
-        message: "订单已支付或支付状态异常",
-        code: HttpCode.VALIDATION_ERROR,
+    const { paymentRecord, remainingAmount } = refundablePayment;
+    const paymentAmount = new Decimal(paymentRecord.paymentAmount);
+
+    // 步骤3: 计算本次退款金额
+    let refundAmount: Decimal;
+    let refundItems: RefundItem[] | undefined;
+    if (request.items && request.items.length > 0) {
+      refundItems = await this.buildRefundItems(order, request.items);
+      refundAmount = Decimal.min(
+        refundItems.reduce(
+          (sum, item) => sum.plus(item.refundAmount),
+          new Decimal(0)
+        ),
+        remainingAmount
+      );
+    } else if (request.amount !== undefined) {
+      refundAmount = new Decimal(request.amount);
+      if (refundAmount.greaterThan(remainingAmount)) {
+        throw {
+          message: `退款金额超过剩余可退金额 ${remainingAmount.toNumber()} 元`,
+          code: HttpCode.VALIDATION_ERROR,
+        };
+      }
+    } else {
+      refundAmount = remainingAmount;
+    }
+
+    const refundType = refundAmount.equals(paymentAmount)
+      ? RefundType.FULL
+      : RefundType.PARTIAL;
+
+    // 步骤4: 创建退款记录（模型层会在事务中再次校验剩余可退金额）
+    const refundRecord: RefundRecord = {
+      orderId,
+      userId: order.userId,
+      paymentRecordId: paymentRecord.id,
+      refundAmount,
+      refundReason: request.reason,
+      refundType,
+      id: 0,
+      refundStatus: RefundStatus.PENDING,
+      processorId: operatorId,
+      processorType,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...(refundItems && { refundItems }),
+    };
+
+    const refundId = await orderModel.createRefundRecord(
+      refundRecord,
+      paymentAmount
+    );
+
+    const response: RefundOrderResponse = {
+      refundId,
+      orderId,
+      refundAmount,
+      refundStatus: RefundStatus.PENDING,
+      refundType,
+      remainingAmount: remainingAmount.minus(refundAmount),
+      ...(refundItems && { items: refundItems }),
+    };
+
+    if (requireApproval) {
+      businessLogger.info("退款申请已提交，等待审核", {
+        orderId,
+        operatorId,
+        refundAmount: refundAmount.toNumber(),
+        refundId,
+      });
+      return response;
+    }
+
+    // 步骤5: 标记退款已同意后调用退款渠道，资金退出前退款记录不会停留在待审核状态被再次处理
+    await orderModel.processRefundRecord(refundId, {
+      refundStatus: RefundStatus.APPROVED,
+      processorType,
+      processorId: operatorId,
+    });
+
+    // 步骤6: 调用退款渠道并更新退款记录和订单状态
+    const { refundStatus } = await this.completeRefund(
+      { ...refundRecord, id: refundId },
+      paymentRecord,
+      transition,
+      operatorId
+    );
+
+    businessLogger.info("订单退款成功", {
+      orderId,
+      operatorId,
+      processorType,
+      refundAmount: refundAmount.toNumber(),
+      refundType,
+      refundId: refundId,
+      refundStatus,
+    });
+
+    return { ...response, refundStatus };
+  }
+
+  /**
+   * 完成退款：余额支付退回钱包，其他支付方式通过支付网关退款
+   * 退款结果先单独落库，再同步订单状态：支付记录的金额全部退完时订单流转为已退款
+   * 订单状态同步失败时退款记录保留待同步标记由定时任务重试，已退出的资金不会被重复退款
+   * 渠道返回处理中时退款记录保持已同意状态，等待渠道结果
+   * @param refundRecord - 退款记录
+   * @param paymentRecord - 支付记录
+   * @param transition - 全额退款时的状态流转结果
+   * @param operatorId - 操作者ID
+   * @returns 退款记录状态及是否已全部退完
+   */
+  private async completeRefund(
+    refundRecord: RefundRecord,
+    paymentRecord: PaymentRecord,
+    transition?: OrderTransitionResult,
+    operatorId?: number
+  ): Promise<{ refundStatus: RefundStatus; isFinalRefund: boolean }> {
+    const refundId = refundRecord.id;
+    const orderId = refundRecord.orderId;
+    let refundTransactionId: string | undefined;
+    let walletEntry: WalletEntry | undefined;
+
+    // 步骤1: 执行退款
+    if (paymentRecord.paymentMethod === PaymentMethod.BALANCE) {
+      // 1.1 余额支付退回钱包，与退款记录在同一事务中更新
+      walletEntry = {
+        userId: paymentRecord.userId,
+        type: WalletTransactionType.REFUND,
+        amount: new Decimal(refundRecord.refundAmount),
+        description: `订单退款（退款单${refundId}）`,
+        relatedId: refundId,
+        relatedType: WalletRelatedType.REFUND,
       };
+    } else {
+      // 1.2 调用支付网关退款
+      const gateway = paymentGatewayRegistry.find(paymentRecord.paymentMethod);
+      if (!gateway) {
+        await orderModel.updateRefundRecordStatus(refundId, RefundStatus.FAILED);
+        throw { message: "不支持的退款类型", code: HttpCode.NOT_FOUND };
+      }
+
+      const refundResult = await gateway.refund({
+        outTradeNo: paymentRecord.transactionId,
+        outRefundNo: buildOutRefundNo(refundId),
+        refundAmount: new Decimal(refundRecord.refundAmount),
+        totalAmount: new Decimal(paymentRecord.paymentAmount),
+        reason: refundRecord.refundReason,
+      });
+
+      if (refundResult.status === GatewayRefundStatus.FAILED) {
+        await orderModel.updateRefundRecordStatus(refundId, RefundStatus.FAILED);
+
+        businessLogger.error("订单退款失败", {
+          orderId,
+          refundId,
+          operatorId,
+          error: refundResult.message,
+        });
+
+        throw {
+          message: refundResult.message || "退款失败",
+          code: HttpCode.INTERNAL_ERROR,
+        };
+      }
+
+      if (refundResult.status === GatewayRefundStatus.PROCESSING) {
+        businessLogger.info("订单退款处理中，等待渠道结果", {
+          orderId,
+          refundId,
+          operatorId,
+        });
+
+        return { refundStatus: RefundStatus.APPROVED, isFinalRefund: false };
+      }
+
+      refundTransactionId = refundResult.refundTransactionId;
+    }
+
+    // 步骤2: 记录退款完成并同步订单状态
+    const isFinalRefund = await this.finishRefund(
+      refundRecord,
+      { refundTransactionId, walletEntry },
+      transition,
+      operatorId
+    );
+
+    return { refundStatus: RefundStatus.COMPLETED, isFinalRefund };
+  }
+
+  /**
+   * 资金退出后记录退款完成，订单所有支付都已退完时同步订单状态
+   * 退款记录先单独落库并标记订单状态待同步，订单状态同步失败不影响退款结果
+   * @param refundRecord - 退款记录
+   * @param outcome - 第三方退款流水号、余额退回请求
+   * @param transition - 全额退款时的状态流转结果，可选
+   * @param operatorId - 操作者ID
+   * @returns 是否已全部退完
+   */
+  private async finishRefund(
+    refundRecord: RefundRecord,
+    outcome: {
+      refundTransactionId?: string | undefined;
+      walletEntry?: WalletEntry | undefined;
+    },
+    transition?: OrderTransitionResult,
+    operatorId?: number
+  ): Promise<boolean> {
+    // 同一笔支付同时只有一笔处理中的退款，已退金额包含本次退款
+    const isFinalRefund = !(await this.findRefundablePayment(
+      await paymentModel.findSuccessPaymentRecords(refundRecord.orderId)
+    ));
+
+    await orderModel.completeRefundRecord(refundRecord.id, {
+      ...(outcome.refundTransactionId && {
+        refundTransactionId: outcome.refundTransactionId,
+      }),
+      ...(outcome.walletEntry && { walletEntry: outcome.walletEntry }),
+      orderSyncPending: isFinalRefund,
+    });
+
+    if (isFinalRefund) {
+      await this.syncRefundedOrder(refundRecord, transition, operatorId);
+    }
+
+    return isFinalRefund;
+  }
+
+  /**
+   * 退款全部完成后同步订单状态
+   * 优先按发起退款时的状态流转更新；订单状态已变化时按当前状态以系统身份重新流转；
+   * 订单已取消或已退款时只清除待同步标记。仍然失败时保留待同步标记，由定时任务重试
+   * @param refundRecord - 退款记录
+   * @param transition - 发起退款时的状态流转结果，可选
+   * @param operatorId - 操作者ID
+   * @returns 是否同步成功
+   */
+  private async syncRefundedOrder(
+    refundRecord: RefundRecord,
+    transition?: OrderTransitionResult,
+    operatorId?: number
+  ): Promise<boolean> {
+    const { id: refundId, orderId } = refundRecord;
+
+    try {
+      if (transition) {
+        try {
+          await orderModel.settleRefundedOrder(
+            orderId,
+            refundId,
+            transition,
+            operatorId
+          );
+          return true;
+        } catch (error: any) {
+          businessLogger.warn("订单状态已变化，按当前状态重新同步退款结果", {
+            orderId,
+            refundId,
+            reason: error.message,
+          });
+        }
+      }
+
+      const order = await orderModel.findById(orderId);
+      if (!order) {
+        throw { message: "订单不存在", code: HttpCode.NOT_FOUND };
+      }
+
+      // 订单已退款或从未支付成功（如超时取消后到账的支付）时无需流转
+      if (order.paymentStatus !== OrderPaymentStatus.SUCCESS) {
+        await orderModel.settleRefundedOrder(orderId, refundId);
+        return true;
+      }
+
+      const currentTransition = orderStateMachine.transition(
+        order,
+        OrderAction.REFUND,
+        OperatorType.SYSTEM,
+        refundRecord.refundReason
+      );
+      await orderModel.settleRefundedOrder(orderId, refundId, currentTransition);
+      return true;
+    } catch (error: any) {
+      businessLogger.error("退款已完成但订单状态同步失败，等待重试", {
+        orderId,
+        refundId,
+        reason: error.message,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * 退回订单已无法支付时到账的支付（由支付结果处理调用）
+   * 支付记录记为成功并创建已同意的全额退款记录后调用退款渠道，不改变订单状态；
+   * 渠道处理中或调用中断时由定时任务继续处理，渠道明确失败时记录日志等待人工处理
+   * @param order - 订单
+   * @param paymentRecord - 支付记录
+   * @param paid - 第三方交易流水号和支付完成时间
+   * @param reason - 订单不允许支付的原因
+   * @returns 退款记录ID，支付已被并发处理时返回null
+   */
+  async refundUnpayablePayment(
+    order: Order,
+    paymentRecord: PaymentRecord,
+    paid: { providerTransactionId?: string | undefined; paidAt: Date },
+    reason: string
+  ): Promise<number | null> {
+    // 步骤1: 记录支付成功并创建全额退款记录
+    const refundRecord: RefundRecord = {
+      id: 0,
+      orderId: order.id!,
+      userId: order.userId,
+      paymentRecordId: paymentRecord.id,
+      refundAmount: new Decimal(paymentRecord.paymentAmount),
+      refundReason: `订单已无法支付（${reason}），到账支付自动退款`,
+      refundType: RefundType.FULL,
+      refundStatus: RefundStatus.APPROVED,
+      processorType: ProcessorType.SYSTEM,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const refundId = await orderModel.createRefundForUnpayablePayment(
+      paymentRecord.id,
+      paid,
+      refundRecord
+    );
+    if (!refundId) return null;
+
+    businessLogger.warn("支付成功但订单已无法支付，自动发起退款", {
+      orderId: order.id,
+      paymentId: paymentRecord.id,
+      refundId,
+      reason,
+    });
+
+    // 步骤2: 调用退款渠道，失败时保留退款记录供人工处理
+    try {
+      await this.completeRefund(
+        { ...refundRecord, id: refundId },
+        { ...paymentRecord, paymentStatus: PaymentStatus.SUCCESS }
+      );
+    } catch (error: any) {
+      businessLogger.error("到账支付自动退款未完成，需人工处理", {
+        orderId: order.id,
+        paymentId: paymentRecord.id,
+        refundId,
+        reason: error.message,
+      });
+    }
+
+    return refundId;
+  }
+
+  /**
+   * 同步处理中退款的渠道结果（由定时任务调用）
+   * 渠道退款查询退款结果：成功时完成退款并同步订单状态，失败时标记退款失败以便重新申请；
+   * 渠道没有该退款单（发起前中断）或余额退款未完成时按原退款单号重新执行，渠道按退款单号幂等
+   * @param batchSize - 单次处理数量
+   * @returns 已得到最终结果的退款数量
+   */
+  async syncProcessingRefunds(batchSize: number = 100): Promise<number> {
+    // 步骤1: 查询已同意一段时间仍未完成的退款，避开正在执行中的退款
+    const before = new Date(Date.now() - config.refundSyncMinAgeSeconds * 1000);
+    const refundRecords = await orderModel.findApprovedRefundsBefore(
+      before,
+      batchSize
+    );
+    if (refundRecords.length === 0) return 0;
+
+    // 步骤2: 逐个查询退款结果
+    let resolvedCount = 0;
+    for (const refundRecord of refundRecords) {
+      try {
+        const refundStatus = await this.syncProcessingRefund(refundRecord);
+        if (refundStatus !== RefundStatus.APPROVED) {
+          resolvedCount++;
+        }
+      } catch (error: any) {
+        businessLogger.warn("处理中退款同步跳过", {
+          refundId: refundRecord.id,
+          reason: error.message,
+        });
+      }
+    }
+
+    businessLogger.info("处理中退款同步完成", {
+      total: refundRecords.length,
+      resolved: resolvedCount,
+    });
+
+    return resolvedCount;
+  }
+
+  /**
+   * 同步单笔处理中退款的渠道结果
+   * @param refundRecord - 已同意的退款记录
+   * @returns 同步后的退款状态
+   */
+  private async syncProcessingRefund(
+    refundRecord: RefundRecord
+  ): Promise<RefundStatus> {
+    const paymentRecord = await paymentModel.findPaymentRecordById(
+      refundRecord.paymentRecordId
+    );
+    if (!paymentRecord) {
+      throw { message: "未找到有效的支付记录", code: HttpCode.NOT_FOUND };
     }
 
-    // 步骤2: 创建支付记录 目前使用balance时为挡板支付
-    let paymentResult = {
-      status: "pending",
-      message: "",
-    };
+    const gateway =
+      paymentRecord.paymentMethod === PaymentMethod.BALANCE
+        ? undefined
+        : paymentGatewayRegistry.find(paymentRecord.paymentMethod);
+    if (!gateway) {
+      return (await this.completeRefund(refundRecord, paymentRecord)).refundStatus;
+    }
 
-    // 2.1 生成第三方交易ID（模拟）
-    const transactionId = `TXN${Date.now()}${Math.floor(Math.random() * 1000)
-      .toString()
-      .padStart(3, "0")}`;
+    let refundResult;
+    try {
+      refundResult = await gateway.queryRefund(buildOutRefundNo(refundRecord.id));
+    } catch (error: any) {
+      if (error.code !== HttpCode.NOT_FOUND) throw error;
+      return (await this.completeRefund(refundRecord, paymentRecord)).refundStatus;
+    }
 
-    // 创建支付记录
-    const paymentRecordId: number = await orderModel.createPaymentRecord({
-      //主要是为了填充id
-      id: 0,
-      orderId: orderId,
-      userId,
-      paymentMethod: order.paymentMethod,
-      paymentAmount: order.totalAmount,
-      transactionId: transactionId,
-      paymentStatus: PaymentStatus.PENDING,
-    });
-    if (order.paymentMethod === PaymentMethod.BALANCE) {
-      // 2.2 调用第三方支付接口（模拟）
-      // 这里应该调用实际的支付SDK，如微信支付、支付宝等
-      paymentResult = await this.processPaymentBalance({
-        orderId,
-        userId: userId,
-        amount: order.totalAmount,
-        paymentMethod: order.paymentMethod,
-        transactionId: transactionId,
+    if (refundResult.status === GatewayRefundStatus.SUCCESS) {
+      await this.finishRefund(refundRecord, {
+        refundTransactionId: refundResult.refundTransactionId,
       });
-    } else {
-      //TODO 暂时没对接第三方
-      throw {
-        message: "不支持的支付方式",
-        code: HttpCode.VALIDATION_ERROR,
-      };
+      businessLogger.info("渠道退款已完成", {
+        orderId: refundRecord.orderId,
+        refundId: refundRecord.id,
+      });
+      return RefundStatus.COMPLETED;
     }
 
-    // 步骤3: 更新订单状态和支付记录
-    if (paymentResult.status === "success") {
-      // 3.1 更新订单支付状态和订单状态
-      await orderModel.updateStatusWithPay(
-        orderId,
-        paymentRecordId,
-        OrderStatus.CONFIRMED,
-        OrderPaymentStatus.SUCCESS,
-        PaymentStatus.SUCCESS,
-        userId,
-        "支付成功"
+    if (refundResult.status === GatewayRefundStatus.FAILED) {
+      await orderModel.updateRefundRecordStatus(
+        refundRecord.id,
+        RefundStatus.FAILED
       );
-
-      // 3.2 记录支付成功日志
-      businessLogger.info("订单支付成功", {
-        orderId: orderId,
-        userId: userId,
-        transactionId: transactionId,
-        amount: order.totalAmount,
-        paymentMethod: order.paymentMethod,
+      businessLogger.error("渠道退款失败", {
+        orderId: refundRecord.orderId,
+        refundId: refundRecord.id,
+        error: refundResult.message,
       });
+      return RefundStatus.FAILED;
+    }
 
-      return {
-        paymentId: paymentRecordId,
-        orderId,
-        paymentMethod: order.paymentMethod,
-        paymentAmount: new Decimal(order.totalAmount),
-        transactionId: transactionId,
-        paymentStatus: PaymentStatus.SUCCESS,
-      };
-    } else {
-      // 3.3 记录支付失败日志
-      businessLogger.error("订单支付失败", {
-        orderId,
-        userId: userId,
-        error: paymentResult.message,
-      });
+    return RefundStatus.APPROVED;
+  }
 
-      throw {
-        message: paymentResult.message || "支付失败",
-        code: HttpCode.INTERNAL_ERROR,
-      };
+  /**
+   * 查找订单仍有可退金额的支付记录
+   * 订单已无法支付时到账的支付会自动全额退款，不会被选中
+   * @param paymentRecords - 订单支付成功的记录
+   * @returns 支付记录及剩余可退金额，全部退完时返回null
+   */
+  private async findRefundablePayment(
+    paymentRecords: PaymentRecord[]
+  ): Promise<{ paymentRecord: PaymentRecord; remainingAmount: Decimal } | null> {
+    for (const paymentRecord of paymentRecords) {
+      const remainingAmount = new Decimal(paymentRecord.paymentAmount).minus(
+        await orderModel.getRefundedAmount(paymentRecord.id)
+      );
+      if (remainingAmount.greaterThan(0)) {
+        return { paymentRecord, remainingAmount };
+      }
     }
+    return null;
   }
 
   /**
-   * 处理支付（模拟第三方支付接口）
-   * @param paymentData - 支付数据
-   * @returns 支付结果
+   * 重试同步已完成退款的订单状态（由定时任务调用）
+   * @param batchSize - 单次处理数量
+   * @returns 同步成功的退款数量
    */
-  private async processPaymentBalance(paymentData: {
-    orderId: number;
-    userId: number;
-    amount: Decimal;
-    paymentMethod: PaymentMethod;
-    transactionId: string;
-  }): Promise<{
-    status: string;
-    message: string;
-  }> {
-    // 这里应该调用实际的第三方支付接口
-    // 模拟支付处理时间
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-
-    // 模拟支付成功（实际应用中这里会调用微信支付、支付宝等SDK）
-    const success = Math.random() > 0.1; // 90%成功率
+  async syncRefundedOrders(batchSize: number = 100): Promise<number> {
+    const refundRecords = await orderModel.findRefundsPendingOrderSync(
+      batchSize
+    );
+    if (refundRecords.length === 0) return 0;
 
-    if (success) {
-      return {
-        status: "success",
-        message: "支付成功",
-      };
-    } else {
-      businessLogger.error('挡板系统模拟失败')
-      return {
-        status: "fail",
-        message: "支付处理失败，请重试",
-      };
+    let syncedCount = 0;
+    for (const refundRecord of refundRecords) {
+      if (await this.syncRefundedOrder(refundRecord)) {
+        syncedCount++;
+      }
     }
+
+    businessLogger.info("退款订单状态同步完成", {
+      total: refundRecords.length,
+      synced: syncedCount,
+    });
+
+    return syncedCount;
   }
 
   /**
-   * 订单退款
-   * @param refundOrder - 退款订单数据
-   * @param userId - 用户ID
-   * @returns 退款结果
+   * 审核通过退款申请并执行退款
+   * @param request - 审核请求
+   * @param processor - 处理人信息
+   * @returns 审核结果
    */
-  async refundOrder(
-    refundOrder: RefundOrderRequest,
-    userId: number
-  ): Promise<RefundOrderResponse> {
-    businessLogger.info("开始执行订单退款", {
-      orderId: refundOrder.orderId,
-      userId,
+  async approveRefund(
+    request: ProcessRefundRequest,
+    processor: RefundProcessor
+  ): Promise<ProcessRefundResponse> {
+    businessLogger.info("开始审核通过退款申请", {
+      refundId: request.refundId,
+      ...processor,
     });
 
-    // 步骤1: 校验订单信息
-    // 1.1 查询订单是否存在且属于当前用户
-    const order = await orderModel.findById(refundOrder.orderId);
-    if (!order) {
-      throw { message: "订单不存在", code: HttpCode.NOT_FOUND };
-    }
-    if (order.userId !== userId) {
-      throw { message: "无权操作该订单", code: HttpCode.FORBIDDEN };
-    }
-
-    // 1.2 校验订单状态是否允许退款
-    if (order.orderStatus === OrderStatus.CANCELLED) {
-      throw {
-        message: "订单已取消，无法退款",
-        code: HttpCode.VALIDATION_ERROR,
-      };
-    }
-    if (order.paymentStatus !== OrderPaymentStatus.SUCCESS) {
-      throw {
-        message: "订单未支付成功，无法退款",
-        code: HttpCode.VALIDATION_ERROR,
-      };
-    }
+    // 步骤1: 校验退款申请和订单
+    const { refundRecord, order } = await this.findProcessableRefund(
+      request.refundId,
+      processor
+    );
 
-    // 步骤2: 查询支付记录用于退款
-    const paymentRecord = await orderModel.findPaymentRecord(
-      refundOrder.orderId,
-      PaymentStatus.SUCCESS
+    // 步骤2: 通过状态机校验订单是否仍允许退款
+    const transition = orderStateMachine.transition(
+      order,
+      OrderAction.REFUND,
+      REFUND_PROCESSOR_OPERATORS[processor.processorType],
+      refundRecord.refundReason
     );
 
-    if (!paymentRecord) {
+    const paymentRecord = await paymentModel.findPaymentRecordById(
+      refundRecord.paymentRecordId
+    );
+    if (!paymentRecord || paymentRecord.paymentStatus !== PaymentStatus.SUCCESS) {
       throw { message: "未找到有效的支付记录", code: HttpCode.NOT_FOUND };
     }
 
-    // 步骤3: 处理退款逻辑,构建退款逻辑对象
-    // 创建退款记录
-    let refundResult = {
-      status: "pending",
-      message: "",
-    };
+    // 步骤3: 标记审核通过，乐观锁保证同一申请只会被处理一次
+    await orderModel.processRefundRecord(request.refundId, {
+      refundStatus: RefundStatus.APPROVED,
+      processorType: processor.processorType,
+      ...(processor.processorId !== undefined && {
+        processorId: processor.processorId,
+      }),
+      ...(request.remark && { processRemark: request.remark }),
+    });
 
-    const refundRecord: RefundRecord = {
-      orderId: refundOrder.orderId,
-      userId,
-      paymentRecordId: paymentRecord.id,
-      refundAmount: paymentRecord.paymentAmount,
-      refundReason: refundOrder.reason,
-      refundType: RefundType.FULL,
-      id: 0,
-      refundStatus: RefundStatus.PENDING,
-      processorType: ProcessorType.USER,
-      createdAt: new Date(),
-      updatedAt: new Date(),
+    // 步骤4: 执行退款
+    const { refundStatus, isFinalRefund } = await this.completeRefund(
+      refundRecord,
+      paymentRecord,
+      transition,
+      processor.processorId
+    );
+
+    businessLogger.info("退款申请审核通过", {
+      refundId: request.refundId,
+      orderId: refundRecord.orderId,
+      refundAmount: new Decimal(refundRecord.refundAmount).toNumber(),
+      refundStatus,
+      isFinalRefund,
+      ...processor,
+    });
+
+    return {
+      refundId: request.refundId,
+      orderId: refundRecord.orderId,
+      refundStatus,
+      orderStatus: isFinalRefund ? transition.toStatus : order.orderStatus,
+      paymentStatus: isFinalRefund
+        ? transition.toPaymentStatus
+        : order.paymentStatus,
     };
+  }
 
-    const refundId = await orderModel.createRefundRecord(refundRecord);
-    // 步骤3: 处理退款逻辑,构建退款逻辑对象
-    if (paymentRecord.paymentMethod === PaymentMethod.BALANCE) {
-      refundResult = await this.processRefundBalance();
-    } else {
-      //TODO 还没对接第三方退款接口
-      throw { message: "不支持的退款类型", code: HttpCode.NOT_FOUND };
-    }
+  /**
+   * 拒绝退款申请，拒绝后释放占用的可退金额
+   * @param request - 审核请求
+   * @param processor - 处理人信息
+   * @returns 审核结果
+   */
+  async rejectRefund(
+    request: ProcessRefundRequest,
+    processor: RefundProcessor
+  ): Promise<ProcessRefundResponse> {
+    businessLogger.info("开始拒绝退款申请", {
+      refundId: request.refundId,
+      ...processor,
+    });
 
-    // 步骤5: 更新订单状态
-    if (refundResult.status === "success") {
-      await orderModel.updateStatusWithRefund(
-        refundOrder.orderId,
-        refundId,
-        OrderStatus.CANCELLED,
-        OrderPaymentStatus.REFUNDED,
-        RefundStatus.COMPLETED,
-        userId,
-        refundOrder.reason
-      );
+    // 步骤1: 校验退款申请和订单
+    const { refundRecord, order } = await this.findProcessableRefund(
+      request.refundId,
+      processor
+    );
 
-      businessLogger.info("订单退款成功", {
-        orderId: refundOrder.orderId,
-        userId: userId,
-        refundAmount: refundRecord.refundAmount,
-        refundId: refundId,
-      });
-      return {
-        refundId,
-        orderId: refundOrder.orderId,
-        refundAmount: refundRecord.refundAmount,
-        refundStatus: RefundStatus.COMPLETED,
-        refundType: RefundType.FULL,
-      };
-    } else {
-      await orderModel.updateRefundRecordStatus(
-        refundId,
-        RefundStatus.COMPLETED
-      );
+    // 步骤2: 标记审核拒绝
+    await orderModel.processRefundRecord(request.refundId, {
+      refundStatus: RefundStatus.REJECTED,
+      processorType: processor.processorType,
+      ...(processor.processorId !== undefined && {
+        processorId: processor.processorId,
+      }),
+      ...(request.remark && { processRemark: request.remark }),
+    });
 
-      businessLogger.error("订单退款失败", {
-        orderId: refundOrder.orderId,
-        userId: userId,
-        error: refundResult.message,
-      });
+    businessLogger.info("退款申请已拒绝", {
+      refundId: request.refundId,
+      orderId: refundRecord.orderId,
+      remark: request.remark,
+      ...processor,
+    });
 
-      throw {
-        message: refundResult.message || "退款失败",
-        code: HttpCode.INTERNAL_ERROR,
-      };
-    }
+    return {
+      refundId: request.refundId,
+      orderId: refundRecord.orderId,
+      refundStatus: RefundStatus.REJECTED,
+      orderStatus: order.orderStatus,
+      paymentStatus: order.paymentStatus,
+    };
   }
 
   /**
-   * 处理退款（模拟第三方退款接口）
-   * @param refundData - 退款数据
-   * @returns 退款结果
+   * 自动同意超时未审核的退款申请（由定时任务调用）
+   * @param batchSize - 单次处理数量
+   * @returns 成功退款的申请数量
    */
-  private async processRefundBalance(): Promise<{
-    status: string;
-    refundTxnNo?: string;
-    message: string;
-  }> {
-    // 模拟退款处理时间
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-
-    // 模拟退款成功（实际应用中这里会调用第三方退款接口）
-    const success = Math.random() > 0.1; // 90%成功率
+  async autoApproveRefunds(batchSize: number = 100): Promise<number> {
+    // 步骤1: 查询超过审核时限的待审核退款申请
+    const before = new Date(
+      Date.now() - config.refundAutoApproveHours * 60 * 60 * 1000
+    );
+    const refundRecords = await orderModel.findPendingRefundsBefore(
+      before,
+      batchSize
+    );
+    if (refundRecords.length === 0) return 0;
 
-    //模拟的第三方退款id
-    const transactionId = `REFUND${Date.now()}${Math.floor(Math.random() * 1000)
-      .toString()
-      .padStart(3, "0")}`;
+    businessLogger.info("开始自动同意超时退款申请", {
+      count: refundRecords.length,
+    });
 
-    if (success) {
-      return {
-        status: "success",
-        refundTxnNo: transactionId,
-        message: "chenggong",
-      };
-    } else {
-            businessLogger.error('挡板系统模拟失败')
-      return {
-        status: "fail",
-        message: "退款处理失败，请重试",
-      };
+    // 步骤2: 逐个以系统身份审核通过，已被商家或平台处理的申请会因乐观锁失败而跳过
+    let approvedCount = 0;
+    for (const refundRecord of refundRecords) {
+      try {
+        await this.approveRefund(
+          {
+            refundId: refundRecord.id,
+            remark: "超时未审核，系统自动同意退款",
+          },
+          { processorType: ProcessorType.SYSTEM }
+        );
+        approvedCount++;
+      } catch (error: any) {
+        businessLogger.warn("超时退款申请自动同意跳过", {
+          refundId: refundRecord.id,
+          reason: error.message,
+        });
+      }
     }
+
+    businessLogger.info("超时退款申请自动同意完成", {
+      total: refundRecords.length,
+      approved: approvedCount,
+    });
+
+    return approvedCount;
   }
 
   /**
-   * 确认收货
-   * @param confirmOrder - 确认收货数据
-   * @param userId - 用户ID
-   * @returns 确认结果
+   * 获取退款申请列表
+   * @param params - 查询参数
+   * @param restaurantId - 餐厅ID，商家查询时传入，只返回本餐厅订单的退款
+   * @returns 分页退款申请列表
    */
-  async confirmOrder(
-    orderId: number,
-    userId: number
-  ): Promise<ConfirmOrderResponse> {
-    businessLogger.info("开始执行确认收货", {
-      orderId,
-      userId,
+  async getRefundList(
+    params: GetRefundListRequest,
+    restaurantId?: number
+  ): Promise<PaginatedResponse<RefundRecord>> {
+    // 步骤1: 解析分页参数
+    const page = Number(params.page) || 1;
+    const limit = Number(params.limit) || 10;
+
+    // 步骤2: 查询退款申请列表和总数
+    const { refunds, total } = await orderModel.getRefundListWithPagination({
+      ...params,
+      ...(restaurantId !== undefined && { restaurantId }),
+      page,
+      limit,
     });
 
-    // 步骤1: 校验订单信息
-    const order = await orderModel.findById(orderId);
+    // 步骤3: 返回标准分页响应格式
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: refunds,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * 查询可审核的退款申请及其订单
+   * @param refundId - 退款记录ID
+   * @param processor - 处理人信息
+   * @returns 退款申请和订单
+   */
+  private async findProcessableRefund(
+    refundId: number,
+    processor: RefundProcessor
+  ): Promise<{ refundRecord: RefundRecord; order: Order }> {
+    const refundRecord = await orderModel.findRefundRecordById(refundId);
+    if (!refundRecord) {
+      throw { message: "退款申请不存在", code: HttpCode.NOT_FOUND };
+    }
+
+    const order = await orderModel.findById(refundRecord.orderId);
     if (!order) {
       throw { message: "订单不存在", code: HttpCode.NOT_FOUND };
     }
-    if (order.userId !== userId) {
-      throw { message: "无权操作该订单", code: HttpCode.FORBIDDEN };
-    }
+    assertRefundProcessor(order, processor);
 
-    // 步骤2: 校验订单状态是否允许确认收货
-    if (order.orderStatus !== OrderStatus.DELIVERING) {
-      throw {
-        message: "订单状态不允许确认收货",
-        code: HttpCode.VALIDATION_ERROR,
-      };
+    if (refundRecord.refundStatus !== RefundStatus.PENDING) {
+      throw { message: "退款申请已处理", code: HttpCode.VALIDATION_ERROR };
     }
 
-    // 步骤3: 更新订单状态为已完成
-    const completedAt = new Date();
-    await orderModel.updateStatus(
-      orderId,
-      OrderStatus.COMPLETED,
-      userId,
-      "用户确认收货"
+    return { refundRecord, order };
+  }
+
+  /**
+   * 构建按菜品退款明细
+   * 订单使用优惠券时按实付比例折算退款金额
+   * @param order - 订单
+   * @param items - 退款菜品请求
+   * @returns 退款明细
+   */
+  private async buildRefundItems(
+    order: Order,
+    items: RefundItemRequest[]
+  ): Promise<RefundItem[]> {
+    const refundedQuantities = await orderModel.getRefundedItemQuantities(
+      order.id!
     );
 
-    businessLogger.info("确认收货成功", {
-      orderId,
-      userId: userId,
-      completedAt: completedAt,
-    });
+    // 商品实付比例 = (小计 - 优惠) / 小计
+    const subtotal = new Decimal(order.subtotal);
+    const payRatio = subtotal.greaterThan(0)
+      ? subtotal.minus(order.discountAmount ?? 0).dividedBy(subtotal)
+      : new Decimal(0);
 
-    return {
-      orderId,
-      orderStatus: OrderStatus.COMPLETED,
-      completedAt: completedAt,
-    };
+    return items.map((item) => {
+      const orderItem = order.orderItems.find(
+        (orderItem) => orderItem.id === item.orderItemId
+      );
+      if (!orderItem) {
+        throw {
+          message: `订单项ID ${item.orderItemId} 不存在`,
+          code: HttpCode.VALIDATION_ERROR,
+        };
+      }
+
+      const refundableQuantity =
+        orderItem.quantity - (refundedQuantities.get(orderItem.id!) ?? 0);
+      if (item.quantity > refundableQuantity) {
+        throw {
+          message: `菜品 "${orderItem.dishName}" 最多可退 ${refundableQuantity} 份`,
+          code: HttpCode.VALIDATION_ERROR,
+        };
+      }
+
+      return {
+        orderItemId: item.orderItemId,
+        quantity: item.quantity,
+        refundAmount: new Decimal(orderItem.dishPrice)
+          .times(item.quantity)
+          .times(payRatio)
+          .toDecimalPlaces(2, Decimal.ROUND_DOWN),
+      };
+    });
   }
 
   /**
-   * 切换状态
+   * 确认收货
+   * @param confirmOrder - 确认收货数据
    * @param userId - 用户ID
    * @returns 确认结果
    */
-  async changeStatus(
+  async confirmOrder(
     orderId: number,
-    orderStatus: OrderStatus,
     userId: number
   ): Promise<ConfirmOrderResponse> {
-    businessLogger.info("开始执行状态切换", {
+    businessLogger.info("开始执行确认收货", {
       orderId,
-      orderStatus,
       userId,
     });
 
@@ -661,37 +1561,24 @@ class OrderService {
     if (!order) {
       throw { message: "订单不存在", code: HttpCode.NOT_FOUND };
     }
-    if (order.userId !== userId) {
-      throw { message: "无权操作该订单", code: HttpCode.FORBIDDEN };
-    }
+    assertOrderOwner(order, userId);
 
-    let remark;
-
-    switch (orderStatus) {
-      case OrderStatus.PREPARING:
-        remark = "商家接单";
-
-        //如果前置状态不是created,则报错
-        if (order.orderStatus !== OrderStatus.CONFIRMED) {
-          throw { message: "前置状态不对", code: HttpCode.FORBIDDEN };
-        }
-        break;
-      case OrderStatus.DELIVERING:
-        remark = "骑手接单";
-        //如果前置状态不是PREPARING,则报错
-        if (order.orderStatus !== OrderStatus.PREPARING) {
-          throw { message: "前置状态不对", code: HttpCode.FORBIDDEN };
-        }
-        break;
-      default:
-        throw { message: "不支持的状态修改", code: HttpCode.FORBIDDEN };
-    }
+    // 步骤2: 通过状态机校验订单状态是否允许确认收货
+    const transition = orderStateMachine.transition(
+      order,
+      OrderAction.CONFIRM,
+      OperatorType.USER
+    );
 
-    // 步骤3: 更新订单状态
-    const completedAt = new Date();
-    await orderModel.updateStatus(orderId, orderStatus, userId, remark);
+    // 步骤3: 更新订单状态为已完成，同时结束配送单
+    const completedAt = transition.timestamps.actualDeliveryTime ?? new Date();
+    await orderModel.updateStatusWithDeliveryComplete(
+      orderId,
+      transition,
+      userId
+    );
 
-    businessLogger.info("确认修改状态成功", {
+    businessLogger.info("确认收货成功", {
       orderId,
       userId: userId,
       completedAt: completedAt,
@@ -699,7 +1586,7 @@ class OrderService {
 
     return {
       orderId,
-      orderStatus,
+      orderStatus: transition.toStatus,
       completedAt: completedAt,
     };
   }
@@ -772,14 +1659,15 @@ class OrderService {
       throw { message: "订单不存在", code: HttpCode.NOT_FOUND };
     }
 
+    // 步骤3: 查询退款申请及处理进度
+    const refunds = await orderModel.findRefundRecordsByOrderId(orderId);
+
     businessLogger.info("获取订单详情成功", {
       orderId: orderId,
       userId: userId,
     });
 
-    return {
-      order: order as any,
-    };
+    return { order, refunds };
   }
 
   /**
@@ -793,20 +1681,82 @@ class OrderService {
     if (!order) {
       throw { message: "订单不存在", code: HttpCode.NOT_FOUND };
     }
-    if (order.userId !== userId) {
-      throw { message: "无权操作该订单", code: HttpCode.FORBIDDEN };
+    assertOrderOwner(order, userId);
+
+    const transition = orderStateMachine.transition(
+      order,
+      OrderAction.CANCEL,
+      OperatorType.USER
+    );
+
+    await orderModel.updateStatus(orderId, transition, userId);
+    return true;
+  }
+
+  /**
+   * 取消已超过支付截止时间的订单（由定时任务调用）
+   * @param batchSize - 单次处理数量
+   * @returns 成功取消的订单数量
+   */
+  async cancelExpiredOrders(batchSize: number = 100): Promise<number> {
+    // 步骤1: 查询超时未支付订单
+    const orders = await orderModel.findExpiredUnpaidOrders(
+      new Date(),
+      batchSize
+    );
+    if (orders.length === 0) return 0;
+
+    businessLogger.info("开始取消超时未支付订单", { count: orders.length });
+
+    // 步骤2: 逐个通过状态机取消，其他实例已处理或用户已支付的订单会因乐观锁失败而跳过
+    let cancelledCount = 0;
+    for (const order of orders) {
+      try {
+        const transition = orderStateMachine.transition(
+          order,
+          OrderAction.EXPIRE,
+          OperatorType.SYSTEM
+        );
+        await orderModel.updateStatusWithPaymentTimeout(order.id!, transition);
+        cancelledCount++;
+      } catch (error: any) {
+        businessLogger.warn("超时订单取消跳过", {
+          orderId: order.id,
+          reason: error.message,
+        });
+      }
     }
-    if (order.orderStatus !== OrderStatus.CREATED) {
-      throw { message: "订单状态不允许取消", code: HttpCode.VALIDATION_ERROR };
+
+    businessLogger.info("超时未支付订单取消完成", {
+      total: orders.length,
+      cancelled: cancelledCount,
+    });
+
+    return cancelledCount;
+  }
+
+  /**
+   * 获取订单当前可用的动作
+   * @param orderId - 订单ID
+   * @param userId - 用户ID
+   * @returns 可用动作列表
+   */
+  async getOrderTransitions(
+    orderId: number,
+    userId: number
+  ): Promise<GetOrderTransitionsResponse> {
+    const order = await orderModel.findById(orderId);
+    if (!order) {
+      throw { message: "订单不存在", code: HttpCode.NOT_FOUND };
     }
+    assertOrderOwner(order, userId, AccessMode.READ);
 
-    await orderModel.updateStatus(
+    return {
       orderId,
-      OrderStatus.CANCELLED,
-      userId,
-      "用户取消订单"
-    );
-    return true;
+      orderStatus: order.orderStatus,
+      paymentStatus: order.paymentStatus,
+      actions: orderStateMachine.getAvailableActions(order, OperatorType.USER),
+    };
   }
 
   /**
@@ -976,9 +1926,7 @@ class OrderService {
     if (!order) {
       throw { message: "订单不存在", code: HttpCode.NOT_FOUND };
     }
-    if (order.userId !== userId) {
-      throw { message: "无权操作该订单", code: HttpCode.FORBIDDEN };
-    }
+    assertOrderOwner(order, userId);
 
     // 步骤2: 校验订单状态是否允许评价
     if (order.orderStatus !== OrderStatus.COMPLETED) {
@@ -1048,9 +1996,7 @@ class OrderService {
     if (!order) {
       throw { message: "订单不存在", code: HttpCode.NOT_FOUND };
     }
-    if (order.userId !== userId) {
-      throw { message: "无权访问该订单", code: HttpCode.FORBIDDEN };
-    }
+    assertOrderOwner(order, userId, AccessMode.READ);
 
     // 步骤2: 查询评价列表
     const reviews = await orderModel.getOrderReviews(orderId);
@@ -1097,9 +2043,7 @@ class OrderService {
     if (!order) {
       throw { message: "订单不存在", code: HttpCode.NOT_FOUND };
     }
-    if (order.userId !== userId) {
-      throw { message: "无权访问该订单", code: HttpCode.FORBIDDEN };
-    }
+    assertOrderOwner(order, userId, AccessMode.READ);
 
     // 步骤2: 使用model查询配送信息
     const deliveryInfo = await orderModel.getDeliveryInfo(orderId);
@@ -1108,22 +2052,8 @@ class OrderService {
       throw { message: "配送信息不存在", code: HttpCode.NOT_FOUND };
     }
 
-    // 步骤3: 查询配送员信息（如果已分配）
-    let deliveryUser = {
-      id: deliveryInfo.deliveryUserId,
-      name: "配送员",
-      phone: "13800138000",
-      avatar: "",
-    };
-    if (deliveryInfo.deliveryUserId) {
-      // 这里应该查询配送员表，暂时返回模拟数据
-      deliveryUser = {
-        id: deliveryInfo.deliveryUserId,
-        name: "配送员",
-        phone: "13800138000",
-        avatar: "",
-      };
-    }
+    // 步骤3: 取出骑手信息（未分配骑手时为空）
+    const { riders, ...delivery } = deliveryInfo;
 
     businessLogger.info("获取配送信息成功", {
       orderId: orderId,
@@ -1132,8 +2062,15 @@ class OrderService {
     });
 
     return {
-      deliveryInfo: deliveryInfo as any,
-      deliveryUser: deliveryUser,
+      deliveryInfo: delivery,
+      ...(riders && {
+        deliveryUser: {
+          id: riders.id,
+          name: riders.name,
+          phone: riders.phone,
+          avatar: riders.avatar ?? "",
+        },
+      }),
     };
   }
 }
@@ -0,0 +1,215 @@
+import { describe, expect, it } from "vitest";
+import Decimal from "decimal.js";
+import orderStateMachine from "./order.state";
+import {
+  Order,
+  OrderAction,
+  OrderPaymentStatus,
+  OrderStatus,
+  OperatorType,
+  PaymentMethod,
+} from "../models/order";
+import { HttpCode } from "../../../types/index";
+
+const DEADLINE = new Date("2026-10-19T12:15:00Z");
+
+/**
+ * 构造测试订单，默认为待支付的新订单
+ * @param overrides - 覆盖的字段
+ * @returns 订单
+ */
+const buildOrder = (overrides: Partial<Order> = {}): Order => ({
+  id: 1,
+  orderNumber: "ORD202610190001",
+  userId: 1,
+  restaurantId: 1,
+  restaurantName: "测试餐厅",
+  addressId: 1,
+  contactName: "张三",
+  contactPhone: "13800000000",
+  deliveryAddress: "测试地址",
+  orderStatus: OrderStatus.CREATED,
+  paymentStatus: OrderPaymentStatus.PENDING,
+  paymentMethod: PaymentMethod.WECHAT,
+  subtotal: new Decimal(30),
+  deliveryFee: new Decimal(5),
+  totalAmount: new Decimal(35),
+  estimatedDeliveryTime: null,
+  paymentDeadline: DEADLINE,
+  orderItems: [],
+  ...overrides,
+});
+
+describe("orderStateMachine.transition", () => {
+  it("支付成功后订单流转为已确认并记录支付时间", () => {
+    const paidAt = new Date("2026-10-19T12:00:00Z");
+
+    const result = orderStateMachine.transition(
+      buildOrder(),
+      OrderAction.PAY,
+      OperatorType.SYSTEM,
+      undefined,
+      paidAt
+    );
+
+    expect(result).toEqual({
+      action: OrderAction.PAY,
+      fromStatus: OrderStatus.CREATED,
+      fromPaymentStatus: OrderPaymentStatus.PENDING,
+      toStatus: OrderStatus.CONFIRMED,
+      toPaymentStatus: OrderPaymentStatus.SUCCESS,
+      timestamps: { paidAt },
+      operatorType: OperatorType.SYSTEM,
+      remark: "支付成功",
+    });
+  });
+
+  it("按支付完成时间判断超时，截止前完成的支付在截止后到达仍然有效", () => {
+    const order = buildOrder();
+
+    expect(() =>
+      orderStateMachine.transition(
+        order,
+        OrderAction.PAY,
+        OperatorType.SYSTEM,
+        undefined,
+        new Date(DEADLINE.getTime() - 1000)
+      )
+    ).not.toThrow();
+    expect(() =>
+      orderStateMachine.transition(
+        order,
+        OrderAction.PAY,
+        OperatorType.SYSTEM,
+        undefined,
+        DEADLINE
+      )
+    ).toThrow(
+      expect.objectContaining({
+        message: "订单支付已超时",
+        code: HttpCode.VALIDATION_ERROR,
+      })
+    );
+  });
+
+  it("订单金额异常时不允许支付", () => {
+    expect(() =>
+      orderStateMachine.transition(
+        buildOrder({ totalAmount: new Decimal(0) }),
+        OrderAction.PAY,
+        OperatorType.USER,
+        undefined,
+        new Date("2026-10-19T12:00:00Z")
+      )
+    ).toThrow(expect.objectContaining({ message: "订单金额异常" }));
+  });
+
+  it("操作者不在允许范围内时拒绝流转", () => {
+    expect(() =>
+      orderStateMachine.transition(
+        buildOrder({
+          orderStatus: OrderStatus.CONFIRMED,
+          paymentStatus: OrderPaymentStatus.SUCCESS,
+        }),
+        OrderAction.ACCEPT,
+        OperatorType.USER
+      )
+    ).toThrow(expect.objectContaining({ code: HttpCode.FORBIDDEN }));
+  });
+
+  it("订单状态不满足时返回流转表中的拒绝信息", () => {
+    expect(() =>
+      orderStateMachine.transition(
+        buildOrder(),
+        OrderAction.REFUND,
+        OperatorType.USER
+      )
+    ).toThrow(
+      expect.objectContaining({
+        message: "订单未支付成功或已取消，无法退款",
+        code: HttpCode.VALIDATION_ERROR,
+      })
+    );
+  });
+
+  it("未到支付截止时间时不允许超时取消", () => {
+    const order = buildOrder();
+
+    expect(() =>
+      orderStateMachine.transition(
+        order,
+        OrderAction.EXPIRE,
+        OperatorType.SYSTEM,
+        undefined,
+        new Date(DEADLINE.getTime() - 1000)
+      )
+    ).toThrow(expect.objectContaining({ message: "订单未到支付截止时间" }));
+
+    const result = orderStateMachine.transition(
+      order,
+      OrderAction.EXPIRE,
+      OperatorType.SYSTEM,
+      undefined,
+      DEADLINE
+    );
+    expect(result.toStatus).toBe(OrderStatus.CANCELLED);
+    expect(result.toPaymentStatus).toBe(OrderPaymentStatus.PENDING);
+    expect(result.timestamps).toEqual({ cancelledAt: DEADLINE });
+  });
+
+  it("退款后订单取消并标记为已退款，使用传入的备注", () => {
+    const result = orderStateMachine.transition(
+      buildOrder({
+        orderStatus: OrderStatus.COMPLETED,
+        paymentStatus: OrderPaymentStatus.SUCCESS,
+      }),
+      OrderAction.REFUND,
+      OperatorType.ADMIN,
+      "菜品质量问题"
+    );
+
+    expect(result.toStatus).toBe(OrderStatus.CANCELLED);
+    expect(result.toPaymentStatus).toBe(OrderPaymentStatus.REFUNDED);
+    expect(result.remark).toBe("菜品质量问题");
+  });
+
+  it("未声明支付状态变化的流转保持原支付状态", () => {
+    const result = orderStateMachine.transition(
+      buildOrder({
+        orderStatus: OrderStatus.CONFIRMED,
+        paymentStatus: OrderPaymentStatus.SUCCESS,
+      }),
+      OrderAction.ACCEPT,
+      OperatorType.MERCHANT
+    );
+
+    expect(result.toStatus).toBe(OrderStatus.PREPARING);
+    expect(result.toPaymentStatus).toBe(OrderPaymentStatus.SUCCESS);
+    expect(result.timestamps).toEqual({});
+  });
+});
+
+describe("orderStateMachine.getAvailableActions", () => {
+  it("返回操作者在当前状态下可执行的动作", () => {
+    const order = buildOrder({
+      paymentDeadline: new Date(Date.now() + 15 * 60 * 1000),
+    });
+
+    const actions = orderStateMachine
+      .getAvailableActions(order, OperatorType.USER)
+      .map((item) => item.action);
+
+    expect(actions).toEqual([OrderAction.PAY, OrderAction.CANCEL]);
+  });
+
+  it("已完成的订单只能退款", () => {
+    const order = buildOrder({
+      orderStatus: OrderStatus.COMPLETED,
+      paymentStatus: OrderPaymentStatus.SUCCESS,
+    });
+
+    expect(
+      orderStateMachine.getAvailableActions(order).map((item) => item.action)
+    ).toEqual([OrderAction.REFUND]);
+  });
+});
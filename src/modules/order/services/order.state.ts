@@ -0,0 +1,249 @@
+import Decimal from "decimal.js";
+import {
+  Order,
+  OrderAction,
+  OrderStatus,
+  OrderPaymentStatus,
+  OperatorType,
+  OrderTransition,
+  OrderTransitionResult,
+  OrderAvailableAction,
+} from "../models/order";
+import { HttpCode } from "../../../types/index";
+
+/**
+ * 判断订单在指定时间是否已超过支付截止时间
+ * @param order - 订单
+ * @param at - 判断时间
+ * @returns 是否已超时
+ */
+const isPaymentExpired = (order: Order, at: Date): boolean =>
+  !!order.paymentDeadline && new Date(order.paymentDeadline) <= at;
+
+/**
+ * 订单状态流转表
+ * 所有订单状态变更都必须在这里声明，service 层只负责按动作调用
+ */
+const ORDER_TRANSITIONS: OrderTransition[] = [
+  {
+    action: OrderAction.PAY,
+    fromStatus: [OrderStatus.CREATED],
+    fromPaymentStatus: [OrderPaymentStatus.PENDING, OrderPaymentStatus.FAILED],
+    toStatus: OrderStatus.CONFIRMED,
+    toPaymentStatus: OrderPaymentStatus.SUCCESS,
+    actors: [OperatorType.USER, OperatorType.SYSTEM],
+    // 按实际支付完成时间判断是否超时，截止前完成但通知延迟到达的支付仍然有效
+    guard: (order, at) => {
+      if (isPaymentExpired(order, at)) return "订单支付已超时";
+      return new Decimal(order.totalAmount).greaterThan(0)
+        ? null
+        : "订单金额异常";
+    },
+    timestamps: ["paidAt"],
+    deniedMessage: "订单状态不允许支付",
+    remark: "支付成功",
+  },
+  {
+    action: OrderAction.CANCEL,
+    fromStatus: [OrderStatus.CREATED],
+    fromPaymentStatus: [OrderPaymentStatus.PENDING, OrderPaymentStatus.FAILED],
+    toStatus: OrderStatus.CANCELLED,
+    actors: [OperatorType.USER, OperatorType.SYSTEM],
+    timestamps: ["cancelledAt"],
+    deniedMessage: "订单状态不允许取消",
+    remark: "用户取消订单",
+  },
+  {
+    action: OrderAction.EXPIRE,
+    fromStatus: [OrderStatus.CREATED],
+    fromPaymentStatus: [OrderPaymentStatus.PENDING, OrderPaymentStatus.FAILED],
+    toStatus: OrderStatus.CANCELLED,
+    actors: [OperatorType.SYSTEM],
+    guard: (order, at) =>
+      isPaymentExpired(order, at) ? null : "订单未到支付截止时间",
+    timestamps: ["cancelledAt"],
+    deniedMessage: "订单状态不允许超时取消",
+    remark: "支付超时，系统自动取消",
+  },
+  {
+    action: OrderAction.ACCEPT,
+    fromStatus: [OrderStatus.CONFIRMED],
+    fromPaymentStatus: [OrderPaymentStatus.SUCCESS],
+    toStatus: OrderStatus.PREPARING,
+    actors: [OperatorType.MERCHANT, OperatorType.SYSTEM],
+    timestamps: [],
+    deniedMessage: "订单状态不允许接单",
+    remark: "商家接单",
+  },
+  {
+    action: OrderAction.REJECT,
+    fromStatus: [OrderStatus.CONFIRMED],
+    fromPaymentStatus: [OrderPaymentStatus.SUCCESS],
+    toStatus: OrderStatus.CANCELLED,
+    toPaymentStatus: OrderPaymentStatus.REFUNDED,
+    actors: [OperatorType.MERCHANT, OperatorType.SYSTEM],
+    timestamps: ["cancelledAt"],
+    deniedMessage: "订单状态不允许拒单",
+    remark: "商家拒单",
+  },
+  {
+    action: OrderAction.READY,
+    fromStatus: [OrderStatus.PREPARING],
+    fromPaymentStatus: [OrderPaymentStatus.SUCCESS],
+    toStatus: OrderStatus.READY,
+    actors: [OperatorType.MERCHANT, OperatorType.SYSTEM],
+    // 商家出餐时记录商家完成时间
+    timestamps: ["completedAt"],
+    deniedMessage: "订单状态不允许出餐",
+    remark: "商家出餐",
+  },
+  {
+    action: OrderAction.DISPATCH,
+    fromStatus: [OrderStatus.READY],
+    fromPaymentStatus: [OrderPaymentStatus.SUCCESS],
+    toStatus: OrderStatus.DELIVERING,
+    actors: [OperatorType.DELIVERY, OperatorType.SYSTEM],
+    timestamps: [],
+    deniedMessage: "订单状态不允许取餐",
+    remark: "骑手取餐",
+  },
+  {
+    action: OrderAction.CONFIRM,
+    fromStatus: [OrderStatus.DELIVERING],
+    fromPaymentStatus: [OrderPaymentStatus.SUCCESS],
+    toStatus: OrderStatus.COMPLETED,
+    actors: [OperatorType.USER, OperatorType.DELIVERY, OperatorType.SYSTEM],
+    // 切换为已完成时记录实际送达时间
+    timestamps: ["actualDeliveryTime"],
+    deniedMessage: "订单状态不允许确认收货",
+    remark: "用户确认收货",
+  },
+  {
+    action: OrderAction.REFUND,
+    fromStatus: [
+      OrderStatus.CONFIRMED,
+      OrderStatus.PREPARING,
+      OrderStatus.READY,
+      OrderStatus.DELIVERING,
+      OrderStatus.COMPLETED,
+    ],
+    fromPaymentStatus: [OrderPaymentStatus.SUCCESS],
+    toStatus: OrderStatus.CANCELLED,
+    toPaymentStatus: OrderPaymentStatus.REFUNDED,
+    actors: [
+      OperatorType.USER,
+      OperatorType.MERCHANT,
+      OperatorType.ADMIN,
+      OperatorType.SYSTEM,
+    ],
+    timestamps: ["cancelledAt"],
+    deniedMessage: "订单未支付成功或已取消，无法退款",
+    remark: "订单退款",
+  },
+];
+
+class OrderStateMachine {
+  /**
+   * 获取动作对应的流转定义
+   * @param action - 动作
+   * @returns 流转定义
+   */
+  getTransition(action: OrderAction): OrderTransition {
+    const transition = ORDER_TRANSITIONS.find((t) => t.action === action);
+    if (!transition) {
+      throw { message: "不支持的订单动作", code: HttpCode.VALIDATION_ERROR };
+    }
+    return transition;
+  }
+
+  /**
+   * 判断订单当前状态是否满足流转的前置条件（不含操作者校验）
+   * @param order - 订单
+   * @param transition - 流转定义
+   * @param at - 动作发生时间
+   * @returns 不满足时返回错误信息，满足时返回null
+   */
+  private checkState(
+    order: Order,
+    transition: OrderTransition,
+    at: Date
+  ): string | null {
+    if (
+      !transition.fromStatus.includes(order.orderStatus) ||
+      !transition.fromPaymentStatus.includes(order.paymentStatus)
+    ) {
+      return transition.deniedMessage;
+    }
+    return transition.guard ? transition.guard(order, at) : null;
+  }
+
+  /**
+   * 校验并计算状态流转结果
+   * @param order - 订单
+   * @param action - 动作
+   * @param actor - 操作者类型
+   * @param remark - 备注，不填则使用流转表默认备注
+   * @param at - 动作发生时间（如渠道确认的支付完成时间），默认为当前时间
+   * @returns 状态流转结果
+   */
+  transition(
+    order: Order,
+    action: OrderAction,
+    actor: OperatorType,
+    remark?: string,
+    at: Date = new Date()
+  ): OrderTransitionResult {
+    const transition = this.getTransition(action);
+
+    if (!transition.actors.includes(actor)) {
+      throw { message: "无权执行该操作", code: HttpCode.FORBIDDEN };
+    }
+
+    const denied = this.checkState(order, transition, at);
+    if (denied) {
+      throw { message: denied, code: HttpCode.VALIDATION_ERROR };
+    }
+
+    const timestamps: OrderTransitionResult["timestamps"] = {};
+    transition.timestamps.forEach((field) => {
+      timestamps[field] = at;
+    });
+
+    return {
+      action,
+      fromStatus: order.orderStatus,
+      fromPaymentStatus: order.paymentStatus,
+      toStatus: transition.toStatus,
+      toPaymentStatus: transition.toPaymentStatus ?? order.paymentStatus,
+      timestamps,
+      operatorType: actor,
+      remark: remark || transition.remark,
+    };
+  }
+
+  /**
+   * 获取订单当前可用的动作
+   * @param order - 订单
+   * @param actor - 操作者类型，不填则返回所有操作者可用的动作
+   * @returns 可用动作列表
+   */
+  getAvailableActions(
+    order: Order,
+    actor?: OperatorType
+  ): OrderAvailableAction[] {
+    const now = new Date();
+    return ORDER_TRANSITIONS.filter(
+      (t) =>
+        (!actor || t.actors.includes(actor)) && !this.checkState(order, t, now)
+    ).map((t) => ({
+      action: t.action,
+      toStatus: t.toStatus,
+      toPaymentStatus: t.toPaymentStatus ?? order.paymentStatus,
+      actors: t.actors,
+    }));
+  }
+}
+
+// 导出单例实例
+const orderStateMachine = new OrderStateMachine();
+export default orderStateMachine;
@@ -0,0 +1,163 @@
+import { Request, Response } from 'express';
+import paymentService from '../services/payment.service';
+import paymentGatewayRegistry from '../gateways';
+import { successResponse, errorResponse } from '../../../utils/response';
+import logger, { securityLogger } from '../../../utils/logger';
+import { HttpCode } from '../../../types/index';
+import { PaymentMethod } from '../../order/models/order';
+
+class PaymentController {
+  /**
+   * 为订单发起支付
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async createPayment(req: Request, res: Response): Promise<void> {
+    try {
+      securityLogger.info('用户发起订单支付', {
+        userId: req.user?.userId,
+        orderId: req.body.orderId,
+        paymentMethod: req.body.paymentMethod,
+        ip: req.ip
+      });
+
+      const result = await paymentService.createPayment({
+        orderId: Number(req.body.orderId),
+        paymentMethod: req.body.paymentMethod as PaymentMethod,
+        amount: Number(req.body.amount)
+      }, req.user!.userId);
+
+      successResponse(res, '发起支付成功', result);
+    } catch (error: any) {
+      logger.error('发起支付失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        orderId: req.body.orderId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 获取支付记录列表
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async getPayments(req: Request, res: Response): Promise<void> {
+    try {
+      const { page, limit, startDate, endDate, paymentMethod, status } = req.query;
+
+      const result = await paymentService.getPaymentList(req.user!.userId, {
+        page: Number(page) || 1,
+        limit: Number(limit) || 10,
+        ...(startDate && { startDate: startDate as string }),
+        ...(endDate && { endDate: endDate as string }),
+        ...(paymentMethod && { paymentMethod: paymentMethod as string }),
+        ...(status && { status: status as string })
+      });
+
+      successResponse(res, '获取支付记录成功', result);
+    } catch (error: any) {
+      logger.error('获取支付记录失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 查询支付状态
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async getPaymentStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await paymentService.getPaymentStatus(
+        Number(req.params.id),
+        req.user!.userId
+      );
+
+      successResponse(res, '获取支付状态成功', result);
+    } catch (error: any) {
+      logger.error('获取支付状态失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        paymentId: req.params.id,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 取消支付
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async cancelPayment(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await paymentService.cancelPayment(
+        Number(req.params.id),
+        req.user!.userId
+      );
+
+      successResponse(res, '取消支付成功', result);
+    } catch (error: any) {
+      logger.error('取消支付失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        paymentId: req.params.id,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 第三方支付结果通知回调
+   * 响应内容为第三方要求的应答格式，而不是统一的JSON响应
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async handleNotification(req: Request, res: Response): Promise<void> {
+    const method = req.params.method as PaymentMethod;
+    const gateway = paymentGatewayRegistry.find(method);
+    if (!gateway) {
+      res.status(404).type('text/plain').send('fail');
+      return;
+    }
+
+    try {
+      const body = typeof req.body === 'string' ? req.body : '';
+      const ack = await paymentService.handleNotification(method, req.headers, body);
+
+      res.status(200).type(ack.contentType).send(ack.body);
+    } catch (error: any) {
+      logger.error('支付结果通知处理失败', {
+        error: error.message,
+        stack: error.stack,
+        method,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+
+      const ack = gateway.acknowledgeNotification(false);
+      res.status(400).type(ack.contentType).send(ack.body);
+    }
+  }
+}
+
+// 导出单例实例
+const paymentController = new PaymentController();
+export default paymentController;
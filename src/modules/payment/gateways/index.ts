@@ -0,0 +1,90 @@
+import config from "../../../config";
+import { HttpCode } from "../../../types/index";
+import { PaymentMethod } from "../../order/models/order";
+import { PaymentGateway } from "./payment.gateway";
+import { MockPaymentGateway } from "./mock.gateway";
+import {
+  NotificationCodec,
+  wechatNotificationCodec,
+  alipayNotificationCodec,
+} from "./notification.codec";
+
+/**
+ * 支付网关注册表
+ * 按支付方式查找网关实现，未注册的支付方式视为不支持
+ */
+class PaymentGatewayRegistry {
+  private gateways = new Map<PaymentMethod, PaymentGateway>();
+
+  /**
+   * 注册支付网关，同一支付方式重复注册时覆盖
+   * @param gateway - 支付网关
+   */
+  register(gateway: PaymentGateway): void {
+    this.gateways.set(gateway.method, gateway);
+  }
+
+  /**
+   * 查找支付方式对应的网关
+   * @param method - 支付方式
+   * @returns 支付网关，未注册时返回undefined
+   */
+  find(method: PaymentMethod): PaymentGateway | undefined {
+    return this.gateways.get(method);
+  }
+
+  /**
+   * 获取支付方式对应的网关
+   * @param method - 支付方式
+   * @returns 支付网关
+   */
+  get(method: PaymentMethod): PaymentGateway {
+    const gateway = this.find(method);
+    if (!gateway) {
+      throw { message: "不支持的支付方式", code: HttpCode.VALIDATION_ERROR };
+    }
+    return gateway;
+  }
+}
+
+// 导出单例实例
+const paymentGatewayRegistry = new PaymentGatewayRegistry();
+
+// 各支付方式的异步通知编解码，余额支付为同步支付没有异步通知
+const NOTIFICATION_CODECS: Partial<Record<PaymentMethod, NotificationCodec>> = {
+  [PaymentMethod.WECHAT]: wechatNotificationCodec,
+  [PaymentMethod.ALIPAY]: alipayNotificationCodec,
+};
+
+// 配置为使用模拟网关的支付方式注册本地模拟网关，余额支付由钱包处理不经过支付网关
+// 模拟网关不实际扣款，生产环境不注册
+Object.values(PaymentMethod)
+  .filter(
+    (method) =>
+      config.nodeEnv !== "production" &&
+      method !== PaymentMethod.BALANCE &&
+      config.paymentMockMethods.includes(method)
+  )
+  .forEach((method) => {
+    paymentGatewayRegistry.register(
+      new MockPaymentGateway(
+        method,
+        config.paymentMockOutcome,
+        NOTIFICATION_CODECS[method]
+      )
+    );
+  });
+
+/**
+ * 校验模拟支付网关配置（服务启动时调用），生产环境不允许配置模拟网关
+ */
+export const assertPaymentMockDisabled = (): void => {
+  if (config.nodeEnv === "production" && config.paymentMockMethods.length > 0) {
+    throw new Error(
+      "Mock payment gateways do not charge real payments, unset PAYMENT_MOCK_METHODS for production"
+    );
+  }
+};
+
+export * from "./payment.gateway";
+export default paymentGatewayRegistry;
@@ -0,0 +1,173 @@
+import Decimal from "decimal.js";
+import { businessLogger } from "../../../utils/logger";
+import { HttpCode } from "../../../types/index";
+import { PaymentMethod, PaymentStatus } from "../../order/models/order";
+import {
+  ChargeRequest,
+  ChargeResult,
+  GatewayRefundRequest,
+  GatewayRefundResult,
+  GatewayRefundStatus,
+  NotificationAck,
+  PaymentGateway,
+  PaymentNotification,
+} from "./payment.gateway";
+import { NotificationCodec } from "./notification.codec";
+
+/**
+ * 模拟网关处理结果
+ */
+export type MockGatewayOutcome = 'success' | 'fail' | 'pending';
+
+// 模拟网关处理结果对应的支付状态
+const CHARGE_STATUS: Record<MockGatewayOutcome, PaymentStatus> = {
+  success: PaymentStatus.SUCCESS,
+  fail: PaymentStatus.FAILED,
+  pending: PaymentStatus.PENDING,
+};
+
+// 模拟网关处理结果对应的支付提示
+const CHARGE_MESSAGE: Record<MockGatewayOutcome, string> = {
+  success: "支付成功",
+  fail: "支付处理失败，请重试",
+  pending: "等待支付结果",
+};
+
+// 模拟网关处理结果对应的退款状态
+const REFUND_STATUS: Record<MockGatewayOutcome, GatewayRefundStatus> = {
+  success: GatewayRefundStatus.SUCCESS,
+  fail: GatewayRefundStatus.FAILED,
+  pending: GatewayRefundStatus.PROCESSING,
+};
+
+/**
+ * 本地模拟支付网关
+ * 按配置的固定结果处理支付和退款，交易号由商户单号推导，结果可复现，供本地开发和测试使用
+ * 支付通知按对应渠道的报文格式和签名方式解析，可配合 mock.signer 在本地模拟回调
+ */
+export class MockPaymentGateway implements PaymentGateway {
+  // 已发起的支付，用于查询支付结果
+  private charges = new Map<string, ChargeResult>();
+  // 已发起的退款，用于查询退款结果
+  private refunds = new Map<string, GatewayRefundResult>();
+
+  constructor(
+    readonly method: PaymentMethod,
+    private outcome: MockGatewayOutcome,
+    private notificationCodec?: NotificationCodec
+  ) {}
+
+  /**
+   * 修改后续请求的处理结果
+   * @param outcome - 处理结果
+   */
+  setOutcome(outcome: MockGatewayOutcome): void {
+    this.outcome = outcome;
+  }
+
+  async createCharge(request: ChargeRequest): Promise<ChargeResult> {
+    const status = CHARGE_STATUS[this.outcome];
+    const result: ChargeResult = {
+      status,
+      outTradeNo: request.outTradeNo,
+      ...(status === PaymentStatus.SUCCESS && {
+        providerTransactionId: `MOCK${request.outTradeNo}`,
+        paidAt: new Date(),
+      }),
+      message: CHARGE_MESSAGE[this.outcome],
+    };
+
+    this.charges.set(request.outTradeNo, result);
+
+    businessLogger.info("模拟网关发起支付", {
+      method: this.method,
+      outTradeNo: request.outTradeNo,
+      amount: new Decimal(request.amount).toNumber(),
+      status,
+    });
+
+    return result;
+  }
+
+  async queryCharge(outTradeNo: string): Promise<ChargeResult> {
+    const charge = this.charges.get(outTradeNo);
+    if (!charge) {
+      throw { message: "支付交易不存在", code: HttpCode.NOT_FOUND };
+    }
+    return charge;
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    const status = REFUND_STATUS[this.outcome];
+
+    businessLogger.info("模拟网关发起退款", {
+      method: this.method,
+      outTradeNo: request.outTradeNo,
+      outRefundNo: request.outRefundNo,
+      refundAmount: new Decimal(request.refundAmount).toNumber(),
+      status,
+    });
+
+    const result = this.buildRefundResult(request.outRefundNo, status);
+    this.refunds.set(request.outRefundNo, result);
+    return result;
+  }
+
+  /**
+   * 查询退款结果，处理中的退款按当前配置的处理结果返回，可通过 setOutcome 模拟渠道处理完成
+   */
+  async queryRefund(outRefundNo: string): Promise<GatewayRefundResult> {
+    const refund = this.refunds.get(outRefundNo);
+    if (!refund) {
+      throw { message: "退款交易不存在", code: HttpCode.NOT_FOUND };
+    }
+    if (refund.status !== GatewayRefundStatus.PROCESSING) {
+      return refund;
+    }
+
+    const result = this.buildRefundResult(outRefundNo, REFUND_STATUS[this.outcome]);
+    this.refunds.set(outRefundNo, result);
+    return result;
+  }
+
+  async parseNotification(
+    _headers: Record<string, string | string[] | undefined>,
+    body: string
+  ): Promise<PaymentNotification> {
+    if (!this.notificationCodec) {
+      throw { message: "该支付方式不支持异步通知", code: HttpCode.VALIDATION_ERROR };
+    }
+    return this.notificationCodec.parse(body);
+  }
+
+  acknowledgeNotification(success: boolean): NotificationAck {
+    if (!this.notificationCodec) {
+      return { contentType: "text/plain", body: success ? "success" : "fail" };
+    }
+    return this.notificationCodec.acknowledge(success);
+  }
+
+  /**
+   * 生成退款结果
+   * @param outRefundNo - 商户退款单号
+   * @param status - 退款处理状态
+   * @returns 退款结果
+   */
+  private buildRefundResult(
+    outRefundNo: string,
+    status: GatewayRefundStatus
+  ): GatewayRefundResult {
+    return {
+      status,
+      ...(status === GatewayRefundStatus.SUCCESS && {
+        refundTransactionId: `MOCK${outRefundNo}`,
+      }),
+      message:
+        status === GatewayRefundStatus.FAILED
+          ? "退款处理失败，请重试"
+          : status === GatewayRefundStatus.PROCESSING
+            ? "退款处理中"
+            : "退款成功",
+    };
+  }
+}
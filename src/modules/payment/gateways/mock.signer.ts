@@ -0,0 +1,120 @@
+import Decimal from "decimal.js";
+import config from "../../../config";
+import { PaymentMethod } from "../../order/models/order";
+import {
+  buildWechatXml,
+  signWechatParams,
+  signAlipayParams,
+  NotificationParams,
+} from "./signature";
+
+/**
+ * 模拟支付通知数据接口
+ */
+export interface MockNotificationData {
+  /** 商户交易号（支付记录的 transactionId） */
+  outTradeNo: string;
+  /** 支付金额（元） */
+  amount: Decimal | number | string;
+  /** 是否支付成功 */
+  success: boolean;
+}
+
+/**
+ * 模拟支付通知请求接口
+ */
+export interface MockNotificationRequest {
+  /** 请求内容类型 */
+  contentType: string;
+  /** 请求体 */
+  body: string;
+}
+
+/**
+ * 格式化为 yyyy-MM-dd HH:mm:ss（北京时间）
+ * @param date - 时间
+ * @returns 时间字符串
+ */
+const formatBeijingTime = (date: Date): string =>
+  new Date(date.getTime() + 8 * 60 * 60 * 1000)
+    .toISOString()
+    .replace("T", " ")
+    .substring(0, 19);
+
+/**
+ * 生成模拟支付渠道的签名通知，用于本地调用 /api/v1/payments/notify/:method 测试回调
+ * 微信通知使用 wechatApiKey 签名，支付宝通知使用 paymentMockAlipayPrivateKey 签名
+ * @param method - 支付方式
+ * @param data - 通知数据
+ * @returns 通知请求的内容类型和请求体
+ */
+export const signMockNotification = (
+  method: PaymentMethod,
+  data: MockNotificationData
+): MockNotificationRequest => {
+  const amount = new Decimal(data.amount);
+  const now = new Date();
+
+  if (method === PaymentMethod.WECHAT) {
+    const params: NotificationParams = {
+      appid: config.wechatAppId,
+      mch_id: config.wechatMchId,
+      nonce_str: now.getTime().toString(36),
+      return_code: "SUCCESS",
+      result_code: data.success ? "SUCCESS" : "FAIL",
+      out_trade_no: data.outTradeNo,
+      transaction_id: `MOCK${data.outTradeNo}`,
+      // 微信支付金额单位为分
+      total_fee: amount.times(100).toFixed(0),
+      time_end: formatBeijingTime(now).replace(/\D/g, ""),
+      sign_type: "HMAC-SHA256",
+    };
+    params.sign = signWechatParams(params, config.wechatApiKey);
+
+    return { contentType: "text/xml", body: buildWechatXml(params) };
+  }
+
+  if (method === PaymentMethod.ALIPAY) {
+    const params: NotificationParams = {
+      app_id: config.alipayAppId,
+      notify_id: now.getTime().toString(36),
+      notify_time: formatBeijingTime(now),
+      out_trade_no: data.outTradeNo,
+      trade_no: `MOCK${data.outTradeNo}`,
+      trade_status: data.success ? "TRADE_SUCCESS" : "TRADE_CLOSED",
+      total_amount: amount.toFixed(2),
+      gmt_payment: formatBeijingTime(now),
+      sign_type: "RSA2",
+    };
+    params.sign = signAlipayParams(params, config.paymentMockAlipayPrivateKey);
+
+    return {
+      contentType: "application/x-www-form-urlencoded",
+      body: new URLSearchParams(params).toString(),
+    };
+  }
+
+  throw new Error(`支付方式 ${method} 不支持异步通知`);
+};
+
+// 命令行用法：npm run payment:mock-notify -- <wechat|alipay> <transactionId> <amount> [success|fail]
+if (require.main === module) {
+  const [method, outTradeNo, amount, result = "success"] = process.argv.slice(2);
+  if (!method || !outTradeNo || !amount) {
+    console.error(
+      "用法: npm run payment:mock-notify -- <wechat|alipay> <transactionId> <amount> [success|fail]"
+    );
+    process.exit(1);
+  }
+
+  const notification = signMockNotification(method as PaymentMethod, {
+    outTradeNo,
+    amount,
+    success: result === "success",
+  });
+  const body = notification.body.replace(/'/g, "'\\''");
+
+  console.log(
+    `curl -X POST 'http://localhost:${config.port}/api/v1/payments/notify/${method}' -H 'Content-Type: ${notification.contentType}' --data '${body}'`
+  );
+}
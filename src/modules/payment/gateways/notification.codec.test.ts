@@ -0,0 +1,145 @@
+import crypto from "crypto";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import config from "../../../config";
+import { HttpCode } from "../../../types/index";
+import { PaymentStatus } from "../../order/models/order";
+import {
+  alipayNotificationCodec,
+  wechatNotificationCodec,
+} from "./notification.codec";
+import { buildWechatXml, signAlipayParams, signWechatParams } from "./signature";
+
+vi.mock("../../../utils/logger", () => ({
+  securityLogger: { warn: vi.fn() },
+}));
+
+const WECHAT_API_KEY = "test-wechat-api-key";
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+});
+const ALIPAY_PRIVATE_KEY = privateKey
+  .export({ type: "pkcs8", format: "pem" })
+  .toString();
+
+/**
+ * 生成签名后的微信支付通知报文
+ * @param params - 通知参数
+ * @returns XML报文
+ */
+const buildWechatBody = (params: Record<string, string>): string =>
+  buildWechatXml({ ...params, sign: signWechatParams(params, WECHAT_API_KEY) });
+
+/**
+ * 生成签名后的支付宝通知报文
+ * @param params - 通知参数
+ * @returns 表单报文
+ */
+const buildAlipayBody = (params: Record<string, string>): string =>
+  new URLSearchParams({
+    ...params,
+    sign_type: "RSA2",
+    sign: signAlipayParams(params, ALIPAY_PRIVATE_KEY),
+  }).toString();
+
+beforeEach(() => {
+  config.wechatApiKey = WECHAT_API_KEY;
+  config.alipayPublicKey = publicKey
+    .export({ type: "spki", format: "pem" })
+    .toString();
+});
+
+describe("wechatNotificationCodec.parse", () => {
+  const params = {
+    return_code: "SUCCESS",
+    result_code: "SUCCESS",
+    out_trade_no: "TXN1001",
+    transaction_id: "4200001001",
+    total_fee: "3550",
+    time_end: "20261019200000",
+  };
+
+  it("解析支付成功通知，金额由分转换为元，支付时间按北京时间解析", () => {
+    const notification = wechatNotificationCodec.parse(buildWechatBody(params));
+
+    expect(notification).toEqual({
+      outTradeNo: "TXN1001",
+      providerTransactionId: "4200001001",
+      status: PaymentStatus.SUCCESS,
+      amount: expect.anything(),
+      paidAt: new Date("2026-10-19T12:00:00Z"),
+    });
+    expect(notification.amount.toNumber()).toBe(35.5);
+  });
+
+  it("业务结果失败时解析为支付失败", () => {
+    const notification = wechatNotificationCodec.parse(
+      buildWechatBody({ ...params, result_code: "FAIL" })
+    );
+
+    expect(notification.status).toBe(PaymentStatus.FAILED);
+  });
+
+  it("签名无效时拒绝通知", () => {
+    const body = buildWechatBody(params).replace("3550", "1");
+
+    expect(() => wechatNotificationCodec.parse(body)).toThrow(
+      expect.objectContaining({ code: HttpCode.AUTH_FAILED })
+    );
+  });
+
+  it("缺少金额时返回格式错误", () => {
+    const { total_fee, ...rest } = params;
+
+    expect(() => wechatNotificationCodec.parse(buildWechatBody(rest))).toThrow(
+      expect.objectContaining({ code: HttpCode.VALIDATION_ERROR })
+    );
+  });
+});
+
+describe("alipayNotificationCodec.parse", () => {
+  const params = {
+    out_trade_no: "TXN1002",
+    trade_no: "2026101922001",
+    trade_status: "TRADE_SUCCESS",
+    total_amount: "35.50",
+    gmt_payment: "2026-10-19 20:00:00",
+  };
+
+  it("解析支付成功通知，支付时间按北京时间解析", () => {
+    const notification = alipayNotificationCodec.parse(buildAlipayBody(params));
+
+    expect(notification).toEqual({
+      outTradeNo: "TXN1002",
+      providerTransactionId: "2026101922001",
+      status: PaymentStatus.SUCCESS,
+      amount: expect.anything(),
+      paidAt: new Date("2026-10-19T12:00:00Z"),
+    });
+    expect(notification.amount.toNumber()).toBe(35.5);
+  });
+
+  it("交易关闭时解析为支付失败", () => {
+    const notification = alipayNotificationCodec.parse(
+      buildAlipayBody({ ...params, trade_status: "TRADE_CLOSED" })
+    );
+
+    expect(notification.status).toBe(PaymentStatus.FAILED);
+  });
+
+  it("签名无效时拒绝通知", () => {
+    const body = buildAlipayBody(params).replace("35.50", "0.01");
+
+    expect(() => alipayNotificationCodec.parse(body)).toThrow(
+      expect.objectContaining({ code: HttpCode.AUTH_FAILED })
+    );
+  });
+
+  it("未知的交易状态返回格式错误", () => {
+    expect(() =>
+      alipayNotificationCodec.parse(
+        buildAlipayBody({ ...params, trade_status: "UNKNOWN" })
+      )
+    ).toThrow(expect.objectContaining({ code: HttpCode.VALIDATION_ERROR }));
+  });
+});
@@ -0,0 +1,150 @@
+import Decimal from "decimal.js";
+import config from "../../../config";
+import { HttpCode } from "../../../types/index";
+import { securityLogger } from "../../../utils/logger";
+import { PaymentStatus } from "../../order/models/order";
+import { NotificationAck, PaymentNotification } from "./payment.gateway";
+import {
+  NotificationParams,
+  parseWechatXml,
+  buildWechatXml,
+  verifyWechatParams,
+  verifyAlipayParams,
+} from "./signature";
+
+/**
+ * 支付通知编解码接口
+ * 负责校验第三方回调签名、转换为统一的支付通知，以及生成第三方要求的应答
+ */
+export interface NotificationCodec {
+  /**
+   * 校验签名并解析支付通知
+   * @param body - 回调原始请求体
+   * @returns 支付通知
+   */
+  parse(body: string): PaymentNotification;
+
+  /**
+   * 生成回调应答
+   * @param success - 是否处理成功
+   * @returns 应答内容
+   */
+  acknowledge(success: boolean): NotificationAck;
+}
+
+/**
+ * 解析 yyyyMMddHHmmss 格式的时间（微信支付 time_end，北京时间）
+ * @param value - 时间字符串
+ * @returns 时间
+ */
+const parseWechatTime = (value: string): Date | undefined => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/);
+  if (!match) return undefined;
+  const [, year, month, day, hour, minute, second] = match;
+  return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}+08:00`);
+};
+
+/**
+ * 签名校验失败时记录安全日志并抛出异常
+ * @param method - 支付方式
+ * @param params - 通知参数
+ */
+const rejectInvalidSignature = (method: string, params: NotificationParams): never => {
+  securityLogger.warn("支付通知签名校验失败", {
+    method,
+    outTradeNo: params.out_trade_no,
+  });
+  throw { message: "支付通知签名无效", code: HttpCode.AUTH_FAILED };
+};
+
+/**
+ * 微信支付通知编解码（XML报文，HMAC-SHA256签名，使用 wechatApiKey 校验）
+ */
+class WechatNotificationCodec implements NotificationCodec {
+  parse(body: string): PaymentNotification {
+    const params = parseWechatXml(body);
+    if (!verifyWechatParams(params, config.wechatApiKey)) {
+      rejectInvalidSignature("wechat", params);
+    }
+
+    if (!params.out_trade_no || !params.total_fee) {
+      throw { message: "支付通知格式错误", code: HttpCode.VALIDATION_ERROR };
+    }
+
+    const paidAt = params.time_end ? parseWechatTime(params.time_end) : undefined;
+
+    return {
+      outTradeNo: params.out_trade_no,
+      ...(params.transaction_id && {
+        providerTransactionId: params.transaction_id,
+      }),
+      status:
+        params.return_code === "SUCCESS" && params.result_code === "SUCCESS"
+          ? PaymentStatus.SUCCESS
+          : PaymentStatus.FAILED,
+      // 微信支付金额单位为分
+      amount: new Decimal(params.total_fee).dividedBy(100),
+      ...(paidAt && { paidAt }),
+    };
+  }
+
+  acknowledge(success: boolean): NotificationAck {
+    return {
+      contentType: "text/xml",
+      body: buildWechatXml({
+        return_code: success ? "SUCCESS" : "FAIL",
+        return_msg: success ? "OK" : "FAIL",
+      }),
+    };
+  }
+}
+
+// 支付宝交易状态对应的支付状态
+const ALIPAY_TRADE_STATUS: Record<string, PaymentStatus> = {
+  TRADE_SUCCESS: PaymentStatus.SUCCESS,
+  TRADE_FINISHED: PaymentStatus.SUCCESS,
+  TRADE_CLOSED: PaymentStatus.FAILED,
+  WAIT_BUYER_PAY: PaymentStatus.PENDING,
+};
+
+/**
+ * 支付宝通知编解码（表单报文，RSA2签名，使用 alipayPublicKey 校验）
+ */
+class AlipayNotificationCodec implements NotificationCodec {
+  parse(body: string): PaymentNotification {
+    const params: NotificationParams = Object.fromEntries(
+      new URLSearchParams(body)
+    );
+    if (!verifyAlipayParams(params, config.alipayPublicKey)) {
+      rejectInvalidSignature("alipay", params);
+    }
+
+    const status = params.trade_status
+      ? ALIPAY_TRADE_STATUS[params.trade_status]
+      : undefined;
+    if (!params.out_trade_no || !params.total_amount || !status) {
+      throw { message: "支付通知格式错误", code: HttpCode.VALIDATION_ERROR };
+    }
+
+    return {
+      outTradeNo: params.out_trade_no,
+      ...(params.trade_no && { providerTransactionId: params.trade_no }),
+      status,
+      amount: new Decimal(params.total_amount),
+      ...(params.gmt_payment && {
+        paidAt: new Date(`${params.gmt_payment.replace(" ", "T")}+08:00`),
+      }),
+    };
+  }
+
+  acknowledge(success: boolean): NotificationAck {
+    return {
+      contentType: "text/plain",
+      body: success ? "success" : "fail",
+    };
+  }
+}
+
+// 导出单例实例
+export const wechatNotificationCodec = new WechatNotificationCodec();
+export const alipayNotificationCodec = new AlipayNotificationCodec();
@@ -0,0 +1,152 @@
+import Decimal from "decimal.js";
+import { PaymentMethod, PaymentStatus } from "../../order/models/order";
+
+/**
+ * 第三方退款处理状态枚举
+ */
+export enum GatewayRefundStatus {
+  SUCCESS = 'success',       // 退款成功
+  PROCESSING = 'processing', // 退款处理中，等待渠道结果
+  FAILED = 'failed'          // 退款失败
+}
+
+/**
+ * 发起支付请求参数接口
+ */
+export interface ChargeRequest {
+  /** 商户交易号（对应支付记录的 transactionId） */
+  outTradeNo: string;
+  /** 订单ID */
+  orderId: number;
+  /** 用户ID */
+  userId: number;
+  /** 支付金额 */
+  amount: Decimal;
+  /** 商品描述，可选 */
+  description?: string;
+}
+
+/**
+ * 发起支付结果接口
+ */
+export interface ChargeResult {
+  /** 支付状态：成功、失败或待支付（等待异步通知） */
+  status: PaymentStatus;
+  /** 商户交易号 */
+  outTradeNo: string;
+  /** 第三方交易流水号，可选 */
+  providerTransactionId?: string;
+  /** 支付完成时间，支付成功时返回 */
+  paidAt?: Date;
+  /** 结果消息 */
+  message: string;
+}
+
+/**
+ * 发起退款请求参数接口
+ */
+export interface GatewayRefundRequest {
+  /** 原支付的商户交易号 */
+  outTradeNo: string;
+  /** 商户退款单号 */
+  outRefundNo: string;
+  /** 退款金额 */
+  refundAmount: Decimal;
+  /** 原支付金额 */
+  totalAmount: Decimal;
+  /** 退款原因，可选 */
+  reason?: string;
+}
+
+/**
+ * 发起退款结果接口
+ */
+export interface GatewayRefundResult {
+  /** 退款处理状态 */
+  status: GatewayRefundStatus;
+  /** 第三方退款流水号，可选 */
+  refundTransactionId?: string;
+  /** 结果消息 */
+  message: string;
+}
+
+/**
+ * 支付结果通知接口（由网关解析第三方回调得到）
+ */
+export interface PaymentNotification {
+  /** 商户交易号 */
+  outTradeNo: string;
+  /** 第三方交易流水号，可选 */
+  providerTransactionId?: string;
+  /** 支付状态 */
+  status: PaymentStatus;
+  /** 实际支付金额 */
+  amount: Decimal;
+  /** 支付完成时间，可选 */
+  paidAt?: Date;
+}
+
+/**
+ * 支付通知应答接口（第三方要求的回调响应内容）
+ */
+export interface NotificationAck {
+  /** 响应内容类型 */
+  contentType: string;
+  /** 响应内容 */
+  body: string;
+}
+
+/**
+ * 支付网关接口
+ * 每种支付方式对应一个网关实现，订单和退款流程只依赖该接口
+ */
+export interface PaymentGateway {
+  /** 网关对应的支付方式 */
+  readonly method: PaymentMethod;
+
+  /**
+   * 发起支付
+   * @param request - 支付请求
+   * @returns 支付结果
+   */
+  createCharge(request: ChargeRequest): Promise<ChargeResult>;
+
+  /**
+   * 查询支付结果
+   * @param outTradeNo - 商户交易号
+   * @returns 支付结果
+   */
+  queryCharge(outTradeNo: string): Promise<ChargeResult>;
+
+  /**
+   * 发起退款
+   * @param request - 退款请求
+   * @returns 退款结果
+   */
+  refund(request: GatewayRefundRequest): Promise<GatewayRefundResult>;
+
+  /**
+   * 查询退款结果
+   * @param outRefundNo - 商户退款单号
+   * @returns 退款结果，渠道没有该退款单时抛出 NOT_FOUND 业务错误
+   */
+  queryRefund(outRefundNo: string): Promise<GatewayRefundResult>;
+
+  /**
+   * 校验签名并解析第三方支付结果通知
+   * @param headers - 回调请求头
+   * @param body - 回调原始请求体
+   * @returns 支付结果通知
+   */
+  parseNotification(
+    headers: Record<string, string | string[] | undefined>,
+    body: string
+  ): Promise<PaymentNotification>;
+
+  /**
+   * 生成第三方要求的回调应答
+   * @param success - 是否处理成功
+   * @returns 应答内容
+   */
+  acknowledgeNotification(success: boolean): NotificationAck;
+}
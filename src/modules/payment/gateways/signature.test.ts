@@ -0,0 +1,118 @@
+import crypto from "crypto";
+import { describe, expect, it } from "vitest";
+import {
+  buildWechatXml,
+  parseWechatXml,
+  signAlipayParams,
+  signWechatParams,
+  verifyAlipayParams,
+  verifyWechatParams,
+} from "./signature";
+
+const WECHAT_API_KEY = "test-wechat-api-key";
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+});
+// 配置中的支付宝公钥通常只填写密钥内容，不带PEM头尾
+const ALIPAY_PUBLIC_KEY = publicKey
+  .export({ type: "spki", format: "der" })
+  .toString("base64");
+const ALIPAY_PRIVATE_KEY = privateKey
+  .export({ type: "pkcs8", format: "pem" })
+  .toString();
+
+describe("verifyWechatParams", () => {
+  const params = {
+    out_trade_no: "TXN1001",
+    total_fee: "3500",
+    result_code: "SUCCESS",
+  };
+
+  it("签名正确时校验通过", () => {
+    const sign = signWechatParams(params, WECHAT_API_KEY);
+
+    expect(sign).toMatch(/^[0-9A-F]{64}$/);
+    expect(verifyWechatParams({ ...params, sign }, WECHAT_API_KEY)).toBe(true);
+  });
+
+  it("参数被篡改或密钥不一致时校验失败", () => {
+    const sign = signWechatParams(params, WECHAT_API_KEY);
+
+    expect(
+      verifyWechatParams({ ...params, total_fee: "1", sign }, WECHAT_API_KEY)
+    ).toBe(false);
+    expect(verifyWechatParams({ ...params, sign }, "other-key")).toBe(false);
+  });
+
+  it("缺少签名或未配置密钥时校验失败", () => {
+    const sign = signWechatParams(params, WECHAT_API_KEY);
+
+    expect(verifyWechatParams(params, WECHAT_API_KEY)).toBe(false);
+    expect(verifyWechatParams({ ...params, sign }, "")).toBe(false);
+  });
+
+  it("空值参数不参与签名", () => {
+    const sign = signWechatParams(params, WECHAT_API_KEY);
+
+    expect(
+      verifyWechatParams({ ...params, attach: "", sign }, WECHAT_API_KEY)
+    ).toBe(true);
+  });
+});
+
+describe("verifyAlipayParams", () => {
+  const params = {
+    out_trade_no: "TXN1002",
+    total_amount: "35.00",
+    trade_status: "TRADE_SUCCESS",
+  };
+
+  it("签名正确时校验通过，sign_type 不参与签名", () => {
+    const sign = signAlipayParams(params, ALIPAY_PRIVATE_KEY);
+
+    expect(
+      verifyAlipayParams(
+        { ...params, sign_type: "RSA2", sign },
+        ALIPAY_PUBLIC_KEY
+      )
+    ).toBe(true);
+  });
+
+  it("参数被篡改时校验失败", () => {
+    const sign = signAlipayParams(params, ALIPAY_PRIVATE_KEY);
+
+    expect(
+      verifyAlipayParams(
+        { ...params, total_amount: "0.01", sign },
+        ALIPAY_PUBLIC_KEY
+      )
+    ).toBe(false);
+  });
+
+  it("缺少签名、未配置公钥或公钥格式错误时校验失败", () => {
+    const sign = signAlipayParams(params, ALIPAY_PRIVATE_KEY);
+
+    expect(verifyAlipayParams(params, ALIPAY_PUBLIC_KEY)).toBe(false);
+    expect(verifyAlipayParams({ ...params, sign }, "")).toBe(false);
+    expect(verifyAlipayParams({ ...params, sign }, "invalid-key")).toBe(false);
+  });
+});
+
+describe("parseWechatXml", () => {
+  it("解析 CDATA 和普通文本节点", () => {
+    const xml =
+      "<xml><return_code><![CDATA[SUCCESS]]></return_code><total_fee>3500</total_fee></xml>";
+
+    expect(parseWechatXml(xml)).toEqual({
+      return_code: "SUCCESS",
+      total_fee: "3500",
+    });
+  });
+
+  it("与 buildWechatXml 生成的报文互相转换", () => {
+    const params = { return_code: "SUCCESS", return_msg: "OK" };
+
+    expect(parseWechatXml(buildWechatXml(params))).toEqual(params);
+  });
+});
@@ -0,0 +1,140 @@
+import crypto from "crypto";
+
+/**
+ * 支付通知参数（第三方回调中的键值对）
+ */
+export type NotificationParams = Record<string, string>;
+
+/**
+ * 按参数名ASCII排序拼接待签名字符串，跳过空值和指定的参数
+ * @param params - 通知参数
+ * @param excludeKeys - 不参与签名的参数名
+ * @returns 待签名字符串
+ */
+const buildSignContent = (
+  params: NotificationParams,
+  excludeKeys: string[]
+): string =>
+  Object.keys(params)
+    .filter((key) => !excludeKeys.includes(key) && params[key] !== "")
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join("&");
+
+/**
+ * 常量时间比较两个字符串，避免时序攻击
+ * @param a - 字符串a
+ * @param b - 字符串b
+ * @returns 是否相等
+ */
+const safeEqual = (a: string, b: string): boolean => {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+};
+
+/**
+ * 将支付宝公钥/私钥补全为PEM格式（配置中通常只填写密钥内容）
+ * @param key - 密钥
+ * @param type - 密钥类型
+ * @returns PEM格式密钥
+ */
+const toPem = (key: string, type: "PUBLIC KEY" | "PRIVATE KEY"): string => {
+  if (key.includes("-----BEGIN")) return key;
+  const body = key.replace(/\s+/g, "").match(/.{1,64}/g)?.join("\n") ?? "";
+  return `-----BEGIN ${type}-----\n${body}\n-----END ${type}-----`;
+};
+
+/**
+ * 微信支付签名（HMAC-SHA256）
+ * @param params - 通知参数
+ * @param apiKey - 商户API密钥
+ * @returns 大写十六进制签名
+ */
+export const signWechatParams = (
+  params: NotificationParams,
+  apiKey: string
+): string => {
+  const content = `${buildSignContent(params, ["sign"])}&key=${apiKey}`;
+  return crypto
+    .createHmac("sha256", apiKey)
+    .update(content, "utf8")
+    .digest("hex")
+    .toUpperCase();
+};
+
+/**
+ * 校验微信支付通知签名
+ * @param params - 通知参数（包含sign）
+ * @param apiKey - 商户API密钥
+ * @returns 签名是否有效
+ */
+export const verifyWechatParams = (
+  params: NotificationParams,
+  apiKey: string
+): boolean => {
+  if (!apiKey || !params.sign) return false;
+  return safeEqual(signWechatParams(params, apiKey), params.sign);
+};
+
+/**
+ * 支付宝签名（RSA2，即SHA256WithRSA）
+ * @param params - 通知参数
+ * @param privateKey - 签名私钥
+ * @returns Base64签名
+ */
+export const signAlipayParams = (
+  params: NotificationParams,
+  privateKey: string
+): string =>
+  crypto
+    .createSign("RSA-SHA256")
+    .update(buildSignContent(params, ["sign", "sign_type"]), "utf8")
+    .sign(toPem(privateKey, "PRIVATE KEY"), "base64");
+
+/**
+ * 校验支付宝通知签名
+ * @param params - 通知参数（包含sign）
+ * @param publicKey - 支付宝公钥
+ * @returns 签名是否有效
+ */
+export const verifyAlipayParams = (
+  params: NotificationParams,
+  publicKey: string
+): boolean => {
+  if (!publicKey || !params.sign) return false;
+  try {
+    return crypto
+      .createVerify("RSA-SHA256")
+      .update(buildSignContent(params, ["sign", "sign_type"]), "utf8")
+      .verify(toPem(publicKey, "PUBLIC KEY"), params.sign, "base64");
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * 生成微信支付XML报文
+ * @param params - 报文参数
+ * @returns XML字符串
+ */
+export const buildWechatXml = (params: NotificationParams): string =>
+  `<xml>${Object.entries(params)
+    .map(([key, value]) => `<${key}><![CDATA[${value}]]></${key}>`)
+    .join("")}</xml>`;
+
+/**
+ * 解析微信支付XML报文（只包含一层节点）
+ * @param xml - XML字符串
+ * @returns 报文参数
+ */
+export const parseWechatXml = (xml: string): NotificationParams => {
+  const params: NotificationParams = {};
+  const pattern = /<(\w+)>(?:<!\[CDATA\[([\s\S]*?)\]\]>|([^<]*))<\/\1>/g;
+  const content = xml.replace(/^\s*<xml>|<\/xml>\s*$/g, "");
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) {
+    params[match[1]!] = match[2] ?? match[3] ?? "";
+  }
+  return params;
+};
@@ -0,0 +1,250 @@
+import { prisma } from "../../../database/prisma";
+import Decimal from "decimal.js";
+import { Prisma } from "@prisma/client";
+import {
+  OrderPaymentStatus,
+  OrderStatus,
+  PaymentMethod,
+  PaymentRecord,
+  PaymentStatus,
+} from "../../order/models/order";
+import { PaymentQueryParams } from "../../../types/payment";
+import { PaymentDetail } from "./payment";
+
+class PaymentModel {
+  /**
+   * 创建支付记录
+   * @param paymentRecord - 支付记录数据
+   * @returns 支付记录ID
+   */
+  async createPaymentRecord(paymentRecord: PaymentRecord): Promise<number> {
+    const result = await prisma.paymentRecords.create({
+      data: {
+        orderId: paymentRecord.orderId,
+        userId: paymentRecord.userId,
+        paymentMethod: paymentRecord.paymentMethod,
+        paymentAmount: paymentRecord.paymentAmount,
+        transactionId: paymentRecord.transactionId,
+      },
+    });
+    return result.id;
+  }
+
+  /**
+   * 根据ID查询用户的支付详情（包含订单状态）
+   * @param id - 支付记录ID
+   * @param userId - 用户ID
+   * @returns 支付详情
+   */
+  async findDetailById(
+    id: number,
+    userId: number
+  ): Promise<PaymentDetail | null> {
+    const result = await prisma.paymentRecords.findFirst({
+      where: { id, userId },
+      include: {
+        orders: {
+          select: { orderNumber: true, orderStatus: true, paymentStatus: true },
+        },
+      },
+    });
+
+    return result ? this.toPaymentDetail(result) : null;
+  }
+
+  /**
+   * 根据ID查询支付记录
+   * @param id - 支付记录ID
+   * @returns 支付记录
+   */
+  async findPaymentRecordById(id: number): Promise<PaymentRecord | null> {
+    const result = await prisma.paymentRecords.findUnique({ where: { id } });
+    return result ? this.toPaymentRecord(result) : null;
+  }
+
+  /**
+   * 根据订单ID和支付状态查询支付记录
+   * @param orderId - 订单ID
+   * @param paymentStatus - 支付状态
+   * @returns 支付记录
+   */
+  async findPaymentRecord(
+    orderId: number,
+    paymentStatus: PaymentStatus
+  ): Promise<PaymentRecord | null> {
+    const result = await prisma.paymentRecords.findFirst({
+      where: {
+        orderId: orderId,
+        paymentStatus: paymentStatus,
+      },
+    });
+
+    return result ? this.toPaymentRecord(result) : null;
+  }
+
+  /**
+   * 查询订单所有支付成功的记录，按创建时间排序
+   * @param orderId - 订单ID
+   * @returns 支付记录列表
+   */
+  async findSuccessPaymentRecords(orderId: number): Promise<PaymentRecord[]> {
+    const results = await prisma.paymentRecords.findMany({
+      where: { orderId, paymentStatus: PaymentStatus.SUCCESS },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return results.map((result) => this.toPaymentRecord(result));
+  }
+
+  /**
+   * 根据商户交易号查询支付记录
+   * @param transactionId - 商户交易号
+   * @returns 支付记录
+   */
+  async findPaymentRecordByTransactionId(
+    transactionId: string
+  ): Promise<PaymentRecord | null> {
+    const result = await prisma.paymentRecords.findFirst({
+      where: { transactionId },
+    });
+
+    return result ? this.toPaymentRecord(result) : null;
+  }
+
+  /**
+   * 修改支付记录状态,只做普通更新,不涉及联动其他数据
+   * @param paymentId - 支付记录ID
+   * @param paymentStatus - 支付状态
+   * @param failureReason - 失败原因，可选
+   * @returns 支付记录ID
+   */
+  async updatePayRecordStatus(
+    paymentId: number,
+    paymentStatus: PaymentStatus,
+    failureReason?: string
+  ): Promise<number> {
+    const paymentRecord = await prisma.paymentRecords.update({
+      data: {
+        paymentStatus: paymentStatus,
+        ...(failureReason && { failureReason }),
+      },
+      where: {
+        id: paymentId,
+      },
+    });
+    return paymentRecord.id;
+  }
+
+  /**
+   * 取消支付（乐观锁：仅待支付、支付中的记录可以取消）
+   * @param paymentId - 支付记录ID
+   * @param failureReason - 取消原因
+   * @returns 是否取消成功
+   */
+  async cancelPendingPayment(
+    paymentId: number,
+    failureReason: string
+  ): Promise<boolean> {
+    const updateResult = await prisma.paymentRecords.updateMany({
+      where: {
+        id: paymentId,
+        paymentStatus: {
+          in: [PaymentStatus.PENDING, PaymentStatus.PROCESSING],
+        },
+      },
+      data: { paymentStatus: PaymentStatus.FAILED, failureReason },
+    });
+    return updateResult.count > 0;
+  }
+
+  /**
+   * 获取用户的支付记录列表（带分页和筛选）
+   * @param userId - 用户ID
+   * @param options - 查询选项
+   * @returns 支付记录列表和总数
+   */
+  async getPaymentListWithPagination(
+    userId: number,
+    options: PaymentQueryParams
+  ): Promise<{ payments: PaymentDetail[]; total: number }> {
+    const page = options.page || 1;
+    const limit = options.limit || 10;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.PaymentRecordsWhereInput = { userId };
+    if (options.paymentMethod) {
+      where.paymentMethod = options.paymentMethod as PaymentMethod;
+    }
+    if (options.status) {
+      where.paymentStatus = options.status as PaymentStatus;
+    }
+    if (options.startDate || options.endDate) {
+      where.createdAt = {
+        ...(options.startDate && { gte: new Date(options.startDate) }),
+        ...(options.endDate && { lte: new Date(options.endDate) }),
+      };
+    }
+
+    const [payments, total] = await Promise.all([
+      prisma.paymentRecords.findMany({
+        where: where,
+        include: {
+          orders: {
+            select: { orderNumber: true, orderStatus: true, paymentStatus: true },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+        skip: skip,
+        take: limit,
+      }),
+      prisma.paymentRecords.count({ where: where }),
+    ]);
+
+    return {
+      payments: payments.map((payment) => this.toPaymentDetail(payment)),
+      total,
+    };
+  }
+
+  /**
+   * 转换支付记录数据，处理Decimal和枚举类型
+   * @param paymentRecord - 数据库支付记录
+   * @returns 支付记录实体
+   */
+  private toPaymentRecord(paymentRecord: any): PaymentRecord {
+    return {
+      ...paymentRecord,
+      paymentAmount: new Decimal(paymentRecord.paymentAmount),
+      paymentStatus: paymentRecord.paymentStatus as PaymentStatus,
+      paymentMethod: paymentRecord.paymentMethod as PaymentMethod,
+    };
+  }
+
+  /**
+   * 转换支付详情数据
+   * @param paymentRecord - 数据库支付记录（包含订单）
+   * @returns 支付详情
+   */
+  private toPaymentDetail(paymentRecord: any): PaymentDetail {
+    return {
+      paymentId: paymentRecord.id,
+      orderId: paymentRecord.orderId,
+      orderNumber: paymentRecord.orders.orderNumber,
+      paymentMethod: paymentRecord.paymentMethod as PaymentMethod,
+      paymentAmount: new Decimal(paymentRecord.paymentAmount),
+      transactionId: paymentRecord.transactionId,
+      providerTransactionId: paymentRecord.providerTransactionId,
+      paymentStatus: paymentRecord.paymentStatus as PaymentStatus,
+      paymentTime: paymentRecord.paymentTime,
+      failureReason: paymentRecord.failureReason,
+      orderStatus: paymentRecord.orders.orderStatus as OrderStatus,
+      orderPaymentStatus: paymentRecord.orders
+        .paymentStatus as OrderPaymentStatus,
+      createdAt: paymentRecord.createdAt,
+    };
+  }
+}
+
+// 导出单例实例
+const paymentModel = new PaymentModel();
+export default paymentModel;
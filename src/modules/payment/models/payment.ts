@@ -0,0 +1,63 @@
+import Decimal from "decimal.js";
+import {
+  OrderPaymentStatus,
+  OrderStatus,
+  PaymentMethod,
+  PaymentStatus,
+} from "../../order/models/order";
+
+/**
+ * 创建支付请求参数接口
+ */
+export interface CreatePaymentRequest {
+  /** 订单ID */
+  orderId: number;
+  /** 支付方式，可选，传入时必须与下单时选择的支付方式一致 */
+  paymentMethod?: PaymentMethod;
+  /** 支付金额，可选，传入时必须与订单金额一致 */
+  amount?: number;
+}
+
+/**
+ * 支付详情接口（查询支付状态、支付列表）
+ */
+export interface PaymentDetail {
+  /** 支付记录ID */
+  paymentId: number;
+  /** 订单ID */
+  orderId: number;
+  /** 订单号 */
+  orderNumber: string;
+  /** 支付方式 */
+  paymentMethod: PaymentMethod;
+  /** 支付金额 */
+  paymentAmount: Decimal;
+  /** 商户交易号 */
+  transactionId: string;
+  /** 第三方交易流水号 */
+  providerTransactionId: string | null;
+  /** 支付状态 */
+  paymentStatus: PaymentStatus;
+  /** 支付时间 */
+  paymentTime: Date | null;
+  /** 支付失败原因 */
+  failureReason: string | null;
+  /** 订单状态 */
+  orderStatus: OrderStatus;
+  /** 订单支付状态 */
+  orderPaymentStatus: OrderPaymentStatus;
+  /** 创建时间 */
+  createdAt: Date;
+}
+
+/**
+ * 取消支付响应数据接口
+ */
+export interface CancelPaymentResponse {
+  /** 支付记录ID */
+  paymentId: number;
+  /** 订单ID */
+  orderId: number;
+  /** 取消后的支付状态 */
+  paymentStatus: PaymentStatus;
+}
@@ -0,0 +1,400 @@
+import { prisma } from "../../../database/prisma";
+import Decimal from "decimal.js";
+import { Prisma } from "@prisma/client";
+import {
+  PaymentMethod,
+  PaymentStatus,
+  RefundStatus,
+} from "../../order/models/order";
+import { ReconciliationQueryParams } from "../../../types/payment";
+import { HttpCode } from "../../../types/index";
+import {
+  LocalTransaction,
+  Reconciliation,
+  ReconciliationHandleStatus,
+  ReconciliationItem,
+  ReconciliationItemInput,
+  ReconciliationItemType,
+  ReconciliationResult,
+  ReconciliationSource,
+  ReconciliationStatus,
+} from "./reconciliation";
+
+class ReconciliationModel {
+  /**
+   * 查询时间范围内已成功的本地交易（支付成功、充值到账、退款完成）
+   * @param method - 支付方式
+   * @param start - 开始时间（含）
+   * @param end - 结束时间（不含）
+   * @returns 本地交易列表
+   */
+  async findSettledTransactionsBetween(
+    method: PaymentMethod,
+    start: Date,
+    end: Date
+  ): Promise<LocalTransaction[]> {
+    const [payments, recharges, refunds] = await Promise.all([
+      prisma.paymentRecords.findMany({
+        where: {
+          paymentMethod: method,
+          paymentStatus: PaymentStatus.SUCCESS,
+          paymentTime: { gte: start, lt: end },
+        },
+      }),
+      prisma.rechargeOrders.findMany({
+        where: {
+          paymentMethod: method,
+          status: PaymentStatus.SUCCESS,
+          paidAt: { gte: start, lt: end },
+        },
+      }),
+      prisma.refundRecords.findMany({
+        where: {
+          refundStatus: RefundStatus.COMPLETED,
+          completedAt: { gte: start, lt: end },
+          orders: { paymentMethod: method },
+        },
+      }),
+    ]);
+
+    return [
+      ...payments.map((payment) => this.fromPaymentRecord(payment)),
+      ...recharges.map((recharge) => this.fromRechargeOrder(recharge)),
+      ...refunds.map((refund) => this.fromRefundRecord(refund)),
+    ];
+  }
+
+  /**
+   * 按对账键查询本地交易（不限时间和状态，用于识别跨日和未成功的记录）
+   * @param method - 支付方式
+   * @param tradeNos - 商户交易号列表
+   * @param refundIds - 退款记录ID列表
+   * @returns 本地交易列表
+   */
+  async findTransactionsByKeys(
+    method: PaymentMethod,
+    tradeNos: string[],
+    refundIds: number[]
+  ): Promise<LocalTransaction[]> {
+    const [payments, recharges, refunds] = await Promise.all([
+      tradeNos.length
+        ? prisma.paymentRecords.findMany({
+            where: { paymentMethod: method, transactionId: { in: tradeNos } },
+          })
+        : [],
+      tradeNos.length
+        ? prisma.rechargeOrders.findMany({
+            where: { paymentMethod: method, transactionId: { in: tradeNos } },
+          })
+        : [],
+      refundIds.length
+        ? prisma.refundRecords.findMany({
+            where: { id: { in: refundIds }, orders: { paymentMethod: method } },
+          })
+        : [],
+    ]);
+
+    return [
+      ...payments.map((payment) => this.fromPaymentRecord(payment)),
+      ...recharges.map((recharge) => this.fromRechargeOrder(recharge)),
+      ...refunds.map((refund) => this.fromRefundRecord(refund)),
+    ];
+  }
+
+  /**
+   * 查询支付方式在账单日期是否已有对账记录
+   * @param method - 支付方式
+   * @param billDate - 账单日期
+   * @returns 是否存在
+   */
+  async existsForBillDate(
+    method: PaymentMethod,
+    billDate: Date
+  ): Promise<boolean> {
+    const count = await prisma.reconciliations.count({
+      where: { paymentMethod: method, billDate },
+    });
+    return count > 0;
+  }
+
+  /**
+   * 保存对账结果（事务操作）
+   * @param reconciliation - 对账汇总
+   * @param items - 对账明细
+   * @returns 对账记录
+   */
+  async create(
+    reconciliation: {
+      paymentMethod: PaymentMethod;
+      billDate: Date;
+      fileName: string;
+      source: ReconciliationSource;
+      remoteCount: number;
+      localCount: number;
+      createdBy: number | null;
+    },
+    items: ReconciliationItemInput[]
+  ): Promise<Reconciliation> {
+    const countOf = (result: ReconciliationResult) =>
+      items.filter((item) => item.result === result).length;
+    const matchedCount = countOf(ReconciliationResult.MATCHED);
+
+    return prisma.$transaction(async (tx) => {
+      const result = await tx.reconciliations.create({
+        data: {
+          ...reconciliation,
+          status:
+            matchedCount === items.length
+              ? ReconciliationStatus.BALANCED
+              : ReconciliationStatus.UNRESOLVED,
+          matchedCount,
+          missingLocalCount: countOf(ReconciliationResult.MISSING_LOCAL),
+          missingRemoteCount: countOf(ReconciliationResult.MISSING_REMOTE),
+          amountMismatchCount: countOf(ReconciliationResult.AMOUNT_MISMATCH),
+        },
+      });
+
+      if (items.length) {
+        await tx.reconciliationItems.createMany({
+          data: items.map((item) => ({
+            ...item,
+            reconciliationId: result.id,
+            handleStatus:
+              item.result === ReconciliationResult.MATCHED
+                ? ReconciliationHandleStatus.NO_ACTION
+                : ReconciliationHandleStatus.PENDING,
+          })),
+        });
+      }
+
+      return this.toReconciliation(result);
+    });
+  }
+
+  /**
+   * 根据ID查询对账记录
+   * @param id - 对账记录ID
+   * @returns 对账记录
+   */
+  async findById(id: number): Promise<Reconciliation | null> {
+    const result = await prisma.reconciliations.findUnique({ where: { id } });
+    return result ? this.toReconciliation(result) : null;
+  }
+
+  /**
+   * 获取对账记录列表（带分页和筛选）
+   * @param options - 查询选项
+   * @returns 对账记录列表和总数
+   */
+  async getListWithPagination(
+    options: ReconciliationQueryParams & { page?: number; limit?: number }
+  ): Promise<{ reconciliations: Reconciliation[]; total: number }> {
+    const page = options.page || 1;
+    const limit = options.limit || 10;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.ReconciliationsWhereInput = {};
+    if (options.paymentMethod) {
+      where.paymentMethod = options.paymentMethod as PaymentMethod;
+    }
+    if (options.startDate || options.endDate) {
+      where.billDate = {
+        ...(options.startDate && { gte: new Date(options.startDate) }),
+        ...(options.endDate && { lte: new Date(options.endDate) }),
+      };
+    }
+
+    const [reconciliations, total] = await Promise.all([
+      prisma.reconciliations.findMany({
+        where: where,
+        orderBy: [{ billDate: "desc" }, { id: "desc" }],
+        skip: skip,
+        take: limit,
+      }),
+      prisma.reconciliations.count({ where: where }),
+    ]);
+
+    return {
+      reconciliations: reconciliations.map((reconciliation) =>
+        this.toReconciliation(reconciliation)
+      ),
+      total,
+    };
+  }
+
+  /**
+   * 获取对账明细列表（带分页和筛选）
+   * @param reconciliationId - 对账记录ID
+   * @param options - 查询选项
+   * @returns 对账明细列表和总数
+   */
+  async getItemsWithPagination(
+    reconciliationId: number,
+    options: {
+      page?: number;
+      limit?: number;
+      result?: ReconciliationResult;
+      handleStatus?: ReconciliationHandleStatus;
+    }
+  ): Promise<{ items: ReconciliationItem[]; total: number }> {
+    const page = options.page || 1;
+    const limit = options.limit || 10;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.ReconciliationItemsWhereInput = { reconciliationId };
+    if (options.result) {
+      where.result = options.result;
+    }
+    if (options.handleStatus) {
+      where.handleStatus = options.handleStatus;
+    }
+
+    const [items, total] = await Promise.all([
+      prisma.reconciliationItems.findMany({
+        where: where,
+        orderBy: { id: "asc" },
+        skip: skip,
+        take: limit,
+      }),
+      prisma.reconciliationItems.count({ where: where }),
+    ]);
+
+    return {
+      items: items.map((item) => this.toReconciliationItem(item)),
+      total,
+    };
+  }
+
+  /**
+   * 处理对账差异（事务操作）
+   * 差异全部处理后对账记录置为已处理
+   * @param itemId - 对账明细ID
+   * @param adminId - 管理员ID
+   * @param remark - 处理说明
+   * @returns 对账明细
+   */
+  async resolveItem(
+    itemId: number,
+    adminId: number,
+    remark: string
+  ): Promise<ReconciliationItem> {
+    return prisma.$transaction(async (tx) => {
+      const updateResult = await tx.reconciliationItems.updateMany({
+        where: { id: itemId, handleStatus: ReconciliationHandleStatus.PENDING },
+        data: {
+          handleStatus: ReconciliationHandleStatus.RESOLVED,
+          resolvedBy: adminId,
+          resolvedAt: new Date(),
+          resolveRemark: remark,
+          updatedAt: new Date(),
+        },
+      });
+      if (updateResult.count === 0) {
+        throw { message: "对账差异不存在或已处理", code: HttpCode.VALIDATION_ERROR };
+      }
+
+      const item = await tx.reconciliationItems.findUniqueOrThrow({
+        where: { id: itemId },
+      });
+
+      const pendingCount = await tx.reconciliationItems.count({
+        where: {
+          reconciliationId: item.reconciliationId,
+          handleStatus: ReconciliationHandleStatus.PENDING,
+        },
+      });
+      if (pendingCount === 0) {
+        await tx.reconciliations.update({
+          where: { id: item.reconciliationId },
+          data: { status: ReconciliationStatus.RESOLVED, updatedAt: new Date() },
+        });
+      }
+
+      return this.toReconciliationItem(item);
+    });
+  }
+
+  /**
+   * 转换支付记录为本地交易
+   * @param payment - 数据库支付记录
+   * @returns 本地交易
+   */
+  private fromPaymentRecord(payment: any): LocalTransaction {
+    return {
+      itemType: ReconciliationItemType.PAYMENT,
+      key: payment.transactionId,
+      localRecordId: payment.id,
+      amount: new Decimal(payment.paymentAmount),
+      settled: payment.paymentStatus === PaymentStatus.SUCCESS,
+      status: payment.paymentStatus,
+    };
+  }
+
+  /**
+   * 转换充值订单为本地交易
+   * @param recharge - 数据库充值订单
+   * @returns 本地交易
+   */
+  private fromRechargeOrder(recharge: any): LocalTransaction {
+    return {
+      itemType: ReconciliationItemType.RECHARGE,
+      key: recharge.transactionId,
+      localRecordId: recharge.id,
+      amount: new Decimal(recharge.amount),
+      settled: recharge.status === PaymentStatus.SUCCESS,
+      status: recharge.status,
+    };
+  }
+
+  /**
+   * 转换退款记录为本地交易，对账键为发起渠道退款时使用的商户退款单号
+   * @param refund - 数据库退款记录
+   * @returns 本地交易
+   */
+  private fromRefundRecord(refund: any): LocalTransaction {
+    return {
+      itemType: ReconciliationItemType.REFUND,
+      key: `REFUND${refund.id}`,
+      localRecordId: refund.id,
+      amount: new Decimal(refund.refundAmount),
+      settled: refund.refundStatus === RefundStatus.COMPLETED,
+      status: refund.refundStatus,
+    };
+  }
+
+  /**
+   * 转换对账记录数据，处理枚举类型
+   * @param reconciliation - 数据库对账记录
+   * @returns 对账记录实体
+   */
+  private toReconciliation(reconciliation: any): Reconciliation {
+    return {
+      ...reconciliation,
+      paymentMethod: reconciliation.paymentMethod as PaymentMethod,
+      source: reconciliation.source as ReconciliationSource,
+      status: reconciliation.status as ReconciliationStatus,
+    };
+  }
+
+  /**
+   * 转换对账明细数据，处理Decimal和枚举类型
+   * @param item - 数据库对账明细
+   * @returns 对账明细实体
+   */
+  private toReconciliationItem(item: any): ReconciliationItem {
+    const { updatedAt, ...rest } = item;
+    return {
+      ...rest,
+      itemType: item.itemType as ReconciliationItemType,
+      result: item.result as ReconciliationResult,
+      handleStatus: item.handleStatus as ReconciliationHandleStatus,
+      localAmount: item.localAmount === null ? null : new Decimal(item.localAmount),
+      remoteAmount:
+        item.remoteAmount === null ? null : new Decimal(item.remoteAmount),
+    };
+  }
+}
+
+// 导出单例实例
+const reconciliationModel = new ReconciliationModel();
+export default reconciliationModel;
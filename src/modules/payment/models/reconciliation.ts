@@ -0,0 +1,191 @@
+// 对账相关类型定义
+import { Decimal } from 'decimal.js';
+import { PaymentMethod } from '../../order/models/order';
+
+/**
+ * 对账来源枚举（对应数据库 reconciliations_source）
+ */
+export enum ReconciliationSource {
+  UPLOAD = 'upload', // 管理员上传
+  JOB = 'job'        // 定时任务导入
+}
+
+/**
+ * 对账状态枚举（对应数据库 reconciliations_status）
+ */
+export enum ReconciliationStatus {
+  BALANCED = 'balanced',     // 账单一致，无差异
+  UNRESOLVED = 'unresolved', // 存在未处理的差异
+  RESOLVED = 'resolved'      // 差异已全部处理
+}
+
+/**
+ * 对账明细类型枚举（对应数据库 reconciliation_items_item_type）
+ */
+export enum ReconciliationItemType {
+  PAYMENT = 'payment',   // 订单支付
+  RECHARGE = 'recharge', // 钱包充值
+  REFUND = 'refund'      // 退款
+}
+
+/**
+ * 对账结果枚举（对应数据库 reconciliation_items_result）
+ */
+export enum ReconciliationResult {
+  MATCHED = 'matched',                // 一致
+  MISSING_LOCAL = 'missing_local',    // 渠道有、本地无（或本地未成功）
+  MISSING_REMOTE = 'missing_remote',  // 本地有、渠道无
+  AMOUNT_MISMATCH = 'amount_mismatch' // 金额不一致
+}
+
+/**
+ * 差异处理状态枚举（对应数据库 reconciliation_items_handle_status）
+ */
+export enum ReconciliationHandleStatus {
+  NO_ACTION = 'no_action', // 无需处理（一致）
+  PENDING = 'pending',     // 待处理
+  RESOLVED = 'resolved'    // 已处理
+}
+
+/**
+ * 对账记录接口（对应数据库 reconciliations 表）
+ */
+export interface Reconciliation {
+  /** 对账记录ID */
+  id: number;
+  /** 支付方式 */
+  paymentMethod: PaymentMethod;
+  /** 账单日期 */
+  billDate: Date;
+  /** 账单文件名 */
+  fileName: string;
+  /** 对账来源 */
+  source: ReconciliationSource;
+  /** 对账状态 */
+  status: ReconciliationStatus;
+  /** 渠道账单明细数 */
+  remoteCount: number;
+  /** 本地当日记录数 */
+  localCount: number;
+  /** 一致数 */
+  matchedCount: number;
+  /** 本地缺失数 */
+  missingLocalCount: number;
+  /** 渠道缺失数 */
+  missingRemoteCount: number;
+  /** 金额不一致数 */
+  amountMismatchCount: number;
+  /** 导入的管理员ID，定时任务导入时为空 */
+  createdBy: number | null;
+  /** 创建时间 */
+  createdAt: Date;
+  /** 更新时间 */
+  updatedAt: Date;
+}
+
+/**
+ * 对账明细接口（对应数据库 reconciliation_items 表）
+ */
+export interface ReconciliationItem {
+  /** 明细ID */
+  id: number;
+  /** 对账记录ID */
+  reconciliationId: number;
+  /** 明细类型 */
+  itemType: ReconciliationItemType;
+  /** 对账结果 */
+  result: ReconciliationResult;
+  /** 商户交易号（退款为商户退款单号） */
+  transactionId: string;
+  /** 第三方交易流水号 */
+  providerTransactionId: string | null;
+  /** 本地记录ID（支付记录、充值订单或退款记录） */
+  localRecordId: number | null;
+  /** 本地金额 */
+  localAmount: Decimal | null;
+  /** 渠道金额 */
+  remoteAmount: Decimal | null;
+  /** 差异说明 */
+  remark: string | null;
+  /** 处理状态 */
+  handleStatus: ReconciliationHandleStatus;
+  /** 处理人（管理员ID） */
+  resolvedBy: number | null;
+  /** 处理时间 */
+  resolvedAt: Date | null;
+  /** 处理说明 */
+  resolveRemark: string | null;
+  /** 创建时间 */
+  createdAt: Date;
+}
+
+/**
+ * 对账明细数据（创建时使用）
+ */
+export type ReconciliationItemInput = Pick<
+  ReconciliationItem,
+  | 'itemType'
+  | 'result'
+  | 'transactionId'
+  | 'providerTransactionId'
+  | 'localRecordId'
+  | 'localAmount'
+  | 'remoteAmount'
+  | 'remark'
+>;
+
+/**
+ * 本地交易记录（参与对账的支付记录、充值订单、退款记录）
+ */
+export interface LocalTransaction {
+  /** 明细类型 */
+  itemType: ReconciliationItemType;
+  /** 对账键：商户交易号或商户退款单号 */
+  key: string;
+  /** 本地记录ID */
+  localRecordId: number;
+  /** 金额 */
+  amount: Decimal;
+  /** 本地是否已成功（支付成功、充值到账、退款完成） */
+  settled: boolean;
+  /** 本地状态 */
+  status: string;
+}
+
+/**
+ * 导入对账单请求参数接口
+ */
+export interface ImportStatementRequest {
+  /** 支付方式 */
+  paymentMethod: PaymentMethod;
+  /** 账单日期（YYYY-MM-DD） */
+  billDate: string;
+  /** 账单文件名 */
+  fileName: string;
+  /** 账单文件内容 */
+  content: Buffer;
+}
+
+/**
+ * 获取对账明细请求参数接口
+ */
+export interface GetReconciliationItemsRequest {
+  /** 页码 */
+  page?: number;
+  /** 每页数量 */
+  limit?: number;
+  /** 对账结果筛选，可选 */
+  result?: ReconciliationResult;
+  /** 处理状态筛选，可选 */
+  handleStatus?: ReconciliationHandleStatus;
+}
+
+/**
+ * 处理对账差异请求参数接口
+ */
+export interface ResolveReconciliationItemRequest {
+  /** 对账明细ID */
+  itemId: number;
+  /** 处理说明 */
+  remark: string;
+}
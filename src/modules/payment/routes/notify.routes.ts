@@ -0,0 +1,18 @@
+import express, { Router } from 'express';
+import paymentController from '../controllers/payment.controller';
+
+// 创建路由器
+const router: Router = Router();
+
+/**
+ * 支付结果通知路由模块
+ * 由第三方支付渠道回调，不需要用户认证，通过通知签名校验来源
+ */
+
+// 1. 支付结果通知（按原始请求体验签）
+router.post('/:method',
+  express.text({ type: '*/*', limit: '1mb' }),
+  paymentController.handleNotification
+);
+
+export default router;
@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import paymentController from '../controllers/payment.controller';
+import { validate } from '../../../middleware/validation';
+import { paymentValidation } from '../../../middleware/validation/schemas';
+import { orderLimiter } from '../../../middleware/rateLimiter';
+import { idempotency } from '../../../middleware/idempotency';
+
+// 创建路由器
+const router: Router = Router();
+
+/**
+ * 支付路由模块
+ * 包含发起支付、支付记录列表、查询支付状态、取消支付等接口
+ */
+
+// 1. 发起支付（支持 Idempotency-Key 幂等）
+router.post('/',
+  idempotency,
+  orderLimiter,
+  validate(paymentValidation.createPayment),
+  paymentController.createPayment
+);
+
+// 2. 获取支付记录列表（支持时间、支付方式、状态筛选）
+router.get('/',
+  validate(paymentValidation.getPayments),
+  paymentController.getPayments
+);
+
+// 3. 查询支付状态（待支付时主动向支付渠道查询）
+router.get('/:id',
+  validate(paymentValidation.getPaymentStatus),
+  paymentController.getPaymentStatus
+);
+
+// 4. 取消待支付的支付
+router.post('/:id/cancel',
+  validate(paymentValidation.cancelPayment),
+  paymentController.cancelPayment
+);
+
+export default router;
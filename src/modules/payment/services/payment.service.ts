@@ -0,0 +1,507 @@
+import Decimal from "decimal.js";
+import { businessLogger, securityLogger } from "../../../utils/logger";
+import { HttpCode, PaginatedResponse } from "../../../types/index";
+import { PaymentQueryParams } from "../../../types/payment";
+import {
+  OrderAction,
+  OperatorType,
+  PaymentMethod,
+  PaymentStatus,
+  PayOrderResponse,
+} from "../../order/models/order";
+import orderModel from "../../order/models/order.model";
+import orderStateMachine from "../../order/services/order.state";
+import orderService from "../../order/services/order.service";
+import { assertOrderOwner } from "../../rbac/services/policy";
+import paymentGatewayRegistry, { NotificationAck } from "../gateways";
+import {
+  CancelPaymentResponse,
+  CreatePaymentRequest,
+  PaymentDetail,
+} from "../models/payment";
+import paymentModel from "../models/payment.model";
+import {
+  RECHARGE_TRADE_NO_PREFIX,
+  WalletRelatedType,
+  WalletTransactionType,
+} from "../../wallet/models/wallet";
+import walletService from "../../wallet/services/wallet.service";
+
+class PaymentService {
+  /**
+   * 为订单发起支付
+   * @param request - 创建支付请求
+   * @param userId - 用户ID
+   * @returns 支付结果
+   */
+  async createPayment(
+    request: CreatePaymentRequest,
+    userId: number
+  ): Promise<PayOrderResponse> {
+    const { orderId } = request;
+    businessLogger.info("开始执行订单支付", {
+      orderId,
+      userId,
+    });
+
+    // 步骤1: 校验订单信息
+    // 1.1 查询订单是否存在且属于当前用户
+    const order = await orderModel.findById(orderId);
+    if (!order) {
+      throw { message: "订单不存在", code: HttpCode.NOT_FOUND };
+    }
+    assertOrderOwner(order, userId);
+
+    // 1.2 通过状态机校验订单状态是否允许支付
+    const transition = orderStateMachine.transition(
+      order,
+      OrderAction.PAY,
+      OperatorType.USER
+    );
+
+    // 1.3 校验支付方式和金额与订单一致
+    if (request.paymentMethod && request.paymentMethod !== order.paymentMethod) {
+      throw {
+        message: "支付方式与下单时选择的不一致",
+        code: HttpCode.VALIDATION_ERROR,
+      };
+    }
+    const totalAmount = new Decimal(order.totalAmount);
+    if (request.amount !== undefined && !totalAmount.equals(request.amount)) {
+      throw { message: "支付金额与订单金额不一致", code: HttpCode.VALIDATION_ERROR };
+    }
+
+    // 1.4 已有等待支付结果的记录时不能重复发起
+    const pendingPayment = await paymentModel.findPaymentRecord(
+      orderId,
+      PaymentStatus.PENDING
+    );
+    if (pendingPayment) {
+      throw {
+        message: "订单有待确认的支付，请查询支付结果或取消后重试",
+        code: HttpCode.DUPLICATE_ENTRY,
+      };
+    }
+
+    // 步骤2: 创建支付记录，余额支付直接扣减余额，其他支付方式通过支付网关发起支付
+    const gateway =
+      order.paymentMethod === PaymentMethod.BALANCE
+        ? null
+        : paymentGatewayRegistry.get(order.paymentMethod);
+
+    // 2.1 生成商户交易号
+    const transactionId = `TXN${Date.now()}${Math.floor(Math.random() * 1000)
+      .toString()
+      .padStart(3, "0")}`;
+
+    // 创建支付记录
+    const paymentRecordId: number = await paymentModel.createPaymentRecord({
+      //主要是为了填充id
+      id: 0,
+      orderId: orderId,
+      userId,
+      paymentMethod: order.paymentMethod,
+      paymentAmount: totalAmount,
+      transactionId: transactionId,
+      paymentStatus: PaymentStatus.PENDING,
+    });
+
+    // 2.2 余额支付在更新订单的同一事务中扣减余额，余额不足时订单不会变为已支付
+    if (!gateway) {
+      try {
+        await orderModel.updateStatusWithPay(
+          orderId,
+          paymentRecordId,
+          transition,
+          PaymentStatus.SUCCESS,
+          userId,
+          {
+            userId,
+            type: WalletTransactionType.CONSUME,
+            amount: totalAmount,
+            description: `订单${order.orderNumber}支付`,
+            relatedId: paymentRecordId,
+            relatedType: WalletRelatedType.PAYMENT,
+          }
+        );
+      } catch (error: any) {
+        await paymentModel.updatePayRecordStatus(
+          paymentRecordId,
+          PaymentStatus.FAILED,
+          error.message
+        );
+        throw error;
+      }
+
+      businessLogger.info("订单余额支付成功", {
+        orderId,
+        userId,
+        transactionId,
+        amount: order.totalAmount,
+      });
+
+      return {
+        paymentId: paymentRecordId,
+        orderId,
+        paymentMethod: order.paymentMethod,
+        paymentAmount: totalAmount,
+        transactionId: transactionId,
+        paymentStatus: PaymentStatus.SUCCESS,
+      };
+    }
+
+    // 2.3 调用支付网关
+    const paymentResult = await gateway.createCharge({
+      outTradeNo: transactionId,
+      orderId,
+      userId,
+      amount: totalAmount,
+      description: `订单${order.orderNumber}`,
+    });
+
+    const response: PayOrderResponse = {
+      paymentId: paymentRecordId,
+      orderId,
+      paymentMethod: order.paymentMethod,
+      paymentAmount: totalAmount,
+      transactionId: transactionId,
+      paymentStatus: paymentResult.status,
+    };
+
+    // 步骤3: 更新订单状态和支付记录
+    if (paymentResult.status === PaymentStatus.SUCCESS) {
+      // 3.1 更新订单支付状态和订单状态
+      await orderModel.updateStatusWithPay(
+        orderId,
+        paymentRecordId,
+        transition,
+        PaymentStatus.SUCCESS,
+        userId,
+        undefined,
+        {
+          providerTransactionId: paymentResult.providerTransactionId,
+          paidAt: paymentResult.paidAt,
+        }
+      );
+
+      // 3.2 记录支付成功日志
+      businessLogger.info("订单支付成功", {
+        orderId: orderId,
+        userId: userId,
+        transactionId: transactionId,
+        amount: order.totalAmount,
+        paymentMethod: order.paymentMethod,
+      });
+
+      return response;
+    } else if (paymentResult.status === PaymentStatus.PENDING) {
+      // 3.3 支付结果未确定，等待支付渠道通知
+      businessLogger.info("订单支付处理中，等待支付结果", {
+        orderId,
+        userId,
+        transactionId,
+      });
+
+      return response;
+    } else {
+      // 3.4 记录支付失败
+      await paymentModel.updatePayRecordStatus(
+        paymentRecordId,
+        PaymentStatus.FAILED,
+        paymentResult.message
+      );
+
+      businessLogger.error("订单支付失败", {
+        orderId,
+        userId: userId,
+        error: paymentResult.message,
+      });
+
+      throw {
+        message: paymentResult.message || "支付失败",
+        code: HttpCode.INTERNAL_ERROR,
+      };
+    }
+  }
+
+  /**
+   * 查询支付状态
+   * 支付记录仍在等待结果时主动向支付渠道查询，弥补丢失的异步通知
+   * @param paymentId - 支付记录ID
+   * @param userId - 用户ID
+   * @returns 支付详情
+   */
+  async getPaymentStatus(
+    paymentId: number,
+    userId: number
+  ): Promise<PaymentDetail> {
+    // 步骤1: 查询支付记录
+    const payment = await paymentModel.findDetailById(paymentId, userId);
+    if (!payment) {
+      throw { message: "支付记录不存在", code: HttpCode.NOT_FOUND };
+    }
+    // 余额支付同步完成，不需要查询渠道
+    if (
+      payment.paymentStatus !== PaymentStatus.PENDING ||
+      payment.paymentMethod === PaymentMethod.BALANCE
+    ) {
+      return payment;
+    }
+
+    // 步骤2: 向支付渠道查询最新结果
+    const gateway = paymentGatewayRegistry.get(payment.paymentMethod);
+    const chargeResult = await gateway.queryCharge(payment.transactionId);
+
+    // 步骤3: 按查询结果更新支付记录和订单
+    if (chargeResult.status === PaymentStatus.SUCCESS) {
+      await this.applyPaymentSuccess(
+        payment.paymentId,
+        payment.orderId,
+        payment.transactionId,
+        chargeResult.providerTransactionId,
+        chargeResult.paidAt
+      );
+    } else if (chargeResult.status === PaymentStatus.FAILED) {
+      await paymentModel.updatePayRecordStatus(
+        payment.paymentId,
+        PaymentStatus.FAILED,
+        chargeResult.message
+      );
+    } else {
+      return payment;
+    }
+
+    const updatedPayment = await paymentModel.findDetailById(paymentId, userId);
+    return updatedPayment ?? payment;
+  }
+
+  /**
+   * 取消待支付的支付记录
+   * 取消后订单仍为待支付状态，可以重新发起支付
+   * @param paymentId - 支付记录ID
+   * @param userId - 用户ID
+   * @returns 取消结果
+   */
+  async cancelPayment(
+    paymentId: number,
+    userId: number
+  ): Promise<CancelPaymentResponse> {
+    // 步骤1: 查询支付记录
+    const payment = await paymentModel.findDetailById(paymentId, userId);
+    if (!payment) {
+      throw { message: "支付记录不存在", code: HttpCode.NOT_FOUND };
+    }
+
+    // 步骤2: 仅待支付的记录可以取消（条件更新，避免与支付通知并发）
+    const cancelled = await paymentModel.cancelPendingPayment(
+      paymentId,
+      "用户取消支付"
+    );
+    if (!cancelled) {
+      throw {
+        message: "当前支付状态不允许取消",
+        code: HttpCode.VALIDATION_ERROR,
+      };
+    }
+
+    businessLogger.info("用户取消支付", {
+      paymentId,
+      orderId: payment.orderId,
+      userId,
+    });
+
+    return {
+      paymentId,
+      orderId: payment.orderId,
+      paymentStatus: PaymentStatus.FAILED,
+    };
+  }
+
+  /**
+   * 获取用户支付记录列表
+   * @param userId - 用户ID
+   * @param params - 查询参数
+   * @returns 分页支付记录列表
+   */
+  async getPaymentList(
+    userId: number,
+    params: PaymentQueryParams
+  ): Promise<PaginatedResponse<PaymentDetail>> {
+    const page = Number(params.page) || 1;
+    const limit = Number(params.limit) || 10;
+
+    const { payments, total } = await paymentModel.getPaymentListWithPagination(
+      userId,
+      { ...params, page, limit }
+    );
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: payments,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * 处理第三方支付结果通知
+   * 重复通知直接应答成功，不会重复更新订单
+   * @param method - 支付方式
+   * @param headers - 回调请求头
+   * @param body - 回调原始请求体
+   * @returns 第三方要求的应答
+   */
+  async handleNotification(
+    method: PaymentMethod,
+    headers: Record<string, string | string[] | undefined>,
+    body: string
+  ): Promise<NotificationAck> {
+    // 步骤1: 校验签名并解析通知
+    const gateway = paymentGatewayRegistry.get(method);
+    const notification = await gateway.parseNotification(headers, body);
+
+    businessLogger.info("收到支付结果通知", {
+      method,
+      outTradeNo: notification.outTradeNo,
+      status: notification.status,
+      amount: notification.amount.toNumber(),
+    });
+
+    // 充值订单的支付通知交由钱包处理
+    if (notification.outTradeNo.startsWith(RECHARGE_TRADE_NO_PREFIX)) {
+      await walletService.handleRechargeNotification(method, notification);
+      return gateway.acknowledgeNotification(true);
+    }
+
+    // 步骤2: 校验支付记录和金额
+    const paymentRecord = await paymentModel.findPaymentRecordByTransactionId(
+      notification.outTradeNo
+    );
+    if (!paymentRecord || paymentRecord.paymentMethod !== method) {
+      throw { message: "支付记录不存在", code: HttpCode.NOT_FOUND };
+    }
+    if (!notification.amount.equals(new Decimal(paymentRecord.paymentAmount))) {
+      securityLogger.warn("支付通知金额与支付记录不一致", {
+        method,
+        paymentId: paymentRecord.id,
+        expected: new Decimal(paymentRecord.paymentAmount).toNumber(),
+        actual: notification.amount.toNumber(),
+      });
+      throw { message: "支付金额不一致", code: HttpCode.VALIDATION_ERROR };
+    }
+
+    // 步骤3: 已处理过的通知直接应答成功
+    if (paymentRecord.paymentStatus === PaymentStatus.SUCCESS) {
+      businessLogger.info("重复的支付结果通知，忽略", {
+        paymentId: paymentRecord.id,
+      });
+      return gateway.acknowledgeNotification(true);
+    }
+
+    // 步骤4: 按通知结果更新支付记录和订单
+    if (notification.status === PaymentStatus.SUCCESS) {
+      await this.applyPaymentSuccess(
+        paymentRecord.id,
+        paymentRecord.orderId,
+        notification.outTradeNo,
+        notification.providerTransactionId,
+        notification.paidAt
+      );
+    } else if (notification.status === PaymentStatus.FAILED) {
+      if (paymentRecord.paymentStatus !== PaymentStatus.FAILED) {
+        await paymentModel.updatePayRecordStatus(
+          paymentRecord.id,
+          PaymentStatus.FAILED
+        );
+      }
+      businessLogger.info("支付通知结果为支付失败", {
+        paymentId: paymentRecord.id,
+        orderId: paymentRecord.orderId,
+      });
+    }
+
+    return gateway.acknowledgeNotification(true);
+  }
+
+  /**
+   * 应用支付成功结果（异步通知或主动查询）：订单流转为已支付并更新支付记录
+   * 按渠道确认的支付完成时间判断是否超时；订单已无法支付时支付记录仍记为成功并自动发起退款
+   * @param paymentId - 支付记录ID
+   * @param orderId - 订单ID
+   * @param outTradeNo - 商户交易号
+   * @param providerTransactionId - 第三方交易流水号，可选
+   * @param paidAt - 支付完成时间，渠道未返回时按当前时间处理
+   */
+  private async applyPaymentSuccess(
+    paymentId: number,
+    orderId: number,
+    outTradeNo: string,
+    providerTransactionId?: string,
+    paidAt: Date = new Date()
+  ): Promise<void> {
+    const order = await orderModel.findById(orderId);
+    if (!order) {
+      throw { message: "订单不存在", code: HttpCode.NOT_FOUND };
+    }
+
+    // 订单已取消等情况下不能再流转为已支付，资金已到账需要退回，应答成功避免渠道重复通知
+    let transition;
+    try {
+      transition = orderStateMachine.transition(
+        order,
+        OrderAction.PAY,
+        OperatorType.SYSTEM,
+        undefined,
+        paidAt
+      );
+    } catch (error: any) {
+      const paymentRecord = await paymentModel.findPaymentRecordById(paymentId);
+      if (!paymentRecord) {
+        throw { message: "支付记录不存在", code: HttpCode.NOT_FOUND };
+      }
+      await orderService.refundUnpayablePayment(
+        order,
+        paymentRecord,
+        { providerTransactionId, paidAt },
+        error.message
+      );
+      return;
+    }
+
+    try {
+      await orderModel.updateStatusWithPay(
+        orderId,
+        paymentId,
+        transition,
+        PaymentStatus.SUCCESS,
+        undefined,
+        undefined,
+        { providerTransactionId, paidAt }
+      );
+    } catch (error: any) {
+      // 并发的重复通知已先完成处理时视为成功
+      const paymentRecord = await paymentModel.findPaymentRecordByTransactionId(
+        outTradeNo
+      );
+      if (paymentRecord?.paymentStatus === PaymentStatus.SUCCESS) return;
+      throw error;
+    }
+
+    businessLogger.info("订单支付成功（渠道确认）", {
+      orderId,
+      paymentId,
+      providerTransactionId,
+    });
+  }
+}
+
+// 导出单例实例
+const paymentService = new PaymentService();
+export default paymentService;
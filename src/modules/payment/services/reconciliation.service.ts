@@ -0,0 +1,354 @@
+import fs from "fs/promises";
+import path from "path";
+import { businessLogger } from "../../../utils/logger";
+import { HttpCode, PaginatedResponse } from "../../../types/index";
+import { ReconciliationQueryParams } from "../../../types/payment";
+import { PaymentMethod } from "../../order/models/order";
+import { RECHARGE_TRADE_NO_PREFIX } from "../../wallet/models/wallet";
+import {
+  GetReconciliationItemsRequest,
+  ImportStatementRequest,
+  LocalTransaction,
+  Reconciliation,
+  ReconciliationItem,
+  ReconciliationItemInput,
+  ReconciliationItemType,
+  ReconciliationResult,
+  ReconciliationSource,
+  ResolveReconciliationItemRequest,
+} from "../models/reconciliation";
+import reconciliationModel from "../models/reconciliation.model";
+import {
+  parseStatement,
+  StatementEntry,
+  StatementEntryType,
+} from "../statements/statement.parser";
+
+// 支持对账的支付方式（余额支付没有第三方账单）
+const RECONCILABLE_METHODS = [PaymentMethod.WECHAT, PaymentMethod.ALIPAY];
+
+// 发起渠道退款时使用的商户退款单号格式
+const REFUND_NO_PATTERN = /^REFUND(\d+)$/;
+
+/**
+ * 计算账单日期对应的时间范围（北京时间当日零点到次日零点）
+ * @param billDate - 账单日期（YYYY-MM-DD）
+ * @returns 开始时间（含）和结束时间（不含）
+ */
+const billDateRange = (billDate: string): { start: Date; end: Date } => {
+  const start = new Date(`${billDate}T00:00:00+08:00`);
+  return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+};
+
+class ReconciliationService {
+  /**
+   * 导入支付渠道对账单并与本地记录逐笔核对
+   * @param request - 导入请求
+   * @param source - 对账来源
+   * @param adminId - 导入的管理员ID，定时任务导入时为空
+   * @returns 对账记录
+   */
+  async importStatement(
+    request: ImportStatementRequest,
+    source: ReconciliationSource,
+    adminId: number | null = null
+  ): Promise<Reconciliation> {
+    businessLogger.info("开始导入对账单", {
+      paymentMethod: request.paymentMethod,
+      billDate: request.billDate,
+      fileName: request.fileName,
+      source,
+      adminId,
+    });
+
+    // 步骤1: 解析对账单
+    const entries = parseStatement(request.paymentMethod, request.content);
+
+    // 步骤2: 查询账单日期内已成功的本地记录，以及账单中出现的本地记录（可能跨日或未成功）
+    const { start, end } = billDateRange(request.billDate);
+    const inDate = await reconciliationModel.findSettledTransactionsBetween(
+      request.paymentMethod,
+      start,
+      end
+    );
+    const referenced = await reconciliationModel.findTransactionsByKeys(
+      request.paymentMethod,
+      entries
+        .filter((entry) => entry.type === StatementEntryType.PAYMENT)
+        .map((entry) => entry.outTradeNo),
+      entries.flatMap((entry) => {
+        const match = entry.outRefundNo?.match(REFUND_NO_PATTERN);
+        return match ? [Number(match[1])] : [];
+      })
+    );
+    const locals = new Map<string, LocalTransaction>();
+    for (const local of [...inDate, ...referenced]) {
+      locals.set(local.key, local);
+    }
+
+    // 步骤3: 逐笔核对渠道账单
+    const items: ReconciliationItemInput[] = [];
+    const checkedKeys = new Set<string>();
+    for (const entry of entries) {
+      const key = this.entryKey(entry);
+      checkedKeys.add(key);
+      items.push(this.compareEntry(entry, key, locals.get(key)));
+    }
+
+    // 步骤4: 本地已成功但渠道账单中没有的记录
+    for (const local of inDate) {
+      if (checkedKeys.has(local.key)) continue;
+      items.push({
+        itemType: local.itemType,
+        result: ReconciliationResult.MISSING_REMOTE,
+        transactionId: local.key,
+        providerTransactionId: null,
+        localRecordId: local.localRecordId,
+        localAmount: local.amount,
+        remoteAmount: null,
+        remark: "渠道账单中无此交易",
+      });
+    }
+
+    // 步骤5: 保存对账结果
+    const reconciliation = await reconciliationModel.create(
+      {
+        paymentMethod: request.paymentMethod,
+        billDate: new Date(request.billDate),
+        fileName: request.fileName,
+        source,
+        remoteCount: entries.length,
+        localCount: inDate.length,
+        createdBy: adminId,
+      },
+      items
+    );
+
+    businessLogger.info("对账单导入完成", {
+      reconciliationId: reconciliation.id,
+      paymentMethod: reconciliation.paymentMethod,
+      status: reconciliation.status,
+      matched: reconciliation.matchedCount,
+      missingLocal: reconciliation.missingLocalCount,
+      missingRemote: reconciliation.missingRemoteCount,
+      amountMismatch: reconciliation.amountMismatchCount,
+    });
+
+    return reconciliation;
+  }
+
+  /**
+   * 获取对账记录列表
+   * @param params - 查询参数
+   * @returns 分页对账记录列表
+   */
+  async getReconciliationList(
+    params: ReconciliationQueryParams & { page?: number; limit?: number }
+  ): Promise<PaginatedResponse<Reconciliation>> {
+    const page = Number(params.page) || 1;
+    const limit = Number(params.limit) || 10;
+
+    const { reconciliations, total } =
+      await reconciliationModel.getListWithPagination({
+        ...params,
+        page,
+        limit,
+      });
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: reconciliations,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * 获取对账明细列表
+   * @param reconciliationId - 对账记录ID
+   * @param params - 查询参数
+   * @returns 分页对账明细列表
+   */
+  async getReconciliationItems(
+    reconciliationId: number,
+    params: GetReconciliationItemsRequest
+  ): Promise<PaginatedResponse<ReconciliationItem>> {
+    const reconciliation = await reconciliationModel.findById(reconciliationId);
+    if (!reconciliation) {
+      throw { message: "对账记录不存在", code: HttpCode.NOT_FOUND };
+    }
+
+    const page = Number(params.page) || 1;
+    const limit = Number(params.limit) || 10;
+
+    const { items, total } = await reconciliationModel.getItemsWithPagination(
+      reconciliationId,
+      { ...params, page, limit }
+    );
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: items,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * 处理对账差异
+   * @param request - 处理请求
+   * @param adminId - 管理员ID
+   * @returns 对账明细
+   */
+  async resolveItem(
+    request: ResolveReconciliationItemRequest,
+    adminId: number
+  ): Promise<ReconciliationItem> {
+    const item = await reconciliationModel.resolveItem(
+      request.itemId,
+      adminId,
+      request.remark
+    );
+
+    businessLogger.info("对账差异已处理", {
+      itemId: item.id,
+      reconciliationId: item.reconciliationId,
+      result: item.result,
+      adminId,
+    });
+
+    return item;
+  }
+
+  /**
+   * 自动导入对账单目录中前一日的账单（由定时任务调用）
+   * 账单文件名为 <支付方式>_<YYYY-MM-DD>.csv，已对账的日期会跳过
+   * @param statementDir - 对账单目录
+   * @returns 本次导入的对账记录数
+   */
+  async importDailyStatements(statementDir: string): Promise<number> {
+    // 账单日期为北京时间的前一日
+    const billDate = new Date(Date.now() + 8 * 60 * 60 * 1000 - 24 * 60 * 60 * 1000)
+      .toISOString()
+      .slice(0, 10);
+
+    let importedCount = 0;
+    for (const method of RECONCILABLE_METHODS) {
+      if (await reconciliationModel.existsForBillDate(method, new Date(billDate))) {
+        continue;
+      }
+
+      const fileName = `${method}_${billDate}.csv`;
+      let content: Buffer;
+      try {
+        content = await fs.readFile(path.join(statementDir, fileName));
+      } catch {
+        // 账单尚未下载，下次扫描再试
+        continue;
+      }
+
+      try {
+        await this.importStatement(
+          { paymentMethod: method, billDate, fileName, content },
+          ReconciliationSource.JOB
+        );
+        importedCount++;
+      } catch (error: any) {
+        businessLogger.warn("对账单自动导入失败", {
+          paymentMethod: method,
+          billDate,
+          reason: error.message,
+        });
+      }
+    }
+
+    return importedCount;
+  }
+
+  /**
+   * 获取对账单明细的对账键
+   * @param entry - 对账单明细
+   * @returns 支付为商户订单号，退款为商户退款单号
+   */
+  private entryKey(entry: StatementEntry): string {
+    return entry.type === StatementEntryType.REFUND
+      ? entry.outRefundNo || entry.outTradeNo
+      : entry.outTradeNo;
+  }
+
+  /**
+   * 核对单笔渠道账单明细
+   * @param entry - 对账单明细
+   * @param key - 对账键
+   * @param local - 对应的本地记录
+   * @returns 对账明细数据
+   */
+  private compareEntry(
+    entry: StatementEntry,
+    key: string,
+    local: LocalTransaction | undefined
+  ): ReconciliationItemInput {
+    const base = {
+      transactionId: key,
+      providerTransactionId: entry.providerTransactionId || null,
+      remoteAmount: entry.amount,
+    };
+
+    if (!local) {
+      return {
+        ...base,
+        itemType:
+          entry.type === StatementEntryType.REFUND
+            ? ReconciliationItemType.REFUND
+            : key.startsWith(RECHARGE_TRADE_NO_PREFIX)
+              ? ReconciliationItemType.RECHARGE
+              : ReconciliationItemType.PAYMENT,
+        result: ReconciliationResult.MISSING_LOCAL,
+        localRecordId: null,
+        localAmount: null,
+        remark: "本地无此交易",
+      };
+    }
+
+    const localBase = {
+      ...base,
+      itemType: local.itemType,
+      localRecordId: local.localRecordId,
+      localAmount: local.amount,
+    };
+
+    if (!local.settled) {
+      return {
+        ...localBase,
+        result: ReconciliationResult.MISSING_LOCAL,
+        remark: `本地状态：${local.status}`,
+      };
+    }
+    if (!local.amount.equals(entry.amount)) {
+      return {
+        ...localBase,
+        result: ReconciliationResult.AMOUNT_MISMATCH,
+        remark: `本地金额${local.amount.toFixed(2)}，渠道金额${entry.amount.toFixed(2)}`,
+      };
+    }
+    return { ...localBase, result: ReconciliationResult.MATCHED, remark: null };
+  }
+}
+
+// 导出单例实例
+const reconciliationService = new ReconciliationService();
+export default reconciliationService;
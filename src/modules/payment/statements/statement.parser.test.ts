@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import { parseStatement, StatementEntryType } from "./statement.parser";
+import { PaymentMethod } from "../../order/models/order";
+import { HttpCode } from "../../../types/index";
+
+const WECHAT_STATEMENT = [
+  "交易时间,微信订单号,商户订单号,交易状态,微信退款单号,商户退款单号,订单金额,申请退款金额",
+  "`2026-10-19 12:00:00,`4200001001,`TXN1001,`SUCCESS,`,`,`35.50,`0.00",
+  "`2026-10-19 13:00:00,`4200001001,`TXN1001,`REFUND,`5030001001,`RF1001,`35.50,`10.00",
+  "`2026-10-19 14:00:00,`4200001002,`TXN1002,`REVOKED,`,`,`20.00,`0.00",
+  "总交易单数,应结订单总金额,退款总金额",
+  "`3,`55.50,`10.00",
+].join("\r\n");
+
+const ALIPAY_STATEMENT = [
+  "#支付宝业务明细查询",
+  "#账号：[20880000000000000156]",
+  "支付宝交易号,商户订单号,业务类型,创建时间,完成时间,订单金额（元）,退款批次号/请求号",
+  "2026101922001,TXN2001,交易,2026-10-19 19:59:50,2026-10-19 20:00:00,\"1,035.50\",",
+  "2026101922001,TXN2001,退款,2026-10-19 21:00:00,2026-10-19 21:00:00,-35.50,RF2001",
+  "2026101922002,TXN2002,收费,2026-10-19 21:00:00,2026-10-19 21:00:00,-0.60,",
+  "#-----------------------------------------业务明细列表结束------------------------------------",
+  "#交易合计：1笔，商家实收共1035.50元",
+].join("\n");
+
+// 以下报文的GBK编码：
+// 交易时间,交易状态,商户订单号,微信订单号,订单金额
+// `2026-10-19 12:00:00,`SUCCESS,`TXN1001,`4200001001,`35.50
+const WECHAT_STATEMENT_GBK = Buffer.from(
+  "vbvS18qxvOQsvbvS19e0zKwsycy7p7aptaW6xSzOotDFtqm1pbrFLLaptaW98LbuCmAyMDI2LTEwLTE5IDEyOjAwOjAwLGBTVUNDRVNTLGBUWE4xMDAxLGA0MjAwMDAxMDAxLGAzNS41MAo=",
+  "base64"
+);
+
+describe("parseStatement", () => {
+  it("解析微信账单的支付和退款明细，忽略其他状态和汇总行", () => {
+    const entries = parseStatement(
+      PaymentMethod.WECHAT,
+      Buffer.from(WECHAT_STATEMENT)
+    );
+
+    expect(entries).toEqual([
+      {
+        type: StatementEntryType.PAYMENT,
+        outTradeNo: "TXN1001",
+        providerTransactionId: "4200001001",
+        amount: expect.anything(),
+        tradeTime: new Date("2026-10-19T04:00:00Z"),
+      },
+      {
+        type: StatementEntryType.REFUND,
+        outTradeNo: "TXN1001",
+        outRefundNo: "RF1001",
+        providerTransactionId: "5030001001",
+        amount: expect.anything(),
+        tradeTime: new Date("2026-10-19T05:00:00Z"),
+      },
+    ]);
+    expect(entries.map((entry) => entry.amount.toNumber())).toEqual([35.5, 10]);
+  });
+
+  it("解析支付宝账务明细，退款金额取绝对值，千分位金额正常解析", () => {
+    const entries = parseStatement(
+      PaymentMethod.ALIPAY,
+      Buffer.from(ALIPAY_STATEMENT)
+    );
+
+    expect(entries).toEqual([
+      {
+        type: StatementEntryType.PAYMENT,
+        outTradeNo: "TXN2001",
+        providerTransactionId: "2026101922001",
+        amount: expect.anything(),
+        tradeTime: new Date("2026-10-19T12:00:00Z"),
+      },
+      {
+        type: StatementEntryType.REFUND,
+        outTradeNo: "TXN2001",
+        outRefundNo: "RF2001",
+        providerTransactionId: "2026101922001",
+        amount: expect.anything(),
+        tradeTime: new Date("2026-10-19T13:00:00Z"),
+      },
+    ]);
+    expect(entries.map((entry) => entry.amount.toNumber())).toEqual([1035.5, 35.5]);
+  });
+
+  it("UTF-8解码失败时按GBK解码", () => {
+    const entries = parseStatement(PaymentMethod.WECHAT, WECHAT_STATEMENT_GBK);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toEqual(
+      expect.objectContaining({
+        outTradeNo: "TXN1001",
+        providerTransactionId: "4200001001",
+      })
+    );
+  });
+
+  it("去除文件开头的BOM", () => {
+    const entries = parseStatement(
+      PaymentMethod.WECHAT,
+      Buffer.from(`\uFEFF${WECHAT_STATEMENT}`)
+    );
+
+    expect(entries).toHaveLength(2);
+  });
+
+  it("找不到表头时不是有效的账单", () => {
+    expect(() =>
+      parseStatement(PaymentMethod.WECHAT, Buffer.from(ALIPAY_STATEMENT))
+    ).toThrow(
+      expect.objectContaining({
+        message: "不是有效的微信支付账单",
+        code: HttpCode.VALIDATION_ERROR,
+      })
+    );
+    expect(() =>
+      parseStatement(PaymentMethod.ALIPAY, Buffer.from(WECHAT_STATEMENT))
+    ).toThrow(expect.objectContaining({ message: "不是有效的支付宝账单" }));
+  });
+
+  it("金额格式错误时拒绝解析", () => {
+    const content = WECHAT_STATEMENT.replace("`35.50,`0.00", "`abc,`0.00");
+
+    expect(() =>
+      parseStatement(PaymentMethod.WECHAT, Buffer.from(content))
+    ).toThrow(expect.objectContaining({ message: "对账单金额格式错误：abc" }));
+  });
+
+  it("余额支付不支持对账", () => {
+    expect(() =>
+      parseStatement(PaymentMethod.BALANCE, Buffer.from(WECHAT_STATEMENT))
+    ).toThrow(expect.objectContaining({ message: "该支付方式不支持对账" }));
+  });
+});
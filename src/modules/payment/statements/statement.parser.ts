@@ -0,0 +1,236 @@
+import Decimal from "decimal.js";
+import { HttpCode } from "../../../types/index";
+import { PaymentMethod } from "../../order/models/order";
+
+/**
+ * 对账单明细类型
+ */
+export enum StatementEntryType {
+  PAYMENT = "payment", // 支付
+  REFUND = "refund",   // 退款
+}
+
+/**
+ * 对账单明细（统一格式）
+ */
+export interface StatementEntry {
+  /** 明细类型 */
+  type: StatementEntryType;
+  /** 商户订单号（支付记录、充值订单的 transactionId） */
+  outTradeNo: string;
+  /** 商户退款单号，退款明细才有 */
+  outRefundNo?: string;
+  /** 第三方交易流水号（退款明细为第三方退款单号） */
+  providerTransactionId?: string;
+  /** 金额（正数） */
+  amount: Decimal;
+  /** 交易时间，可选 */
+  tradeTime?: Date;
+}
+
+/**
+ * 对账单解析函数
+ */
+type StatementParser = (content: string) => StatementEntry[];
+
+/**
+ * 解码对账单文件，支付渠道导出的文件通常为GBK编码，UTF-8解码失败时按GBK解码
+ * @param buffer - 文件内容
+ * @returns 文本内容
+ */
+const decodeStatement = (buffer: Buffer): string => {
+  let content: string;
+  try {
+    content = new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    content = new TextDecoder("gbk").decode(buffer);
+  }
+  return content.replace(/^\uFEFF/, "");
+};
+
+/**
+ * 解析CSV行，支持双引号包裹和转义
+ * @param line - CSV行
+ * @returns 字段列表
+ */
+const parseCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+
+  // 微信账单每个字段前带 ` 防止被表格软件转换格式
+  return fields.map((value) => value.trim().replace(/^`/, "").trim());
+};
+
+/**
+ * 按表头取字段值
+ * @param header - 表头
+ * @param row - 数据行
+ * @param names - 候选列名（不同版本账单列名可能不同）
+ * @returns 字段值，列不存在时为空字符串
+ */
+const pickField = (header: string[], row: string[], ...names: string[]): string => {
+  for (const name of names) {
+    const index = header.indexOf(name);
+    if (index >= 0) return row[index] ?? "";
+  }
+  return "";
+};
+
+/**
+ * 解析金额
+ * @param value - 金额字符串
+ * @returns 金额绝对值
+ */
+const parseAmount = (value: string): Decimal => {
+  try {
+    return new Decimal(value.replace(/,/g, "") || "0").abs();
+  } catch {
+    throw { message: `对账单金额格式错误：${value}`, code: HttpCode.VALIDATION_ERROR };
+  }
+};
+
+/**
+ * 解析对账单中的时间（北京时间）
+ * @param value - 时间字符串，如 2026-10-19 12:00:00
+ * @returns 时间
+ */
+const parseTradeTime = (value: string): Date | undefined => {
+  const match = value.match(/^(\d{4})[-/](\d{2})[-/](\d{2}) (\d{2}):(\d{2}):(\d{2})$/);
+  if (!match) return undefined;
+  const [, year, month, day, hour, minute, second] = match;
+  return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}+08:00`);
+};
+
+/**
+ * 解析微信支付交易账单（全部订单）
+ * 表头以"交易时间"开头，"总交易单数"开始为汇总行；
+ * 交易状态 SUCCESS 为支付，REFUND 为退款
+ */
+const parseWechatStatement: StatementParser = (content) => {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim());
+  const headerIndex = lines.findIndex((line) => line.startsWith("交易时间"));
+  if (headerIndex < 0) {
+    throw { message: "不是有效的微信支付账单", code: HttpCode.VALIDATION_ERROR };
+  }
+  const header = parseCsvLine(lines[headerIndex]!);
+  const entries: StatementEntry[] = [];
+
+  for (const line of lines.slice(headerIndex + 1)) {
+    if (line.startsWith("总交易单数")) break;
+    const row = parseCsvLine(line);
+    const status = pickField(header, row, "交易状态");
+    const outTradeNo = pickField(header, row, "商户订单号");
+    const tradeTime = parseTradeTime(pickField(header, row, "交易时间"));
+
+    if (status === "SUCCESS") {
+      entries.push({
+        type: StatementEntryType.PAYMENT,
+        outTradeNo,
+        providerTransactionId: pickField(header, row, "微信订单号"),
+        amount: parseAmount(pickField(header, row, "订单金额", "应结订单总金额")),
+        ...(tradeTime && { tradeTime }),
+      });
+    } else if (status === "REFUND") {
+      entries.push({
+        type: StatementEntryType.REFUND,
+        outTradeNo,
+        outRefundNo: pickField(header, row, "商户退款单号"),
+        providerTransactionId: pickField(header, row, "微信退款单号"),
+        amount: parseAmount(pickField(header, row, "申请退款金额", "退款金额")),
+        ...(tradeTime && { tradeTime }),
+      });
+    }
+  }
+
+  return entries;
+};
+
+/**
+ * 解析支付宝账务明细（业务明细）
+ * 以 # 开头的为说明行，表头以"支付宝交易号"开头；
+ * 业务类型"交易"为支付，"退款"为退款（金额为负数）
+ */
+const parseAlipayStatement: StatementParser = (content) => {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim());
+  const headerIndex = lines.findIndex((line) => line.startsWith("支付宝交易号"));
+  if (headerIndex < 0) {
+    throw { message: "不是有效的支付宝账单", code: HttpCode.VALIDATION_ERROR };
+  }
+  const header = parseCsvLine(lines[headerIndex]!);
+  const entries: StatementEntry[] = [];
+
+  for (const line of lines.slice(headerIndex + 1)) {
+    if (line.startsWith("#")) break;
+    const row = parseCsvLine(line);
+    const businessType = pickField(header, row, "业务类型");
+    const outTradeNo = pickField(header, row, "商户订单号");
+    const tradeTime = parseTradeTime(pickField(header, row, "完成时间", "创建时间"));
+
+    if (businessType === "交易") {
+      entries.push({
+        type: StatementEntryType.PAYMENT,
+        outTradeNo,
+        providerTransactionId: pickField(header, row, "支付宝交易号"),
+        amount: parseAmount(pickField(header, row, "订单金额（元）", "订单金额(元)")),
+        ...(tradeTime && { tradeTime }),
+      });
+    } else if (businessType === "退款") {
+      entries.push({
+        type: StatementEntryType.REFUND,
+        outTradeNo,
+        outRefundNo: pickField(header, row, "退款批次号/请求号"),
+        providerTransactionId: pickField(header, row, "支付宝交易号"),
+        amount: parseAmount(pickField(header, row, "订单金额（元）", "订单金额(元)")),
+        ...(tradeTime && { tradeTime }),
+      });
+    }
+  }
+
+  return entries;
+};
+
+// 各支付方式的对账单格式，余额支付没有第三方账单
+const STATEMENT_PARSERS: Partial<Record<PaymentMethod, StatementParser>> = {
+  [PaymentMethod.WECHAT]: parseWechatStatement,
+  [PaymentMethod.ALIPAY]: parseAlipayStatement,
+};
+
+/**
+ * 解析支付渠道对账单文件
+ * @param method - 支付方式
+ * @param buffer - 文件内容
+ * @returns 对账单明细
+ */
+export const parseStatement = (
+  method: PaymentMethod,
+  buffer: Buffer
+): StatementEntry[] => {
+  const parser = STATEMENT_PARSERS[method];
+  if (!parser) {
+    throw { message: "该支付方式不支持对账", code: HttpCode.VALIDATION_ERROR };
+  }
+  return parser(decodeStatement(buffer));
+};
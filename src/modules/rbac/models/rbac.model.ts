@@ -0,0 +1,72 @@
+import { prisma } from "../../../database/prisma";
+import { AccessGrants, PrincipalType } from "./rbac";
+
+// 查询角色时一并带出的权限
+const ROLE_WITH_PERMISSIONS = {
+  rolePermissions: { include: { permissions: true } },
+} as const;
+
+class RbacModel {
+  /**
+   * 查询账号已分配的角色及其权限
+   * 只返回与账号类型一致的角色，防止把管理员角色误分配给其他账号
+   * @param principalType - 账号类型
+   * @param principalId - 账号ID
+   * @returns 角色和权限，未分配角色时为空
+   */
+  async findGrants(
+    principalType: PrincipalType,
+    principalId: number
+  ): Promise<AccessGrants> {
+    const principalRoles = await prisma.principalRoles.findMany({
+      where: {
+        principalType,
+        principalId,
+        roles: { principalType },
+      },
+      include: { roles: { include: ROLE_WITH_PERMISSIONS } },
+    });
+
+    return this.toAccessGrants(principalRoles.map((item) => item.roles));
+  }
+
+  /**
+   * 根据角色编码查询角色及其权限
+   * @param code - 角色编码
+   * @returns 角色和权限，角色不存在时为空
+   */
+  async findGrantsByRoleCode(code: string): Promise<AccessGrants> {
+    const role = await prisma.roles.findUnique({
+      where: { code },
+      include: ROLE_WITH_PERMISSIONS,
+    });
+
+    return this.toAccessGrants(role ? [role] : []);
+  }
+
+  /**
+   * 汇总角色编码和权限编码（权限去重）
+   * @param roles - 角色记录
+   * @returns 角色和权限
+   */
+  private toAccessGrants(
+    roles: {
+      code: string;
+      rolePermissions: { permissions: { code: string } }[];
+    }[]
+  ): AccessGrants {
+    const permissions = new Set<string>();
+    roles.forEach((role) => {
+      role.rolePermissions.forEach((item) => permissions.add(item.permissions.code));
+    });
+
+    return {
+      roles: roles.map((role) => role.code),
+      permissions: [...permissions],
+    };
+  }
+}
+
+// 导出单例实例
+const rbacModel = new RbacModel();
+export default rbacModel;
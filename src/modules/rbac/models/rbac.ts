@@ -0,0 +1,83 @@
+/**
+ * 账号类型（角色归属的账号体系）
+ */
+export enum PrincipalType {
+  /** 用户 */
+  USER = "user",
+  /** 商家账号 */
+  MERCHANT = "merchant",
+  /** 骑手 */
+  RIDER = "rider",
+  /** 平台管理员 */
+  ADMIN = "admin",
+}
+
+/**
+ * 内置角色编码
+ * 角色和权限的对应关系保存在数据库中，未分配角色的账号使用同类型的默认角色
+ */
+export enum Role {
+  /** 普通用户（用户默认角色） */
+  USER = "user",
+  /** 商家店长（商家默认角色） */
+  MERCHANT = "merchant",
+  /** 商家店员 */
+  MERCHANT_STAFF = "merchant_staff",
+  /** 骑手（骑手默认角色） */
+  RIDER = "rider",
+  /** 超级管理员（管理员默认角色） */
+  ADMIN = "admin",
+  /** 客服 */
+  ADMIN_SUPPORT = "admin_support",
+  /** 财务 */
+  ADMIN_FINANCE = "admin_finance",
+}
+
+/**
+ * 权限编码
+ */
+export enum Permission {
+  /** 下单 */
+  ORDER_PLACE = "order:place",
+  /** 使用购物车 */
+  CART_MANAGE = "cart:manage",
+  /** 使用钱包（查询余额、充值） */
+  WALLET_MANAGE = "wallet:manage",
+  /** 处理本店订单（接单、拒单、出餐） */
+  MERCHANT_ORDER_MANAGE = "merchant:order:manage",
+  /** 审核本店退款 */
+  MERCHANT_REFUND_REVIEW = "merchant:refund:review",
+  /** 管理菜品库存 */
+  MERCHANT_DISH_MANAGE = "merchant:dish:manage",
+  /** 管理营业时间和配送设置 */
+  MERCHANT_STORE_MANAGE = "merchant:store:manage",
+  /** 接单配送 */
+  RIDER_DELIVERY_MANAGE = "rider:delivery:manage",
+  /** 审核退款 */
+  ADMIN_REFUND_REVIEW = "admin:refund:review",
+  /** 调整用户余额 */
+  ADMIN_WALLET_ADJUST = "admin:wallet:adjust",
+  /** 支付对账 */
+  ADMIN_RECONCILIATION_MANAGE = "admin:reconciliation:manage",
+}
+
+/**
+ * 各账号类型未分配角色时使用的默认角色
+ */
+export const DEFAULT_ROLES: Record<PrincipalType, Role> = {
+  [PrincipalType.USER]: Role.USER,
+  [PrincipalType.MERCHANT]: Role.MERCHANT,
+  [PrincipalType.RIDER]: Role.RIDER,
+  [PrincipalType.ADMIN]: Role.ADMIN,
+};
+
+/**
+ * 账号的角色和权限
+ * 签发令牌时写入令牌供客户端展示，接口授权以服务端按请求读取的角色和权限为准
+ */
+export interface AccessGrants {
+  /** 角色编码列表 */
+  roles: string[];
+  /** 权限编码列表（各角色权限的并集） */
+  permissions: string[];
+}
@@ -0,0 +1,83 @@
+import { HttpCode } from "../../../types/index";
+import { DeliveryInfo, Order, RefundProcessor } from "../../order/models/order";
+
+/**
+ * 资源归属策略
+ * 账号能调用哪些接口由角色权限决定，能操作哪条数据由这里的归属策略决定
+ * 校验不通过时抛出 FORBIDDEN 业务错误
+ */
+
+/**
+ * 访问方式，决定越权时的提示信息
+ */
+export enum AccessMode {
+  /** 查看 */
+  READ = "read",
+  /** 操作 */
+  WRITE = "write",
+}
+
+/**
+ * 校验订单属于当前用户
+ * @param order - 订单
+ * @param userId - 用户ID
+ * @param mode - 访问方式，默认为操作
+ */
+export const assertOrderOwner = (
+  order: Pick<Order, "userId">,
+  userId: number,
+  mode: AccessMode = AccessMode.WRITE
+): void => {
+  if (order.userId !== userId) {
+    throw {
+      message: mode === AccessMode.READ ? "无权访问该订单" : "无权操作该订单",
+      code: HttpCode.FORBIDDEN,
+    };
+  }
+};
+
+/**
+ * 校验订单属于商家所在餐厅
+ * @param order - 订单
+ * @param restaurantId - 商家所属餐厅ID
+ */
+export const assertOrderRestaurant = (
+  order: Pick<Order, "restaurantId">,
+  restaurantId: number
+): void => {
+  if (order.restaurantId !== restaurantId) {
+    throw { message: "无权操作该订单", code: HttpCode.FORBIDDEN };
+  }
+};
+
+/**
+ * 校验退款申请可由处理人审核
+ * 商家只能审核本餐厅订单的退款，平台和系统不限餐厅
+ * @param order - 退款申请对应的订单
+ * @param processor - 处理人信息
+ */
+export const assertRefundProcessor = (
+  order: Pick<Order, "restaurantId">,
+  processor: RefundProcessor
+): void => {
+  if (
+    processor.restaurantId !== undefined &&
+    order.restaurantId !== processor.restaurantId
+  ) {
+    throw { message: "无权处理该退款申请", code: HttpCode.FORBIDDEN };
+  }
+};
+
+/**
+ * 校验配送单已分配给当前骑手
+ * @param deliveryInfo - 配送信息
+ * @param riderId - 骑手ID
+ */
+export const assertDeliveryRider = (
+  deliveryInfo: Pick<DeliveryInfo, "deliveryUserId">,
+  riderId: number
+): void => {
+  if (deliveryInfo.deliveryUserId !== riderId) {
+    throw { message: "无权操作该配送单", code: HttpCode.FORBIDDEN };
+  }
+};
@@ -0,0 +1,76 @@
+import config from "../../../config";
+import logger from "../../../utils/logger";
+import { AccessGrants, DEFAULT_ROLES, PrincipalType } from "../models/rbac";
+import rbacModel from "../models/rbac.model";
+
+// 角色权限缓存的最大账号数，超过时清理已过期的缓存
+const GRANTS_CACHE_MAX_SIZE = 10000;
+
+class RbacService {
+  // 账号角色权限缓存，键为 账号类型:账号ID
+  private grantsCache = new Map<string, { grants: AccessGrants; expiresAt: number }>();
+
+  /**
+   * 获取账号当前的角色和权限（授权中间件按请求调用）
+   * 按账号缓存 RBAC_GRANTS_CACHE_TTL_SECONDS 秒，角色或权限调整最迟在缓存过期后生效，无需重新登录
+   * @param principalType - 账号类型
+   * @param principalId - 账号ID
+   * @returns 角色和权限
+   */
+  async getCachedGrants(
+    principalType: PrincipalType,
+    principalId: number
+  ): Promise<AccessGrants> {
+    const cacheKey = `${principalType}:${principalId}`;
+    const cached = this.grantsCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.grants;
+    }
+
+    const grants = await this.getGrants(principalType, principalId);
+    if (this.grantsCache.size >= GRANTS_CACHE_MAX_SIZE) {
+      const now = Date.now();
+      this.grantsCache.forEach((item, key) => {
+        if (item.expiresAt <= now) this.grantsCache.delete(key);
+      });
+    }
+    this.grantsCache.set(cacheKey, {
+      grants,
+      expiresAt: Date.now() + config.rbacGrantsCacheTtlSeconds * 1000,
+    });
+    return grants;
+  }
+
+  /**
+   * 获取账号的角色和权限
+   * 账号未分配角色时使用同类型的默认角色
+   * @param principalType - 账号类型
+   * @param principalId - 账号ID
+   * @returns 角色和权限
+   */
+  async getGrants(
+    principalType: PrincipalType,
+    principalId: number
+  ): Promise<AccessGrants> {
+    const grants = await rbacModel.findGrants(principalType, principalId);
+    if (grants.roles.length > 0) {
+      return grants;
+    }
+
+    const defaultGrants = await rbacModel.findGrantsByRoleCode(
+      DEFAULT_ROLES[principalType]
+    );
+    if (defaultGrants.roles.length === 0) {
+      logger.warn("默认角色不存在，账号没有任何权限", {
+        principalType,
+        principalId,
+        role: DEFAULT_ROLES[principalType],
+      });
+    }
+    return defaultGrants;
+  }
+}
+
+// 导出单例实例
+const rbacService = new RbacService();
+export default rbacService;
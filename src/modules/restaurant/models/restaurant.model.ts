@@ -1,11 +1,36 @@
 import { prisma } from '../../../database/prisma';
+import { Prisma } from '@prisma/client';
+import { HttpCode } from '../../../types/index';
 import {
   Restaurant,
   DishCategory,
   Dish,
+  DishSpecGroup,
+  DishSpecSelectType,
   RestaurantTag,
-  RestaurantTagTagType
+  RestaurantTagTagType,
+  BusinessHour,
+  RestaurantHoliday,
+  RestaurantSchedule,
+  UpsertHolidayInput,
+  DeliveryFeeRule,
+  UpdateDeliverySettingsInput
 } from '../models/restaurant';
+import { GeoPoint } from '../../../utils/geo';
+
+// 菜品查询时带出启用的规格组和规格选项
+const DISH_SPEC_INCLUDE = {
+  specGroups: {
+    where: { status: true },
+    orderBy: [{ sortOrder: 'asc' as const }, { id: 'asc' as const }],
+    include: {
+      options: {
+        where: { status: true },
+        orderBy: [{ sortOrder: 'asc' as const }, { id: 'asc' as const }]
+      }
+    }
+  }
+};
 
 interface QueryOptions {
   where?: any;
@@ -67,6 +92,7 @@ class RestaurantModel {
         ...rest,
         rating: Number(restaurant.rating),
         deliveryFee: Number(restaurant.deliveryFee),
+        deliveryPolygon: restaurant.deliveryPolygon as GeoPoint[] | null,
         tags: restaurantTagRelations.map(relation => relation.restaurantTag.tagName),
         ...(deletedAt && { deletedAt })
       };
@@ -108,6 +134,7 @@ class RestaurantModel {
       ...rest,
       rating: Number(restaurant.rating),
       deliveryFee: Number(restaurant.deliveryFee),
+      deliveryPolygon: restaurant.deliveryPolygon as GeoPoint[] | null,
               tags: restaurantTagRelations.map(relation => relation.restaurantTag.tagName),
       ...(deletedAt && { deletedAt })
     };
@@ -162,20 +189,12 @@ class RestaurantModel {
           },
           orderBy: {
             salesCount: 'desc'
-          }
+          },
+          include: DISH_SPEC_INCLUDE
         });
 
         // 转换为实体类类型
-        const convertedDishes: Dish[] = dishes.map(dish => {
-          const { deletedAt, description, image, ...rest } = dish;
-          return {
-            ...rest,
-            price: Number(dish.price),
-            ...(description && { description }),
-            ...(image && { image }),
-            ...(deletedAt && { deletedAt })
-          };
-        });
+        const convertedDishes: Dish[] = dishes.map(dish => this.toDish(dish));
 
         return {
           ...category,
@@ -209,20 +228,12 @@ class RestaurantModel {
       orderBy: [
         { categoryId: 'asc' },
         { salesCount: 'desc' }
-      ]
+      ],
+      include: DISH_SPEC_INCLUDE
     });
 
     // 转换为实体类类型
-    return dishes.map(dish => {
-      const { deletedAt, description, image, ...rest } = dish;
-      return {
-        ...rest,
-        price: Number(dish.price),
-        ...(description && { description }),
-        ...(image && { image }),
-        ...(deletedAt && { deletedAt })
-      };
-    });
+    return dishes.map(dish => this.toDish(dish));
   }
 
   /**
@@ -239,20 +250,12 @@ class RestaurantModel {
       },
       orderBy: [
         { salesCount: 'desc' }
-      ]
+      ],
+      include: DISH_SPEC_INCLUDE
     });
 
     // 转换为实体类类型
-    return dishes.map(dish => {
-      const { deletedAt, description, image, ...rest } = dish;
-      return {
-        ...rest,
-        price: Number(dish.price),
-        ...(description && { description }),
-        ...(image && { image }),
-        ...(deletedAt && { deletedAt })
-      };
-    });
+    return dishes.map(dish => this.toDish(dish));
   }
 
   /**
@@ -274,6 +277,145 @@ class RestaurantModel {
     return dish;
   }
 
+  /**
+   * 根据ID查询可售菜品
+   * @param dishId - 菜品ID
+   * @returns 菜品信息
+   */
+  async findDishById(dishId: number): Promise<any> {
+    const dish = await prisma.dishes.findFirst({
+      where: {
+        id: dishId,
+        deletedAt: null,
+        status: true
+      }
+    });
+
+    return dish;
+  }
+
+  /**
+   * 查询菜品启用的规格组和规格选项
+   * @param dishId - 菜品ID
+   * @returns 规格组列表
+   */
+  async getDishSpecGroups(dishId: number): Promise<DishSpecGroup[]> {
+    const groups = await prisma.dishSpecGroups.findMany({
+      where: {
+        dishId,
+        status: true
+      },
+      orderBy: DISH_SPEC_INCLUDE.specGroups.orderBy,
+      include: DISH_SPEC_INCLUDE.specGroups.include
+    });
+
+    return groups.map(group => this.toDishSpecGroup(group));
+  }
+
+  /**
+   * 扣减限量菜品今日库存（需在下单事务中调用）
+   * 通过剩余库存条件更新保证并发下单不会超卖，不限量的菜品不做处理
+   * @param tx - 事务客户端
+   * @param items - 订单菜品及数量，同一菜品不同规格会合并计算
+   */
+  async reserveDishStock(
+    tx: Prisma.TransactionClient,
+    items: { dishId: number; quantity: number }[]
+  ): Promise<void> {
+    const quantities = this.sumQuantitiesByDish(items);
+
+    const limitedDishes = await tx.dishes.findMany({
+      where: {
+        id: { in: [...quantities.keys()] },
+        remainingStock: { not: null }
+      },
+      select: { id: true, name: true }
+    });
+
+    const soldOutNames: string[] = [];
+    for (const dish of limitedDishes) {
+      const quantity = quantities.get(dish.id) ?? 0;
+      const updateResult = await tx.dishes.updateMany({
+        where: { id: dish.id, remainingStock: { gte: quantity } },
+        data: { remainingStock: { decrement: quantity } }
+      });
+      if (updateResult.count === 0) {
+        soldOutNames.push(dish.name);
+      }
+    }
+
+    if (soldOutNames.length > 0) {
+      throw {
+        message: `以下菜品已售罄或库存不足：${soldOutNames.join('、')}`,
+        code: HttpCode.DISH_SOLD_OUT
+      };
+    }
+  }
+
+  /**
+   * 退还订单占用的菜品库存（需在订单取消事务中调用）
+   * 下单后库存已经重置过的菜品不再退还，退还后不超过每日库存
+   * @param tx - 事务客户端
+   * @param items - 订单菜品及数量
+   * @param orderedAt - 下单时间
+   */
+  async restoreDishStock(
+    tx: Prisma.TransactionClient,
+    items: { dishId: number; quantity: number }[],
+    orderedAt: Date
+  ): Promise<void> {
+    for (const [dishId, quantity] of this.sumQuantitiesByDish(items)) {
+      await tx.$executeRaw`
+        UPDATE dishes
+        SET remaining_stock = LEAST(remaining_stock + ${quantity}, daily_stock)
+        WHERE id = ${dishId}
+          AND remaining_stock IS NOT NULL
+          AND daily_stock IS NOT NULL
+          AND (stock_reset_at IS NULL OR stock_reset_at <= ${orderedAt})
+      `;
+    }
+  }
+
+  /**
+   * 将本轮尚未重置的限量菜品剩余库存恢复为每日库存
+   * 以重置时间做条件，多实例同时执行时每个菜品每轮只会重置一次
+   * @param resetBoundary - 本轮重置时间点
+   * @returns 重置的菜品数量
+   */
+  async resetDailyStock(resetBoundary: Date): Promise<number> {
+    return prisma.$executeRaw`
+      UPDATE dishes
+      SET remaining_stock = daily_stock, stock_reset_at = ${new Date()}
+      WHERE daily_stock IS NOT NULL
+        AND deleted_at IS NULL
+        AND (stock_reset_at IS NULL OR stock_reset_at < ${resetBoundary})
+    `;
+  }
+
+  /**
+   * 设置餐厅菜品的每日库存，并将今日剩余库存同步为新的每日库存
+   * @param dishId - 菜品ID
+   * @param restaurantId - 餐厅ID
+   * @param dailyStock - 每日库存，为空表示不限量
+   * @returns 更新的菜品数量，菜品不存在或不属于该餐厅时为0
+   */
+  async updateDishStock(
+    dishId: number,
+    restaurantId: number,
+    dailyStock: number | null
+  ): Promise<number> {
+    const updateResult = await prisma.dishes.updateMany({
+      where: { id: dishId, restaurantId, deletedAt: null },
+      data: {
+        dailyStock,
+        remainingStock: dailyStock,
+        stockResetAt: dailyStock === null ? null : new Date()
+      }
+    });
+
+    return updateResult.count;
+  }
+
   /**
    * 批量查询菜品信息
    * @param dishIds - 菜品ID数组
@@ -293,6 +435,175 @@ class RestaurantModel {
     return dishes;
   }
 
+  /**
+   * 批量查询餐厅营业安排（每周营业时间、指定日期范围内的节假日安排和暂停接单时间）
+   * @param restaurantIds - 餐厅ID数组
+   * @param fromDate - 节假日开始日期 YYYY-MM-DD
+   * @param toDate - 节假日结束日期 YYYY-MM-DD
+   * @returns 餐厅ID到营业安排的映射
+   */
+  async getSchedules(
+    restaurantIds: number[],
+    fromDate: string,
+    toDate: string
+  ): Promise<Map<number, RestaurantSchedule>> {
+    const restaurants = await prisma.restaurants.findMany({
+      where: { id: { in: restaurantIds } },
+      select: {
+        id: true,
+        pausedUntil: true,
+        businessHours: {
+          orderBy: [{ dayOfWeek: 'asc' }, { openTime: 'asc' }]
+        },
+        holidays: {
+          where: {
+            date: { gte: this.toDbDate(fromDate), lte: this.toDbDate(toDate) }
+          },
+          orderBy: { date: 'asc' }
+        }
+      }
+    });
+
+    return new Map(
+      restaurants.map(restaurant => [
+        restaurant.id,
+        {
+          businessHours: restaurant.businessHours.map(hour => this.toBusinessHour(hour)),
+          holidays: restaurant.holidays.map(holiday => this.toRestaurantHoliday(holiday)),
+          pausedUntil: restaurant.pausedUntil
+        }
+      ])
+    );
+  }
+
+  /**
+   * 替换餐厅的每周营业时间（事务操作）
+   * @param restaurantId - 餐厅ID
+   * @param businessHours - 每周营业时间
+   */
+  async replaceBusinessHours(
+    restaurantId: number,
+    businessHours: BusinessHour[]
+  ): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      await tx.restaurantBusinessHours.deleteMany({ where: { restaurantId } });
+      if (businessHours.length > 0) {
+        await tx.restaurantBusinessHours.createMany({
+          data: businessHours.map(hour => ({
+            restaurantId,
+            dayOfWeek: hour.dayOfWeek,
+            openTime: hour.openTime,
+            closeTime: hour.closeTime
+          }))
+        });
+      }
+    });
+  }
+
+  /**
+   * 创建或更新餐厅某一天的节假日安排
+   * @param restaurantId - 餐厅ID
+   * @param input - 节假日安排
+   * @returns 节假日安排
+   */
+  async upsertHoliday(
+    restaurantId: number,
+    input: UpsertHolidayInput
+  ): Promise<RestaurantHoliday> {
+    const data = {
+      isClosed: input.isClosed,
+      openTime: input.isClosed ? null : input.openTime ?? null,
+      closeTime: input.isClosed ? null : input.closeTime ?? null,
+      remark: input.remark ?? null
+    };
+    const date = this.toDbDate(input.date);
+
+    const holiday = await prisma.restaurantHolidays.upsert({
+      where: { restaurantId_date: { restaurantId, date } },
+      create: { restaurantId, date, ...data },
+      update: { ...data, updatedAt: new Date() }
+    });
+
+    return this.toRestaurantHoliday(holiday);
+  }
+
+  /**
+   * 删除餐厅的节假日安排
+   * @param holidayId - 节假日安排ID
+   * @param restaurantId - 餐厅ID
+   * @returns 删除数量，不存在或不属于该餐厅时为0
+   */
+  async deleteHoliday(holidayId: number, restaurantId: number): Promise<number> {
+    const result = await prisma.restaurantHolidays.deleteMany({
+      where: { id: holidayId, restaurantId }
+    });
+    return result.count;
+  }
+
+  /**
+   * 设置餐厅暂停接单截止时间
+   * @param restaurantId - 餐厅ID
+   * @param pausedUntil - 暂停截止时间，为空时恢复接单
+   */
+  async updatePausedUntil(restaurantId: number, pausedUntil: Date | null): Promise<void> {
+    await prisma.restaurants.update({
+      where: { id: restaurantId },
+      data: { pausedUntil }
+    });
+  }
+
+  /**
+   * 查询餐厅阶梯配送费规则
+   * @param restaurantId - 餐厅ID
+   * @returns 配送费规则，按最大配送距离升序
+   */
+  async getDeliveryFeeRules(restaurantId: number): Promise<DeliveryFeeRule[]> {
+    const rules = await prisma.restaurantDeliveryFeeRules.findMany({
+      where: { restaurantId },
+      orderBy: { maxDistance: 'asc' }
+    });
+
+    return rules.map(rule => ({
+      maxDistance: rule.maxDistance,
+      fee: Number(rule.fee)
+    }));
+  }
+
+  /**
+   * 更新餐厅位置、配送范围并替换阶梯配送费规则（事务操作）
+   * @param restaurantId - 餐厅ID
+   * @param input - 配送设置
+   */
+  async updateDeliverySettings(
+    restaurantId: number,
+    input: UpdateDeliverySettingsInput
+  ): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      await tx.restaurants.update({
+        where: { id: restaurantId },
+        data: {
+          latitude: input.latitude,
+          longitude: input.longitude,
+          deliveryRadius: input.deliveryRadius,
+          deliveryPolygon: input.deliveryPolygon
+            ? (input.deliveryPolygon as unknown as Prisma.InputJsonValue)
+            : Prisma.DbNull
+        }
+      });
+
+      await tx.restaurantDeliveryFeeRules.deleteMany({ where: { restaurantId } });
+      if (input.feeRules.length > 0) {
+        await tx.restaurantDeliveryFeeRules.createMany({
+          data: input.feeRules.map(rule => ({
+            restaurantId,
+            maxDistance: rule.maxDistance,
+            fee: rule.fee
+          }))
+        });
+      }
+    });
+  }
+
   /**
    * 获取餐厅标签列表
    * @param tagType 可选的标签类型筛选 (cuisine | feature | price_range | service)
@@ -327,6 +638,100 @@ class RestaurantModel {
       };
     });
   }
+
+  /**
+   * 转换菜品数据，处理Decimal类型和规格组
+   * @param dish - 数据库菜品（含规格组）
+   * @returns 菜品实体
+   */
+  private toDish(dish: any): Dish {
+    const { deletedAt, description, image, specGroups, ...rest } = dish;
+    return {
+      ...rest,
+      price: Number(dish.price),
+      soldOut: dish.remainingStock !== null && dish.remainingStock <= 0,
+      ...(description && { description }),
+      ...(image && { image }),
+      ...(deletedAt && { deletedAt }),
+      specGroups: (specGroups ?? []).map((group: any) => this.toDishSpecGroup(group))
+    };
+  }
+
+  /**
+   * 转换每周营业时间数据
+   * @param hour - 数据库营业时间
+   * @returns 营业时间实体
+   */
+  private toBusinessHour(hour: any): BusinessHour {
+    return {
+      dayOfWeek: hour.dayOfWeek,
+      openTime: hour.openTime,
+      closeTime: hour.closeTime
+    };
+  }
+
+  /**
+   * 转换节假日安排数据，日期按 YYYY-MM-DD 返回
+   * @param holiday - 数据库节假日安排
+   * @returns 节假日安排实体
+   */
+  private toRestaurantHoliday(holiday: any): RestaurantHoliday {
+    return {
+      id: holiday.id,
+      restaurantId: holiday.restaurantId,
+      date: holiday.date.toISOString().slice(0, 10),
+      isClosed: holiday.isClosed,
+      openTime: holiday.openTime,
+      closeTime: holiday.closeTime,
+      remark: holiday.remark
+    };
+  }
+
+  /**
+   * 将 YYYY-MM-DD 转换为 DATE 列使用的日期（UTC零点）
+   * @param date - 日期字符串
+   * @returns 日期
+   */
+  private toDbDate(date: string): Date {
+    return new Date(`${date}T00:00:00.000Z`);
+  }
+
+  /**
+   * 按菜品合并购买数量
+   * @param items - 菜品及数量
+   * @returns 菜品ID到购买数量的映射
+   */
+  private sumQuantitiesByDish(
+    items: { dishId: number; quantity: number }[]
+  ): Map<number, number> {
+    const quantities = new Map<number, number>();
+    for (const item of items) {
+      quantities.set(item.dishId, (quantities.get(item.dishId) ?? 0) + item.quantity);
+    }
+    return quantities;
+  }
+
+  /**
+   * 转换规格组数据，处理Decimal和枚举类型
+   * @param group - 数据库规格组（含规格选项）
+   * @returns 规格组实体
+   */
+  private toDishSpecGroup(group: any): DishSpecGroup {
+    return {
+      id: group.id,
+      name: group.name,
+      selectType: group.selectType as DishSpecSelectType,
+      required: group.required,
+      minSelect: group.minSelect,
+      maxSelect: group.selectType === DishSpecSelectType.single ? 1 : group.maxSelect,
+      options: group.options.map((option: any) => ({
+        id: option.id,
+        name: option.name,
+        price: Number(option.price),
+        isDefault: option.isDefault
+      }))
+    };
+  }
 }
 
 // 导出单例实例
@@ -1,4 +1,6 @@
 // 餐厅相关类型定义
+import { Decimal } from 'decimal.js';
+import { GeoPoint } from '../../../utils/geo';
 
 /**
  * 餐厅实体接口 - 对应 prisma.schema 中的 Restaurants 表
@@ -16,8 +18,20 @@ export interface Restaurant {
   deliveryFee: number;
   /** 配送时间（分钟） */
   deliveryTime: number;
+  /** 订单支付超时时间（分钟），为空时使用全局配置 */
+  paymentTimeoutMinutes?: number | null;
+  /** 纬度 - 为空表示未设置位置，不按距离计算配送费 */
+  latitude?: number | null;
+  /** 经度 */
+  longitude?: number | null;
+  /** 配送半径（米）- 为空表示不限制，设置配送多边形时以多边形为准 */
+  deliveryRadius?: number | null;
+  /** 配送范围多边形顶点 - 可选 */
+  deliveryPolygon?: GeoPoint[] | null;
   /** 餐厅状态 - true:营业中, false:已关闭 */
   status: boolean;
+  /** 暂停接单截止时间 - 为空或已过期表示未暂停 */
+  pausedUntil?: Date | null;
   /** 创建时间 */
   createdAt: Date;
   /** 更新时间 */
@@ -26,6 +40,77 @@ export interface Restaurant {
   deletedAt?: Date;
   /** 餐厅标签 - 可选，如 ['日料', '寿司'] */
   tags?: string[]
+  /** 当前是否营业（按营业时间、节假日和暂停接单计算） */
+  isOpen?: boolean;
+  /** 下次开始营业时间 - 营业中或近期无营业安排时为空 */
+  nextOpenAt?: Date | null;
+}
+
+/**
+ * 每周营业时间 - 对应 prisma.schema 中的 RestaurantBusinessHours 表
+ * 结束时间不晚于开始时间时表示营业到次日（如 22:00-02:00）
+ */
+export interface BusinessHour {
+  /** 星期 - 0:周日, 1-6:周一至周六 */
+  dayOfWeek: number;
+  /** 开始营业时间 - HH:mm */
+  openTime: string;
+  /** 结束营业时间 - HH:mm，24:00 表示营业到当天结束 */
+  closeTime: string;
+}
+
+/**
+ * 节假日营业安排 - 对应 prisma.schema 中的 RestaurantHolidays 表，覆盖当天的每周营业时间
+ */
+export interface RestaurantHoliday {
+  /** 安排ID */
+  id: number;
+  /** 餐厅ID */
+  restaurantId: number;
+  /** 日期 - YYYY-MM-DD */
+  date: string;
+  /** 是否全天休息 */
+  isClosed: boolean;
+  /** 特殊营业开始时间 - HH:mm，全天休息时为空 */
+  openTime: string | null;
+  /** 特殊营业结束时间 - HH:mm，全天休息时为空 */
+  closeTime: string | null;
+  /** 备注 - 如 春节休息 */
+  remark: string | null;
+}
+
+/**
+ * 餐厅营业安排（用于计算营业状态）
+ */
+export interface RestaurantSchedule {
+  /** 每周营业时间 - 为空表示全天营业 */
+  businessHours: BusinessHour[];
+  /** 节假日营业安排 */
+  holidays: RestaurantHoliday[];
+  /** 暂停接单截止时间 */
+  pausedUntil: Date | null;
+}
+
+/**
+ * 营业时段
+ */
+export interface ServicePeriod {
+  /** 开始时间 */
+  start: Date;
+  /** 结束时间 */
+  end: Date;
+}
+
+/**
+ * 餐厅营业状态
+ */
+export interface RestaurantOpenStatus {
+  /** 当前是否营业 */
+  isOpen: boolean;
+  /** 下次开始营业时间 - 营业中或近期无营业安排时为空 */
+  nextOpenAt: Date | null;
+  /** 当前营业时段结束时间 - 未营业时为空 */
+  closesAt: Date | null;
 }
 
 /**
@@ -108,12 +193,96 @@ export interface Dish {
   status: boolean;
   /** 销售数量 - 默认值0 */
   salesCount: number;
+  /** 每日库存 - 为空表示不限量 */
+  dailyStock: number | null;
+  /** 今日剩余库存 - 为空表示不限量 */
+  remainingStock: number | null;
+  /** 库存最近重置时间 */
+  stockResetAt: Date | null;
+  /** 是否已售罄 - 限量菜品剩余库存为0时为true */
+  soldOut: boolean;
   /** 创建时间 */
   createdAt: Date;
   /** 更新时间 */
   updatedAt: Date;
   /** 软删除时间 - 可选 */
   deletedAt?: Date;
+  /** 规格组列表 - 无规格的菜品为空数组 */
+  specGroups?: DishSpecGroup[];
+}
+
+/**
+ * 规格组选择方式 - 对应 prisma.schema 中的 dish_spec_groups_select_type
+ */
+export enum DishSpecSelectType {
+  /** 单选 */
+  single = 'single',
+  /** 多选 */
+  multi = 'multi'
+}
+
+/**
+ * 菜品规格组实体类 - 对应 prisma.schema 中的 DishSpecGroups 表（如：杯型、甜度、加料）
+ */
+export interface DishSpecGroup {
+  /** 规格组唯一标识ID */
+  id: number;
+  /** 规格组名称 - 最大长度50 */
+  name: string;
+  /** 选择方式 - 单选或多选 */
+  selectType: DishSpecSelectType;
+  /** 是否必选 */
+  required: boolean;
+  /** 最少选择数量（选择该组时生效） */
+  minSelect: number;
+  /** 最多选择数量（单选固定为1） */
+  maxSelect: number;
+  /** 规格选项列表 */
+  options: DishSpecOption[];
+}
+
+/**
+ * 菜品规格选项实体类 - 对应 prisma.schema 中的 DishSpecOptions 表（如：大杯、微糖、加珍珠）
+ */
+export interface DishSpecOption {
+  /** 选项唯一标识ID */
+  id: number;
+  /** 选项名称 - 最大长度50 */
+  name: string;
+  /** 选项加价 - 最多2位小数，默认值0.00 */
+  price: number;
+  /** 是否默认选项 - 必选组未选择时自动选中 */
+  isDefault: boolean;
+}
+
+/**
+ * 已选规格（下单时快照到订单项）
+ */
+export interface SelectedDishSpec {
+  /** 规格组ID */
+  groupId: number;
+  /** 规格组名称 */
+  groupName: string;
+  /** 选项ID */
+  optionId: number;
+  /** 选项名称 */
+  optionName: string;
+  /** 选项加价 */
+  price: number;
+}
+
+/**
+ * 菜品规格选择结果
+ */
+export interface DishSpecSelection {
+  /** 已选规格（按规格组排序） */
+  specs: SelectedDishSpec[];
+  /** 规格加价合计 */
+  specPrice: number;
+  /** 规格描述，如"大杯/微糖"，未选规格时为空 */
+  specText: string | null;
+  /** 规格键（排序后的选项ID），用于区分同一菜品的不同规格 */
+  specKey: string;
 }
 
 
@@ -259,6 +428,120 @@ export interface UpdateDishInput {
   salesCount?: number;
 }
 
+/**
+ * 设置菜品每日库存请求参数接口
+ */
+export interface UpdateDishStockInput {
+  /** 菜品ID - 必填 */
+  dishId: number;
+  /** 每日库存 - 为空表示不限量 */
+  dailyStock: number | null;
+}
+
+/**
+ * 设置菜品每日库存响应数据接口
+ */
+export interface UpdateDishStockResult {
+  /** 菜品ID */
+  dishId: number;
+  /** 每日库存 - 为空表示不限量 */
+  dailyStock: number | null;
+  /** 今日剩余库存 - 为空表示不限量 */
+  remainingStock: number | null;
+}
+
+/**
+ * 阶梯配送费规则 - 对应 prisma.schema 中的 RestaurantDeliveryFeeRules 表
+ */
+export interface DeliveryFeeRule {
+  /** 适用的最大配送距离（米） */
+  maxDistance: number;
+  /** 配送费 */
+  fee: number;
+}
+
+/**
+ * 餐厅配送设置
+ */
+export interface DeliverySettings {
+  /** 纬度 */
+  latitude: number | null;
+  /** 经度 */
+  longitude: number | null;
+  /** 配送半径（米）- 为空表示不限制 */
+  deliveryRadius: number | null;
+  /** 配送范围多边形顶点 - 为空表示按配送半径判断 */
+  deliveryPolygon: GeoPoint[] | null;
+  /** 阶梯配送费规则，按距离升序 - 为空时使用餐厅固定配送费 */
+  feeRules: DeliveryFeeRule[];
+}
+
+/**
+ * 设置餐厅配送范围和阶梯配送费请求参数接口
+ */
+export interface UpdateDeliverySettingsInput {
+  /** 纬度 - 必填 */
+  latitude: number;
+  /** 经度 - 必填 */
+  longitude: number;
+  /** 配送半径（米）- 可选 */
+  deliveryRadius: number | null;
+  /** 配送范围多边形顶点 - 可选，至少3个点 */
+  deliveryPolygon: GeoPoint[] | null;
+  /** 阶梯配送费规则 - 为空时使用餐厅固定配送费 */
+  feeRules: DeliveryFeeRule[];
+}
+
+/**
+ * 配送距离和配送费计算结果
+ */
+export interface DeliveryQuote {
+  /** 配送距离（公里）- 餐厅或地址未设置位置时为空 */
+  distance: number | null;
+  /** 配送费 */
+  deliveryFee: Decimal;
+}
+
+/**
+ * 设置每周营业时间请求参数接口
+ */
+export interface UpdateBusinessHoursInput {
+  /** 每周营业时间 - 同一天可设置多个时段，为空表示全天营业 */
+  businessHours: BusinessHour[];
+}
+
+/**
+ * 设置节假日营业安排请求参数接口
+ */
+export interface UpsertHolidayInput {
+  /** 日期 - YYYY-MM-DD */
+  date: string;
+  /** 是否全天休息 */
+  isClosed: boolean;
+  /** 特殊营业开始时间 - HH:mm，不休息时必填 */
+  openTime?: string;
+  /** 特殊营业结束时间 - HH:mm，不休息时必填 */
+  closeTime?: string;
+  /** 备注 - 可选 */
+  remark?: string;
+}
+
+/**
+ * 暂停接单请求参数接口
+ */
+export interface PauseOrdersInput {
+  /** 暂停时长（分钟）- 为0时恢复接单 */
+  minutes: number;
+}
+
+/**
+ * 餐厅营业安排响应数据接口
+ */
+export interface BusinessScheduleResult extends RestaurantSchedule, RestaurantOpenStatus {
+  /** 餐厅ID */
+  restaurantId: number;
+}
+
 /**
  * 创建餐厅标签请求参数接口
  */
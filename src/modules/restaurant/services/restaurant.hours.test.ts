@@ -0,0 +1,200 @@
+import { describe, expect, it } from "vitest";
+import businessHoursCalculator from "./restaurant.hours";
+import {
+  BusinessHour,
+  RestaurantHoliday,
+  RestaurantSchedule,
+} from "../models/restaurant";
+
+/**
+ * 构造本地时间（营业时间按服务器本地时区计算）
+ * @param day - 2026年10月的日期
+ * @param hours - 小时
+ * @param minutes - 分钟
+ * @returns 时间
+ */
+const at = (day: number, hours: number, minutes: number = 0): Date =>
+  new Date(2026, 9, day, hours, minutes);
+
+/**
+ * 构造每天相同的每周营业时间
+ * @param openTime - 开始营业时间
+ * @param closeTime - 结束营业时间
+ * @returns 每周营业时间
+ */
+const everyDay = (openTime: string, closeTime: string): BusinessHour[] =>
+  [0, 1, 2, 3, 4, 5, 6].map((dayOfWeek) => ({ dayOfWeek, openTime, closeTime }));
+
+/**
+ * 构造节假日安排
+ * @param date - 日期 YYYY-MM-DD
+ * @param overrides - 覆盖的字段
+ * @returns 节假日安排
+ */
+const buildHoliday = (
+  date: string,
+  overrides: Partial<RestaurantHoliday> = {}
+): RestaurantHoliday => ({
+  id: 1,
+  restaurantId: 1,
+  date,
+  isClosed: true,
+  openTime: null,
+  closeTime: null,
+  remark: null,
+  ...overrides,
+});
+
+/**
+ * 构造营业安排
+ * @param overrides - 覆盖的字段
+ * @returns 营业安排
+ */
+const buildSchedule = (
+  overrides: Partial<RestaurantSchedule> = {}
+): RestaurantSchedule => ({
+  businessHours: everyDay("10:00", "14:00"),
+  holidays: [],
+  pausedUntil: null,
+  ...overrides,
+});
+
+describe("businessHoursCalculator.getOpenStatus", () => {
+  it("营业时段内返回当前时段的结束时间", () => {
+    expect(
+      businessHoursCalculator.getOpenStatus(buildSchedule(), at(19, 12))
+    ).toEqual({ isOpen: true, nextOpenAt: null, closesAt: at(19, 14) });
+  });
+
+  it("结束时间不在营业时段内，返回下次营业时间", () => {
+    expect(
+      businessHoursCalculator.getOpenStatus(buildSchedule(), at(19, 14))
+    ).toEqual({ isOpen: false, nextOpenAt: at(20, 10), closesAt: null });
+  });
+
+  it("只在部分星期营业时跳过不营业的日期", () => {
+    const schedule = buildSchedule({
+      businessHours: [
+        { dayOfWeek: at(22, 0).getDay(), openTime: "10:00", closeTime: "14:00" },
+      ],
+    });
+
+    expect(businessHoursCalculator.getOpenStatus(schedule, at(19, 15))).toEqual({
+      isOpen: false,
+      nextOpenAt: at(22, 10),
+      closesAt: null,
+    });
+  });
+
+  it("跨零点的时段在次日凌晨仍属于前一天的营业时段", () => {
+    const schedule = buildSchedule({ businessHours: everyDay("22:00", "02:00") });
+
+    expect(businessHoursCalculator.getOpenStatus(schedule, at(20, 1))).toEqual({
+      isOpen: true,
+      nextOpenAt: null,
+      closesAt: at(20, 2),
+    });
+    expect(businessHoursCalculator.getOpenStatus(schedule, at(20, 3))).toEqual({
+      isOpen: false,
+      nextOpenAt: at(20, 22),
+      closesAt: null,
+    });
+  });
+
+  it("前一天是节假日时不沿用每周营业时间的跨零点时段", () => {
+    const schedule = buildSchedule({
+      businessHours: everyDay("22:00", "02:00"),
+      holidays: [buildHoliday("2026-10-19")],
+    });
+
+    expect(businessHoursCalculator.getOpenStatus(schedule, at(20, 1)).isOpen).toBe(
+      false
+    );
+  });
+
+  it("营业到24:00与次日00:00开始的时段合并", () => {
+    const schedule = buildSchedule({
+      businessHours: [
+        ...everyDay("18:00", "24:00"),
+        ...everyDay("00:00", "02:00"),
+      ],
+    });
+
+    expect(businessHoursCalculator.getOpenStatus(schedule, at(19, 23))).toEqual({
+      isOpen: true,
+      nextOpenAt: null,
+      closesAt: at(20, 2),
+    });
+  });
+
+  it("未设置每周营业时间时全天营业", () => {
+    const schedule = buildSchedule({ businessHours: [] });
+
+    expect(businessHoursCalculator.getOpenStatus(schedule, at(19, 3)).isOpen).toBe(
+      true
+    );
+  });
+
+  it("节假日全天休息覆盖当天的每周营业时间", () => {
+    const schedule = buildSchedule({ holidays: [buildHoliday("2026-10-19")] });
+
+    expect(businessHoursCalculator.getOpenStatus(schedule, at(19, 12))).toEqual({
+      isOpen: false,
+      nextOpenAt: at(20, 10),
+      closesAt: null,
+    });
+  });
+
+  it("节假日按特殊营业时间营业", () => {
+    const schedule = buildSchedule({
+      holidays: [
+        buildHoliday("2026-10-19", {
+          isClosed: false,
+          openTime: "18:00",
+          closeTime: "20:00",
+        }),
+      ],
+    });
+
+    expect(businessHoursCalculator.getOpenStatus(schedule, at(19, 12))).toEqual({
+      isOpen: false,
+      nextOpenAt: at(19, 18),
+      closesAt: null,
+    });
+    expect(
+      businessHoursCalculator.getOpenStatus(schedule, at(19, 19)).closesAt
+    ).toEqual(at(19, 20));
+  });
+
+  it("暂停接单期间未营业，暂停结束时仍在营业时段内则从结束时恢复", () => {
+    const schedule = buildSchedule({ pausedUntil: at(19, 13) });
+
+    expect(businessHoursCalculator.getOpenStatus(schedule, at(19, 12))).toEqual({
+      isOpen: false,
+      nextOpenAt: at(19, 13),
+      closesAt: null,
+    });
+  });
+
+  it("暂停接单超过当天营业时段时从下一个营业时段恢复", () => {
+    const schedule = buildSchedule({ pausedUntil: at(19, 16) });
+
+    expect(
+      businessHoursCalculator.getOpenStatus(schedule, at(19, 12)).nextOpenAt
+    ).toEqual(at(20, 10));
+  });
+
+  it("近期没有营业安排时下次营业时间为空", () => {
+    const closedWeek = buildSchedule({
+      holidays: Array.from({ length: 9 }, (_, index) =>
+        buildHoliday(`2026-10-${String(18 + index).padStart(2, "0")}`)
+      ),
+    });
+
+    expect(businessHoursCalculator.getOpenStatus(closedWeek, at(19, 12))).toEqual({
+      isOpen: false,
+      nextOpenAt: null,
+      closesAt: null,
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  BusinessHour,
+  RestaurantOpenStatus,
+  RestaurantSchedule,
+  ServicePeriod,
+} from "../models/restaurant";
+
+// 计算营业时段时向后查找的天数（覆盖一周营业安排）
+const LOOKAHEAD_DAYS = 7;
+
+// 未设置每周营业时间时视为全天营业
+const ALL_DAY: Omit<BusinessHour, "dayOfWeek"> = {
+  openTime: "00:00",
+  closeTime: "24:00",
+};
+
+/**
+ * 将 HH:mm 转换为当天的分钟数
+ * @param time - HH:mm
+ * @returns 分钟数
+ */
+const toMinutes = (time: string): number => {
+  const [hours = 0, minutes = 0] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * 格式化为本地日期 YYYY-MM-DD
+ * @param date - 日期
+ * @returns 日期字符串
+ */
+const formatLocalDate = (date: Date): string =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+class BusinessHoursCalculator {
+  /**
+   * 计算餐厅当前营业状态
+   * 暂停接单期间视为未营业，下次营业时间从暂停结束后开始计算
+   * @param schedule - 营业安排
+   * @param now - 当前时间
+   * @returns 营业状态
+   */
+  getOpenStatus(
+    schedule: RestaurantSchedule,
+    now: Date = new Date()
+  ): RestaurantOpenStatus {
+    const paused = !!schedule.pausedUntil && schedule.pausedUntil > now;
+    const period = this.findPeriod(schedule, now);
+
+    if (period && !paused) {
+      return { isOpen: true, nextOpenAt: null, closesAt: period.end };
+    }
+
+    const from = paused ? schedule.pausedUntil! : now;
+    return {
+      isOpen: false,
+      nextOpenAt: this.findNextOpenAt(schedule, from),
+      closesAt: null,
+    };
+  }
+
+  /**
+   * 查找包含指定时间的营业时段（不考虑暂停接单）
+   * @param schedule - 营业安排
+   * @param time - 时间
+   * @returns 营业时段，不在营业时间内时为空
+   */
+  findPeriod(schedule: RestaurantSchedule, time: Date): ServicePeriod | null {
+    return (
+      this.buildPeriods(schedule, time).find(
+        (period) => period.start <= time && time < period.end
+      ) ?? null
+    );
+  }
+
+  /**
+   * 查找指定时间之后最近的营业时间
+   * @param schedule - 营业安排
+   * @param from - 开始时间
+   * @returns 下次营业时间，近期无营业安排时为空
+   */
+  private findNextOpenAt(schedule: RestaurantSchedule, from: Date): Date | null {
+    const period = this.buildPeriods(schedule, from).find(
+      (period) => period.end > from
+    );
+    if (!period) {
+      return null;
+    }
+    return period.start > from ? period.start : from;
+  }
+
+  /**
+   * 生成前一天到之后一周的营业时段，按开始时间排序并合并
+   * 节假日安排覆盖当天的每周营业时间；跨零点的时段从前一天开始计算
+   * @param schedule - 营业安排
+   * @param from - 基准时间
+   * @returns 营业时段列表
+   */
+  private buildPeriods(
+    schedule: RestaurantSchedule,
+    from: Date
+  ): ServicePeriod[] {
+    const periods: ServicePeriod[] = [];
+
+    for (let offset = -1; offset <= LOOKAHEAD_DAYS; offset++) {
+      const day = new Date(
+        from.getFullYear(),
+        from.getMonth(),
+        from.getDate() + offset
+      );
+      const holiday = schedule.holidays.find(
+        (holiday) => holiday.date === formatLocalDate(day)
+      );
+
+      let hours: Omit<BusinessHour, "dayOfWeek">[];
+      if (holiday) {
+        hours =
+          holiday.isClosed || !holiday.openTime || !holiday.closeTime
+            ? []
+            : [{ openTime: holiday.openTime, closeTime: holiday.closeTime }];
+      } else if (schedule.businessHours.length === 0) {
+        hours = [ALL_DAY];
+      } else {
+        hours = schedule.businessHours.filter(
+          (hour) => hour.dayOfWeek === day.getDay()
+        );
+      }
+
+      for (const hour of hours) {
+        const openMinutes = toMinutes(hour.openTime);
+        let closeMinutes = toMinutes(hour.closeTime);
+        if (closeMinutes <= openMinutes) {
+          closeMinutes += 24 * 60;
+        }
+        periods.push({
+          start: new Date(day.getTime() + openMinutes * 60000),
+          end: new Date(day.getTime() + closeMinutes * 60000),
+        });
+      }
+    }
+
+    // 合并相邻或重叠的时段（如连续的全天营业）
+    periods.sort((a, b) => a.start.getTime() - b.start.getTime());
+    const merged: ServicePeriod[] = [];
+    for (const period of periods) {
+      const last = merged[merged.length - 1];
+      if (last && period.start <= last.end) {
+        last.end = period.end > last.end ? period.end : last.end;
+      } else {
+        merged.push({ ...period });
+      }
+    }
+    return merged;
+  }
+}
+
+// 导出单例实例
+const businessHoursCalculator = new BusinessHoursCalculator();
+export default businessHoursCalculator;
@@ -0,0 +1,169 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import restaurantService from "./restaurant.service";
+import restaurantModel from "../models/restaurant.model";
+import { Restaurant } from "../models/restaurant";
+import { Address } from "../../user/models/user";
+import { HttpCode } from "../../../types/index";
+
+vi.mock("../../../utils/logger", () => ({
+  businessLogger: { info: vi.fn(), warn: vi.fn() },
+}));
+vi.mock("../models/restaurant.model", () => ({
+  default: { getDeliveryFeeRules: vi.fn() },
+}));
+
+// 经线上1米对应的纬度差
+const DEGREES_PER_METER = 180 / (6371000 * Math.PI);
+
+const FEE_RULES = [
+  { maxDistance: 3000, fee: 3 },
+  { maxDistance: 5000, fee: 6 },
+];
+
+/**
+ * 构造测试餐厅，默认已定位、不限制配送范围、固定配送费5元
+ * @param overrides - 覆盖的字段
+ * @returns 餐厅
+ */
+const buildRestaurant = (overrides: Partial<Restaurant> = {}): Restaurant => ({
+  id: 1,
+  name: "测试餐厅",
+  image: "",
+  rating: 5,
+  deliveryFee: 5,
+  deliveryTime: 30,
+  latitude: 31.2304,
+  longitude: 121.4737,
+  deliveryRadius: null,
+  deliveryPolygon: null,
+  status: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+/**
+ * 构造位于餐厅正北方指定距离的收货地址
+ * @param meters - 与餐厅的距离（米），为空时表示地址未定位
+ * @returns 收货地址
+ */
+const buildAddress = (meters: number | null): Address => ({
+  id: 1,
+  userId: 1,
+  contactName: "张三",
+  contactPhone: "13800000000",
+  province: "上海市",
+  city: "上海市",
+  district: "黄浦区",
+  detailAddress: "测试地址",
+  latitude: meters === null ? null : 31.2304 + meters * DEGREES_PER_METER,
+  longitude: meters === null ? null : 121.4737,
+  isDefault: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe("restaurantService.calculateDelivery", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(restaurantModel.getDeliveryFeeRules).mockResolvedValue([]);
+  });
+
+  it("餐厅未定位时使用固定配送费", async () => {
+    const quote = await restaurantService.calculateDelivery(
+      buildRestaurant({ latitude: null, longitude: null }),
+      buildAddress(1000)
+    );
+
+    expect(quote.distance).toBeNull();
+    expect(quote.deliveryFee.toNumber()).toBe(5);
+    expect(restaurantModel.getDeliveryFeeRules).not.toHaveBeenCalled();
+  });
+
+  it("地址未定位时，不限制范围且无阶梯配送费的餐厅使用固定配送费", async () => {
+    const quote = await restaurantService.calculateDelivery(
+      buildRestaurant(),
+      buildAddress(null)
+    );
+
+    expect(quote.distance).toBeNull();
+    expect(quote.deliveryFee.toNumber()).toBe(5);
+  });
+
+  it("地址未定位时，设置了阶梯配送费的餐厅要求更新地址", async () => {
+    vi.mocked(restaurantModel.getDeliveryFeeRules).mockResolvedValue(FEE_RULES);
+
+    await expect(
+      restaurantService.calculateDelivery(buildRestaurant(), buildAddress(null))
+    ).rejects.toEqual(
+      expect.objectContaining({ code: HttpCode.VALIDATION_ERROR })
+    );
+  });
+
+  it("按距离匹配阶梯配送费，距离保留两位小数（公里）", async () => {
+    vi.mocked(restaurantModel.getDeliveryFeeRules).mockResolvedValue(FEE_RULES);
+
+    const near = await restaurantService.calculateDelivery(
+      buildRestaurant(),
+      buildAddress(2990)
+    );
+    const far = await restaurantService.calculateDelivery(
+      buildRestaurant(),
+      buildAddress(3010)
+    );
+
+    expect(near.distance).toBe(2.99);
+    expect(near.deliveryFee.toNumber()).toBe(3);
+    expect(far.distance).toBe(3.01);
+    expect(far.deliveryFee.toNumber()).toBe(6);
+  });
+
+  it("超出最远一档阶梯配送费时超出配送范围", async () => {
+    vi.mocked(restaurantModel.getDeliveryFeeRules).mockResolvedValue(FEE_RULES);
+
+    await expect(
+      restaurantService.calculateDelivery(buildRestaurant(), buildAddress(5100))
+    ).rejects.toEqual({
+      message: "收货地址超出餐厅配送范围（距离 5.1 公里）",
+      code: HttpCode.ADDRESS_OUT_OF_RANGE,
+    });
+  });
+
+  it("超出配送半径时超出配送范围，半径内使用固定配送费", async () => {
+    const restaurant = buildRestaurant({ deliveryRadius: 2000 });
+
+    await expect(
+      restaurantService.calculateDelivery(restaurant, buildAddress(2100))
+    ).rejects.toEqual(
+      expect.objectContaining({ code: HttpCode.ADDRESS_OUT_OF_RANGE })
+    );
+
+    const quote = await restaurantService.calculateDelivery(
+      restaurant,
+      buildAddress(1500)
+    );
+    expect(quote.distance).toBe(1.5);
+    expect(quote.deliveryFee.toNumber()).toBe(5);
+  });
+
+  it("设置了配送区域时按区域判断，忽略配送半径", async () => {
+    const restaurant = buildRestaurant({
+      deliveryRadius: 10000,
+      deliveryPolygon: [
+        { latitude: 31.22, longitude: 121.46 },
+        { latitude: 31.22, longitude: 121.49 },
+        { latitude: 31.25, longitude: 121.49 },
+        { latitude: 31.25, longitude: 121.46 },
+      ],
+    });
+
+    await expect(
+      restaurantService.calculateDelivery(restaurant, buildAddress(1000))
+    ).resolves.toEqual(expect.objectContaining({ distance: 1 }));
+    await expect(
+      restaurantService.calculateDelivery(restaurant, buildAddress(3000))
+    ).rejects.toEqual(
+      expect.objectContaining({ code: HttpCode.ADDRESS_OUT_OF_RANGE })
+    );
+  });
+});
@@ -1,13 +1,33 @@
+import Decimal from 'decimal.js';
 import restaurantModel from '../models/restaurant.model';
 import {
   Restaurant,
   DishCategory,
   Dish,
+  DishSpecSelection,
+  DishSpecSelectType,
+  SelectedDishSpec,
   RestaurantTag,
   RestaurantTagTagType,
-  QueryParams
+  QueryParams,
+  UpdateDishStockInput,
+  UpdateDishStockResult,
+  RestaurantSchedule,
+  RestaurantHoliday,
+  UpdateBusinessHoursInput,
+  UpsertHolidayInput,
+  PauseOrdersInput,
+  BusinessScheduleResult,
+  DeliveryQuote,
+  DeliverySettings,
+  UpdateDeliverySettingsInput
 } from '../models/restaurant';
-import { PaginatedResponse } from '../../../types/index';
+import { Address } from '../../user/models/user';
+import { haversineDistance, isPointInPolygon } from '../../../utils/geo';
+import businessHoursCalculator from './restaurant.hours';
+import { HttpCode, PaginatedResponse } from '../../../types/index';
+import { businessLogger } from '../../../utils/logger';
+import config from '../../../config';
 
 interface MenuResult {
   categories: (DishCategory & { dishes: Dish[] })[];
@@ -122,7 +142,7 @@ class RestaurantService {
     const totalPages = Math.ceil(total / take);
 
     return {
-      data: restaurants,
+      data: await this.withOpenStatus(restaurants),
       pagination: {
         page: currentPage,
         limit: take,
@@ -146,7 +166,8 @@ class RestaurantService {
       throw new Error('餐厅不存在');
     }
 
-    return restaurant;
+    const [result] = await this.withOpenStatus([restaurant]);
+    return result!;
   }
 
   /**
@@ -209,6 +230,396 @@ class RestaurantService {
     const tags = restaurantModel.getRestaurantTags(tagType);
     return tags;
   }
+
+  /**
+   * 校验菜品规格选择并计算规格加价
+   * 必选组未选择时使用默认选项；单选组最多选1项，多选组按最少/最多数量校验
+   * @param dish - 菜品（ID和名称）
+   * @param optionIds - 选择的规格选项ID
+   * @returns 规格选择结果
+   */
+  async resolveDishSpecs(
+    dish: { id: number; name: string },
+    optionIds: number[] = []
+  ): Promise<DishSpecSelection> {
+    const groups = await restaurantModel.getDishSpecGroups(dish.id);
+    const selectedIds = new Set(optionIds);
+    if (selectedIds.size !== optionIds.length) {
+      throw { message: `菜品 "${dish.name}" 的规格选项重复`, code: HttpCode.VALIDATION_ERROR };
+    }
+
+    const specs: SelectedDishSpec[] = [];
+    let matchedCount = 0;
+    for (const group of groups) {
+      let options = group.options.filter(option => selectedIds.has(option.id));
+      matchedCount += options.length;
+
+      // 必选组未选择时使用默认选项
+      if (options.length === 0 && group.required) {
+        options = group.options.filter(option => option.isDefault);
+      }
+
+      const minSelect = Math.max(group.minSelect, group.required ? 1 : 0);
+      if (group.required && options.length === 0) {
+        throw { message: `请选择菜品 "${dish.name}" 的${group.name}`, code: HttpCode.VALIDATION_ERROR };
+      }
+      if (options.length > 0 && options.length < minSelect) {
+        throw { message: `菜品 "${dish.name}" 的${group.name}至少选择${minSelect}项`, code: HttpCode.VALIDATION_ERROR };
+      }
+      if (options.length > group.maxSelect) {
+        throw {
+          message: group.selectType === DishSpecSelectType.single
+            ? `菜品 "${dish.name}" 的${group.name}只能选择1项`
+            : `菜品 "${dish.name}" 的${group.name}最多选择${group.maxSelect}项`,
+          code: HttpCode.VALIDATION_ERROR
+        };
+      }
+
+      specs.push(...options.map(option => ({
+        groupId: group.id,
+        groupName: group.name,
+        optionId: option.id,
+        optionName: option.name,
+        price: option.price
+      })));
+    }
+
+    // 选项不属于该菜品或已停用
+    if (matchedCount !== selectedIds.size) {
+      throw { message: `菜品 "${dish.name}" 的规格选项无效`, code: HttpCode.VALIDATION_ERROR };
+    }
+
+    return {
+      specs,
+      specPrice: specs
+        .reduce((sum, spec) => sum.plus(spec.price), new Decimal(0))
+        .toNumber(),
+      specText: specs.length > 0 ? specs.map(spec => spec.optionName).join('/') : null,
+      specKey: specs
+        .map(spec => spec.optionId)
+        .sort((a, b) => a - b)
+        .join(',')
+    };
+  }
+
+  /**
+   * 设置餐厅菜品的每日库存，设置后今日剩余库存立即按新的每日库存计算
+   * @param restaurantId - 餐厅ID
+   * @param request - 设置请求，每日库存为空时取消限量
+   * @returns 设置结果
+   */
+  async updateDishStock(
+    restaurantId: number,
+    request: UpdateDishStockInput
+  ): Promise<UpdateDishStockResult> {
+    const count = await restaurantModel.updateDishStock(
+      request.dishId,
+      restaurantId,
+      request.dailyStock
+    );
+    if (count === 0) {
+      throw { message: '菜品不存在或不属于当前餐厅', code: HttpCode.NOT_FOUND };
+    }
+
+    businessLogger.info('菜品每日库存已更新', {
+      restaurantId,
+      dishId: request.dishId,
+      dailyStock: request.dailyStock
+    });
+
+    return {
+      dishId: request.dishId,
+      dailyStock: request.dailyStock,
+      remainingStock: request.dailyStock
+    };
+  }
+
+  /**
+   * 查询餐厅营业安排（包含前一天到之后一周的节假日安排）
+   * @param restaurantId - 餐厅ID
+   * @param now - 当前时间
+   * @returns 营业安排
+   */
+  async getSchedule(restaurantId: number, now: Date = new Date()): Promise<RestaurantSchedule> {
+    const schedules = await this.loadSchedules([restaurantId], now);
+    return schedules.get(restaurantId) ?? { businessHours: [], holidays: [], pausedUntil: null };
+  }
+
+  /**
+   * 获取餐厅营业安排及当前营业状态（商家端）
+   * @param restaurantId - 餐厅ID
+   * @returns 营业安排
+   */
+  async getBusinessSchedule(restaurantId: number): Promise<BusinessScheduleResult> {
+    const now = new Date();
+    const schedule = await this.getSchedule(restaurantId, now);
+
+    return {
+      restaurantId,
+      ...schedule,
+      ...businessHoursCalculator.getOpenStatus(schedule, now)
+    };
+  }
+
+  /**
+   * 设置餐厅每周营业时间（整体替换）
+   * @param restaurantId - 餐厅ID
+   * @param request - 每周营业时间
+   * @returns 营业安排
+   */
+  async updateBusinessHours(
+    restaurantId: number,
+    request: UpdateBusinessHoursInput
+  ): Promise<BusinessScheduleResult> {
+    const invalid = request.businessHours.find(hour => hour.openTime === hour.closeTime);
+    if (invalid) {
+      throw { message: '营业开始时间和结束时间不能相同', code: HttpCode.VALIDATION_ERROR };
+    }
+
+    await restaurantModel.replaceBusinessHours(restaurantId, request.businessHours);
+
+    businessLogger.info('餐厅营业时间已更新', {
+      restaurantId,
+      count: request.businessHours.length
+    });
+
+    return this.getBusinessSchedule(restaurantId);
+  }
+
+  /**
+   * 设置餐厅某一天的节假日安排（全天休息或特殊营业时间）
+   * @param restaurantId - 餐厅ID
+   * @param request - 节假日安排
+   * @returns 节假日安排
+   */
+  async upsertHoliday(
+    restaurantId: number,
+    request: UpsertHolidayInput
+  ): Promise<RestaurantHoliday> {
+    if (!request.isClosed) {
+      if (!request.openTime || !request.closeTime) {
+        throw { message: '非休息日需要填写营业开始和结束时间', code: HttpCode.VALIDATION_ERROR };
+      }
+      if (request.openTime === request.closeTime) {
+        throw { message: '营业开始时间和结束时间不能相同', code: HttpCode.VALIDATION_ERROR };
+      }
+    }
+
+    const holiday = await restaurantModel.upsertHoliday(restaurantId, request);
+
+    businessLogger.info('餐厅节假日安排已更新', {
+      restaurantId,
+      date: holiday.date,
+      isClosed: holiday.isClosed
+    });
+
+    return holiday;
+  }
+
+  /**
+   * 删除餐厅节假日安排
+   * @param restaurantId - 餐厅ID
+   * @param holidayId - 节假日安排ID
+   */
+  async deleteHoliday(restaurantId: number, holidayId: number): Promise<void> {
+    const count = await restaurantModel.deleteHoliday(holidayId, restaurantId);
+    if (count === 0) {
+      throw { message: '节假日安排不存在', code: HttpCode.NOT_FOUND };
+    }
+  }
+
+  /**
+   * 暂停接单指定分钟数，分钟数为0时恢复接单
+   * @param restaurantId - 餐厅ID
+   * @param request - 暂停请求
+   * @returns 营业安排
+   */
+  async pauseOrders(
+    restaurantId: number,
+    request: PauseOrdersInput
+  ): Promise<BusinessScheduleResult> {
+    const pausedUntil = request.minutes > 0
+      ? new Date(Date.now() + request.minutes * 60000)
+      : null;
+    await restaurantModel.updatePausedUntil(restaurantId, pausedUntil);
+
+    businessLogger.info(pausedUntil ? '餐厅暂停接单' : '餐厅恢复接单', {
+      restaurantId,
+      pausedUntil
+    });
+
+    return this.getBusinessSchedule(restaurantId);
+  }
+
+  /**
+   * 计算配送距离和配送费，并校验收货地址是否在配送范围内
+   * 餐厅未设置位置时使用固定配送费；设置了配送多边形时按多边形判断范围，否则按配送半径判断；
+   * 设置了阶梯配送费时按距离匹配，超出最远一档视为超出配送范围
+   * @param restaurant - 餐厅信息
+   * @param address - 收货地址
+   * @returns 配送距离和配送费
+   */
+  async calculateDelivery(restaurant: Restaurant, address: Address): Promise<DeliveryQuote> {
+    const flatFee = new Decimal(restaurant.deliveryFee);
+    if (restaurant.latitude == null || restaurant.longitude == null) {
+      return { distance: null, deliveryFee: flatFee };
+    }
+
+    // 步骤1: 地址未定位时，只有不限制配送范围且使用固定配送费的餐厅可以配送
+    const feeRules = await restaurantModel.getDeliveryFeeRules(restaurant.id);
+    const hasPolygon = !!restaurant.deliveryPolygon && restaurant.deliveryPolygon.length >= 3;
+    if (address.latitude == null || address.longitude == null) {
+      if (hasPolygon || restaurant.deliveryRadius != null || feeRules.length > 0) {
+        throw { message: '收货地址缺少定位信息，请更新地址后重试', code: HttpCode.VALIDATION_ERROR };
+      }
+      return { distance: null, deliveryFee: flatFee };
+    }
+
+    // 步骤2: 计算直线距离并校验配送范围
+    const point = { latitude: address.latitude, longitude: address.longitude };
+    const distanceMeters = haversineDistance(
+      { latitude: restaurant.latitude, longitude: restaurant.longitude },
+      point
+    );
+    const distance = new Decimal(distanceMeters).dividedBy(1000).toDecimalPlaces(2).toNumber();
+    const outOfRange = {
+      message: `收货地址超出餐厅配送范围（距离 ${distance} 公里）`,
+      code: HttpCode.ADDRESS_OUT_OF_RANGE
+    };
+
+    if (hasPolygon) {
+      if (!isPointInPolygon(point, restaurant.deliveryPolygon!)) {
+        throw outOfRange;
+      }
+    } else if (restaurant.deliveryRadius != null && distanceMeters > restaurant.deliveryRadius) {
+      throw outOfRange;
+    }
+
+    // 步骤3: 按距离匹配阶梯配送费
+    if (feeRules.length === 0) {
+      return { distance, deliveryFee: flatFee };
+    }
+    const rule = feeRules.find(feeRule => distanceMeters <= feeRule.maxDistance);
+    if (!rule) {
+      throw outOfRange;
+    }
+    return { distance, deliveryFee: new Decimal(rule.fee) };
+  }
+
+  /**
+   * 获取餐厅配送设置（商家端）
+   * @param restaurantId - 餐厅ID
+   * @returns 配送设置
+   */
+  async getDeliverySettings(restaurantId: number): Promise<DeliverySettings> {
+    const restaurant = await restaurantModel.findById(restaurantId);
+    if (!restaurant) {
+      throw { message: '餐厅不存在', code: HttpCode.NOT_FOUND };
+    }
+
+    return {
+      latitude: restaurant.latitude ?? null,
+      longitude: restaurant.longitude ?? null,
+      deliveryRadius: restaurant.deliveryRadius ?? null,
+      deliveryPolygon: restaurant.deliveryPolygon ?? null,
+      feeRules: await restaurantModel.getDeliveryFeeRules(restaurantId)
+    };
+  }
+
+  /**
+   * 设置餐厅位置、配送范围和阶梯配送费
+   * @param restaurantId - 餐厅ID
+   * @param request - 配送设置
+   * @returns 更新后的配送设置
+   */
+  async updateDeliverySettings(
+    restaurantId: number,
+    request: UpdateDeliverySettingsInput
+  ): Promise<DeliverySettings> {
+    if (request.deliveryPolygon && request.deliveryPolygon.length < 3) {
+      throw { message: '配送范围多边形至少需要3个顶点', code: HttpCode.VALIDATION_ERROR };
+    }
+    const distances = request.feeRules.map(rule => rule.maxDistance);
+    if (new Set(distances).size !== distances.length) {
+      throw { message: '阶梯配送费的距离不能重复', code: HttpCode.VALIDATION_ERROR };
+    }
+
+    await restaurantModel.updateDeliverySettings(restaurantId, {
+      ...request,
+      feeRules: [...request.feeRules].sort((a, b) => a.maxDistance - b.maxDistance)
+    });
+
+    businessLogger.info('餐厅配送设置已更新', {
+      restaurantId,
+      deliveryRadius: request.deliveryRadius,
+      polygonPoints: request.deliveryPolygon?.length ?? 0,
+      feeRules: request.feeRules.length
+    });
+
+    return this.getDeliverySettings(restaurantId);
+  }
+
+  /**
+   * 为餐厅列表补充当前营业状态和下次营业时间
+   * @param restaurants - 餐厅列表
+   * @returns 带营业状态的餐厅列表
+   */
+  private async withOpenStatus(restaurants: Restaurant[]): Promise<Restaurant[]> {
+    if (restaurants.length === 0) {
+      return restaurants;
+    }
+
+    const now = new Date();
+    const schedules = await this.loadSchedules(restaurants.map(restaurant => restaurant.id), now);
+
+    return restaurants.map(restaurant => {
+      const schedule = schedules.get(restaurant.id);
+      const { isOpen, nextOpenAt } = businessHoursCalculator.getOpenStatus(
+        schedule ?? { businessHours: [], holidays: [], pausedUntil: null },
+        now
+      );
+      return { ...restaurant, isOpen, nextOpenAt };
+    });
+  }
+
+  /**
+   * 批量查询餐厅营业安排，节假日范围覆盖营业时段计算所需的日期
+   * @param restaurantIds - 餐厅ID数组
+   * @param now - 当前时间
+   * @returns 餐厅ID到营业安排的映射
+   */
+  private loadSchedules(restaurantIds: number[], now: Date): Promise<Map<number, RestaurantSchedule>> {
+    const toLocalDate = (offset: number): string => {
+      const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+      return [
+        day.getFullYear(),
+        String(day.getMonth() + 1).padStart(2, '0'),
+        String(day.getDate()).padStart(2, '0')
+      ].join('-');
+    };
+
+    return restaurantModel.getSchedules(restaurantIds, toLocalDate(-1), toLocalDate(8));
+  }
+
+  /**
+   * 每日定点重置限量菜品的剩余库存
+   * 当前时间未到今日重置时刻时，以前一日的重置时刻为准
+   * @param now - 当前时间
+   * @returns 重置的菜品数量
+   */
+  async resetDailyStock(now: Date = new Date()): Promise<number> {
+    const resetBoundary = new Date(now);
+    resetBoundary.setHours(config.dishStockResetHour, 0, 0, 0);
+    if (resetBoundary > now) {
+      resetBoundary.setDate(resetBoundary.getDate() - 1);
+    }
+
+    const count = await restaurantModel.resetDailyStock(resetBoundary);
+    if (count > 0) {
+      businessLogger.info('菜品每日库存已重置', { count, resetBoundary });
+    }
+    return count;
+  }
 }
 
 // 导出单例实例
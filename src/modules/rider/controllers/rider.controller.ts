@@ -0,0 +1,186 @@
+import { Request, Response } from 'express';
+import riderService from '../services/rider.service';
+import { successResponse, errorResponse } from '../../../utils/response';
+import logger, { businessLogger } from '../../../utils/logger';
+import { HttpCode } from '../../../types/index';
+import { DeliveryStatus } from '../../order/models/order';
+
+class RiderController {
+  /**
+   * 骑手登录
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async login(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await riderService.login(req.body);
+
+      businessLogger.info('骑手登录成功', {
+        riderId: result.riderId,
+        ip: req.ip
+      });
+
+      successResponse(res, '登录成功', result);
+    } catch (error: any) {
+      logger.error('骑手登录失败', {
+        error: error.message,
+        stack: error.stack,
+        phone: req.body.phone,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 获取骑手自己的配送单列表
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async getDeliveries(req: Request, res: Response): Promise<void> {
+    try {
+      const { page, limit, status } = req.query;
+
+      const result = await riderService.getDeliveryList(req.user!.userId, {
+        page: Number(page) || 1,
+        limit: Number(limit) || 10,
+        ...(status && { status: status as DeliveryStatus })
+      });
+
+      successResponse(res, '获取配送单列表成功', result);
+    } catch (error: any) {
+      logger.error('骑手获取配送单列表失败', {
+        error: error.message,
+        stack: error.stack,
+        riderId: req.user?.userId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 获取待领取的配送单列表
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async getAvailableDeliveries(req: Request, res: Response): Promise<void> {
+    try {
+      const { page, limit } = req.query;
+
+      const result = await riderService.getAvailableDeliveryList({
+        page: Number(page) || 1,
+        limit: Number(limit) || 10
+      });
+
+      successResponse(res, '获取待领取配送单成功', result);
+    } catch (error: any) {
+      logger.error('骑手获取待领取配送单失败', {
+        error: error.message,
+        stack: error.stack,
+        riderId: req.user?.userId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 骑手领取配送单
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async claimDelivery(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await riderService.claimDelivery(req.body, req.user!.userId);
+
+      successResponse(res, '领取配送单成功', result);
+    } catch (error: any) {
+      logger.error('骑手领取配送单失败', {
+        error: error.message,
+        stack: error.stack,
+        riderId: req.user?.userId,
+        orderId: req.body.orderId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 骑手取餐
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async pickupOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await riderService.pickupOrder(req.body, req.user!.userId);
+
+      successResponse(res, '取餐成功', result);
+    } catch (error: any) {
+      logger.error('骑手取餐失败', {
+        error: error.message,
+        stack: error.stack,
+        riderId: req.user?.userId,
+        orderId: req.body.orderId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 骑手开始配送
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async startDelivery(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await riderService.startDelivery(req.body, req.user!.userId);
+
+      successResponse(res, '开始配送', result);
+    } catch (error: any) {
+      logger.error('骑手开始配送失败', {
+        error: error.message,
+        stack: error.stack,
+        riderId: req.user?.userId,
+        orderId: req.body.orderId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 骑手确认送达
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async completeDelivery(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await riderService.completeDelivery(req.body, req.user!.userId);
+
+      successResponse(res, '确认送达成功', result);
+    } catch (error: any) {
+      logger.error('骑手确认送达失败', {
+        error: error.message,
+        stack: error.stack,
+        riderId: req.user?.userId,
+        orderId: req.body.orderId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+}
+
+// 导出单例实例
+const riderController = new RiderController();
+export default riderController;
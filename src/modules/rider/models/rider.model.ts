@@ -0,0 +1,188 @@
+import { prisma } from "../../../database/prisma";
+import { Rider } from "./rider";
+import {
+  CLAIMABLE_DELIVERY_ORDER_STATUSES,
+  DeliveryStatus,
+  OrderPaymentStatus,
+} from "../../order/models/order";
+
+// 配送单列表中需要返回给骑手的订单字段
+const deliveryOrderSelect = {
+  orderNumber: true,
+  restaurantId: true,
+  orderStatus: true,
+  contactName: true,
+  contactPhone: true,
+  deliveryAddress: true,
+  deliveryTime: true,
+};
+
+class RiderModel {
+  /**
+   * 根据ID查询骑手
+   * @param id - 骑手ID
+   * @returns 骑手信息（不含密码）
+   */
+  async findById(id: number): Promise<Rider | null> {
+    const rider = await prisma.riders.findFirst({
+      where: {
+        id,
+        deletedAt: null,
+      },
+      select: {
+        id: true,
+        name: true,
+        phone: true,
+        avatar: true,
+        status: true,
+        lastLoginAt: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    return rider;
+  }
+
+  /**
+   * 根据手机号查询骑手（包含密码）
+   * @param phone - 手机号
+   * @returns 骑手信息
+   */
+  async findByPhone(phone: string): Promise<Rider | null> {
+    const rider = await prisma.riders.findFirst({
+      where: {
+        phone,
+        deletedAt: null,
+      },
+    });
+
+    return rider;
+  }
+
+  /**
+   * 更新最后登录时间
+   * @param id - 骑手ID
+   */
+  async updateLastLogin(id: number): Promise<void> {
+    await prisma.riders.update({
+      where: { id },
+      data: { lastLoginAt: new Date() },
+    });
+  }
+
+  /**
+   * 查询当前未完成配送单最少的可用骑手
+   * @returns 骑手ID，没有可用骑手时返回null
+   */
+  async findLeastBusyRiderId(): Promise<number | null> {
+    const riders = await prisma.riders.findMany({
+      where: {
+        status: true,
+        deletedAt: null,
+      },
+      select: {
+        id: true,
+        _count: {
+          select: {
+            deliveryInfo: {
+              where: {
+                deliveryStatus: { not: DeliveryStatus.DELIVERED },
+                orders: {
+        orderStatus: { in: CLAIMABLE_DELIVERY_ORDER_STATUSES },
+        paymentStatus: OrderPaymentStatus.SUCCESS,
+      },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (riders.length === 0) return null;
+
+    const leastBusy = riders.reduce((prev, current) =>
+      current._count.deliveryInfo < prev._count.deliveryInfo ? current : prev
+    );
+    return leastBusy.id;
+  }
+
+  /**
+   * 获取骑手的配送单列表（带分页和筛选）
+   * @param riderId - 骑手ID
+   * @param options - 查询选项
+   * @returns 配送单列表和总数
+   */
+  async getDeliveryListWithPagination(
+    riderId: number,
+    options: {
+      page?: number;
+      limit?: number;
+      status?: DeliveryStatus;
+    }
+  ): Promise<{ deliveries: any[]; total: number }> {
+    const where: any = { deliveryUserId: riderId };
+    if (options.status) {
+      where.deliveryStatus = options.status;
+    }
+
+    return this.findDeliveries(where, options);
+  }
+
+  /**
+   * 获取待领取的配送单列表（未分配骑手且订单未取消）
+   * @param options - 查询选项
+   * @returns 配送单列表和总数
+   */
+  async getUnassignedDeliveryListWithPagination(options: {
+    page?: number;
+    limit?: number;
+  }): Promise<{ deliveries: any[]; total: number }> {
+    const where: any = {
+      deliveryUserId: null,
+      deliveryStatus: DeliveryStatus.ASSIGNED,
+      orders: {
+        orderStatus: { in: CLAIMABLE_DELIVERY_ORDER_STATUSES },
+        paymentStatus: OrderPaymentStatus.SUCCESS,
+      },
+    };
+
+    return this.findDeliveries(where, options);
+  }
+
+  /**
+   * 分页查询配送单（包含订单收货信息）
+   * @param where - 查询条件
+   * @param options - 分页选项
+   * @returns 配送单列表和总数
+   */
+  private async findDeliveries(
+    where: any,
+    options: { page?: number; limit?: number }
+  ): Promise<{ deliveries: any[]; total: number }> {
+    const page = options.page || 1;
+    const limit = options.limit || 10;
+    const skip = (page - 1) * limit;
+
+    const [deliveries, total] = await Promise.all([
+      prisma.deliveryInfo.findMany({
+        where: where,
+        orderBy: {
+          createdAt: "desc",
+        },
+        skip: skip,
+        take: limit,
+        include: {
+          orders: { select: deliveryOrderSelect },
+        },
+      }),
+      prisma.deliveryInfo.count({ where: where }),
+    ]);
+
+    return { deliveries, total };
+  }
+}
+
+// 导出单例实例
+const riderModel = new RiderModel();
+export default riderModel;
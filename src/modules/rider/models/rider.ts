@@ -0,0 +1,108 @@
+import {
+  OrderStatus,
+  DeliveryStatus,
+  DeliveryInfo,
+} from "../../order/models/order";
+
+/**
+ * 骑手接口定义（对应数据库 riders 表）
+ */
+export interface Rider {
+  /** 骑手唯一标识ID */
+  id: number;
+  /** 骑手姓名 */
+  name: string;
+  /** 手机号码（登录账号） */
+  phone: string;
+  /** 登录密码（已加密），仅登录校验时查询 */
+  password?: string;
+  /** 头像URL，可选 */
+  avatar: string | null;
+  /** 账号状态：true-启用，false-禁用 */
+  status: boolean;
+  /** 最后登录时间，可选 */
+  lastLoginAt: Date | null;
+  /** 创建时间 */
+  createdAt: Date;
+  /** 更新时间 */
+  updatedAt: Date;
+}
+
+/**
+ * 骑手登录请求参数接口
+ */
+export interface RiderLoginInput {
+  /** 手机号码 */
+  phone: string;
+  /** 登录密码 */
+  password: string;
+}
+
+/**
+ * 骑手登录结果接口
+ */
+export interface RiderLoginResult {
+  /** 骑手ID */
+  riderId: number;
+  /** 骑手访问令牌 */
+  accessToken: string;
+  /** 令牌过期时间 */
+  expiresIn: string | number;
+  /** 骑手信息（不含密码） */
+  rider: Rider;
+}
+
+/**
+ * 骑手配送单列表请求参数接口
+ */
+export interface GetRiderDeliveryListRequest {
+  /** 页码，可选 */
+  page?: number;
+  /** 每页数量，可选 */
+  limit?: number;
+  /** 配送状态，可选 */
+  status?: DeliveryStatus;
+}
+
+/**
+ * 骑手配送单（包含订单收货信息）
+ */
+export interface RiderDelivery extends DeliveryInfo {
+  /** 订单信息 */
+  orders: {
+    /** 订单号 */
+    orderNumber: string;
+    /** 餐厅ID */
+    restaurantId: number;
+    /** 订单状态 */
+    orderStatus: OrderStatus;
+    /** 收货人姓名 */
+    contactName: string;
+    /** 收货人电话 */
+    contactPhone: string;
+    /** 收货地址 */
+    deliveryAddress: string;
+    /** 期望送达时间，可选 */
+    deliveryTime: string | null;
+  };
+}
+
+/**
+ * 骑手配送操作请求参数接口（领取、取餐、开始配送、送达）
+ */
+export interface RiderDeliveryActionRequest {
+  /** 订单ID */
+  orderId: number;
+}
+
+/**
+ * 骑手配送操作响应数据接口
+ */
+export interface RiderDeliveryActionResponse {
+  /** 订单ID */
+  orderId: number;
+  /** 操作后的配送状态 */
+  deliveryStatus: DeliveryStatus;
+  /** 操作后的订单状态 */
+  orderStatus: OrderStatus;
+}
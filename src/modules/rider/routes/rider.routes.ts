@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import riderController from '../controllers/rider.controller';
+import { riderAuthMiddleware } from '../../../middleware/auth';
+import { requirePermission } from '../../../middleware/rbac';
+import { Permission } from '../../rbac/models/rbac';
+import { validate } from '../../../middleware/validation';
+import { riderValidation } from '../../../middleware/validation/schemas';
+import { loginLimiter } from '../../../middleware/rateLimiter';
+
+// 创建路由器
+const router: Router = Router();
+
+/**
+ * 骑手路由模块
+ * 包含骑手登录、配送单领取、取餐、配送、送达等骑手端接口
+ */
+
+// 1. 骑手登录
+router.post('/login',
+  loginLimiter,
+  validate(riderValidation.login),
+  riderController.login
+);
+
+// 2. 获取我的配送单列表（支持分页和配送状态筛选）
+router.get('/orders',
+  riderAuthMiddleware,
+  requirePermission(Permission.RIDER_DELIVERY_MANAGE),
+  validate(riderValidation.getDeliveries),
+  riderController.getDeliveries
+);
+
+// 3. 获取待领取的配送单列表
+router.get('/orders/available',
+  riderAuthMiddleware,
+  requirePermission(Permission.RIDER_DELIVERY_MANAGE),
+  validate(riderValidation.getDeliveries),
+  riderController.getAvailableDeliveries
+);
+
+// 4. 领取配送单
+router.post('/orders/claim',
+  riderAuthMiddleware,
+  requirePermission(Permission.RIDER_DELIVERY_MANAGE),
+  validate(riderValidation.deliveryAction),
+  riderController.claimDelivery
+);
+
+// 5. 到店取餐
+router.post('/orders/pickup',
+  riderAuthMiddleware,
+  requirePermission(Permission.RIDER_DELIVERY_MANAGE),
+  validate(riderValidation.deliveryAction),
+  riderController.pickupOrder
+);
+
+// 6. 开始配送
+router.post('/orders/start',
+  riderAuthMiddleware,
+  requirePermission(Permission.RIDER_DELIVERY_MANAGE),
+  validate(riderValidation.deliveryAction),
+  riderController.startDelivery
+);
+
+// 7. 确认送达
+router.post('/orders/delivered',
+  riderAuthMiddleware,
+  requirePermission(Permission.RIDER_DELIVERY_MANAGE),
+  validate(riderValidation.deliveryAction),
+  riderController.completeDelivery
+);
+
+export default router;
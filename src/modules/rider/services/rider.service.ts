@@ -0,0 +1,339 @@
+import bcrypt from "bcryptjs";
+import logger, { businessLogger, securityLogger } from "../../../utils/logger";
+import config from "../../../config";
+import { HttpCode, PaginatedResponse } from "../../../types/index";
+import { generateRiderToken } from "../../../utils/jwt";
+import {
+  RiderLoginInput,
+  RiderLoginResult,
+  RiderDelivery,
+  GetRiderDeliveryListRequest,
+  RiderDeliveryActionRequest,
+  RiderDeliveryActionResponse,
+} from "../models/rider";
+import {
+  OrderAction,
+  OperatorType,
+  DeliveryStatus,
+  DeliveryStatusChange,
+  OrderTransitionResult,
+  OrderPaymentStatus,
+  CLAIMABLE_DELIVERY_ORDER_STATUSES,
+} from "../../order/models/order";
+import riderModel from "../models/rider.model";
+import orderModel from "../../order/models/order.model";
+import orderStateMachine from "../../order/services/order.state";
+import { PrincipalType } from "../../rbac/models/rbac";
+import rbacService from "../../rbac/services/rbac.service";
+import { assertDeliveryRider } from "../../rbac/services/policy";
+
+class RiderService {
+  /**
+   * 骑手登录
+   * @param loginData - 登录数据
+   * @returns 登录结果
+   */
+  async login(loginData: RiderLoginInput): Promise<RiderLoginResult> {
+    businessLogger.info("开始执行骑手登录", { phone: loginData.phone });
+
+    // 步骤1: 查询骑手（包含密码）
+    const rider = await riderModel.findByPhone(loginData.phone);
+    if (!rider || !rider.password) {
+      throw { message: "手机号或密码错误", code: HttpCode.AUTH_FAILED };
+    }
+
+    if (!rider.status) {
+      securityLogger.warn("骑手账号已被禁用", { riderId: rider.id });
+      throw { message: "骑手账号已被禁用", code: HttpCode.FORBIDDEN };
+    }
+
+    // 步骤2: 校验密码
+    const isPasswordValid = await bcrypt.compare(
+      loginData.password,
+      rider.password
+    );
+    if (!isPasswordValid) {
+      securityLogger.warn("骑手登录密码错误", { riderId: rider.id });
+      throw { message: "手机号或密码错误", code: HttpCode.AUTH_FAILED };
+    }
+
+    // 步骤3: 读取角色权限，生成骑手令牌并记录登录时间
+    const grants = await rbacService.getGrants(PrincipalType.RIDER, rider.id);
+    const accessToken = generateRiderToken(rider.id, grants);
+    await riderModel.updateLastLogin(rider.id);
+
+    logger.info(`Rider logged in: ${rider.id}`, { riderId: rider.id });
+
+    const { password, ...riderInfo } = rider;
+
+    return {
+      riderId: rider.id,
+      accessToken,
+      expiresIn: config.jwt.expiresIn,
+      rider: riderInfo,
+    };
+  }
+
+  /**
+   * 为订单选择配送骑手（商家接单时调用）
+   * 选择当前未完成配送单最少的可用骑手，没有可用骑手时返回null，等待骑手领取
+   * @param orderId - 订单ID
+   * @returns 骑手ID
+   */
+  async selectRider(orderId: number): Promise<number | null> {
+    const riderId = await riderModel.findLeastBusyRiderId();
+
+    if (riderId) {
+      businessLogger.info("订单已自动分配骑手", { orderId, riderId });
+    } else {
+      businessLogger.warn("暂无可用骑手，订单等待骑手领取", { orderId });
+    }
+
+    return riderId;
+  }
+
+  /**
+   * 获取骑手自己的配送单列表
+   * @param riderId - 骑手ID
+   * @param params - 查询参数
+   * @returns 分页配送单列表
+   */
+  async getDeliveryList(
+    riderId: number,
+    params: GetRiderDeliveryListRequest
+  ): Promise<PaginatedResponse<RiderDelivery>> {
+    const page = Number(params.page) || 1;
+    const limit = Number(params.limit) || 10;
+
+    const { deliveries, total } =
+      await riderModel.getDeliveryListWithPagination(riderId, {
+        ...params,
+        page,
+        limit,
+      });
+
+    return this.toPaginatedResponse(deliveries, total, page, limit);
+  }
+
+  /**
+   * 获取待领取的配送单列表
+   * @param params - 查询参数
+   * @returns 分页配送单列表
+   */
+  async getAvailableDeliveryList(
+    params: GetRiderDeliveryListRequest
+  ): Promise<PaginatedResponse<RiderDelivery>> {
+    const page = Number(params.page) || 1;
+    const limit = Number(params.limit) || 10;
+
+    const { deliveries, total } =
+      await riderModel.getUnassignedDeliveryListWithPagination({ page, limit });
+
+    return this.toPaginatedResponse(deliveries, total, page, limit);
+  }
+
+  /**
+   * 骑手领取未分配的配送单
+   * @param request - 操作请求
+   * @param riderId - 骑手ID
+   * @returns 操作结果
+   */
+  async claimDelivery(
+    request: RiderDeliveryActionRequest,
+    riderId: number
+  ): Promise<RiderDeliveryActionResponse> {
+    businessLogger.info("骑手开始领取配送单", {
+      orderId: request.orderId,
+      riderId,
+    });
+
+    const order = await orderModel.findById(request.orderId);
+    if (!order) {
+      throw { message: "订单不存在", code: HttpCode.NOT_FOUND };
+    }
+    if (
+      !CLAIMABLE_DELIVERY_ORDER_STATUSES.includes(order.orderStatus) ||
+      order.paymentStatus !== OrderPaymentStatus.SUCCESS
+    ) {
+      throw { message: "订单当前状态不可领取配送", code: HttpCode.VALIDATION_ERROR };
+    }
+
+    await orderModel.claimDelivery(request.orderId, riderId);
+
+    businessLogger.info("骑手领取配送单成功", {
+      orderId: request.orderId,
+      riderId,
+    });
+
+    return {
+      orderId: request.orderId,
+      deliveryStatus: DeliveryStatus.ASSIGNED,
+      orderStatus: order.orderStatus,
+    };
+  }
+
+  /**
+   * 骑手到店取餐，订单进入配送中
+   * @param request - 操作请求
+   * @param riderId - 骑手ID
+   * @returns 操作结果
+   */
+  async pickupOrder(
+    request: RiderDeliveryActionRequest,
+    riderId: number
+  ): Promise<RiderDeliveryActionResponse> {
+    return this.changeDeliveryStatus(
+      request.orderId,
+      riderId,
+      { fromStatus: DeliveryStatus.ASSIGNED, toStatus: DeliveryStatus.PICKED_UP },
+      OrderAction.DISPATCH
+    );
+  }
+
+  /**
+   * 骑手开始配送
+   * @param request - 操作请求
+   * @param riderId - 骑手ID
+   * @returns 操作结果
+   */
+  async startDelivery(
+    request: RiderDeliveryActionRequest,
+    riderId: number
+  ): Promise<RiderDeliveryActionResponse> {
+    return this.changeDeliveryStatus(request.orderId, riderId, {
+      fromStatus: DeliveryStatus.PICKED_UP,
+      toStatus: DeliveryStatus.DELIVERING,
+    });
+  }
+
+  /**
+   * 骑手确认送达，订单完成
+   * @param request - 操作请求
+   * @param riderId - 骑手ID
+   * @returns 操作结果
+   */
+  async completeDelivery(
+    request: RiderDeliveryActionRequest,
+    riderId: number
+  ): Promise<RiderDeliveryActionResponse> {
+    return this.changeDeliveryStatus(
+      request.orderId,
+      riderId,
+      { fromStatus: DeliveryStatus.DELIVERING, toStatus: DeliveryStatus.DELIVERED },
+      OrderAction.CONFIRM,
+      "骑手确认送达"
+    );
+  }
+
+  /**
+   * 推进配送状态，需要时同步推进订单状态
+   * @param orderId - 订单ID
+   * @param riderId - 骑手ID
+   * @param change - 配送状态变更
+   * @param action - 需要同步执行的订单动作，可选
+   * @param remark - 订单状态日志备注，可选
+   * @returns 操作结果
+   */
+  private async changeDeliveryStatus(
+    orderId: number,
+    riderId: number,
+    change: DeliveryStatusChange,
+    action?: OrderAction,
+    remark?: string
+  ): Promise<RiderDeliveryActionResponse> {
+    businessLogger.info("骑手开始更新配送状态", {
+      orderId,
+      riderId,
+      fromStatus: change.fromStatus,
+      toStatus: change.toStatus,
+    });
+
+    // 步骤1: 校验配送单归属和状态
+    const deliveryInfo = await orderModel.getDeliveryInfo(orderId);
+    if (!deliveryInfo) {
+      throw { message: "配送信息不存在", code: HttpCode.NOT_FOUND };
+    }
+    assertDeliveryRider(deliveryInfo, riderId);
+    if (deliveryInfo.deliveryStatus !== change.fromStatus) {
+      throw { message: "配送状态不允许该操作", code: HttpCode.VALIDATION_ERROR };
+    }
+
+    const order = await orderModel.findById(orderId);
+    if (!order) {
+      throw { message: "订单不存在", code: HttpCode.NOT_FOUND };
+    }
+
+    // 步骤2: 通过状态机校验订单状态
+    let transition: OrderTransitionResult | undefined;
+    if (action) {
+      transition = orderStateMachine.transition(
+        order,
+        action,
+        OperatorType.DELIVERY,
+        remark
+      );
+    }
+
+    // 步骤3: 补充配送时间
+    const now = new Date();
+    if (change.toStatus === DeliveryStatus.PICKED_UP) {
+      change.pickedUpAt = now;
+    }
+    if (change.toStatus === DeliveryStatus.DELIVERED) {
+      change.deliveredAt = now;
+      if (deliveryInfo.pickedUpAt) {
+        change.deliveryDuration = Math.ceil(
+          (now.getTime() - new Date(deliveryInfo.pickedUpAt).getTime()) / 60000
+        );
+      }
+    }
+
+    // 步骤4: 同一事务中更新配送单和订单状态
+    await orderModel.updateDeliveryStatus(orderId, riderId, change, transition);
+
+    businessLogger.info("骑手更新配送状态成功", {
+      orderId,
+      riderId,
+      deliveryStatus: change.toStatus,
+    });
+
+    return {
+      orderId,
+      deliveryStatus: change.toStatus,
+      orderStatus: transition ? transition.toStatus : order.orderStatus,
+    };
+  }
+
+  /**
+   * 构建标准分页响应
+   * @param data - 数据列表
+   * @param total - 总数
+   * @param page - 页码
+   * @param limit - 每页数量
+   * @returns 分页响应
+   */
+  private toPaginatedResponse<T>(
+    data: T[],
+    total: number,
+    page: number,
+    limit: number
+  ): PaginatedResponse<T> {
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+}
+
+// 导出单例实例
+const riderService = new RiderService();
+export default riderService;
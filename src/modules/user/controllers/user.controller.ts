@@ -1,10 +1,51 @@
 import { Request, Response } from 'express';
 import userService from '../services/user.service';
+import smsCodeService from '../services/smsCode.service';
+import { SessionClient, SmsCodePurpose } from '../models/user';
 import { successResponse, errorResponse } from '../../../utils/response';
 import logger, { businessLogger } from '../../../utils/logger';
 import {HttpCode} from '../../../types/index';
 
+/**
+ * 获取请求的客户端信息（用于会话和账号安全记录）
+ * @param req - 请求对象
+ * @returns 客户端信息
+ */
+const getClient = (req: Request): SessionClient => {
+  const userAgent = req.get('User-Agent');
+  return {
+    ...(userAgent && { userAgent }),
+    ...(req.ip && { ip: req.ip })
+  };
+};
+
 class UserController {
+  /**
+   * 发送短信验证码
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async sendSmsCode(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await smsCodeService.sendCode({
+        phone: req.body.phone,
+        purpose: req.body.purpose as SmsCodePurpose
+      });
+
+      successResponse(res, '验证码已发送', result);
+    } catch (error: any) {
+      logger.error('发送短信验证码失败', {
+        error: error.message,
+        stack: error.stack,
+        phone: req.body.phone,
+        purpose: req.body.purpose,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
   /**
    * 用户注册
    * @param req - 请求对象
@@ -18,7 +59,7 @@ class UserController {
         userAgent: req.get('User-Agent')
       });
 
-      const result = await userService.register(req.body);
+      const result = await userService.register(req.body, getClient(req));
 
       businessLogger.info('User registration successful', {
         userId: result.user?.id,
@@ -51,7 +92,7 @@ class UserController {
         userAgent: req.get('User-Agent')
       });
 
-      const result = await userService.login(req.body);
+      const result = await userService.login(req.body, getClient(req));
 
       businessLogger.info('User login successful', {
         userId: result.user?.id,
@@ -82,7 +123,7 @@ class UserController {
         ip: req.ip
       });
 
-      await userService.logout(req.user!.userId);
+      await userService.logout(req.user!.userId, req.user!.sid!, getClient(req));
 
       businessLogger.info('User logout successful', {
         userId: req.user!.userId,
@@ -171,8 +212,17 @@ class UserController {
    */
   async changePassword(req: Request, res: Response): Promise<void> {
     try {
-      await userService.changePassword(req.user!.userId, req.body);
-      successResponse(res, '密码修改成功');
+      const result = await userService.changePassword(
+        req.user!.userId,
+        req.user!.sid!,
+        {
+          oldPassword: req.body.oldPassword,
+          newPassword: req.body.newPassword,
+          revokeOtherSessions: req.body.revokeOtherSessions === true
+        },
+        getClient(req)
+      );
+      successResponse(res, '密码修改成功', result);
     } catch (error: any) {
       logger.error('密码修改失败', {
         error: error.message,
@@ -185,6 +235,128 @@ class UserController {
     }
   }
 
+  /**
+   * 获取已登录的设备列表
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async getSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await userService.getSessions(req.user!.userId, req.user!.sid!);
+      successResponse(res, '获取登录设备成功', result);
+    } catch (error: any) {
+      logger.error('获取登录设备失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 退出指定设备
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async revokeSession(req: Request, res: Response): Promise<void> {
+    try {
+      await userService.revokeSession(
+        req.user!.userId,
+        Number(req.params.id),
+        getClient(req)
+      );
+      successResponse(res, '已退出该设备');
+    } catch (error: any) {
+      logger.error('退出登录设备失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        sessionId: req.params.id,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 退出除当前设备外的全部设备
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async revokeOtherSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await userService.revokeOtherSessions(
+        req.user!.userId,
+        req.user!.sid!,
+        getClient(req)
+      );
+      successResponse(res, '已退出其他设备', result);
+    } catch (error: any) {
+      logger.error('退出其他设备失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 获取账号安全记录
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async getSecurityEvents(req: Request, res: Response): Promise<void> {
+    try {
+      const { page, limit } = req.query;
+
+      const result = await userService.getSecurityEvents(req.user!.userId, {
+        page: Number(page) || 1,
+        limit: Number(limit) || 10
+      });
+      successResponse(res, '获取安全记录成功', result);
+    } catch (error: any) {
+      logger.error('获取安全记录失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 校验重置密码验证码
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async verifyResetCode(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await userService.verifyResetCode({
+        phone: req.body.phone,
+        code: req.body.code
+      });
+      successResponse(res, '验证码校验成功', result);
+    } catch (error: any) {
+      logger.error('重置密码验证码校验失败', {
+        error: error.message,
+        stack: error.stack,
+        phone: req.body.phone,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
   /**
    * 重置密码
    * @param req - 请求对象
@@ -192,16 +364,19 @@ class UserController {
    */
   async resetPassword(req: Request, res: Response): Promise<void> {
     try {
-      await userService.resetPassword(req.body);
+      await userService.resetPassword({
+        resetToken: req.body.resetToken,
+        newPassword: req.body.newPassword
+      }, getClient(req));
       successResponse(res, '密码重置成功');
     } catch (error: any) {
       logger.error('密码重置失败', {
         error: error.message,
         stack: error.stack,
         ip: req.ip,
-        code: HttpCode.INTERNAL_ERROR
+        code: error.code || HttpCode.INTERNAL_ERROR
       });
-      errorResponse(res, error.message, 400, HttpCode.INTERNAL_ERROR);
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
     }
   }
 
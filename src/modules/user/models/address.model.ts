@@ -32,6 +32,8 @@ class AddressModel {
         city: addressData.city,
         district: addressData.district,
         detailAddress: addressData.detailAddress,
+        latitude: addressData.latitude ?? null,
+        longitude: addressData.longitude ?? null,
         isDefault: addressData.isDefault || false,
       },
     });
@@ -0,0 +1,47 @@
+import { prisma } from "../../../database/prisma";
+
+class PasswordResetTokenModel {
+  /**
+   * 保存新签发的重置令牌，同一用户未使用的旧重置令牌立即失效
+   * @param data - 重置令牌数据
+   */
+  async create(data: {
+    userId: number;
+    jti: string;
+    expiresAt: Date;
+  }): Promise<void> {
+    const now = new Date();
+
+    await prisma.$transaction(async (tx) => {
+      await tx.passwordResetTokens.updateMany({
+        where: {
+          userId: data.userId,
+          usedAt: null,
+          expiresAt: { gt: now },
+        },
+        data: { expiresAt: now },
+      });
+
+      await tx.passwordResetTokens.create({ data });
+    });
+  }
+
+  /**
+   * 使用重置令牌（条件更新，同一令牌只有一个请求能使用成功）
+   * @param jti - 重置令牌唯一标识
+   * @param userId - 用户ID
+   * @param now - 使用时间
+   * @returns 是否使用成功，令牌不存在、已使用或已失效时返回false
+   */
+  async consume(jti: string, userId: number, now: Date): Promise<boolean> {
+    const result = await prisma.passwordResetTokens.updateMany({
+      where: { jti, userId, usedAt: null, expiresAt: { gt: now } },
+      data: { usedAt: now },
+    });
+    return result.count > 0;
+  }
+}
+
+// 导出单例实例
+const passwordResetTokenModel = new PasswordResetTokenModel();
+export default passwordResetTokenModel;
@@ -0,0 +1,54 @@
+import { prisma } from "../../../database/prisma";
+import { SecurityEvent, SecurityEventType } from "./user";
+
+class SecurityEventModel {
+  /**
+   * 记录账号安全事件
+   * @param data - 事件数据
+   */
+  async create(data: {
+    userId: number;
+    eventType: SecurityEventType;
+    sessionId: number | null;
+    ip: string | null;
+    userAgent: string | null;
+    detail: string | null;
+  }): Promise<void> {
+    await prisma.userSecurityEvents.create({ data });
+  }
+
+  /**
+   * 分页查询用户的账号安全事件（按时间倒序）
+   * @param userId - 用户ID
+   * @param options - 分页参数
+   * @returns 事件列表和总数
+   */
+  async findWithPagination(
+    userId: number,
+    options: { page: number; limit: number }
+  ): Promise<{ events: SecurityEvent[]; total: number }> {
+    const skip = (options.page - 1) * options.limit;
+
+    const [events, total] = await Promise.all([
+      prisma.userSecurityEvents.findMany({
+        where: { userId },
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        skip,
+        take: options.limit,
+      }),
+      prisma.userSecurityEvents.count({ where: { userId } }),
+    ]);
+
+    return {
+      events: events.map((event) => ({
+        ...event,
+        eventType: event.eventType as SecurityEventType,
+      })),
+      total,
+    };
+  }
+}
+
+// 导出单例实例
+const securityEventModel = new SecurityEventModel();
+export default securityEventModel;
@@ -0,0 +1,172 @@
+import { prisma } from "../../../database/prisma";
+import { SessionRevokeReason, UserSession } from "./user";
+
+class SessionModel {
+  /**
+   * 创建用户会话
+   * @param data - 会话数据
+   * @returns 会话
+   */
+  async create(data: {
+    userId: number;
+    refreshJti: string;
+    userAgent: string | null;
+    ip: string | null;
+    expiresAt: Date;
+  }): Promise<UserSession> {
+    const session = await prisma.userSessions.create({ data });
+    return this.toUserSession(session);
+  }
+
+  /**
+   * 根据ID查询会话
+   * @param id - 会话ID
+   * @returns 会话
+   */
+  async findById(id: number): Promise<UserSession | null> {
+    const session = await prisma.userSessions.findUnique({ where: { id } });
+    return session ? this.toUserSession(session) : null;
+  }
+
+  /**
+   * 查询用户未吊销且未过期的会话（按最近活跃时间倒序）
+   * @param userId - 用户ID
+   * @param now - 当前时间
+   * @returns 会话列表
+   */
+  async findActiveByUserId(userId: number, now: Date): Promise<UserSession[]> {
+    const sessions = await prisma.userSessions.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: now } },
+      orderBy: [{ lastActiveAt: "desc" }, { id: "desc" }],
+    });
+    return sessions.map((session) => this.toUserSession(session));
+  }
+
+  /**
+   * 轮换刷新令牌（条件更新，只有持有当前刷新令牌的请求能轮换成功）
+   * @param id - 会话ID
+   * @param currentJti - 当前刷新令牌唯一标识
+   * @param nextJti - 新刷新令牌唯一标识
+   * @param expiresAt - 新的会话过期时间
+   * @returns 是否轮换成功
+   */
+  async rotate(
+    id: number,
+    currentJti: string,
+    nextJti: string,
+    expiresAt: Date
+  ): Promise<boolean> {
+    const now = new Date();
+    const result = await prisma.userSessions.updateMany({
+      where: { id, refreshJti: currentJti, revokedAt: null },
+      data: {
+        refreshJti: nextJti,
+        expiresAt,
+        lastActiveAt: now,
+        updatedAt: now,
+      },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * 更新会话最近活跃时间（条件更新，只有上次活跃时间早于指定时间时才写入）
+   * @param id - 会话ID
+   * @param now - 活跃时间
+   * @param staleBefore - 上次活跃时间早于该时间时才更新
+   */
+  async touch(id: number, now: Date, staleBefore: Date): Promise<void> {
+    await prisma.userSessions.updateMany({
+      where: { id, revokedAt: null, lastActiveAt: { lt: staleBefore } },
+      data: { lastActiveAt: now },
+    });
+  }
+
+  /**
+   * 吊销会话
+   * @param id - 会话ID
+   * @param reason - 吊销原因
+   * @returns 是否吊销成功（会话已吊销时返回 false）
+   */
+  async revoke(id: number, reason: SessionRevokeReason): Promise<boolean> {
+    const now = new Date();
+    const result = await prisma.userSessions.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: now, revokeReason: reason, updatedAt: now },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * 吊销用户的全部会话
+   * @param userId - 用户ID
+   * @param reason - 吊销原因
+   * @returns 吊销的会话数量
+   */
+  async revokeAllByUserId(
+    userId: number,
+    reason: SessionRevokeReason
+  ): Promise<number> {
+    const now = new Date();
+    const result = await prisma.userSessions.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: now, revokeReason: reason, updatedAt: now },
+    });
+    return result.count;
+  }
+
+  /**
+   * 吊销用户除指定会话外的全部会话
+   * @param userId - 用户ID
+   * @param exceptSessionId - 保留的会话ID
+   * @param reason - 吊销原因
+   * @returns 吊销的会话数量
+   */
+  async revokeOthersByUserId(
+    userId: number,
+    exceptSessionId: number,
+    reason: SessionRevokeReason
+  ): Promise<number> {
+    const now = new Date();
+    const result = await prisma.userSessions.updateMany({
+      where: { userId, revokedAt: null, id: { not: exceptSessionId } },
+      data: { revokedAt: now, revokeReason: reason, updatedAt: now },
+    });
+    return result.count;
+  }
+
+  /**
+   * 转换为会话实体
+   * @param session - 数据库记录
+   * @returns 会话实体
+   */
+  private toUserSession(session: {
+    id: number;
+    userId: number;
+    refreshJti: string;
+    userAgent: string | null;
+    ip: string | null;
+    expiresAt: Date;
+    lastActiveAt: Date;
+    revokedAt: Date | null;
+    revokeReason: string | null;
+    createdAt: Date;
+  }): UserSession {
+    return {
+      id: session.id,
+      userId: session.userId,
+      refreshJti: session.refreshJti,
+      userAgent: session.userAgent,
+      ip: session.ip,
+      expiresAt: session.expiresAt,
+      lastActiveAt: session.lastActiveAt,
+      revokedAt: session.revokedAt,
+      revokeReason: session.revokeReason as SessionRevokeReason | null,
+      createdAt: session.createdAt,
+    };
+  }
+}
+
+// 导出单例实例
+const sessionModel = new SessionModel();
+export default sessionModel;
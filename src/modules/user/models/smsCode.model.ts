@@ -0,0 +1,112 @@
+import { prisma } from "../../../database/prisma";
+import { SmsCode, SmsCodePurpose } from "./user";
+
+class SmsCodeModel {
+  /**
+   * 保存新的验证码，同一手机号和用途下未使用的旧验证码立即失效
+   * @param data - 验证码数据
+   * @returns 验证码记录
+   */
+  async create(data: {
+    phone: string;
+    purpose: SmsCodePurpose;
+    codeHash: string;
+    expiresAt: Date;
+  }): Promise<SmsCode> {
+    const now = new Date();
+
+    const smsCode = await prisma.$transaction(async (tx) => {
+      await tx.smsCodes.updateMany({
+        where: {
+          phone: data.phone,
+          purpose: data.purpose,
+          usedAt: null,
+          expiresAt: { gt: now },
+        },
+        data: { expiresAt: now },
+      });
+
+      return tx.smsCodes.create({ data });
+    });
+
+    return this.toSmsCode(smsCode);
+  }
+
+  /**
+   * 查询手机号和用途下最近一条未使用且未过期的验证码
+   * @param phone - 手机号
+   * @param purpose - 用途
+   * @param now - 当前时间
+   * @returns 验证码记录
+   */
+  async findActive(
+    phone: string,
+    purpose: SmsCodePurpose,
+    now: Date
+  ): Promise<SmsCode | null> {
+    const smsCode = await prisma.smsCodes.findFirst({
+      where: {
+        phone,
+        purpose,
+        usedAt: null,
+        expiresAt: { gt: now },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return smsCode ? this.toSmsCode(smsCode) : null;
+  }
+
+  /**
+   * 占用一次校验次数（条件更新，并发校验时次数不会超过上限）
+   * @param id - 验证码记录ID
+   * @param maxAttempts - 最多校验次数
+   * @returns 是否占用成功，已达到上限时为false
+   */
+  async consumeAttempt(id: number, maxAttempts: number): Promise<boolean> {
+    const result = await prisma.smsCodes.updateMany({
+      where: { id, attempts: { lt: maxAttempts } },
+      data: { attempts: { increment: 1 } },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * 标记验证码已使用（条件更新，防止并发请求重复使用同一验证码）
+   * @param id - 验证码记录ID
+   * @param now - 使用时间
+   * @returns 是否标记成功
+   */
+  async markUsed(id: number, now: Date): Promise<boolean> {
+    const result = await prisma.smsCodes.updateMany({
+      where: { id, usedAt: null },
+      data: { usedAt: now },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * 转换为验证码实体
+   * @param smsCode - 数据库记录
+   * @returns 验证码实体
+   */
+  private toSmsCode(smsCode: {
+    id: number;
+    phone: string;
+    purpose: string;
+    codeHash: string;
+    attempts: number;
+    expiresAt: Date;
+    usedAt: Date | null;
+    createdAt: Date;
+  }): SmsCode {
+    return {
+      ...smsCode,
+      purpose: smsCode.purpose as SmsCodePurpose,
+    };
+  }
+}
+
+// 导出单例实例
+const smsCodeModel = new SmsCodeModel();
+export default smsCodeModel;
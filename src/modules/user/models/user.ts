@@ -32,7 +32,7 @@ export interface CreateUserInput {
   password: string;
   /** 手机号码 */
   phone: string;
-  /** 验证码 */
+  /** 注册短信验证码 */
   authCode: string;
 }
 
@@ -58,8 +58,8 @@ export interface UserLoginInput {
   password?: string;
   /** 手机号码，可选 */
   phone: string;
-//登陆码
-  authCode?:string;
+  /** 登录短信验证码，未填写密码时必填 */
+  authCode?: string;
 }
 
 /**
@@ -70,16 +70,36 @@ export interface ChangePasswordInput {
   oldPassword: string;
   /** 新密码 */
   newPassword: string;
+  /** 是否同时退出其他设备，可选，默认否 */
+  revokeOtherSessions?: boolean;
 }
 
 /**
- * 重置密码请求参数接口
+ * 校验重置密码验证码请求参数接口
  */
-export interface ResetPasswordInput {
+export interface VerifyResetCodeInput {
   /** 用户手机号 */
   phone: string;
   /** 验证码 */
   code: string;
+}
+
+/**
+ * 校验重置密码验证码结果接口
+ */
+export interface VerifyResetCodeResult {
+  /** 重置令牌 */
+  resetToken: string;
+  /** 重置令牌有效期（秒） */
+  expiresIn: number;
+}
+
+/**
+ * 重置密码请求参数接口
+ */
+export interface ResetPasswordInput {
+  /** 校验验证码后获得的重置令牌 */
+  resetToken: string;
   /** 新密码 */
   newPassword: string;
 }
@@ -104,6 +124,10 @@ export interface Address {
   district: string;
   /** 详细地址 */
   detailAddress: string;
+  /** 纬度，未定位时为空 */
+  latitude?: number | null;
+  /** 经度，未定位时为空 */
+  longitude?: number | null;
   /** 是否为默认地址 */
   isDefault: boolean;
   /** 创建时间 */
@@ -132,6 +156,10 @@ export interface CreateAddressInput {
   district: string;
   /** 详细地址 */
   detailAddress: string;
+  /** 纬度，可选 */
+  latitude?: number;
+  /** 经度，可选 */
+  longitude?: number;
   /** 是否设为默认地址，可选 */
   isDefault?: boolean;
 }
@@ -152,6 +180,10 @@ export interface UpdateAddressInput {
   district?: string;
   /** 详细地址，可选 */
   detailAddress?: string;
+  /** 纬度，可选 */
+  latitude?: number;
+  /** 经度，可选 */
+  longitude?: number;
   /** 是否设为默认地址，可选 */
   isDefault?: boolean;
 }
@@ -180,4 +212,182 @@ export interface TokenPair {
   expiresIn: string | number;
 //  刷新令牌过期时间
   refreshExpiresIn: string | number;
-}
\ No newline at end of file
+}
+/**
+ * 短信验证码用途枚举
+ */
+export enum SmsCodePurpose {
+  /** 注册 */
+  REGISTER = 'register',
+  /** 验证码登录 */
+  LOGIN = 'login',
+  /** 重置密码 */
+  RESET = 'reset'
+}
+
+/**
+ * 短信验证码实体接口（对应数据库 sms_codes 表，只保存验证码的哈希）
+ */
+export interface SmsCode {
+  /** 验证码记录ID */
+  id: number;
+  /** 手机号码 */
+  phone: string;
+  /** 用途 */
+  purpose: SmsCodePurpose;
+  /** 验证码哈希 */
+  codeHash: string;
+  /** 已校验次数 */
+  attempts: number;
+  /** 过期时间 */
+  expiresAt: Date;
+  /** 使用时间，未使用时为空 */
+  usedAt: Date | null;
+  /** 创建时间 */
+  createdAt: Date;
+}
+
+/**
+ * 发送短信验证码请求参数接口
+ */
+export interface SendSmsCodeInput {
+  /** 手机号码 */
+  phone: string;
+  /** 用途 */
+  purpose: SmsCodePurpose;
+}
+
+/**
+ * 发送短信验证码结果接口
+ */
+export interface SendSmsCodeResult {
+  /** 验证码有效期（秒） */
+  expiresIn: number;
+}
+
+/**
+ * 用户会话吊销原因枚举
+ */
+export enum SessionRevokeReason {
+  /** 用户登出 */
+  LOGOUT = 'logout',
+  /** 检测到已轮换的刷新令牌被重复使用 */
+  REFRESH_REUSE = 'refresh_reuse',
+  /** 重置密码 */
+  PASSWORD_RESET = 'password_reset',
+  /** 修改密码时退出其他设备 */
+  PASSWORD_CHANGE = 'password_change',
+  /** 用户在设备管理中退出 */
+  USER_REVOKED = 'user_revoked'
+}
+
+/**
+ * 用户会话实体接口（对应数据库 user_sessions 表）
+ * 每次登录创建一个会话，会话内的刷新令牌每次刷新轮换，只有最新的刷新令牌有效
+ */
+export interface UserSession {
+  /** 会话ID */
+  id: number;
+  /** 用户ID */
+  userId: number;
+  /** 当前有效的刷新令牌唯一标识 */
+  refreshJti: string;
+  /** 登录设备的 User-Agent */
+  userAgent: string | null;
+  /** 登录IP */
+  ip: string | null;
+  /** 会话过期时间（与最新刷新令牌的过期时间一致） */
+  expiresAt: Date;
+  /** 最近活跃时间（最近一次登录、刷新令牌或使用访问令牌的时间，精确到分钟） */
+  lastActiveAt: Date;
+  /** 吊销时间，未吊销时为空 */
+  revokedAt: Date | null;
+  /** 吊销原因 */
+  revokeReason: SessionRevokeReason | null;
+  /** 创建时间 */
+  createdAt: Date;
+}
+
+/**
+ * 登录客户端信息接口
+ */
+export interface SessionClient {
+  /** 客户端 User-Agent */
+  userAgent?: string;
+  /** 客户端IP */
+  ip?: string;
+}
+
+/**
+ * 登录设备展示数据接口
+ */
+export interface SessionView {
+  /** 会话ID */
+  id: number;
+  /** 登录设备的 User-Agent */
+  userAgent: string | null;
+  /** 登录IP */
+  ip: string | null;
+  /** 登录时间 */
+  createdAt: Date;
+  /** 最近活跃时间 */
+  lastActiveAt: Date;
+  /** 是否为当前设备 */
+  current: boolean;
+}
+
+/**
+ * 账号安全事件类型枚举
+ */
+export enum SecurityEventType {
+  /** 注册 */
+  REGISTER = 'register',
+  /** 登录成功 */
+  LOGIN = 'login',
+  /** 登录失败（密码或验证码错误） */
+  LOGIN_FAILED = 'login_failed',
+  /** 登出 */
+  LOGOUT = 'logout',
+  /** 修改密码 */
+  PASSWORD_CHANGE = 'password_change',
+  /** 重置密码 */
+  PASSWORD_RESET = 'password_reset',
+  /** 退出指定设备 */
+  SESSION_REVOKED = 'session_revoked',
+  /** 退出其他全部设备 */
+  OTHER_SESSIONS_REVOKED = 'other_sessions_revoked',
+  /** 检测到刷新令牌重复使用 */
+  REFRESH_REUSE = 'refresh_reuse'
+}
+
+/**
+ * 账号安全事件实体接口（对应数据库 user_security_events 表）
+ */
+export interface SecurityEvent {
+  /** 事件ID */
+  id: number;
+  /** 用户ID */
+  userId: number;
+  /** 事件类型 */
+  eventType: SecurityEventType;
+  /** 相关会话ID */
+  sessionId: number | null;
+  /** 客户端IP */
+  ip: string | null;
+  /** 客户端 User-Agent */
+  userAgent: string | null;
+  /** 事件说明 */
+  detail: string | null;
+  /** 发生时间 */
+  createdAt: Date;
+}
+
+/**
+ * 获取账号安全记录请求参数接口
+ */
+export interface GetSecurityEventsRequest {
+  /** 页码，默认1 */
+  page?: number;
+  /** 每页数量，默认10 */
+  limit?: number;
+}
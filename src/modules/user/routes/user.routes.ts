@@ -6,7 +6,8 @@ import { userValidation } from '../../../middleware/validation/schemas';
 import {
   loginLimiter,
   registerLimiter,
-  passwordResetLimiter
+  passwordResetLimiter,
+  smsLimiter
 } from '../../../middleware/rateLimiter';
 import { businessLogger, securityLogger } from '../../../utils/logger';
 
@@ -18,6 +19,13 @@ const router: Router = Router();
  * 包含用户注册、登录、信息管理等所有用户相关接口
  */
 
+// 发送短信验证码（注册、登录、重置密码）
+router.post('/sms-code',
+  smsLimiter,
+  validate(userValidation.sendSmsCode),
+  userController.sendSmsCode
+);
+
 // 用户注册
 router.post('/register',
   (req, res, next) => {
@@ -62,8 +70,23 @@ router.put('/profile', authMiddleware, validate(userValidation.updateProfile), u
 // 修改密码
 router.put('/password', authMiddleware, validate(userValidation.changePassword), userController.changePassword);
 
-// 重置密码
-router.post('/reset-password', passwordResetLimiter, userController.resetPassword);
+// 获取已登录的设备列表
+router.get('/sessions', authMiddleware, userController.getSessions);
+
+// 退出除当前设备外的全部设备
+router.delete('/sessions', authMiddleware, userController.revokeOtherSessions);
+
+// 退出指定设备
+router.delete('/sessions/:id', authMiddleware, validate(userValidation.revokeSession), userController.revokeSession);
+
+// 获取账号安全记录（登录、登出、修改密码、设备退出等）
+router.get('/security-logs', authMiddleware, validate(userValidation.getSecurityEvents), userController.getSecurityEvents);
+
+// 重置密码第一步：校验短信验证码，获取重置令牌
+router.post('/reset-password/verify', passwordResetLimiter, validate(userValidation.verifyResetCode), userController.verifyResetCode);
+
+// 重置密码第二步：使用重置令牌设置新密码
+router.post('/reset-password', passwordResetLimiter, validate(userValidation.resetPassword), userController.resetPassword);
 
 // 获取用户地址列表
 router.get('/addresses', authMiddleware, userController.getAddresses);
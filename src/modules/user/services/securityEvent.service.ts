@@ -0,0 +1,80 @@
+import logger from "../../../utils/logger";
+import { PaginatedResponse } from "../../../types/index";
+import {
+  GetSecurityEventsRequest,
+  SecurityEvent,
+  SecurityEventType,
+  SessionClient,
+} from "../models/user";
+import securityEventModel from "../models/securityEvent.model";
+
+class SecurityEventService {
+  /**
+   * 记录账号安全事件
+   * 记录失败只写日志，不影响登录、修改密码等主流程
+   * @param userId - 用户ID
+   * @param eventType - 事件类型
+   * @param client - 客户端信息
+   * @param extra - 相关会话ID和事件说明，可选
+   */
+  async record(
+    userId: number,
+    eventType: SecurityEventType,
+    client: SessionClient = {},
+    extra: { sessionId?: number; detail?: string } = {}
+  ): Promise<void> {
+    try {
+      await securityEventModel.create({
+        userId,
+        eventType,
+        sessionId: extra.sessionId ?? null,
+        ip: client.ip ?? null,
+        userAgent: client.userAgent ? client.userAgent.substring(0, 255) : null,
+        detail: extra.detail ? extra.detail.substring(0, 255) : null,
+      });
+    } catch (error: any) {
+      logger.error("记录账号安全事件失败", {
+        error: error.message,
+        userId,
+        eventType,
+      });
+    }
+  }
+
+  /**
+   * 分页获取用户的账号安全记录
+   * @param userId - 用户ID
+   * @param params - 分页参数
+   * @returns 安全记录分页列表
+   */
+  async getEvents(
+    userId: number,
+    params: GetSecurityEventsRequest
+  ): Promise<PaginatedResponse<SecurityEvent>> {
+    const page = Number(params.page) || 1;
+    const limit = Number(params.limit) || 10;
+
+    const { events, total } = await securityEventModel.findWithPagination(
+      userId,
+      { page, limit }
+    );
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: events,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+}
+
+// 导出单例实例
+const securityEventService = new SecurityEventService();
+export default securityEventService;
@@ -0,0 +1,157 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import sessionService from "./session.service";
+import sessionModel from "../models/session.model";
+import userModel from "../models/user.model";
+import securityEventService from "./securityEvent.service";
+import rbacService from "../../rbac/services/rbac.service";
+import { generateToken, verifyRefreshToken } from "../../../utils/jwt";
+import { HttpCode, JwtType } from "../../../types/index";
+import {
+  SecurityEventType,
+  SessionRevokeReason,
+  UserSession,
+} from "../models/user";
+
+vi.mock("../../../utils/logger", () => ({
+  default: { info: vi.fn() },
+  securityLogger: { info: vi.fn(), warn: vi.fn() },
+}));
+vi.mock("../../../utils/jwt", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../utils/jwt")>()),
+  verifyRefreshToken: vi.fn(),
+  generateToken: vi.fn(),
+}));
+vi.mock("../models/session.model", () => ({
+  default: { findById: vi.fn(), rotate: vi.fn(), revoke: vi.fn() },
+}));
+vi.mock("../models/user.model", () => ({
+  default: { findById: vi.fn() },
+}));
+vi.mock("./securityEvent.service", () => ({
+  default: { record: vi.fn() },
+}));
+vi.mock("../../rbac/services/rbac.service", () => ({
+  default: { getGrants: vi.fn() },
+}));
+
+const GRANTS = { roles: ["user"], permissions: ["order:place"] };
+const TOKENS = {
+  accessToken: "access",
+  refreshToken: "refresh",
+  expiresIn: "15m",
+  refreshExpiresIn: "7d",
+};
+
+/**
+ * 构造测试会话，默认为未吊销、未过期的会话
+ * @param overrides - 覆盖的字段
+ * @returns 会话
+ */
+const buildSession = (overrides: Partial<UserSession> = {}): UserSession => ({
+  id: 5,
+  userId: 1,
+  refreshJti: "jti-current",
+  userAgent: null,
+  ip: null,
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  lastActiveAt: new Date(),
+  revokedAt: null,
+  revokeReason: null,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+/**
+ * 模拟刷新令牌的校验结果
+ * @param jti - 刷新令牌唯一标识
+ */
+const mockRefreshToken = (jti: string): void => {
+  vi.mocked(verifyRefreshToken).mockReturnValue({
+    isExpired: false,
+    isValid: true,
+    jwtPayload: { userId: 1, iat: 0, type: JwtType.refresh, sid: 5, jti },
+  });
+};
+
+describe("sessionService.refresh", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(sessionModel.findById).mockResolvedValue(buildSession());
+    vi.mocked(sessionModel.rotate).mockResolvedValue(true);
+    vi.mocked(userModel.findById).mockResolvedValue({ id: 1, status: true } as never);
+    vi.mocked(rbacService.getGrants).mockResolvedValue(GRANTS as never);
+    vi.mocked(generateToken).mockReturnValue(TOKENS);
+  });
+
+  it("轮换刷新令牌并按当前权限签发新的令牌对", async () => {
+    mockRefreshToken("jti-current");
+
+    await expect(sessionService.refresh("refresh-token")).resolves.toBe(TOKENS);
+
+    expect(sessionModel.rotate).toHaveBeenCalledWith(
+      5,
+      "jti-current",
+      expect.any(String),
+      expect.any(Date)
+    );
+    const nextJti = vi.mocked(sessionModel.rotate).mock.calls[0]?.[2];
+    expect(nextJti).not.toBe("jti-current");
+    expect(generateToken).toHaveBeenCalledWith(1, 5, nextJti, GRANTS);
+    expect(sessionModel.revoke).not.toHaveBeenCalled();
+  });
+
+  it("已轮换的刷新令牌再次使用时吊销会话并记录安全事件", async () => {
+    mockRefreshToken("jti-previous");
+
+    await expect(sessionService.refresh("refresh-token")).rejects.toEqual({
+      message: "刷新令牌已失效，请重新登录",
+      code: HttpCode.INVALID_TOKEN,
+    });
+
+    expect(sessionModel.revoke).toHaveBeenCalledWith(
+      5,
+      SessionRevokeReason.REFRESH_REUSE
+    );
+    expect(securityEventService.record).toHaveBeenCalledWith(
+      1,
+      SecurityEventType.REFRESH_REUSE,
+      {},
+      { sessionId: 5 }
+    );
+    expect(sessionModel.rotate).not.toHaveBeenCalled();
+    expect(generateToken).not.toHaveBeenCalled();
+  });
+
+  it("并发请求已抢先轮换时吊销会话", async () => {
+    mockRefreshToken("jti-current");
+    vi.mocked(sessionModel.rotate).mockResolvedValue(false);
+
+    await expect(sessionService.refresh("refresh-token")).rejects.toEqual(
+      expect.objectContaining({ code: HttpCode.INVALID_TOKEN })
+    );
+
+    expect(sessionModel.revoke).toHaveBeenCalledWith(
+      5,
+      SessionRevokeReason.REFRESH_REUSE
+    );
+    expect(generateToken).not.toHaveBeenCalled();
+  });
+
+  it("已吊销的会话拒绝刷新且不重复吊销", async () => {
+    mockRefreshToken("jti-previous");
+    vi.mocked(sessionModel.findById).mockResolvedValue(
+      buildSession({
+        revokedAt: new Date(),
+        revokeReason: SessionRevokeReason.REFRESH_REUSE,
+      })
+    );
+
+    await expect(sessionService.refresh("refresh-token")).rejects.toEqual({
+      message: "刷新令牌无效或已过期",
+      code: HttpCode.INVALID_TOKEN,
+    });
+
+    expect(sessionModel.revoke).not.toHaveBeenCalled();
+    expect(sessionModel.rotate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,250 @@
+import crypto from "crypto";
+import config from "../../../config";
+import logger, { securityLogger } from "../../../utils/logger";
+import { addTime, generateToken, verifyRefreshToken } from "../../../utils/jwt";
+import { HttpCode, JwtPayload } from "../../../types/index";
+import {
+  SecurityEventType,
+  SessionClient,
+  SessionRevokeReason,
+  SessionView,
+  TokenPair,
+  UserSession,
+} from "../models/user";
+import sessionModel from "../models/session.model";
+import userModel from "../models/user.model";
+import securityEventService from "./securityEvent.service";
+import { PrincipalType } from "../../rbac/models/rbac";
+import rbacService from "../../rbac/services/rbac.service";
+
+// 会话最近活跃时间的更新间隔，同一会话每分钟最多写入一次
+const LAST_ACTIVE_UPDATE_INTERVAL_MS = 60 * 1000;
+
+class SessionService {
+  /**
+   * 创建会话并签发令牌（登录、注册成功后调用）
+   * @param userId - 用户ID
+   * @param client - 登录客户端信息
+   * @returns 会话和令牌对
+   */
+  async createSession(
+    userId: number,
+    client: SessionClient
+  ): Promise<{ session: UserSession; tokens: TokenPair }> {
+    const refreshJti = crypto.randomUUID();
+    const session = await sessionModel.create({
+      userId,
+      refreshJti,
+      userAgent: client.userAgent ? client.userAgent.substring(0, 255) : null,
+      ip: client.ip ?? null,
+      expiresAt: new Date(addTime(new Date(), config.jwt.refreshExpiresIn)),
+    });
+    const grants = await rbacService.getGrants(PrincipalType.USER, userId);
+
+    return {
+      session,
+      tokens: generateToken(userId, session.id, refreshJti, grants),
+    };
+  }
+
+  /**
+   * 使用刷新令牌换取新的令牌对，刷新令牌每次使用后轮换
+   * 新的访问令牌按当前角色权限签发，角色调整在下次刷新后生效
+   * 已轮换的刷新令牌再次使用视为令牌泄露，吊销整个会话
+   * @param refreshToken - 刷新令牌
+   * @returns 新的令牌对
+   */
+  async refresh(refreshToken: string): Promise<TokenPair> {
+    const invalidToken = { message: "刷新令牌无效或已过期", code: HttpCode.INVALID_TOKEN };
+
+    // 步骤1: 验证刷新令牌
+    const decoded = verifyRefreshToken(refreshToken);
+    const payload = decoded.jwtPayload;
+    if (!payload || !payload.sid || !payload.jti) {
+      throw invalidToken;
+    }
+
+    // 步骤2: 校验会话状态
+    const session = await sessionModel.findById(payload.sid);
+    if (!session || session.userId !== payload.userId) {
+      throw invalidToken;
+    }
+    if (session.revokedAt) {
+      securityLogger.warn("已吊销会话的刷新令牌被使用", {
+        userId: session.userId,
+        sessionId: session.id,
+        revokeReason: session.revokeReason,
+      });
+      throw invalidToken;
+    }
+
+    // 步骤3: 检测刷新令牌重复使用
+    if (session.refreshJti !== payload.jti) {
+      await this.revokeForReuse(session);
+      throw { message: "刷新令牌已失效，请重新登录", code: HttpCode.INVALID_TOKEN };
+    }
+    if (session.expiresAt <= new Date()) {
+      throw invalidToken;
+    }
+
+    const user = await userModel.findById(session.userId);
+    if (!user || !user.status) {
+      throw { message: "用户不存在或已被禁用", code: HttpCode.AUTH_FAILED };
+    }
+
+    // 步骤4: 轮换刷新令牌，并发使用同一刷新令牌时只有一个请求能轮换成功
+    const nextJti = crypto.randomUUID();
+    const rotated = await sessionModel.rotate(
+      session.id,
+      payload.jti,
+      nextJti,
+      new Date(addTime(new Date(), config.jwt.refreshExpiresIn))
+    );
+    if (!rotated) {
+      await this.revokeForReuse(session);
+      throw { message: "刷新令牌已失效，请重新登录", code: HttpCode.INVALID_TOKEN };
+    }
+
+    const grants = await rbacService.getGrants(PrincipalType.USER, session.userId);
+    return generateToken(session.userId, session.id, nextJti, grants);
+  }
+
+  /**
+   * 查询访问令牌对应的有效会话，并更新会话最近活跃时间（每分钟最多一次）
+   * @param payload - 访问令牌载荷
+   * @returns 会话，会话不存在、已吊销或已过期时为空
+   */
+  async findActiveSession(payload: JwtPayload): Promise<UserSession | null> {
+    if (!payload.sid) {
+      return null;
+    }
+    const session = await sessionModel.findById(payload.sid);
+    const now = new Date();
+    if (
+      !session ||
+      session.userId !== payload.userId ||
+      session.revokedAt ||
+      session.expiresAt <= now
+    ) {
+      return null;
+    }
+
+    const staleBefore = new Date(now.getTime() - LAST_ACTIVE_UPDATE_INTERVAL_MS);
+    if (session.lastActiveAt < staleBefore) {
+      await sessionModel.touch(session.id, now, staleBefore);
+    }
+    return session;
+  }
+
+  /**
+   * 获取用户已登录的设备列表
+   * @param userId - 用户ID
+   * @param currentSessionId - 当前会话ID
+   * @returns 登录设备列表
+   */
+  async getActiveSessions(
+    userId: number,
+    currentSessionId: number
+  ): Promise<SessionView[]> {
+    const sessions = await sessionModel.findActiveByUserId(userId, new Date());
+
+    return sessions.map((session) => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      ip: session.ip,
+      createdAt: session.createdAt,
+      lastActiveAt: session.lastActiveAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * 退出指定设备
+   * @param userId - 用户ID
+   * @param sessionId - 要退出的会话ID
+   * @param client - 发起操作的客户端信息
+   */
+  async revokeUserSession(
+    userId: number,
+    sessionId: number,
+    client: SessionClient
+  ): Promise<void> {
+    const session = await sessionModel.findById(sessionId);
+    if (!session || session.userId !== userId || session.revokedAt) {
+      throw { message: "登录设备不存在或已退出", code: HttpCode.NOT_FOUND };
+    }
+
+    await sessionModel.revoke(sessionId, SessionRevokeReason.USER_REVOKED);
+    await securityEventService.record(
+      userId,
+      SecurityEventType.SESSION_REVOKED,
+      client,
+      { sessionId }
+    );
+  }
+
+  /**
+   * 退出除当前设备外的全部设备
+   * @param userId - 用户ID
+   * @param currentSessionId - 当前会话ID
+   * @param reason - 吊销原因
+   * @returns 退出的设备数量
+   */
+  async revokeOtherSessions(
+    userId: number,
+    currentSessionId: number,
+    reason: SessionRevokeReason
+  ): Promise<number> {
+    const count = await sessionModel.revokeOthersByUserId(
+      userId,
+      currentSessionId,
+      reason
+    );
+    securityLogger.info("用户其他会话已吊销", { userId, currentSessionId, reason, count });
+    return count;
+  }
+
+  /**
+   * 吊销会话
+   * @param sessionId - 会话ID
+   * @param reason - 吊销原因
+   */
+  async revokeSession(sessionId: number, reason: SessionRevokeReason): Promise<void> {
+    await sessionModel.revoke(sessionId, reason);
+    logger.info(`User session revoked: ${sessionId}`, { sessionId, reason });
+  }
+
+  /**
+   * 吊销用户的全部会话
+   * @param userId - 用户ID
+   * @param reason - 吊销原因
+   * @returns 吊销的会话数量
+   */
+  async revokeAllSessions(userId: number, reason: SessionRevokeReason): Promise<number> {
+    const count = await sessionModel.revokeAllByUserId(userId, reason);
+    securityLogger.info("用户全部会话已吊销", { userId, reason, count });
+    return count;
+  }
+
+  /**
+   * 刷新令牌重复使用时吊销整个会话
+   * @param session - 会话
+   */
+  private async revokeForReuse(session: UserSession): Promise<void> {
+    await sessionModel.revoke(session.id, SessionRevokeReason.REFRESH_REUSE);
+    securityLogger.warn("检测到刷新令牌重复使用，会话已吊销", {
+      userId: session.userId,
+      sessionId: session.id,
+    });
+    await securityEventService.record(
+      session.userId,
+      SecurityEventType.REFRESH_REUSE,
+      {},
+      { sessionId: session.id }
+    );
+  }
+}
+
+// 导出单例实例
+const sessionService = new SessionService();
+export default sessionService;
@@ -0,0 +1,98 @@
+import crypto from "crypto";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import smsCodeService from "./smsCode.service";
+import smsCodeModel from "../models/smsCode.model";
+import config from "../../../config";
+import { HttpCode } from "../../../types/index";
+import { SmsCode, SmsCodePurpose } from "../models/user";
+
+vi.mock("../../../utils/logger", () => ({
+  businessLogger: { info: vi.fn() },
+  securityLogger: { warn: vi.fn() },
+}));
+vi.mock("../../../utils/notification", () => ({
+  sendSMSCode: vi.fn(),
+}));
+vi.mock("../models/smsCode.model", () => ({
+  default: { findActive: vi.fn(), consumeAttempt: vi.fn(), markUsed: vi.fn() },
+}));
+vi.mock("../models/user.model", () => ({
+  default: { findByPhone: vi.fn() },
+}));
+
+const PHONE = "13800000000";
+
+/**
+ * 构造测试验证码记录，哈希与正式逻辑一致
+ * @param code - 验证码
+ * @returns 验证码记录
+ */
+const buildSmsCode = (code: string): SmsCode => ({
+  id: 7,
+  phone: PHONE,
+  purpose: SmsCodePurpose.LOGIN,
+  codeHash: crypto
+    .createHmac("sha256", config.jwt.secret)
+    .update(`${PHONE}:${SmsCodePurpose.LOGIN}:${code}`)
+    .digest("hex"),
+  attempts: 0,
+  expiresAt: new Date(Date.now() + 5 * 60 * 1000),
+  usedAt: null,
+  createdAt: new Date(),
+});
+
+describe("smsCodeService.verifyCode", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(smsCodeModel.findActive).mockResolvedValue(buildSmsCode("123456"));
+    vi.mocked(smsCodeModel.consumeAttempt).mockResolvedValue(true);
+    vi.mocked(smsCodeModel.markUsed).mockResolvedValue(true);
+  });
+
+  it("校验次数达到上限时拒绝校验，不再比对验证码", async () => {
+    vi.mocked(smsCodeModel.consumeAttempt).mockResolvedValue(false);
+
+    await expect(
+      smsCodeService.verifyCode(PHONE, SmsCodePurpose.LOGIN, "123456")
+    ).rejects.toEqual({
+      message: "验证码错误次数过多，请重新获取",
+      code: HttpCode.INVALID_AUTH_CODE,
+    });
+
+    expect(smsCodeModel.consumeAttempt).toHaveBeenCalledWith(
+      7,
+      config.smsCodeMaxAttempts
+    );
+    expect(smsCodeModel.markUsed).not.toHaveBeenCalled();
+  });
+
+  it("验证码错误时已占用校验次数", async () => {
+    await expect(
+      smsCodeService.verifyCode(PHONE, SmsCodePurpose.LOGIN, "654321")
+    ).rejects.toEqual({
+      message: "验证码错误",
+      code: HttpCode.INVALID_AUTH_CODE,
+    });
+
+    expect(smsCodeModel.consumeAttempt).toHaveBeenCalledTimes(1);
+    expect(smsCodeModel.markUsed).not.toHaveBeenCalled();
+  });
+
+  it("验证码正确时标记为已使用", async () => {
+    await expect(
+      smsCodeService.verifyCode(PHONE, SmsCodePurpose.LOGIN, "123456")
+    ).resolves.toBeUndefined();
+
+    expect(smsCodeModel.markUsed).toHaveBeenCalledWith(7, expect.any(Date));
+  });
+
+  it("并发请求已使用验证码时校验失败", async () => {
+    vi.mocked(smsCodeModel.markUsed).mockResolvedValue(false);
+
+    await expect(
+      smsCodeService.verifyCode(PHONE, SmsCodePurpose.LOGIN, "123456")
+    ).rejects.toEqual(
+      expect.objectContaining({ message: "验证码无效或已过期，请重新获取" })
+    );
+  });
+});
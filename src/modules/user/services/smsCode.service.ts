@@ -0,0 +1,128 @@
+import crypto from "crypto";
+import config from "../../../config";
+import { businessLogger, securityLogger } from "../../../utils/logger";
+import { sendSMSCode } from "../../../utils/notification";
+import { HttpCode } from "../../../types/index";
+import {
+  SendSmsCodeInput,
+  SendSmsCodeResult,
+  SmsCodePurpose,
+} from "../models/user";
+import smsCodeModel from "../models/smsCode.model";
+import userModel from "../models/user.model";
+
+// 验证码位数
+const SMS_CODE_LENGTH = 6;
+
+// 各用途在短信中的名称
+const PURPOSE_LABELS: Record<SmsCodePurpose, string> = {
+  [SmsCodePurpose.REGISTER]: "注册",
+  [SmsCodePurpose.LOGIN]: "登录",
+  [SmsCodePurpose.RESET]: "重置密码",
+};
+
+class SmsCodeService {
+  /**
+   * 发送短信验证码
+   * 注册要求手机号未注册，登录和重置密码要求手机号已注册
+   * @param request - 发送请求
+   * @returns 验证码有效期
+   */
+  async sendCode(request: SendSmsCodeInput): Promise<SendSmsCodeResult> {
+    const { phone, purpose } = request;
+
+    // 步骤1: 按用途校验手机号注册状态
+    const user = await userModel.findByPhone(phone);
+    if (purpose === SmsCodePurpose.REGISTER && user) {
+      throw { message: "手机号已存在", code: HttpCode.DUPLICATE_ENTRY };
+    }
+    if (purpose !== SmsCodePurpose.REGISTER && !user) {
+      throw { message: "用户不存在", code: HttpCode.NOT_FOUND };
+    }
+
+    // 步骤2: 生成随机验证码，只保存哈希
+    const code = crypto
+      .randomInt(0, 10 ** SMS_CODE_LENGTH)
+      .toString()
+      .padStart(SMS_CODE_LENGTH, "0");
+    await smsCodeModel.create({
+      phone,
+      purpose,
+      codeHash: this.hashCode(phone, purpose, code),
+      expiresAt: new Date(Date.now() + config.smsCodeTtlSeconds * 1000),
+    });
+
+    // 步骤3: 发送短信
+    const sent = await sendSMSCode(phone, code, PURPOSE_LABELS[purpose]);
+    if (!sent) {
+      throw { message: "短信发送失败，请稍后重试", code: HttpCode.INTERNAL_ERROR };
+    }
+
+    businessLogger.info("短信验证码已发送", { phone, purpose });
+
+    return { expiresIn: config.smsCodeTtlSeconds };
+  }
+
+  /**
+   * 校验短信验证码，校验通过后验证码立即失效
+   * 每次校验先占用一次校验次数再比对验证码，达到上限后需重新获取验证码
+   * @param phone - 手机号
+   * @param purpose - 用途
+   * @param code - 用户填写的验证码
+   */
+  async verifyCode(
+    phone: string,
+    purpose: SmsCodePurpose,
+    code: string
+  ): Promise<void> {
+    const now = new Date();
+    const smsCode = await smsCodeModel.findActive(phone, purpose, now);
+    if (!smsCode) {
+      throw { message: "验证码无效或已过期，请重新获取", code: HttpCode.INVALID_AUTH_CODE };
+    }
+
+    // 并发校验同一验证码时按条件更新占用次数，超过上限的请求直接拒绝
+    const consumed = await smsCodeModel.consumeAttempt(
+      smsCode.id,
+      config.smsCodeMaxAttempts
+    );
+    if (!consumed) {
+      throw { message: "验证码错误次数过多，请重新获取", code: HttpCode.INVALID_AUTH_CODE };
+    }
+
+    const expected = Buffer.from(smsCode.codeHash, "hex");
+    const actual = Buffer.from(this.hashCode(phone, purpose, code), "hex");
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      securityLogger.warn("短信验证码错误", {
+        phone,
+        purpose,
+        attempts: smsCode.attempts + 1,
+      });
+      throw { message: "验证码错误", code: HttpCode.INVALID_AUTH_CODE };
+    }
+
+    // 并发请求使用同一验证码时只有一个能成功
+    const marked = await smsCodeModel.markUsed(smsCode.id, now);
+    if (!marked) {
+      throw { message: "验证码无效或已过期，请重新获取", code: HttpCode.INVALID_AUTH_CODE };
+    }
+  }
+
+  /**
+   * 计算验证码哈希（HMAC-SHA256，绑定手机号和用途）
+   * @param phone - 手机号
+   * @param purpose - 用途
+   * @param code - 验证码
+   * @returns 十六进制哈希
+   */
+  private hashCode(phone: string, purpose: SmsCodePurpose, code: string): string {
+    return crypto
+      .createHmac("sha256", config.jwt.secret)
+      .update(`${phone}:${purpose}:${code}`)
+      .digest("hex");
+  }
+}
+
+// 导出单例实例
+const smsCodeService = new SmsCodeService();
+export default smsCodeService;
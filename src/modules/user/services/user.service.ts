@@ -1,5 +1,16 @@
+import crypto from "crypto";
 import bcrypt from "bcryptjs";
-import logger, { dbLogger, businessLogger } from "../../../utils/logger";
+import config from "../../../config";
+import logger, {
+  dbLogger,
+  businessLogger,
+  securityLogger,
+} from "../../../utils/logger";
+import {
+  HttpCode,
+  JwtPayloadOut,
+  PaginatedResponse,
+} from "../../../types/index";
 import {
   User,
   CreateUserInput,
@@ -7,27 +18,45 @@ import {
   UserLoginInput,
   ChangePasswordInput,
   ResetPasswordInput,
+  VerifyResetCodeInput,
+  VerifyResetCodeResult,
+  SmsCodePurpose,
+  SessionClient,
+  SessionRevokeReason,
+  SecurityEventType,
+  SecurityEvent,
+  SessionView,
+  GetSecurityEventsRequest,
   CreateAddressInput,
   UpdateAddressInput,
   LoginResult,
   TokenPair,
 } from "../../../modules/user/models/user";
-import { generateToken, verifyAccessToken } from "../../../utils/jwt";
+import {
+  generateTempToken,
+  verifyTempToken,
+} from "../../../utils/jwt";
 import userModel from "../models/user.model";
+import passwordResetTokenModel from "../models/passwordResetToken.model";
 import addressModel from "../models/address.model";
+import smsCodeService from "./smsCode.service";
+import sessionService from "./session.service";
+import securityEventService from "./securityEvent.service";
 
 class UserService {
   /**
    * 用户注册
    * @param userData - 用户注册数据
+   * @param client - 客户端信息
    * @returns 注册结果
    */
-  async register(userData: CreateUserInput): Promise<LoginResult> {
+  async register(
+    userData: CreateUserInput,
+    client: SessionClient
+  ): Promise<LoginResult> {
     businessLogger.info("开始执行用户注册");
     dbLogger.debug("Database operation: user existence check", {
       operation: "user.checkExists",
-      auth: userData.authCode,
-      password: userData.password,
       phone: userData.phone,
     });
 
@@ -39,6 +68,13 @@ class UserService {
       }
     }
 
+    // 校验注册验证码
+    await smsCodeService.verifyCode(
+      userData.phone,
+      SmsCodePurpose.REGISTER,
+      userData.authCode
+    );
+
     // 加密密码
     const hashedPassword = await bcrypt.hash(userData.password, 10);
 
@@ -66,8 +102,11 @@ class UserService {
       throw { message: "用户创建失败", code: "USER_CREATE_FAILED" };
     }
 
-    // 生成JWT令牌
-    const tokens = generateToken(user.id);
+    // 创建会话并生成JWT令牌
+    const { session, tokens } = await sessionService.createSession(user.id, client);
+    await securityEventService.record(user.id, SecurityEventType.REGISTER, client, {
+      sessionId: session.id,
+    });
 
     // 记录日志
     logger.info(`User registered: ${user.id}`, {
@@ -85,12 +124,20 @@ class UserService {
   /**
    * 用户登录
    * @param loginData - 登录数据
+   * @param client - 客户端信息
    * @returns 登录结果
    */
-  async login(loginData: UserLoginInput): Promise<LoginResult> {
+  async login(
+    loginData: UserLoginInput,
+    client: SessionClient
+  ): Promise<LoginResult> {
     businessLogger.info("开始执行登陆操作");
     const { password, phone } = loginData;
 
+    if (!password && !loginData.authCode) {
+      throw { message: "请输入密码或验证码", code: "VALIDATION_ERROR" };
+    }
+
     dbLogger.debug("Database operation: user lookup for login", {
       operation: "user.lookup",
       phone,
@@ -140,26 +187,41 @@ class UserService {
           phone: user.phone,
           reason: "invalid_password",
         });
+        await securityEventService.record(user.id, SecurityEventType.LOGIN_FAILED, client, {
+          detail: "密码错误",
+        });
         throw { message: "密码错误", code: "INVALID_PASSWORD" };
       }
     }
 
     //验证验证码
     if (loginData.authCode) {
-      const isAuthCodeValid = Number(loginData.authCode) == 1234;
-      if (!isAuthCodeValid) {
+      try {
+        await smsCodeService.verifyCode(
+          phone,
+          SmsCodePurpose.LOGIN,
+          loginData.authCode
+        );
+      } catch (error) {
         businessLogger.warn("验证码错误", {
           operation: "user.login.invalid_authCode",
           userId: user.id,
           phone: user.phone,
           reason: "invalid_authCode",
         });
-        throw { message: "验证码错误", code: "INVALID_AUTH_CODE" };
+        await securityEventService.record(user.id, SecurityEventType.LOGIN_FAILED, client, {
+          detail: "验证码错误",
+        });
+        throw error;
       }
     }
 
-    // 生成JWT令牌
-    const tokens = generateToken(user.id);
+    // 创建会话并生成JWT令牌
+    const { session, tokens } = await sessionService.createSession(user.id, client);
+    await securityEventService.record(user.id, SecurityEventType.LOGIN, client, {
+      sessionId: session.id,
+      detail: loginData.authCode ? "验证码登录" : "密码登录",
+    });
 
     // 记录日志
     logger.info(`User logged in: ${user.id}`, {
@@ -175,12 +237,21 @@ class UserService {
   }
 
   /**
-   * 用户登出
+   * 用户登出，吊销当前会话
    * @param userId - 用户ID
+   * @param sessionId - 会话ID
+   * @param client - 客户端信息
    */
-  async logout(userId: number): Promise<boolean> {
-    // 这里可以添加令牌黑名单等逻辑
-    logger.info(`User logged out: ${userId}`, { userId });
+  async logout(
+    userId: number,
+    sessionId: number,
+    client: SessionClient
+  ): Promise<boolean> {
+    await sessionService.revokeSession(sessionId, SessionRevokeReason.LOGOUT);
+    await securityEventService.record(userId, SecurityEventType.LOGOUT, client, {
+      sessionId,
+    });
+    logger.info(`User logged out: ${userId}`, { userId, sessionId });
     return true;
   }
 
@@ -190,21 +261,70 @@ class UserService {
    * @returns 新的令牌
    */
   async refreshToken(tokenData: { refreshToken: string }): Promise<TokenPair> {
-    const { refreshToken } = tokenData;
+    return sessionService.refresh(tokenData.refreshToken);
+  }
 
-    const decoded = verifyAccessToken(refreshToken);
+  /**
+   * 获取已登录的设备列表
+   * @param userId - 用户ID
+   * @param sessionId - 当前会话ID
+   * @returns 登录设备列表
+   */
+  async getSessions(userId: number, sessionId: number): Promise<SessionView[]> {
+    return sessionService.getActiveSessions(userId, sessionId);
+  }
 
-    if (decoded.isExpired || decoded.isValid || !decoded.jwtPayload) {
-      throw { message: "刷新令牌无效或已过期", code: "INVALID_REFRESH_TOKEN" };
-    }
-    const user = await userModel.findById(decoded.jwtPayload.userId);
+  /**
+   * 退出指定设备
+   * @param userId - 用户ID
+   * @param targetSessionId - 要退出的会话ID
+   * @param client - 客户端信息
+   */
+  async revokeSession(
+    userId: number,
+    targetSessionId: number,
+    client: SessionClient
+  ): Promise<void> {
+    await sessionService.revokeUserSession(userId, targetSessionId, client);
+  }
 
-    if (!user || !user.status) {
-      throw { message: "用户不存在或已被禁用", code: "USER_NOT_FOUND" };
-    }
+  /**
+   * 退出除当前设备外的全部设备
+   * @param userId - 用户ID
+   * @param sessionId - 当前会话ID
+   * @param client - 客户端信息
+   * @returns 退出的设备数量
+   */
+  async revokeOtherSessions(
+    userId: number,
+    sessionId: number,
+    client: SessionClient
+  ): Promise<{ revokedSessionCount: number }> {
+    const revokedSessionCount = await sessionService.revokeOtherSessions(
+      userId,
+      sessionId,
+      SessionRevokeReason.USER_REVOKED
+    );
+    await securityEventService.record(
+      userId,
+      SecurityEventType.OTHER_SESSIONS_REVOKED,
+      client,
+      { sessionId, detail: `已退出其他${revokedSessionCount}台设备` }
+    );
+    return { revokedSessionCount };
+  }
 
-    const tokens = generateToken(user.id);
-    return tokens;
+  /**
+   * 获取账号安全记录（登录、登出、修改密码、设备退出等）
+   * @param userId - 用户ID
+   * @param params - 分页参数
+   * @returns 安全记录分页列表
+   */
+  async getSecurityEvents(
+    userId: number,
+    params: GetSecurityEventsRequest
+  ): Promise<PaginatedResponse<SecurityEvent>> {
+    return securityEventService.getEvents(userId, params);
   }
 
   /**
@@ -272,13 +392,18 @@ class UserService {
   /**
    * 修改密码
    * @param userId - 用户ID
+   * @param sessionId - 当前会话ID
    * @param passwordData - 密码数据
+   * @param client - 客户端信息
+   * @returns 退出的其他设备数量
    */
   async changePassword(
     userId: number,
-    passwordData: ChangePasswordInput
-  ): Promise<void> {
-    const { oldPassword, newPassword } = passwordData;
+    sessionId: number,
+    passwordData: ChangePasswordInput,
+    client: SessionClient
+  ): Promise<{ revokedSessionCount: number }> {
+    const { oldPassword, newPassword, revokeOtherSessions } = passwordData;
 
     const userWithPassword = await userModel.findByUsername(
       (await userModel.findById(userId))?.username || ""
@@ -303,31 +428,122 @@ class UserService {
     // 更新密码
     await userModel.updatePassword(userId, hashedPassword);
 
+    // 按用户选择退出其他设备
+    const revokedSessionCount = revokeOtherSessions
+      ? await sessionService.revokeOtherSessions(
+          userId,
+          sessionId,
+          SessionRevokeReason.PASSWORD_CHANGE
+        )
+      : 0;
+
+    await securityEventService.record(
+      userId,
+      SecurityEventType.PASSWORD_CHANGE,
+      client,
+      {
+        sessionId,
+        ...(revokeOtherSessions && {
+          detail: `已退出其他${revokedSessionCount}台设备`,
+        }),
+      }
+    );
+
     // 记录日志
-    logger.info(`User password changed: ${userId}`, { userId });
+    logger.info(`User password changed: ${userId}`, { userId, revokedSessionCount });
+
+    return { revokedSessionCount };
+  }
+
+  /**
+   * 校验重置密码验证码，签发短期有效的重置令牌
+   * 先校验验证码再查询用户，手机号未注册时与验证码无效返回相同的错误，不暴露手机号是否注册
+   * @param verifyData - 手机号和验证码
+   * @returns 重置令牌
+   */
+  async verifyResetCode(
+    verifyData: VerifyResetCodeInput
+  ): Promise<VerifyResetCodeResult> {
+    const { phone, code } = verifyData;
+
+    // 校验重置密码验证码
+    await smsCodeService.verifyCode(phone, SmsCodePurpose.RESET, code);
+
+    const user = await userModel.findByPhone(phone);
+    if (!user) {
+      throw { message: "验证码无效或已过期，请重新获取", code: HttpCode.INVALID_AUTH_CODE };
+    }
+
+    // 签发重置令牌并在服务端记录，令牌只能使用一次
+    const expiresIn = config.passwordResetTokenTtlSeconds;
+    const jti = crypto.randomUUID();
+    await passwordResetTokenModel.create({
+      userId: user.id,
+      jti,
+      expiresAt: new Date(Date.now() + expiresIn * 1000),
+    });
+    const resetToken = generateTempToken(user.id, "reset", expiresIn, jti);
+
+    securityLogger.info("重置密码验证码校验通过", { userId: user.id });
+
+    return { resetToken, expiresIn };
   }
 
   /**
    * 重置密码
+   * 使用重置令牌设置新密码，同时吊销用户已签发的全部令牌和会话
    * @param resetData - 重置密码数据
+   * @param client - 客户端信息
    */
-  async resetPassword(resetData: ResetPasswordInput): Promise<void> {
-    const { phone, newPassword } = resetData;
+  async resetPassword(
+    resetData: ResetPasswordInput,
+    client: SessionClient
+  ): Promise<void> {
+    const { resetToken, newPassword } = resetData;
+
+    // 校验重置令牌
+    let decoded: JwtPayloadOut;
+    try {
+      decoded = verifyTempToken(resetToken, "reset");
+    } catch (error) {
+      throw { message: "重置令牌无效", code: HttpCode.INVALID_TOKEN };
+    }
+    if (!decoded.jwtPayload) {
+      throw decoded.isExpired
+        ? { message: "重置令牌已过期，请重新获取验证码", code: HttpCode.TIME_OUT_TOKEN }
+        : { message: "重置令牌无效", code: HttpCode.INVALID_TOKEN };
+    }
+    if (!decoded.jwtPayload.jti) {
+      throw { message: "重置令牌无效", code: HttpCode.INVALID_TOKEN };
+    }
 
-    const user = await userModel.findByPhone(phone);
+    const userId = decoded.jwtPayload.userId;
+    const user = await userModel.findById(userId);
 
     if (!user) {
       throw { message: "用户不存在", code: "USER_NOT_FOUND" };
     }
 
+    // 先标记重置令牌已使用再修改密码，并发请求中只有一个能使用成功
+    const consumed = await passwordResetTokenModel.consume(
+      decoded.jwtPayload.jti,
+      userId,
+      new Date()
+    );
+    if (!consumed) {
+      throw { message: "重置令牌已失效，请重新获取验证码", code: HttpCode.INVALID_TOKEN };
+    }
+
     // 加密新密码
     const hashedPassword = await bcrypt.hash(newPassword, 10);
 
-    // 更新密码
-    await userModel.updatePassword(user.id, hashedPassword);
+    // 更新密码并吊销全部会话
+    await userModel.updatePassword(userId, hashedPassword);
+    await sessionService.revokeAllSessions(userId, SessionRevokeReason.PASSWORD_RESET);
+    await securityEventService.record(userId, SecurityEventType.PASSWORD_RESET, client);
 
     // 记录日志
-    logger.info(`User password reset: ${user.id}`, { userId: user.id });
+    securityLogger.info(`User password reset: ${userId}`, { userId });
   }
 
   /**
@@ -0,0 +1,115 @@
+import { Request, Response } from 'express';
+import walletService from '../services/wallet.service';
+import { successResponse, errorResponse } from '../../../utils/response';
+import logger from '../../../utils/logger';
+import { HttpCode } from '../../../types/index';
+import { PaymentMethod } from '../../order/models/order';
+import { WalletTransactionType } from '../models/wallet';
+
+class WalletController {
+  /**
+   * 获取钱包余额
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async getWallet(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await walletService.getWallet(req.user!.userId);
+
+      successResponse(res, '获取钱包余额成功', result);
+    } catch (error: any) {
+      logger.error('获取钱包余额失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 获取余额流水列表
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async getTransactions(req: Request, res: Response): Promise<void> {
+    try {
+      const { page, limit, type } = req.query;
+
+      const result = await walletService.getTransactions(req.user!.userId, {
+        page: Number(page) || 1,
+        limit: Number(limit) || 10,
+        ...(type && { type: type as WalletTransactionType })
+      });
+
+      successResponse(res, '获取余额流水成功', result);
+    } catch (error: any) {
+      logger.error('获取余额流水失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 创建充值订单
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async createRecharge(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await walletService.createRecharge({
+        amount: Number(req.body.amount),
+        paymentMethod: req.body.paymentMethod as PaymentMethod
+      }, req.user!.userId);
+
+      successResponse(res, '创建充值订单成功', result);
+    } catch (error: any) {
+      logger.error('创建充值订单失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        amount: req.body.amount,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+
+  /**
+   * 查询充值订单
+   * @param req - 请求对象
+   * @param res - 响应对象
+   */
+  async getRecharge(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await walletService.getRecharge(
+        Number(req.params.id),
+        req.user!.userId
+      );
+
+      successResponse(res, '获取充值订单成功', result);
+    } catch (error: any) {
+      logger.error('获取充值订单失败', {
+        error: error.message,
+        stack: error.stack,
+        userId: req.user?.userId,
+        rechargeId: req.params.id,
+        ip: req.ip,
+        code: error.code || HttpCode.INTERNAL_ERROR
+      });
+      errorResponse(res, error.message, 400, error.code || HttpCode.INTERNAL_ERROR);
+    }
+  }
+}
+
+// 导出单例实例
+const walletController = new WalletController();
+export default walletController;
@@ -0,0 +1,285 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import Decimal from "decimal.js";
+import { Prisma } from "@prisma/client";
+import walletModel from "./wallet.model";
+import {
+  BalanceHoldStatus,
+  WalletEntry,
+  WalletRelatedType,
+  WalletTransactionType,
+} from "./wallet";
+import { HttpCode } from "../../../types/index";
+
+const tx = vi.hoisted(() => ({
+  userBalance: {
+    updateMany: vi.fn(),
+    upsert: vi.fn(),
+    findUniqueOrThrow: vi.fn(),
+  },
+  balanceTransactions: {
+    create: vi.fn(),
+  },
+  balanceHolds: {
+    create: vi.fn(),
+    findUnique: vi.fn(),
+    updateMany: vi.fn(),
+  },
+}));
+
+vi.mock("../../../database/prisma", () => ({
+  prisma: {},
+}));
+
+const client = tx as unknown as Prisma.TransactionClient;
+
+/**
+ * 构造余额变动请求
+ * @param type - 流水类型
+ * @param amount - 变动金额
+ * @returns 余额变动请求
+ */
+const buildEntry = (type: WalletTransactionType, amount: number): WalletEntry => ({
+  userId: 1,
+  type,
+  amount: new Decimal(amount),
+});
+
+describe("walletModel.applyEntry", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tx.userBalance.updateMany.mockResolvedValue({ count: 1 });
+    tx.userBalance.upsert.mockResolvedValue({});
+    tx.balanceTransactions.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 100, ...data, createdAt: new Date() })
+    );
+  });
+
+  it("扣减余额时以余额不小于扣减金额为条件更新", async () => {
+    tx.userBalance.findUniqueOrThrow.mockResolvedValue({ balance: 70 });
+
+    const transaction = await walletModel.applyEntry(
+      client,
+      buildEntry(WalletTransactionType.CONSUME, 30)
+    );
+
+    expect(tx.userBalance.updateMany).toHaveBeenCalledWith({
+      where: { userId: 1, balance: { gte: new Decimal(30) } },
+      data: expect.objectContaining({
+        balance: { increment: new Decimal(-30) },
+        totalConsume: { increment: new Decimal(30) },
+      }),
+    });
+    expect(tx.userBalance.upsert).not.toHaveBeenCalled();
+    expect(transaction.balanceBefore.toNumber()).toBe(100);
+    expect(transaction.balanceAfter.toNumber()).toBe(70);
+  });
+
+  it("余额不足时拒绝扣减且不记录流水", async () => {
+    tx.userBalance.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      walletModel.applyEntry(client, buildEntry(WalletTransactionType.ADMIN_DEBIT, 30))
+    ).rejects.toEqual({ message: "余额不足", code: HttpCode.VALIDATION_ERROR });
+    expect(tx.balanceTransactions.create).not.toHaveBeenCalled();
+  });
+
+  it("增加余额时账户不存在则自动开户", async () => {
+    tx.userBalance.findUniqueOrThrow.mockResolvedValue({ balance: 50 });
+
+    const transaction = await walletModel.applyEntry(
+      client,
+      buildEntry(WalletTransactionType.RECHARGE, 50)
+    );
+
+    expect(tx.userBalance.updateMany).not.toHaveBeenCalled();
+    expect(tx.userBalance.upsert).toHaveBeenCalledWith({
+      where: { userId: 1 },
+      create: expect.objectContaining({
+        userId: 1,
+        balance: new Decimal(50),
+        totalRecharge: new Decimal(50),
+      }),
+      update: expect.objectContaining({ balance: { increment: new Decimal(50) } }),
+    });
+    expect(transaction.balanceBefore.toNumber()).toBe(0);
+    expect(transaction.balanceAfter.toNumber()).toBe(50);
+  });
+});
+
+describe("walletModel 订单余额冻结", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tx.userBalance.updateMany.mockResolvedValue({ count: 1 });
+    tx.userBalance.upsert.mockResolvedValue({});
+    tx.userBalance.findUniqueOrThrow.mockResolvedValue({ balance: 70 });
+    tx.balanceTransactions.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 100, ...data, createdAt: new Date() })
+    );
+    tx.balanceHolds.create.mockResolvedValue({});
+    tx.balanceHolds.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it("下单冻结时从可用余额转入冻结余额", async () => {
+    await walletModel.createHold(client, {
+      userId: 1,
+      orderId: 10,
+      orderNumber: "ORD001",
+      amount: new Decimal(30),
+    });
+
+    expect(tx.balanceHolds.create).toHaveBeenCalledWith({
+      data: {
+        userId: 1,
+        orderId: 10,
+        amount: new Decimal(30),
+        status: BalanceHoldStatus.HELD,
+      },
+    });
+    expect(tx.userBalance.updateMany).toHaveBeenCalledWith({
+      where: { userId: 1, balance: { gte: new Decimal(30) } },
+      data: expect.objectContaining({
+        balance: { increment: new Decimal(-30) },
+        frozenBalance: { increment: new Decimal(30) },
+      }),
+    });
+    expect(tx.balanceTransactions.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: WalletTransactionType.FREEZE,
+        relatedId: 10,
+        relatedType: WalletRelatedType.ORDER,
+      }),
+    });
+  });
+
+  it("可用余额不足时冻结失败", async () => {
+    tx.userBalance.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      walletModel.createHold(client, {
+        userId: 1,
+        orderId: 10,
+        orderNumber: "ORD001",
+        amount: new Decimal(30),
+      })
+    ).rejects.toEqual({ message: "余额不足", code: HttpCode.VALIDATION_ERROR });
+  });
+
+  it("支付时订单有冻结金额则从冻结余额扣款，可用余额不变", async () => {
+    const transaction = await walletModel.consumeForOrder(
+      client,
+      10,
+      buildEntry(WalletTransactionType.CONSUME, 30)
+    );
+
+    expect(tx.balanceHolds.updateMany).toHaveBeenCalledWith({
+      where: { orderId: 10, status: BalanceHoldStatus.HELD },
+      data: expect.objectContaining({ status: BalanceHoldStatus.CAPTURED }),
+    });
+    expect(tx.userBalance.updateMany).toHaveBeenCalledWith({
+      where: { userId: 1, frozenBalance: { gte: new Decimal(30) } },
+      data: expect.objectContaining({
+        balance: { increment: new Decimal(0) },
+        frozenBalance: { increment: new Decimal(-30) },
+        totalConsume: { increment: new Decimal(30) },
+      }),
+    });
+    expect(transaction.balanceBefore.toNumber()).toBe(70);
+    expect(transaction.balanceAfter.toNumber()).toBe(70);
+  });
+
+  it("冻结余额不足时扣款失败", async () => {
+    tx.userBalance.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      walletModel.consumeForOrder(
+        client,
+        10,
+        buildEntry(WalletTransactionType.CONSUME, 30)
+      )
+    ).rejects.toEqual({
+      message: "冻结余额不足",
+      code: HttpCode.VALIDATION_ERROR,
+    });
+  });
+
+  it("支付时订单没有冻结金额则从可用余额扣款", async () => {
+    tx.balanceHolds.updateMany.mockResolvedValue({ count: 0 });
+
+    await walletModel.consumeForOrder(
+      client,
+      10,
+      buildEntry(WalletTransactionType.CONSUME, 30)
+    );
+
+    expect(tx.userBalance.updateMany).toHaveBeenCalledWith({
+      where: { userId: 1, balance: { gte: new Decimal(30) } },
+      data: expect.objectContaining({
+        balance: { increment: new Decimal(-30) },
+        frozenBalance: { increment: new Decimal(0) },
+      }),
+    });
+  });
+
+  it("取消订单时释放冻结余额回到可用余额", async () => {
+    tx.balanceHolds.findUnique.mockResolvedValue({
+      id: 5,
+      userId: 1,
+      orderId: 10,
+      amount: 30,
+      status: BalanceHoldStatus.HELD,
+    });
+    tx.userBalance.findUniqueOrThrow.mockResolvedValue({ balance: 100 });
+
+    await walletModel.releaseHold(client, 10);
+
+    expect(tx.balanceHolds.updateMany).toHaveBeenCalledWith({
+      where: { id: 5, status: BalanceHoldStatus.HELD },
+      data: expect.objectContaining({ status: BalanceHoldStatus.RELEASED }),
+    });
+    expect(tx.userBalance.updateMany).toHaveBeenCalledWith({
+      where: { userId: 1, frozenBalance: { gte: new Decimal(30) } },
+      data: expect.objectContaining({
+        balance: { increment: new Decimal(30) },
+        frozenBalance: { increment: new Decimal(-30) },
+      }),
+    });
+    expect(tx.balanceTransactions.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: WalletTransactionType.UNFREEZE,
+        balanceBefore: new Decimal(70),
+        balanceAfter: new Decimal(100),
+      }),
+    });
+  });
+
+  it("冻结已扣款或已释放时不重复释放", async () => {
+    tx.balanceHolds.findUnique.mockResolvedValue({
+      id: 5,
+      userId: 1,
+      orderId: 10,
+      amount: 30,
+      status: BalanceHoldStatus.CAPTURED,
+    });
+
+    await walletModel.releaseHold(client, 10);
+
+    expect(tx.balanceHolds.updateMany).not.toHaveBeenCalled();
+    expect(tx.userBalance.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("并发释放时条件更新失败的一方不再解冻", async () => {
+    tx.balanceHolds.findUnique.mockResolvedValue({
+      id: 5,
+      userId: 1,
+      orderId: 10,
+      amount: 30,
+      status: BalanceHoldStatus.HELD,
+    });
+    tx.balanceHolds.updateMany.mockResolvedValue({ count: 0 });
+
+    await walletModel.releaseHold(client, 10);
+
+    expect(tx.userBalance.updateMany).not.toHaveBeenCalled();
+    expect(tx.balanceTransactions.create).not.toHaveBeenCalled();
+  });
+});
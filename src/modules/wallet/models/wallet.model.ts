@@ -0,0 +1,463 @@
+import { prisma } from "../../../database/prisma";
+import Decimal from "decimal.js";
+import { Prisma } from "@prisma/client";
+import {
+  AdjustWalletRequest,
+  BalanceHoldStatus,
+  RechargeOrder,
+  WalletAccount,
+  WalletAdjustmentDirection,
+  WalletEntry,
+  WalletRelatedType,
+  WalletTransaction,
+  WalletTransactionType,
+} from "./wallet";
+import { PaymentMethod, PaymentStatus } from "../../order/models/order";
+import { HttpCode } from "../../../types/index";
+
+/**
+ * 余额变动方向：1 增加，-1 减少，0 不变
+ */
+interface EntryEffect {
+  balance: number;
+  frozen: number;
+}
+
+// 各流水类型对可用余额和冻结余额的影响
+const ENTRY_EFFECTS: Record<WalletTransactionType, EntryEffect> = {
+  [WalletTransactionType.RECHARGE]: { balance: 1, frozen: 0 },
+  [WalletTransactionType.REFUND]: { balance: 1, frozen: 0 },
+  [WalletTransactionType.ADMIN_CREDIT]: { balance: 1, frozen: 0 },
+  [WalletTransactionType.CONSUME]: { balance: -1, frozen: 0 },
+  [WalletTransactionType.WITHDRAWAL]: { balance: -1, frozen: 0 },
+  [WalletTransactionType.ADMIN_DEBIT]: { balance: -1, frozen: 0 },
+  [WalletTransactionType.FREEZE]: { balance: -1, frozen: 1 },
+  [WalletTransactionType.UNFREEZE]: { balance: 1, frozen: -1 },
+};
+
+// 从冻结余额扣款（订单支付时扣除下单时冻结的金额）
+const CAPTURE_EFFECT: EntryEffect = { balance: 0, frozen: -1 };
+
+class WalletModel {
+  /**
+   * 查询用户余额账户
+   * @param userId - 用户ID
+   * @returns 余额账户，未开户时返回null
+   */
+  async findAccount(userId: number): Promise<WalletAccount | null> {
+    const account = await prisma.userBalance.findUnique({
+      where: { userId },
+    });
+
+    return account ? this.toWalletAccount(account) : null;
+  }
+
+  /**
+   * 变动余额并追加流水（需在事务中调用）
+   * 减少余额时通过条件更新保证可用余额和冻结余额不会为负，只增加时账户不存在则自动开户
+   * 充值累加累计充值金额，消费累加累计消费金额
+   * @param tx - 事务客户端
+   * @param entry - 余额变动请求
+   * @returns 余额流水
+   */
+  async applyEntry(
+    tx: Prisma.TransactionClient,
+    entry: WalletEntry
+  ): Promise<WalletTransaction> {
+    const amount = new Decimal(entry.amount);
+    const effect =
+      entry.type === WalletTransactionType.CONSUME && entry.fromFrozen
+        ? CAPTURE_EFFECT
+        : ENTRY_EFFECTS[entry.type];
+    const balanceDelta = amount.times(effect.balance);
+    const frozenDelta = amount.times(effect.frozen);
+    const rechargeDelta =
+      entry.type === WalletTransactionType.RECHARGE ? amount : new Decimal(0);
+    const consumeDelta =
+      entry.type === WalletTransactionType.CONSUME ? amount : new Decimal(0);
+
+    const data = {
+      balance: { increment: balanceDelta },
+      frozenBalance: { increment: frozenDelta },
+      totalRecharge: { increment: rechargeDelta },
+      totalConsume: { increment: consumeDelta },
+      updatedAt: new Date(),
+    };
+
+    if (effect.balance < 0 || effect.frozen < 0) {
+      const updateResult = await tx.userBalance.updateMany({
+        where: {
+          userId: entry.userId,
+          ...(effect.balance < 0 && { balance: { gte: amount } }),
+          ...(effect.frozen < 0 && { frozenBalance: { gte: amount } }),
+        },
+        data: data,
+      });
+      if (updateResult.count === 0) {
+        throw {
+          message: effect.frozen < 0 ? "冻结余额不足" : "余额不足",
+          code: HttpCode.VALIDATION_ERROR,
+        };
+      }
+    } else {
+      await tx.userBalance.upsert({
+        where: { userId: entry.userId },
+        create: {
+          userId: entry.userId,
+          balance: balanceDelta,
+          frozenBalance: frozenDelta,
+          totalRecharge: rechargeDelta,
+          totalConsume: consumeDelta,
+        },
+        update: data,
+      });
+    }
+
+    // 更新后的账户行在事务内已加锁，读取到的即为本次变动后的余额
+    const account = await tx.userBalance.findUniqueOrThrow({
+      where: { userId: entry.userId },
+      select: { balance: true },
+    });
+    const balanceAfter = new Decimal(account.balance);
+    const balanceBefore = balanceAfter.minus(balanceDelta);
+
+    const transaction = await tx.balanceTransactions.create({
+      data: {
+        userId: entry.userId,
+        type: entry.type,
+        amount,
+        balanceBefore,
+        balanceAfter,
+        description: entry.description ?? null,
+        relatedId: entry.relatedId ?? null,
+        relatedType: entry.relatedType ?? null,
+      },
+    });
+
+    return this.toWalletTransaction(transaction);
+  }
+
+  /**
+   * 下单时冻结订单金额（需在事务中调用）
+   * @param tx - 事务客户端
+   * @param hold - 冻结信息
+   */
+  async createHold(
+    tx: Prisma.TransactionClient,
+    hold: { userId: number; orderId: number; orderNumber: string; amount: Decimal }
+  ): Promise<void> {
+    await tx.balanceHolds.create({
+      data: {
+        userId: hold.userId,
+        orderId: hold.orderId,
+        amount: hold.amount,
+        status: BalanceHoldStatus.HELD,
+      },
+    });
+
+    await this.applyEntry(tx, {
+      userId: hold.userId,
+      type: WalletTransactionType.FREEZE,
+      amount: hold.amount,
+      description: `订单${hold.orderNumber}冻结`,
+      relatedId: hold.orderId,
+      relatedType: WalletRelatedType.ORDER,
+    });
+  }
+
+  /**
+   * 订单余额支付扣款（需在事务中调用）
+   * 订单下单时已冻结金额则从冻结余额扣款，否则从可用余额扣款
+   * @param tx - 事务客户端
+   * @param orderId - 订单ID
+   * @param entry - 消费请求
+   * @returns 余额流水
+   */
+  async consumeForOrder(
+    tx: Prisma.TransactionClient,
+    orderId: number,
+    entry: WalletEntry
+  ): Promise<WalletTransaction> {
+    const updateResult = await tx.balanceHolds.updateMany({
+      where: { orderId, status: BalanceHoldStatus.HELD },
+      data: { status: BalanceHoldStatus.CAPTURED, updatedAt: new Date() },
+    });
+
+    return this.applyEntry(tx, {
+      ...entry,
+      fromFrozen: updateResult.count > 0,
+    });
+  }
+
+  /**
+   * 释放订单冻结的余额（需在事务中调用），订单没有冻结中的余额时不做处理
+   * @param tx - 事务客户端
+   * @param orderId - 订单ID
+   */
+  async releaseHold(
+    tx: Prisma.TransactionClient,
+    orderId: number
+  ): Promise<void> {
+    const hold = await tx.balanceHolds.findUnique({ where: { orderId } });
+    if (!hold || hold.status !== BalanceHoldStatus.HELD) return;
+
+    // 条件更新保证同一笔冻结只释放一次
+    const updateResult = await tx.balanceHolds.updateMany({
+      where: { id: hold.id, status: BalanceHoldStatus.HELD },
+      data: { status: BalanceHoldStatus.RELEASED, updatedAt: new Date() },
+    });
+    if (updateResult.count === 0) return;
+
+    await this.applyEntry(tx, {
+      userId: hold.userId,
+      type: WalletTransactionType.UNFREEZE,
+      amount: new Decimal(hold.amount),
+      description: "订单取消，释放冻结余额",
+      relatedId: orderId,
+      relatedType: WalletRelatedType.ORDER,
+    });
+  }
+
+  /**
+   * 创建充值订单
+   * @param recharge - 充值订单数据
+   * @returns 充值订单
+   */
+  async createRecharge(recharge: {
+    rechargeNumber: string;
+    userId: number;
+    amount: Decimal;
+    paymentMethod: PaymentMethod;
+    transactionId: string;
+  }): Promise<RechargeOrder> {
+    const result = await prisma.rechargeOrders.create({
+      data: {
+        ...recharge,
+        status: PaymentStatus.PENDING,
+      },
+    });
+
+    return this.toRechargeOrder(result);
+  }
+
+  /**
+   * 查询用户的充值订单
+   * @param rechargeId - 充值订单ID
+   * @param userId - 用户ID
+   * @returns 充值订单
+   */
+  async findRechargeById(
+    rechargeId: number,
+    userId: number
+  ): Promise<RechargeOrder | null> {
+    const result = await prisma.rechargeOrders.findFirst({
+      where: { id: rechargeId, userId },
+    });
+
+    return result ? this.toRechargeOrder(result) : null;
+  }
+
+  /**
+   * 根据商户交易号查询充值订单
+   * @param transactionId - 商户交易号
+   * @returns 充值订单
+   */
+  async findRechargeByTransactionId(
+    transactionId: string
+  ): Promise<RechargeOrder | null> {
+    const result = await prisma.rechargeOrders.findUnique({
+      where: { transactionId },
+    });
+
+    return result ? this.toRechargeOrder(result) : null;
+  }
+
+  /**
+   * 充值到账（事务操作）
+   * 通过前置状态做乐观锁，重复的支付结果只会入账一次
+   * 已置为失败的充值订单收到渠道的成功结果时仍然入账，避免用户已付款但余额未到账
+   * @param recharge - 充值订单
+   * @returns 是否本次完成入账
+   */
+  async completeRecharge(recharge: RechargeOrder): Promise<boolean> {
+    return prisma.$transaction(async (tx) => {
+      const updateResult = await tx.rechargeOrders.updateMany({
+        where: {
+          id: recharge.id,
+          status: { not: PaymentStatus.SUCCESS },
+        },
+        data: {
+          status: PaymentStatus.SUCCESS,
+          paidAt: new Date(),
+          updatedAt: new Date(),
+        },
+      });
+      if (updateResult.count === 0) return false;
+
+      await this.applyEntry(tx, {
+        userId: recharge.userId,
+        type: WalletTransactionType.RECHARGE,
+        amount: recharge.amount,
+        description: `钱包充值（${recharge.rechargeNumber}）`,
+        relatedId: recharge.id,
+        relatedType: WalletRelatedType.RECHARGE,
+      });
+
+      return true;
+    });
+  }
+
+  /**
+   * 充值失败（乐观锁：仅待支付、支付中的充值订单可以置为失败）
+   * @param rechargeId - 充值订单ID
+   * @param failureReason - 失败原因
+   * @returns 是否更新成功
+   */
+  async failRecharge(
+    rechargeId: number,
+    failureReason: string
+  ): Promise<boolean> {
+    const updateResult = await prisma.rechargeOrders.updateMany({
+      where: {
+        id: rechargeId,
+        status: { in: [PaymentStatus.PENDING, PaymentStatus.PROCESSING] },
+      },
+      data: {
+        status: PaymentStatus.FAILED,
+        failureReason,
+        updatedAt: new Date(),
+      },
+    });
+    return updateResult.count > 0;
+  }
+
+  /**
+   * 管理员调账（事务操作）
+   * 先写调账审计记录，再变动余额并关联流水，扣款时余额不足整体回滚
+   * @param request - 调账请求
+   * @param adminId - 管理员ID
+   * @returns 调账记录ID和余额流水
+   */
+  async adjust(
+    request: AdjustWalletRequest,
+    adminId: number
+  ): Promise<{ adjustmentId: number; transaction: WalletTransaction }> {
+    return prisma.$transaction(async (tx) => {
+      const adjustment = await tx.walletAdjustments.create({
+        data: {
+          userId: request.userId,
+          adminId,
+          direction: request.direction,
+          amount: new Decimal(request.amount),
+          reason: request.reason,
+        },
+      });
+
+      const transaction = await this.applyEntry(tx, {
+        userId: request.userId,
+        type:
+          request.direction === WalletAdjustmentDirection.CREDIT
+            ? WalletTransactionType.ADMIN_CREDIT
+            : WalletTransactionType.ADMIN_DEBIT,
+        amount: new Decimal(request.amount),
+        description: request.reason,
+        relatedId: adjustment.id,
+        relatedType: WalletRelatedType.ADJUSTMENT,
+      });
+
+      await tx.walletAdjustments.update({
+        where: { id: adjustment.id },
+        data: { balanceTransactionId: transaction.id },
+      });
+
+      return { adjustmentId: adjustment.id, transaction };
+    });
+  }
+
+  /**
+   * 获取用户余额流水列表（带分页和类型筛选）
+   * @param userId - 用户ID
+   * @param options - 查询选项
+   * @returns 余额流水列表和总数
+   */
+  async getTransactionsWithPagination(
+    userId: number,
+    options: { page?: number; limit?: number; type?: WalletTransactionType }
+  ): Promise<{ transactions: WalletTransaction[]; total: number }> {
+    const page = options.page || 1;
+    const limit = options.limit || 10;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.BalanceTransactionsWhereInput = { userId };
+    if (options.type) {
+      where.type = options.type;
+    }
+
+    const [transactions, total] = await Promise.all([
+      prisma.balanceTransactions.findMany({
+        where: where,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        skip: skip,
+        take: limit,
+      }),
+      prisma.balanceTransactions.count({ where: where }),
+    ]);
+
+    return {
+      transactions: transactions.map((transaction) =>
+        this.toWalletTransaction(transaction)
+      ),
+      total,
+    };
+  }
+
+  /**
+   * 转换余额账户数据，处理Decimal类型
+   * @param account - 数据库余额账户记录
+   * @returns 余额账户实体
+   */
+  private toWalletAccount(account: any): WalletAccount {
+    return {
+      userId: account.userId,
+      balance: new Decimal(account.balance),
+      frozenBalance: new Decimal(account.frozenBalance),
+      totalRecharge: new Decimal(account.totalRecharge),
+      totalConsume: new Decimal(account.totalConsume),
+      createdAt: account.createdAt,
+      updatedAt: account.updatedAt,
+    };
+  }
+
+  /**
+   * 转换充值订单数据，处理Decimal和枚举类型
+   * @param recharge - 数据库充值订单记录
+   * @returns 充值订单实体
+   */
+  private toRechargeOrder(recharge: any): RechargeOrder {
+    return {
+      ...recharge,
+      amount: new Decimal(recharge.amount),
+      paymentMethod: recharge.paymentMethod as PaymentMethod,
+      status: recharge.status as PaymentStatus,
+    };
+  }
+
+  /**
+   * 转换余额流水数据，处理Decimal和枚举类型
+   * @param transaction - 数据库余额流水记录
+   * @returns 余额流水实体
+   */
+  private toWalletTransaction(transaction: any): WalletTransaction {
+    return {
+      ...transaction,
+      type: transaction.type as WalletTransactionType,
+      amount: new Decimal(transaction.amount),
+      balanceBefore: new Decimal(transaction.balanceBefore),
+      balanceAfter: new Decimal(transaction.balanceAfter),
+    };
+  }
+}
+
+// 导出单例实例
+const walletModel = new WalletModel();
+export default walletModel;
@@ -0,0 +1,210 @@
+// 钱包（余额账户）相关类型定义
+import { Decimal } from 'decimal.js';
+import { PaymentMethod, PaymentStatus } from '../../order/models/order';
+
+// 充值订单商户交易号前缀，用于区分支付通知属于订单支付还是钱包充值
+export const RECHARGE_TRADE_NO_PREFIX = 'RCH';
+
+/**
+ * 余额流水类型枚举（对应数据库 balance_transactions_type）
+ */
+export enum WalletTransactionType {
+  RECHARGE = 'recharge',     // 充值
+  CONSUME = 'consume',       // 消费（余额支付）
+  REFUND = 'refund',         // 退款（余额支付的订单退款）
+  WITHDRAWAL = 'withdrawal', // 提现
+  FREEZE = 'freeze',         // 冻结（下单时预留余额）
+  UNFREEZE = 'unfreeze',     // 解冻（订单取消时释放预留余额）
+  ADMIN_CREDIT = 'admin_credit', // 管理员手动入账
+  ADMIN_DEBIT = 'admin_debit'    // 管理员手动扣款
+}
+
+/**
+ * 余额冻结状态枚举（对应数据库 balance_holds_status）
+ */
+export enum BalanceHoldStatus {
+  HELD = 'held',         // 冻结中
+  CAPTURED = 'captured', // 已扣款（订单已支付）
+  RELEASED = 'released'  // 已释放（订单已取消）
+}
+
+/**
+ * 管理员调账方向枚举（对应数据库 wallet_adjustments_direction）
+ */
+export enum WalletAdjustmentDirection {
+  CREDIT = 'credit', // 入账
+  DEBIT = 'debit'    // 扣款
+}
+
+/**
+ * 余额流水关联业务类型
+ */
+export enum WalletRelatedType {
+  PAYMENT = 'payment',      // 支付记录
+  REFUND = 'refund',        // 退款记录
+  ORDER = 'order',          // 订单（冻结、解冻）
+  RECHARGE = 'recharge',    // 充值订单
+  ADJUSTMENT = 'adjustment' // 管理员调账记录
+}
+
+/**
+ * 余额账户接口（对应数据库 user_balance 表）
+ */
+export interface WalletAccount {
+  /** 用户ID */
+  userId: number;
+  /** 可用余额 */
+  balance: Decimal;
+  /** 冻结余额 */
+  frozenBalance: Decimal;
+  /** 累计充值金额 */
+  totalRecharge: Decimal;
+  /** 累计消费金额 */
+  totalConsume: Decimal;
+  /** 创建时间 */
+  createdAt: Date;
+  /** 更新时间 */
+  updatedAt: Date;
+}
+
+/**
+ * 余额流水接口（对应数据库 balance_transactions 表，只追加不修改）
+ */
+export interface WalletTransaction {
+  /** 流水唯一标识ID */
+  id: number;
+  /** 用户ID */
+  userId: number;
+  /** 流水类型 */
+  type: WalletTransactionType;
+  /** 变动金额（正数，方向由流水类型决定） */
+  amount: Decimal;
+  /** 变动前可用余额 */
+  balanceBefore: Decimal;
+  /** 变动后可用余额 */
+  balanceAfter: Decimal;
+  /** 流水描述 */
+  description: string | null;
+  /** 关联业务ID */
+  relatedId: number | null;
+  /** 关联业务类型 */
+  relatedType: string | null;
+  /** 创建时间 */
+  createdAt: Date;
+}
+
+/**
+ * 余额变动请求接口（在调用方的事务中执行）
+ */
+export interface WalletEntry {
+  /** 用户ID */
+  userId: number;
+  /** 流水类型 */
+  type: WalletTransactionType;
+  /** 变动金额（正数） */
+  amount: Decimal;
+  /** 流水描述，可选 */
+  description?: string;
+  /** 关联业务ID，可选 */
+  relatedId?: number;
+  /** 关联业务类型，可选 */
+  relatedType?: WalletRelatedType;
+  /** 消费时是否从冻结余额扣款，可选 */
+  fromFrozen?: boolean;
+}
+
+/**
+ * 获取余额流水列表请求参数接口
+ */
+export interface GetWalletTransactionsRequest {
+  /** 页码 */
+  page?: number;
+  /** 每页数量 */
+  limit?: number;
+  /** 流水类型筛选，可选 */
+  type?: WalletTransactionType;
+}
+
+/**
+ * 钱包概览响应数据接口
+ */
+export interface GetWalletResponse {
+  /** 用户ID */
+  userId: number;
+  /** 可用余额 */
+  balance: Decimal;
+  /** 冻结余额 */
+  frozenBalance: Decimal;
+  /** 累计充值金额 */
+  totalRecharge: Decimal;
+  /** 累计消费金额 */
+  totalConsume: Decimal;
+}
+
+/**
+ * 充值订单接口（对应数据库 recharge_orders 表）
+ */
+export interface RechargeOrder {
+  /** 充值订单ID */
+  id: number;
+  /** 充值单号 */
+  rechargeNumber: string;
+  /** 用户ID */
+  userId: number;
+  /** 充值金额 */
+  amount: Decimal;
+  /** 支付方式 */
+  paymentMethod: PaymentMethod;
+  /** 商户交易号 */
+  transactionId: string;
+  /** 支付状态 */
+  status: PaymentStatus;
+  /** 失败原因 */
+  failureReason: string | null;
+  /** 到账时间 */
+  paidAt: Date | null;
+  /** 创建时间 */
+  createdAt: Date;
+  /** 更新时间 */
+  updatedAt: Date;
+}
+
+/**
+ * 创建充值订单请求参数接口
+ */
+export interface CreateRechargeRequest {
+  /** 充值金额 */
+  amount: number;
+  /** 支付方式（不支持余额支付） */
+  paymentMethod: PaymentMethod;
+}
+
+/**
+ * 管理员调账请求参数接口
+ */
+export interface AdjustWalletRequest {
+  /** 用户ID */
+  userId: number;
+  /** 调账方向 */
+  direction: WalletAdjustmentDirection;
+  /** 调账金额 */
+  amount: number;
+  /** 调账原因（审计用） */
+  reason: string;
+}
+
+/**
+ * 管理员调账响应数据接口
+ */
+export interface AdjustWalletResponse {
+  /** 调账记录ID */
+  adjustmentId: number;
+  /** 用户ID */
+  userId: number;
+  /** 调账方向 */
+  direction: WalletAdjustmentDirection;
+  /** 调账金额 */
+  amount: Decimal;
+  /** 调账后可用余额 */
+  balanceAfter: Decimal;
+}
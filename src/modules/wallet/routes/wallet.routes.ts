@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import walletController from '../controllers/wallet.controller';
+import { validate } from '../../../middleware/validation';
+import { walletValidation } from '../../../middleware/validation/schemas';
+import { idempotency } from '../../../middleware/idempotency';
+import { requirePermission } from '../../../middleware/rbac';
+import { Permission } from '../../rbac/models/rbac';
+
+// 创建路由器
+const router: Router = Router();
+
+/**
+ * 钱包路由模块
+ * 包含钱包余额查询、余额流水查询、钱包充值等接口
+ */
+
+// 1. 获取钱包余额
+router.get('/',
+  requirePermission(Permission.WALLET_MANAGE),
+  walletController.getWallet
+);
+
+// 2. 获取余额流水列表（支持类型筛选）
+router.get('/transactions',
+  requirePermission(Permission.WALLET_MANAGE),
+  validate(walletValidation.getTransactions),
+  walletController.getTransactions
+);
+
+// 3. 创建充值订单（支持 Idempotency-Key 幂等）
+router.post('/recharge',
+  requirePermission(Permission.WALLET_MANAGE),
+  idempotency,
+  validate(walletValidation.createRecharge),
+  walletController.createRecharge
+);
+
+// 4. 查询充值订单（待支付时主动向支付渠道查询结果）
+router.get('/recharge/:id',
+  requirePermission(Permission.WALLET_MANAGE),
+  validate(walletValidation.getRecharge),
+  walletController.getRecharge
+);
+
+export default router;
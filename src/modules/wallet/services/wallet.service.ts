@@ -0,0 +1,255 @@
+import Decimal from "decimal.js";
+import { businessLogger, securityLogger } from "../../../utils/logger";
+import { HttpCode, PaginatedResponse } from "../../../types/index";
+import { PaymentMethod, PaymentStatus } from "../../order/models/order";
+import paymentGatewayRegistry, { PaymentNotification } from "../../payment/gateways";
+import {
+  AdjustWalletRequest,
+  AdjustWalletResponse,
+  CreateRechargeRequest,
+  GetWalletResponse,
+  GetWalletTransactionsRequest,
+  RECHARGE_TRADE_NO_PREFIX,
+  RechargeOrder,
+  WalletTransaction,
+} from "../models/wallet";
+import walletModel from "../models/wallet.model";
+
+class WalletService {
+  /**
+   * 获取钱包概览
+   * @param userId - 用户ID
+   * @returns 钱包余额，未开户时各项金额为0
+   */
+  async getWallet(userId: number): Promise<GetWalletResponse> {
+    const account = await walletModel.findAccount(userId);
+
+    return {
+      userId,
+      balance: account ? account.balance : new Decimal(0),
+      frozenBalance: account ? account.frozenBalance : new Decimal(0),
+      totalRecharge: account ? account.totalRecharge : new Decimal(0),
+      totalConsume: account ? account.totalConsume : new Decimal(0),
+    };
+  }
+
+  /**
+   * 获取余额流水列表
+   * @param userId - 用户ID
+   * @param params - 查询参数
+   * @returns 分页余额流水列表
+   */
+  async getTransactions(
+    userId: number,
+    params: GetWalletTransactionsRequest
+  ): Promise<PaginatedResponse<WalletTransaction>> {
+    const page = Number(params.page) || 1;
+    const limit = Number(params.limit) || 10;
+
+    const { transactions, total } =
+      await walletModel.getTransactionsWithPagination(userId, {
+        ...params,
+        page,
+        limit,
+      });
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: transactions,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * 创建充值订单并通过支付网关发起支付
+   * @param request - 充值请求
+   * @param userId - 用户ID
+   * @returns 充值订单
+   */
+  async createRecharge(
+    request: CreateRechargeRequest,
+    userId: number
+  ): Promise<RechargeOrder> {
+    businessLogger.info("开始创建充值订单", {
+      userId,
+      amount: request.amount,
+      paymentMethod: request.paymentMethod,
+    });
+
+    // 步骤1: 校验支付方式，余额不能用于充值
+    if (request.paymentMethod === PaymentMethod.BALANCE) {
+      throw { message: "不支持使用余额充值", code: HttpCode.VALIDATION_ERROR };
+    }
+    const gateway = paymentGatewayRegistry.get(request.paymentMethod);
+
+    // 步骤2: 创建充值订单
+    const suffix = `${Date.now()}${Math.floor(Math.random() * 1000)
+      .toString()
+      .padStart(3, "0")}`;
+    const amount = new Decimal(request.amount);
+    const recharge = await walletModel.createRecharge({
+      rechargeNumber: `R${suffix}`,
+      userId,
+      amount,
+      paymentMethod: request.paymentMethod,
+      transactionId: `${RECHARGE_TRADE_NO_PREFIX}${suffix}`,
+    });
+
+    // 步骤3: 调用支付网关
+    const chargeResult = await gateway.createCharge({
+      outTradeNo: recharge.transactionId,
+      orderId: recharge.id,
+      userId,
+      amount,
+      description: `钱包充值${recharge.rechargeNumber}`,
+    });
+
+    // 步骤4: 按支付结果入账或记录失败，处理中时等待支付渠道通知
+    return this.settleRecharge(recharge, chargeResult.status, chargeResult.message);
+  }
+
+  /**
+   * 查询充值订单
+   * 充值订单仍在等待结果时主动向支付渠道查询，弥补丢失的异步通知
+   * @param rechargeId - 充值订单ID
+   * @param userId - 用户ID
+   * @returns 充值订单
+   */
+  async getRecharge(
+    rechargeId: number,
+    userId: number
+  ): Promise<RechargeOrder> {
+    const recharge = await walletModel.findRechargeById(rechargeId, userId);
+    if (!recharge) {
+      throw { message: "充值订单不存在", code: HttpCode.NOT_FOUND };
+    }
+    if (recharge.status !== PaymentStatus.PENDING) {
+      return recharge;
+    }
+
+    const gateway = paymentGatewayRegistry.get(recharge.paymentMethod);
+    const chargeResult = await gateway.queryCharge(recharge.transactionId);
+
+    return this.settleRecharge(recharge, chargeResult.status, chargeResult.message);
+  }
+
+  /**
+   * 处理充值订单的支付结果通知（由支付通知统一入口调用）
+   * 重复通知只会入账一次
+   * @param method - 支付方式
+   * @param notification - 已验签的支付通知
+   */
+  async handleRechargeNotification(
+    method: PaymentMethod,
+    notification: PaymentNotification
+  ): Promise<void> {
+    // 步骤1: 校验充值订单和金额
+    const recharge = await walletModel.findRechargeByTransactionId(
+      notification.outTradeNo
+    );
+    if (!recharge || recharge.paymentMethod !== method) {
+      throw { message: "充值订单不存在", code: HttpCode.NOT_FOUND };
+    }
+    if (!notification.amount.equals(recharge.amount)) {
+      securityLogger.warn("充值通知金额与充值订单不一致", {
+        method,
+        rechargeId: recharge.id,
+        expected: recharge.amount.toNumber(),
+        actual: notification.amount.toNumber(),
+      });
+      throw { message: "支付金额不一致", code: HttpCode.VALIDATION_ERROR };
+    }
+
+    // 步骤2: 按通知结果入账或记录失败
+    await this.settleRecharge(recharge, notification.status, "支付失败");
+  }
+
+  /**
+   * 管理员手动调账
+   * @param request - 调账请求
+   * @param adminId - 管理员ID
+   * @returns 调账结果
+   */
+  async adjustBalance(
+    request: AdjustWalletRequest,
+    adminId: number
+  ): Promise<AdjustWalletResponse> {
+    const { adjustmentId, transaction } = await walletModel.adjust(
+      request,
+      adminId
+    );
+
+    securityLogger.info("管理员手动调账", {
+      adminId,
+      adjustmentId,
+      userId: request.userId,
+      direction: request.direction,
+      amount: request.amount,
+      reason: request.reason,
+      balanceBefore: transaction.balanceBefore.toNumber(),
+      balanceAfter: transaction.balanceAfter.toNumber(),
+    });
+
+    return {
+      adjustmentId,
+      userId: request.userId,
+      direction: request.direction,
+      amount: transaction.amount,
+      balanceAfter: transaction.balanceAfter,
+    };
+  }
+
+  /**
+   * 按支付结果更新充值订单
+   * @param recharge - 充值订单
+   * @param status - 支付结果
+   * @param failureReason - 失败原因
+   * @returns 更新后的充值订单
+   */
+  private async settleRecharge(
+    recharge: RechargeOrder,
+    status: PaymentStatus,
+    failureReason: string
+  ): Promise<RechargeOrder> {
+    if (status === PaymentStatus.SUCCESS) {
+      const completed = await walletModel.completeRecharge(recharge);
+      if (completed) {
+        businessLogger.info("钱包充值到账", {
+          rechargeId: recharge.id,
+          userId: recharge.userId,
+          amount: recharge.amount.toNumber(),
+        });
+      }
+    } else if (status === PaymentStatus.FAILED) {
+      const failed = await walletModel.failRecharge(recharge.id, failureReason);
+      if (failed) {
+        businessLogger.info("钱包充值失败", {
+          rechargeId: recharge.id,
+          userId: recharge.userId,
+          reason: failureReason,
+        });
+      }
+    } else {
+      return recharge;
+    }
+
+    // 并发通知可能已先完成处理，返回数据库中的最新状态
+    const updatedRecharge = await walletModel.findRechargeById(
+      recharge.id,
+      recharge.userId
+    );
+    return updatedRecharge ?? recharge;
+  }
+}
+
+// 导出单例实例
+const walletService = new WalletService();
+export default walletService;
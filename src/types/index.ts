@@ -85,14 +85,26 @@ export enum JwtType {
   refresh,
 
   //临时临牌
-  temp
+  temp,
+
+  //商家访问令牌
+  merchant,
+
+  //骑手访问令牌
+  rider,
+
+  //订单报价令牌
+  quote,
+
+  //平台管理员访问令牌
+  admin
 }
 
 /**
  * JWT令牌载荷接口
  */
 export interface JwtPayload {
-  /** 用户ID */
+  /** 用户ID（商家、骑手令牌中分别为商家账号ID、骑手ID） */
   userId: number;
   /** JWT签发时间戳（Unix时间戳） */
   iat: number;
@@ -100,6 +112,18 @@ export interface JwtPayload {
   exp?: number;
   //令牌类型
   type: JwtType;
+  /** 商家令牌所属餐厅ID（仅商家令牌携带） */
+  restaurantId?: number;
+  /** 临时令牌用途（仅临时令牌携带） */
+  purpose?: string;
+  /** 用户会话ID（用户访问令牌和刷新令牌携带） */
+  sid?: number;
+  /** 刷新令牌唯一标识（仅刷新令牌携带，每次刷新轮换） */
+  jti?: string;
+  /** 账号角色编码列表（访问令牌携带） */
+  roles?: string[];
+  /** 账号权限编码列表（访问令牌携带） */
+  permissions?: string[];
 }
 
 /**
@@ -211,5 +235,32 @@ export enum HttpCode{
     INVALID_FILE_TYPE = 'INVALID_FILE_TYPE',
 
     //限流
-    RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED'
+    RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
+
+    //幂等键已被不同的请求使用
+    IDEMPOTENCY_KEY_CONFLICT = 'IDEMPOTENCY_KEY_CONFLICT',
+
+    //相同幂等键的请求正在处理中
+    IDEMPOTENCY_REQUEST_IN_PROGRESS = 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+
+    //订单报价已过期或已失效
+    QUOTE_EXPIRED = 'QUOTE_EXPIRED',
+
+    //购物车中有已下架或不可售的菜品
+    CART_ITEMS_UNAVAILABLE = 'CART_ITEMS_UNAVAILABLE',
+
+    //菜品已售罄或库存不足
+    DISH_SOLD_OUT = 'DISH_SOLD_OUT',
+
+    //餐厅不在营业时间或已暂停接单
+    RESTAURANT_CLOSED = 'RESTAURANT_CLOSED',
+
+    //期望送达时间无法送达（早于最快送达时间或超出营业时间）
+    DELIVERY_TIME_UNAVAILABLE = 'DELIVERY_TIME_UNAVAILABLE',
+
+    //收货地址超出餐厅配送范围
+    ADDRESS_OUT_OF_RANGE = 'ADDRESS_OUT_OF_RANGE',
+
+    //短信验证码错误、已过期或错误次数过多
+    INVALID_AUTH_CODE = 'INVALID_AUTH_CODE'
 }
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { GeoPoint, haversineDistance, isPointInPolygon } from "./geo";
+
+// 经线上1度对应的距离（米）
+const METERS_PER_DEGREE = (6371000 * Math.PI) / 180;
+
+const ORIGIN: GeoPoint = { latitude: 31.2304, longitude: 121.4737 };
+
+describe("haversineDistance", () => {
+  it("同一点的距离为0", () => {
+    expect(haversineDistance(ORIGIN, ORIGIN)).toBe(0);
+  });
+
+  it("沿经线方向的距离与纬度差成正比", () => {
+    const north = { ...ORIGIN, latitude: ORIGIN.latitude + 0.01 };
+
+    expect(haversineDistance(ORIGIN, north)).toBeCloseTo(
+      0.01 * METERS_PER_DEGREE,
+      3
+    );
+  });
+
+  it("纬度越高，相同经度差的距离越短", () => {
+    const equator = haversineDistance(
+      { latitude: 0, longitude: 0 },
+      { latitude: 0, longitude: 1 }
+    );
+
+    expect(equator).toBeCloseTo(METERS_PER_DEGREE, 3);
+    expect(
+      haversineDistance(
+        { latitude: 60, longitude: 0 },
+        { latitude: 60, longitude: 1 }
+      )
+    ).toBeCloseTo(equator / 2, -1);
+  });
+
+  it("起点终点互换距离不变", () => {
+    const to = { latitude: 31.2397, longitude: 121.4998 };
+
+    expect(haversineDistance(ORIGIN, to)).toBeCloseTo(
+      haversineDistance(to, ORIGIN),
+      6
+    );
+  });
+});
+
+describe("isPointInPolygon", () => {
+  const square: GeoPoint[] = [
+    { latitude: 0, longitude: 0 },
+    { latitude: 0, longitude: 2 },
+    { latitude: 2, longitude: 2 },
+    { latitude: 2, longitude: 0 },
+  ];
+  // 凹多边形（右上角缺一块的正方形）
+  const notched: GeoPoint[] = [
+    { latitude: 0, longitude: 0 },
+    { latitude: 0, longitude: 2 },
+    { latitude: 1, longitude: 2 },
+    { latitude: 1, longitude: 1 },
+    { latitude: 2, longitude: 1 },
+    { latitude: 2, longitude: 0 },
+  ];
+
+  it("判断点在凸多边形内外", () => {
+    expect(isPointInPolygon({ latitude: 1, longitude: 1 }, square)).toBe(true);
+    expect(isPointInPolygon({ latitude: 3, longitude: 1 }, square)).toBe(false);
+    expect(isPointInPolygon({ latitude: 1, longitude: -0.5 }, square)).toBe(false);
+  });
+
+  it("凹多边形缺口处的点不在多边形内", () => {
+    expect(isPointInPolygon({ latitude: 0.5, longitude: 1.5 }, notched)).toBe(true);
+    expect(isPointInPolygon({ latitude: 1.5, longitude: 1.5 }, notched)).toBe(false);
+    expect(isPointInPolygon({ latitude: 1.5, longitude: 0.5 }, notched)).toBe(true);
+  });
+});
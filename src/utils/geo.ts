@@ -0,0 +1,65 @@
+// 地理位置计算工具（不依赖外部地图服务）
+
+// 地球平均半径（米）
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * 经纬度坐标
+ */
+export interface GeoPoint {
+  /** 纬度 */
+  latitude: number;
+  /** 经度 */
+  longitude: number;
+}
+
+/**
+ * 角度转弧度
+ * @param degrees - 角度
+ * @returns 弧度
+ */
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * 使用 haversine 公式计算两点间的球面距离
+ * @param from - 起点
+ * @param to - 终点
+ * @returns 距离（米）
+ */
+export const haversineDistance = (from: GeoPoint, to: GeoPoint): number => {
+  const deltaLatitude = toRadians(to.latitude - from.latitude);
+  const deltaLongitude = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(deltaLatitude / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(deltaLongitude / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * 判断点是否在多边形内（射线法，配送范围较小时可将经纬度视为平面坐标）
+ * @param point - 待判断的点
+ * @param polygon - 多边形顶点，按顺序排列，首尾无需重复
+ * @returns 是否在多边形内
+ */
+export const isPointInPolygon = (point: GeoPoint, polygon: GeoPoint[]): boolean => {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const current = polygon[i]!;
+    const previous = polygon[j]!;
+    const intersects =
+      current.latitude > point.latitude !== previous.latitude > point.latitude &&
+      point.longitude <
+        ((previous.longitude - current.longitude) * (point.latitude - current.latitude)) /
+          (previous.latitude - current.latitude) +
+          current.longitude;
+    if (intersects) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+};
@@ -3,17 +3,31 @@ import config from "../config";
 import logger from "./logger";
 import { JwtPayload, JwtPayloadOut, JwtType } from "../types";
 import { TokenPair } from "../modules/user/models/user";
+import { QuoteTokenPayload } from "../modules/order/models/order";
+import { AccessGrants } from "../modules/rbac/models/rbac";
 
 /**
  * 生成JWT令牌
+ * 访问令牌和刷新令牌都携带会话ID，刷新令牌使用独立的密钥签名并携带 jti 用于轮换
+ * 访问令牌携带角色和权限，刷新时重新读取
  * @param userId - 用户ID
- * @param payload - 额外的载荷数据
+ * @param sessionId - 用户会话ID
+ * @param refreshJti - 刷新令牌唯一标识
+ * @param grants - 用户角色和权限
  * @returns 包含access_token和refresh_token的对象
  */
-const generateToken = (userId: number): TokenPair => {
+const generateToken = (
+  userId: number,
+  sessionId: number,
+  refreshJti: string,
+  grants: AccessGrants
+): TokenPair => {
   //生成访问令牌对象
   const normalTokenPayload: JwtPayload = {
     userId,
+    sid: sessionId,
+    roles: grants.roles,
+    permissions: grants.permissions,
     type: JwtType.normal,
     iat: Math.floor(Date.now() / 1000),
     exp: Math.floor(addTime(new Date(), config.jwt.expiresIn) / 1000),
@@ -22,20 +36,20 @@ const generateToken = (userId: number): TokenPair => {
   //生成刷新令牌
   const refreshTokenPayload: JwtPayload = {
     userId,
+    sid: sessionId,
+    jti: refreshJti,
     type: JwtType.refresh,
     iat: Math.floor(Date.now() / 1000),
     exp: Math.floor(addTime(new Date(), config.jwt.refreshExpiresIn) / 1000),
   };
 
-  logger.info("打印两个", normalTokenPayload, refreshTokenPayload);
-
   // 生成访问令牌
   const accessToken = jwt.sign(normalTokenPayload, config.jwt.secret);
 
   // 生成刷新令牌
-  const refreshToken = jwt.sign(refreshTokenPayload, config.jwt.secret);
+  const refreshToken = jwt.sign(refreshTokenPayload, config.jwt.refreshSecret);
 
-  logger.info(`Token generated for user: ${userId}`);
+  logger.info(`Token generated for user: ${userId}`, { sessionId });
 
   return {
     accessToken,
@@ -45,23 +59,96 @@ const generateToken = (userId: number): TokenPair => {
   };
 };
 
-//增加时间的工具方法 参数中接收jwt参数中的5d或者其他格式的数字。
-const addTime = (date: Date, amount: String): number => {
+/**
+ * 生成商家访问令牌
+ * @param merchantId - 商家账号ID
+ * @param restaurantId - 商家所属餐厅ID
+ * @param grants - 商家角色和权限
+ * @returns 商家访问令牌
+ */
+const generateMerchantToken = (
+  merchantId: number,
+  restaurantId: number,
+  grants: AccessGrants
+): string => {
+  const merchantTokenPayload: JwtPayload = {
+    userId: merchantId,
+    restaurantId,
+    roles: grants.roles,
+    permissions: grants.permissions,
+    type: JwtType.merchant,
+    iat: Math.floor(Date.now() / 1000),
+    exp: Math.floor(addTime(new Date(), config.jwt.expiresIn) / 1000),
+  };
+
+  logger.info(`Merchant token generated for merchant: ${merchantId}`);
+
+  return jwt.sign(merchantTokenPayload, config.jwt.secret);
+};
+
+/**
+ * 生成骑手访问令牌
+ * @param riderId - 骑手ID
+ * @param grants - 骑手角色和权限
+ * @returns 骑手访问令牌
+ */
+const generateRiderToken = (riderId: number, grants: AccessGrants): string => {
+  const riderTokenPayload: JwtPayload = {
+    userId: riderId,
+    roles: grants.roles,
+    permissions: grants.permissions,
+    type: JwtType.rider,
+    iat: Math.floor(Date.now() / 1000),
+    exp: Math.floor(addTime(new Date(), config.jwt.expiresIn) / 1000),
+  };
+
+  logger.info(`Rider token generated for rider: ${riderId}`);
+
+  return jwt.sign(riderTokenPayload, config.jwt.secret);
+};
+
+/**
+ * 生成平台管理员访问令牌
+ * @param adminId - 管理员ID
+ * @param grants - 管理员角色和权限
+ * @returns 管理员访问令牌
+ */
+const generateAdminToken = (adminId: number, grants: AccessGrants): string => {
+  const adminTokenPayload: JwtPayload = {
+    userId: adminId,
+    roles: grants.roles,
+    permissions: grants.permissions,
+    type: JwtType.admin,
+    iat: Math.floor(Date.now() / 1000),
+    exp: Math.floor(addTime(new Date(), config.jwt.expiresIn) / 1000),
+  };
+
+  logger.info(`Admin token generated for admin: ${adminId}`);
+
+  return jwt.sign(adminTokenPayload, config.jwt.secret);
+};
+
+//增加时间的工具方法 参数中接收jwt参数中的5d、15m或者其他格式的时长。
+const addTime = (date: Date, amount: string): number => {
   const result = new Date(date);
-  const addNum: number = Number(amount.substring(0, 1));
-  const unit: String = amount.substring(1, 2);
-  switch (unit) {
+  const matched = /^(\d+)([dhms])$/.exec(amount);
+  if (!matched) {
+    throw new Error("不支持的类型参数");
+  }
+  const addNum: number = Number(matched[1]);
+  switch (matched[2]) {
     case "d":
       result.setDate(result.getDate() + addNum);
       break;
+    case "h":
+      result.setHours(result.getHours() + addNum);
+      break;
     case "m":
       result.setMinutes(result.getMinutes() + addNum);
       break;
     case "s":
       result.setSeconds(result.getSeconds() + addNum);
       break;
-    default:
-      new Error("不支持的类型参数");
   }
   return result.getTime();
 };
@@ -69,15 +156,19 @@ const addTime = (date: Date, amount: String): number => {
 /**
  * 验证JWT令牌
  * @param token - JWT令牌
+ * @param secret - 签名密钥，默认为访问令牌密钥
  * @returns 解码后的载荷数据
  */
-const verifyToken = (token: string): JwtPayloadOut => {
+const verifyToken = (
+  token: string,
+  secret: string = config.jwt.secret
+): JwtPayloadOut => {
   const out: JwtPayloadOut = {
     isExpired: false,
     isValid: false,
   };
   try {
-    out.jwtPayload = jwt.verify(token, config.jwt.secret) as JwtPayload;
+    out.jwtPayload = jwt.verify(token, secret) as JwtPayload;
   } catch (jwtError) {
     logger.error(
       "令牌验证失败:",
@@ -107,26 +198,19 @@ const verifyAccessToken = (token: string): JwtPayloadOut => {
 
 /**
  * 验证刷新令牌
+ * 使用刷新令牌密钥验签，非刷新令牌视为无效令牌
  * @param token - 刷新令牌
  * @returns 解码后的载荷数据
  */
 const verifyRefreshToken = (token: string): JwtPayloadOut => {
-  try {
-    const decoded = verifyToken(token);
-
-    // 检查是否是刷新令牌
-    if ((decoded as any).type !== "refresh") {
-      throw new Error("Invalid token type");
-    }
+  const decoded = verifyToken(token, config.jwt.refreshSecret);
 
-    return decoded;
-  } catch (error) {
-    logger.error(
-      "Refresh token verification failed:",
-      error instanceof Error ? error.message : "Unknown error"
-    );
-    throw error;
+  if (decoded.jwtPayload && decoded.jwtPayload.type !== JwtType.refresh) {
+    logger.error("Refresh token verification failed: invalid token type");
+    return { isExpired: false, isValid: true };
   }
+
+  return decoded;
 };
 
 /**
@@ -181,17 +265,20 @@ const getTokenRemainingTime = (token: string): number => {
  * @param userId - 用户ID
  * @param purpose - 令牌用途
  * @param expiresIn - 过期时间（秒）
+ * @param jti - 令牌唯一标识，可选，需要服务端记录使用状态的令牌传入
  * @returns 临时令牌
  */
 const generateTempToken = (
   userId: number,
   purpose: string,
-  expiresIn: number = 3600
+  expiresIn: number = 3600,
+  jti?: string
 ): string => {
   const payload = {
     userId,
     purpose,
     type: JwtType.temp,
+    ...(jti && { jti }),
   };
 
   return jwt.sign(payload, config.jwt.secret, { expiresIn });
@@ -207,8 +294,9 @@ const verifyTempToken = (token: string, purpose: string): JwtPayloadOut => {
   const decoded = verifyToken(token);
 
   if (
-    (decoded as any).type !== "temp" ||
-    (decoded as any).purpose !== purpose
+    decoded.jwtPayload &&
+    (decoded.jwtPayload.type !== JwtType.temp ||
+      decoded.jwtPayload.purpose !== purpose)
   ) {
     throw new Error("Invalid token type or purpose");
   }
@@ -216,12 +304,58 @@ const verifyTempToken = (token: string, purpose: string): JwtPayloadOut => {
   return decoded;
 };
 
+/**
+ * 生成订单报价令牌
+ * @param payload - 报价载荷
+ * @param expiresIn - 过期时间（秒）
+ * @returns 报价令牌
+ */
+const generateQuoteToken = (
+  payload: QuoteTokenPayload,
+  expiresIn: number
+): string => {
+  return jwt.sign({ ...payload, type: JwtType.quote }, config.jwt.secret, {
+    expiresIn,
+  });
+};
+
+/**
+ * 验证订单报价令牌
+ * @param token - 报价令牌
+ * @returns 报价载荷，令牌无效或过期时不返回载荷
+ */
+const verifyQuoteToken = (
+  token: string
+): { payload?: QuoteTokenPayload; isExpired: boolean } => {
+  try {
+    const decoded = jwt.verify(token, config.jwt.secret) as QuoteTokenPayload & {
+      type: JwtType;
+    };
+    if (decoded.type !== JwtType.quote) {
+      return { isExpired: false };
+    }
+    return { payload: decoded, isExpired: false };
+  } catch (jwtError) {
+    logger.warn(
+      "报价令牌验证失败:",
+      jwtError instanceof Error ? jwtError.message : "Unknown error"
+    );
+    return { isExpired: jwtError instanceof jwt.TokenExpiredError };
+  }
+};
+
 export {
+  addTime,
   generateToken,
+  generateMerchantToken,
+  generateRiderToken,
+  generateAdminToken,
   verifyAccessToken,
   verifyRefreshToken,
   decodeToken,
   getTokenRemainingTime,
   generateTempToken,
   verifyTempToken,
+  generateQuoteToken,
+  verifyQuoteToken,
 };
@@ -1,6 +1,7 @@
 import nodemailer from 'nodemailer';
 import config from '../config/index.js';
 import logger from './logger';
+import smsProvider from './sms';
 
 // 邮件传输器
 let emailTransporter: nodemailer.Transporter | undefined;
@@ -200,24 +201,14 @@ const sendOrderConfirmationEmail = async (email: string, orderData: OrderData):
 };
 
 /**
- * 发送短信（模拟）
+ * 发送短信
  * @param phone - 手机号
  * @param message - 短信内容
  * @returns 发送结果
  */
 const sendSMS = async (phone: string, message: string): Promise<boolean> => {
-  if (!config.smsAccessKey || !config.smsAccessSecret) {
-    logger.warn('SMS service not configured');
-    return false;
-  }
-
   try {
-    // 这里应该集成真实的短信服务
-    // 如阿里云短信、腾讯云短信等
-    logger.info(`SMS sent to ${phone}: ${message}`);
-
-    // 模拟发送成功
-    return true;
+    return await smsProvider.send(phone, message);
   } catch (error) {
     logger.error('SMS send failed:', error);
     return false;
@@ -232,7 +223,8 @@ const sendSMS = async (phone: string, message: string): Promise<boolean> => {
  * @returns 发送结果
  */
 const sendSMSCode = async (phone: string, code: string, type: string = '注册'): Promise<boolean> => {
-  const message = `【GoodPayBack】您的${type}验证码是${code}，5分钟内有效。请勿泄露给他人。`;
+  const minutes = Math.ceil(config.smsCodeTtlSeconds / 60);
+  const message = `【GoodPayBack】您的${type}验证码是${code}，${minutes}分钟内有效。请勿泄露给他人。`;
   return await sendSMS(phone, message);
 };
 
@@ -0,0 +1,89 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import config from '../config/index.js';
+import logger from './logger';
+
+/**
+ * 短信服务商接口
+ * 接入阿里云短信、腾讯云短信等服务时实现此接口并在 createSmsProvider 中注册，通过 SMS_PROVIDER 选择
+ */
+export interface SmsProvider {
+  /** 服务商名称 */
+  readonly name: string;
+  /** 是否为本地替身（不实际发送短信，不能用于生产环境） */
+  readonly local: boolean;
+
+  /**
+   * 发送短信
+   * @param phone - 手机号
+   * @param message - 短信内容
+   * @returns 是否发送成功
+   */
+  send(phone: string, message: string): Promise<boolean>;
+}
+
+/**
+ * 本地短信替身
+ * 不实际发送短信，开发环境将短信内容输出到日志，配置了发件箱文件时同时追加写入文件，供本地开发和测试查看验证码
+ */
+export class ConsoleSmsProvider implements SmsProvider {
+  readonly name = 'console';
+  readonly local = true;
+
+  constructor(private outboxFile: string) {}
+
+  async send(phone: string, message: string): Promise<boolean> {
+    // 短信内容含验证码明文，只在开发环境输出到日志
+    if (config.nodeEnv === 'development') {
+      logger.info(`SMS sent to ${phone}: ${message}`, { provider: this.name });
+    } else {
+      logger.info(`SMS sent to ${phone}`, { provider: this.name });
+    }
+
+    if (this.outboxFile) {
+      try {
+        await fs.mkdir(path.dirname(this.outboxFile), { recursive: true });
+        await fs.appendFile(
+          this.outboxFile,
+          `${new Date().toISOString()}\t${phone}\t${message}\n`,
+          'utf8'
+        );
+      } catch (error) {
+        logger.error('SMS outbox write failed:', error);
+        return false;
+      }
+    }
+
+    return true;
+  }
+}
+
+/**
+ * 按名称创建短信服务商
+ * @param name - 服务商名称
+ * @returns 短信服务商
+ */
+const createSmsProvider = (name: string): SmsProvider => {
+  switch (name) {
+    case 'console':
+      return new ConsoleSmsProvider(config.smsOutboxFile);
+    default:
+      throw new Error(`Unsupported SMS provider: ${name}`);
+  }
+};
+
+// 导出按配置选择的短信服务商实例
+const smsProvider: SmsProvider = createSmsProvider(config.smsProvider);
+
+/**
+ * 校验短信服务商配置（服务启动时调用），生产环境不允许使用本地替身
+ */
+export const assertSmsProviderConfigured = (): void => {
+  if (config.nodeEnv === 'production' && smsProvider.local) {
+    throw new Error(
+      `SMS provider "${smsProvider.name}" does not send real messages, configure SMS_PROVIDER for production`
+    );
+  }
+};
+
+export default smsProvider;